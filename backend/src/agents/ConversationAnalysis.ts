@@ -0,0 +1,46 @@
+import type { DecodedMessage } from "@xmtp/node-sdk";
+
+export type AnalyzedMessage = Pick<DecodedMessage, "content" | "senderInboxId" | "sentAt">;
+export type ActivityLevel = "low" | "medium" | "high";
+
+/**
+ * Extract topics from messages using simple keyword analysis
+ */
+export const extractTopics = (messages: AnalyzedMessage[]): string[] => {
+  const messageTexts = messages
+    .map(m => m.content as string)
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+  // Simple keyword extraction
+  const keywords = [
+    "web3", "crypto", "nft", "defi", "dao", "blockchain", "ethereum", "bitcoin",
+    "art", "music", "design", "creative", "build", "code", "develop",
+    "learn", "teach", "help", "mentor", "guide", "skill",
+    "compete", "challenge", "game", "contest", "tournament",
+    "community", "team", "collaborate", "together", "group"
+  ];
+
+  return keywords.filter(keyword => messageTexts.includes(keyword));
+};
+
+/**
+ * Calculate activity level based on recent messages
+ */
+export const calculateActivityLevel = (recentMessages: AnalyzedMessage[]): ActivityLevel => {
+  const messageCount = recentMessages.length;
+  if (messageCount < 5) return "low";
+  if (messageCount < 15) return "medium";
+  return "high";
+};
+
+/**
+ * Calculate engagement score (0-100): the share of members who sent a message
+ */
+export const calculateEngagement = (messages: AnalyzedMessage[], members: unknown[]): number => {
+  if (messages.length === 0 || members.length === 0) return 0;
+
+  const uniqueSenders = new Set(messages.map(m => m.senderInboxId)).size;
+  return Math.min(100, (uniqueSenders / members.length) * 100);
+};
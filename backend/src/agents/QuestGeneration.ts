@@ -0,0 +1,271 @@
+import { z } from "zod";
+import { QuestSchema, ProofTypeSchema, QuizQuestionSchema } from "../types/Quest";
+import { formatZodIssues } from "../helper";
+
+// Ranges the model is asked to stay within; out-of-range values are clamped
+export const QUEST_GENERATION_LIMITS = {
+  titleLength: 60,
+  descriptionLength: 200,
+  duration: { min: 15, max: 120 },
+  minParticipants: { min: 1, max: 5 },
+  maxParticipants: { min: 2, max: 20 },
+  xp: { min: 50, max: 500 },
+  tokens: { min: 5, max: 100 },
+  proofInstructionsLength: 140,
+  confirmations: { min: 1, max: 3 },
+  rubricCriteria: 5,
+  criterionLength: 40,
+  criterionWeight: { min: 1, max: 5 },
+  questions: 5,
+  questionLength: 200,
+  choices: { min: 2, max: 6 },
+  voteOptions: { min: 2, max: 6 },
+  voteDuration: { min: 5, max: 60 },
+  teamSize: { min: 2, max: 5 },
+  chainSteps: { min: 2, max: 5 },
+  chainBonusXp: { min: 50, max: 1000 },
+} as const;
+
+// First line of quest chain prompts, so providers can tell them apart
+export const CHAIN_PROMPT_HEADER = "Design a quest chain";
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) =>
+  Math.min(max, Math.max(min, Math.round(value)));
+
+const clampedNumber = (range: { min: number; max: number }) =>
+  z.coerce.number().finite().transform(value => clamp(value, range));
+
+const truncatedString = (maxLength: number) =>
+  z.string().trim().min(1).transform(value => value.slice(0, maxLength));
+
+// Models sometimes answer "Social Challenge" or "HARD"; normalise before matching the enum
+const normalizedEnum = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    value => (typeof value === "string" ? value.trim().toLowerCase().replace(/[\s-]+/g, "_") : value),
+    schema,
+  );
+
+const optionalString = (maxLength: number) =>
+  truncatedString(maxLength).optional().catch(undefined);
+
+const stringList = z
+  .array(z.coerce.string())
+  .catch([])
+  .default([]);
+
+const GeneratedQuestionSchema = z
+  .object({
+    prompt: truncatedString(QUEST_GENERATION_LIMITS.questionLength),
+    kind: normalizedEnum(QuizQuestionSchema.shape.kind),
+    choices: z.array(z.coerce.string().trim().min(1)).max(QUEST_GENERATION_LIMITS.choices.max).optional(),
+    answer: z.coerce.string().trim().min(1),
+    acceptedAnswers: stringList,
+  })
+  .transform(question => {
+    if (question.kind !== "multiple_choice") {
+      return { ...question, choices: undefined };
+    }
+    // Models answer multiple choice with the letter as often as the text
+    const choices = question.choices ?? [];
+    const letter = /^[a-j]$/i.test(question.answer) ? question.answer.toLowerCase().charCodeAt(0) - 97 : -1;
+    const answer = choices[letter] ?? choices.find(c => c.toLowerCase() === question.answer.toLowerCase());
+    return { ...question, choices, answer: answer ?? "" };
+  })
+  .refine(
+    question => question.kind === "short_answer" ||
+      ((question.choices?.length ?? 0) >= QUEST_GENERATION_LIMITS.choices.min && question.answer !== ""),
+    "Multiple choice questions need at least two choices and an answer that is one of them"
+  );
+
+// Invalid questions are dropped rather than failing the whole quest
+const generatedQuestions = z
+  .array(z.unknown())
+  .transform(items =>
+    items
+      .map(item => GeneratedQuestionSchema.safeParse(item))
+      .filter(result => result.success)
+      .map((result, index) => ({ ...result.data, id: `q${index + 1}` }))
+      .slice(0, QUEST_GENERATION_LIMITS.questions)
+  )
+  .transform(questions => (questions.length > 0 ? questions : undefined))
+  .optional()
+  .catch(undefined);
+
+/**
+ * Shape of the quest fields the model is asked to produce. Numbers may arrive
+ * as strings and are coerced and clamped to QUEST_GENERATION_LIMITS.
+ */
+export const GeneratedQuestSchema = z
+  .object({
+    title: truncatedString(QUEST_GENERATION_LIMITS.titleLength),
+    description: truncatedString(QUEST_GENERATION_LIMITS.descriptionLength),
+    type: normalizedEnum(QuestSchema.shape.type),
+    difficulty: normalizedEnum(QuestSchema.shape.difficulty),
+    duration: clampedNumber(QUEST_GENERATION_LIMITS.duration),
+    participantLimits: z.object({
+      min: clampedNumber(QUEST_GENERATION_LIMITS.minParticipants),
+      max: clampedNumber(QUEST_GENERATION_LIMITS.maxParticipants),
+    }),
+    rewards: z.object({
+      xp: clampedNumber(QUEST_GENERATION_LIMITS.xp),
+      tokens: clampedNumber(QUEST_GENERATION_LIMITS.tokens).optional().catch(undefined),
+      badges: stringList,
+    }),
+    requirements: stringList,
+    // Quests without a usable proof fall back to the default for their type
+    proof: z
+      .object({
+        // Game results are only asked for by game quests, see isGameQuest
+        type: normalizedEnum(ProofTypeSchema.exclude(["game_result"])),
+        instructions: optionalString(QUEST_GENERATION_LIMITS.proofInstructionsLength),
+        expectedAnswer: optionalString(QUEST_GENERATION_LIMITS.proofInstructionsLength),
+        domain: optionalString(QUEST_GENERATION_LIMITS.titleLength),
+        confirmations: clampedNumber(QUEST_GENERATION_LIMITS.confirmations).optional().catch(undefined),
+      })
+      .optional()
+      .catch(undefined),
+    // Question bank for knowledge quests
+    questions: generatedQuestions,
+    // Scoring rubric for judged quests such as creative contests
+    rubric: z
+      .array(
+        z.object({
+          criterion: truncatedString(QUEST_GENERATION_LIMITS.criterionLength),
+          description: optionalString(QUEST_GENERATION_LIMITS.proofInstructionsLength),
+          weight: clampedNumber(QUEST_GENERATION_LIMITS.criterionWeight).catch(1),
+        })
+      )
+      .min(1)
+      .transform(criteria => criteria.slice(0, QUEST_GENERATION_LIMITS.rubricCriteria))
+      .optional()
+      .catch(undefined),
+    // Peer vote on the entries or on fixed options
+    vote: z
+      .object({
+        subject: normalizedEnum(z.enum(["submissions", "options"])),
+        options: z
+          .array(truncatedString(QUEST_GENERATION_LIMITS.criterionLength))
+          .max(QUEST_GENERATION_LIMITS.voteOptions.max)
+          .optional()
+          .catch(undefined),
+        rankedChoice: z.boolean().catch(false).default(false),
+        duration: clampedNumber(QUEST_GENERATION_LIMITS.voteDuration).optional().catch(undefined),
+      })
+      .refine(
+        vote => vote.subject === "submissions" || (vote.options?.length ?? 0) >= QUEST_GENERATION_LIMITS.voteOptions.min,
+        "Option votes need at least two options"
+      )
+      .optional()
+      .catch(undefined),
+    // Teams sharing their rewards
+    teams: z
+      .object({
+        size: clampedNumber(QUEST_GENERATION_LIMITS.teamSize),
+        formation: normalizedEnum(z.enum(["auto", "self"])).catch("auto"),
+        split: normalizedEnum(z.enum(["equal", "contribution"])).catch("equal"),
+      })
+      .optional()
+      .catch(undefined),
+    miniAppConfig: z
+      .object({
+        type: normalizedEnum(QuestSchema.shape.miniAppConfig.shape.type),
+        config: z.record(z.any()).default({}),
+      })
+      .catch({ type: "dashboard", config: { theme: "default", features: [] } }),
+  })
+  .transform(quest => ({
+    ...quest,
+    participantLimits: {
+      min: quest.participantLimits.min,
+      max: Math.max(quest.participantLimits.min, quest.participantLimits.max),
+    },
+    // Judged quests rank individual entries, so they are not played in teams
+    teams: quest.type === "creative_contest" || quest.rubric || quest.vote ? undefined : quest.teams,
+  }));
+
+export type GeneratedQuest = z.infer<typeof GeneratedQuestSchema>;
+
+export type GeneratedQuestResult =
+  | { success: true; quest: GeneratedQuest }
+  | { success: false; errors: string[] };
+
+/**
+ * Extract the JSON object from a model response. Tolerates markdown code
+ * fences and text around the object.
+ */
+export const parseJsonObject = (
+  response: string
+): { success: true; data: unknown } | { success: false; errors: string[] } => {
+  const start = response.indexOf("{");
+  const end = response.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return { success: false, errors: ["Response does not contain a JSON object"] };
+  }
+
+  try {
+    return { success: true, data: JSON.parse(response.slice(start, end + 1)) };
+  } catch (error) {
+    return { success: false, errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+};
+
+/**
+ * Parse and validate a raw model response
+ */
+export const parseGeneratedQuest = (response: string): GeneratedQuestResult => {
+  const json = parseJsonObject(response);
+  if (!json.success) {
+    return json;
+  }
+
+  const result = GeneratedQuestSchema.safeParse(json.data);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: formatZodIssues(result.error, "quest"),
+    };
+  }
+  return { success: true, quest: result.data };
+};
+
+/**
+ * Storyline of quests the model is asked to produce for a quest chain
+ */
+export const GeneratedChainSchema = z.object({
+  title: truncatedString(QUEST_GENERATION_LIMITS.titleLength),
+  description: truncatedString(QUEST_GENERATION_LIMITS.descriptionLength),
+  bonus: z.object({
+    xp: clampedNumber(QUEST_GENERATION_LIMITS.chainBonusXp),
+    tokens: clampedNumber(QUEST_GENERATION_LIMITS.tokens).optional().catch(undefined),
+    badges: stringList,
+  }),
+  steps: z
+    .array(GeneratedQuestSchema)
+    .min(QUEST_GENERATION_LIMITS.chainSteps.min)
+    .transform(steps => steps.slice(0, QUEST_GENERATION_LIMITS.chainSteps.max)),
+});
+
+export type GeneratedChain = z.infer<typeof GeneratedChainSchema>;
+
+export type GeneratedChainResult =
+  | { success: true; chain: GeneratedChain }
+  | { success: false; errors: string[] };
+
+/**
+ * Parse and validate a raw model response for a quest chain
+ */
+export const parseGeneratedChain = (response: string): GeneratedChainResult => {
+  const json = parseJsonObject(response);
+  if (!json.success) {
+    return json;
+  }
+
+  const result = GeneratedChainSchema.safeParse(json.data);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: formatZodIssues(result.error, "chain"),
+    };
+  }
+  return { success: true, chain: result.data };
+};
@@ -1,8 +1,38 @@
 import { EventEmitter } from "events";
 import type { Group, DecodedMessage } from "@xmtp/node-sdk";
 import { v4 as uuidv4 } from "uuid";
-import OpenAI from "openai";
-import type { Quest, UserProfile, QuestCompletion, QuestMasterPersonality } from "../types/Quest";
+import {
+  QuestSchema,
+  type Quest,
+  type QuestCompletion,
+  type QuestStatus,
+  type QuestMasterPersonality,
+  type QuestTeam,
+  type QuestChain,
+  type QuestRejection,
+} from "../types/Quest";
+import type { JudgedPlacement, LevelUp, QuestStore } from "../services/QuestStore";
+import type { VoteTally } from "../services/VoteTally";
+import type { QuestExpirySummary } from "../services/QuestScheduler";
+import { describeProofRequirement, resolveProofRequirement } from "../services/ProofVerifiers";
+import { checkRequirements, describeRequirements } from "../services/QuestRequirements";
+import type { BadgeRegistry } from "../services/BadgeRegistry";
+import type { ChatMessage, LLMProvider } from "../llm/LLMProvider";
+import { QuestVoice } from "./QuestVoice";
+import type { ContestPlacement } from "./ContestJudging";
+import type { ChainDraft } from "../services/ChainService";
+import { calculateActivityLevel, calculateEngagement, extractTopics } from "./ConversationAnalysis";
+import {
+  CHAIN_PROMPT_HEADER,
+  QUEST_GENERATION_LIMITS as LIMITS,
+  parseGeneratedChain,
+  parseGeneratedQuest,
+  type GeneratedQuest,
+} from "./QuestGeneration";
+import { formatZodIssues } from "../helper";
+
+// Attempts per quest before the generated output is rejected
+const MAX_GENERATION_ATTEMPTS = 3;
 
 export const QUEST_MASTER_PERSONALITIES: QuestMasterPersonality[] = [
   {
@@ -88,22 +118,24 @@ Always respond with a JSON object containing quest details that will expand tech
 ];
 
 export class QuestMaster extends EventEmitter {
-  private openai: OpenAI;
+  private llm: LLMProvider;
+  private voice: QuestVoice;
   private _personality: QuestMasterPersonality;
-  private userProfiles: Map<string, UserProfile> = new Map();
-  private activeQuests: Map<string, Quest> = new Map();
-  private conversationAnalytics: Map<string, any> = new Map();
+  private store: QuestStore;
+  private badges: BadgeRegistry;
 
   constructor(
     personality: QuestMasterPersonality,
-    openaiApiKey: string,
-    model: string = "gpt-4o"
+    store: QuestStore,
+    badges: BadgeRegistry,
+    llm: LLMProvider
   ) {
     super();
     this._personality = personality;
-    this.openai = new OpenAI({
-      apiKey: openaiApiKey,
-    });
+    this.store = store;
+    this.badges = badges;
+    this.llm = llm;
+    this.voice = new QuestVoice(personality, llm);
   }
 
   /**
@@ -133,8 +165,9 @@ export class QuestMaster extends EventEmitter {
         recentMessages,
         groupMembers
       );
+      const difficulties = this.openDifficulties(groupMembers);
 
-      // Create quest using real OpenAI
+      // Create quest with the configured LLM provider
       const questPrompt = `${this._personality.systemPrompt}
 
 Based on the following conversation analysis, create an engaging quest:
@@ -143,97 +176,281 @@ Group Size: ${groupMembers.length} members
 Activity Level: ${conversationAnalysis.activityLevel}
 Recent Topics: ${conversationAnalysis.topics.join(", ")}
 Engagement Score: ${conversationAnalysis.engagement}
+${this.describeDifficulties(difficulties)}
 Time of Day: ${new Date().getHours()}:00
 Recent Context: ${this.summarizeRecentMessages(recentMessages)}
 
 Create a quest that fits my personality (${this._personality.name}) and preferred quest types: ${this._personality.questTypes.join(", ")}.
 
-Respond with a JSON object in this exact format:
+Respond with only a JSON object in this exact format. Numbers must be JSON numbers, not strings:
+${this.questJsonFormat()}`;
+
+      const quest = await this.generateValidated(conversation.id, questPrompt, 1000, response => {
+        const result = parseGeneratedQuest(response);
+        return result.success ? this.buildQuest(result.quest, conversation.id, difficulties) : result;
+      });
+      if (!quest) {
+        return null;
+      }
+
+      this.store.createQuest(quest);
+      this.emit("questCreated", quest, conversation.id);
+      return quest;
+
+    } catch (error) {
+      console.error("Error creating quest:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Generate a quest chain: a storyline of quests played in order. The quests
+   * are returned unsaved for ChainService to store.
+   */
+  async analyzeAndCreateChain(
+    conversation: Group<any>,
+    recentMessages: DecodedMessage[],
+    groupMembers: any[],
+    steps: number
+  ): Promise<ChainDraft | null> {
+    try {
+      const conversationAnalysis = await this.analyzeConversation(recentMessages, groupMembers);
+      const difficulties = this.openDifficulties(groupMembers);
+      const stepCount = Math.min(LIMITS.chainSteps.max, Math.max(LIMITS.chainSteps.min, Math.round(steps)));
+
+      const chainPrompt = `${CHAIN_PROMPT_HEADER} for this group chat.
+
+${this._personality.systemPrompt}
+
+Group Size: ${groupMembers.length} members
+Recent Topics: ${conversationAnalysis.topics.join(", ")}
+Recent Context: ${this.summarizeRecentMessages(recentMessages)}
+${this.describeDifficulties(difficulties)}
+Steps: ${stepCount}
+
+Write a storyline of ${stepCount} quests that build on each other, played one after another over several days. Each step should feel like the next chapter: start easy and end with the hardest quest. Players who finish every step earn the chain bonus.
+
+Respond with only a JSON object in this exact format. Numbers must be JSON numbers, not strings:
 {
-  "title": "Quest title (max 60 characters)",
-  "description": "Detailed quest description (max 200 characters)",
+  "title": "storyline title (max ${LIMITS.titleLength} characters)",
+  "description": "what the storyline is about (max ${LIMITS.descriptionLength} characters)",
+  "bonus": {
+    "xp": <bonus XP for finishing every step, ${LIMITS.chainBonusXp.min}-${LIMITS.chainBonusXp.max}>,
+    "tokens": <bonus tokens, ${LIMITS.tokens.min}-${LIMITS.tokens.max}, optional>,
+    "badges": ["badge for finishing the storyline"]
+  },
+  "steps": [
+    ${stepCount} quests in order, each in this format:
+${this.questJsonFormat()}
+  ]
+}`;
+
+      const generated = await this.generateValidated(conversation.id, chainPrompt, 3000, response => {
+        const result = parseGeneratedChain(response);
+        if (!result.success) {
+          return result;
+        }
+        const quests: Quest[] = [];
+        const errors: string[] = [];
+        result.chain.steps.forEach((step, index) => {
+          const built = this.buildQuest(step, conversation.id, difficulties);
+          if (built.success) {
+            quests.push(built.value);
+          } else {
+            errors.push(...built.errors.map(error => `steps.${index}.${error}`));
+          }
+        });
+        return errors.length > 0 ? { success: false, errors } : { success: true, value: { chain: result.chain, quests } };
+      });
+      if (!generated) {
+        return null;
+      }
+
+      return {
+        title: generated.chain.title,
+        description: generated.chain.description,
+        conversationId: conversation.id,
+        questMaster: this._personality.name,
+        quests: generated.quests,
+        bonus: generated.chain.bonus,
+      };
+    } catch (error) {
+      console.error("Error creating quest chain:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Fields of a generated quest, as the model is asked to write them
+   */
+  private questJsonFormat(): string {
+    return `{
+  "title": "Quest title (max ${LIMITS.titleLength} characters)",
+  "description": "Detailed quest description (max ${LIMITS.descriptionLength} characters)",
   "type": "one of: social_challenge, knowledge_quest, creative_contest, community_building, cross_protocol",
   "difficulty": "one of: easy, medium, hard, expert",
-  "duration": "duration in minutes (15-120)",
+  "duration": <duration in minutes, ${LIMITS.duration.min}-${LIMITS.duration.max}>,
   "participantLimits": {
-    "min": "minimum participants (1-5)",
-    "max": "maximum participants (2-20)"
+    "min": <minimum participants, ${LIMITS.minParticipants.min}-${LIMITS.minParticipants.max}>,
+    "max": <maximum participants, ${LIMITS.maxParticipants.min}-${LIMITS.maxParticipants.max}>
   },
   "rewards": {
-    "xp": "XP reward (50-500)",
-    "tokens": "token reward (5-100, optional)",
+    "xp": <XP reward, ${LIMITS.xp.min}-${LIMITS.xp.max}>,
+    "tokens": <token reward, ${LIMITS.tokens.min}-${LIMITS.tokens.max}, optional>,
     "badges": ["badge names if applicable"]
   },
-  "requirements": ["list of requirements if any"],
+  "requirements": ["requirements if any, as free text or rules players must meet to join: level:<n> or badge:<name>"],
+  "proof": {
+    "type": "how completion is proven, one of: text, image, link, group_message, peer_confirmation, tx_hash",
+    "instructions": "what participants must submit (max ${LIMITS.proofInstructionsLength} characters)",
+    "expectedAnswer": "the single correct answer for text proofs, omit if answers vary",
+    "domain": "required website for link proofs, e.g. github.com, optional",
+    "confirmations": <peer confirmations needed for peer_confirmation, ${LIMITS.confirmations.min}-${LIMITS.confirmations.max}, optional>
+  },
+  "questions": [
+    { "prompt": "question text", "kind": "multiple_choice", "choices": ["option", "option", "option", "option"], "answer": "the correct option, copied exactly" },
+    { "prompt": "question text", "kind": "short_answer", "answer": "canonical answer, a few words", "acceptedAnswers": ["other accepted spellings"] }
+  ] (knowledge_quest only: up to ${LIMITS.questions} questions with unambiguous, factual answers; omit for other types),
+  "rubric": [
+    { "criterion": "what judges score, e.g. Originality", "description": "what a high score looks like", "weight": <importance, ${LIMITS.criterionWeight.min}-${LIMITS.criterionWeight.max}> }
+  ] (creative_contest only: ${LIMITS.rubricCriteria} criteria at most, omit for other types),
+  "vote": {
+    "subject": "submissions to let the group vote on the entries instead of AI judging, or options for a poll",
+    "options": ["poll options, ${LIMITS.voteOptions.min}-${LIMITS.voteOptions.max}, options votes only"],
+    "rankedChoice": <true to let voters rank the candidates, optional>,
+    "duration": <minutes voting stays open after entries close, ${LIMITS.voteDuration.min}-${LIMITS.voteDuration.max}, submissions votes only>
+  } (optional, for social_challenge and creative_contest quests decided by the group; use miniAppConfig type poll),
+  "teams": {
+    "size": <members per team, ${LIMITS.teamSize.min}-${LIMITS.teamSize.max}>,
+    "formation": "auto to have teams balanced when the quest starts, or self to let participants pick their teams",
+    "split": "equal to share the team's XP evenly, or contribution to reward each member by their part"
+  } (optional, for quests that are more fun together; not for judged or voted quests),
   "miniAppConfig": {
     "type": "one of: dashboard, game, poll, leaderboard, gallery",
     "config": {
       "theme": "quest theme",
-      "features": ["list of features"]
+      "features": ["list of features"],
+      "game": "game mini apps only, optional: trivia_race, word_chain or emoji_riddle; players complete the quest by scoring well"
     }
   }
 }`;
+  }
 
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: questPrompt
-          }
-        ],
+  /**
+   * Ask the model until its response validates, feeding the problems back
+   * after each failed attempt. Returns null and records a rejection when
+   * every attempt fails.
+   */
+  private async generateValidated<T>(
+    conversationId: string,
+    prompt: string,
+    maxTokens: number,
+    parse: (response: string) => { success: true; value: T } | { success: false; errors: string[] }
+  ): Promise<T | null> {
+    const messages: ChatMessage[] = [
+      { role: "system", content: prompt }
+    ];
+    let errors: string[] = [];
+    let response: string | undefined;
+
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+      response = await this.llm.completeJson({
+        messages,
         temperature: 0.7,
-        max_tokens: 1000,
+        maxTokens,
       });
-
-      const questResponse = completion.choices[0]?.message?.content;
-
-      console.log("questResponse from openai", questResponse);
-      if (!questResponse) {
-        throw new Error("No response from OpenAI");
+      if (!response) {
+        errors = [`Empty response from ${this.llm.name}`];
+        continue;
       }
 
-      // Parse the JSON response
-      let questData;
-      try {
-        questData = JSON.parse(questResponse);
-
-        console.log("questData", questData);
-      } catch (parseError) {
-        console.error("Failed to parse OpenAI response:", questResponse);
-        throw new Error("Invalid JSON response from OpenAI");
+      const result = parse(response);
+      if (result.success) {
+        return result.value;
       }
 
-      // Create complete quest object with all required fields
-      const quest: Quest = {
-        id: uuidv4(),
-        type: questData.type || this._personality.questTypes[0],
-        title: questData.title || `${this._personality.name} Challenge`,
-        description: questData.description || `A quest created by ${this._personality.name}`,
-        difficulty: questData.difficulty || "medium",
-        duration: questData.duration || 30,
-        participantLimits: questData.participantLimits || { min: 2, max: Math.max(2, groupMembers.length) },
-        rewards: questData.rewards || { xp: 100, tokens: 10 },
-        requirements: questData.requirements || [],
-        miniAppConfig: questData.miniAppConfig || {
-          type: "dashboard",
-          config: { theme: "default", features: [] }
+      errors = result.errors;
+      console.warn(`⚠️ ${this._personality.name} generated an invalid quest (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}):`, errors);
+
+      // Feed the problems back so the next attempt can repair them
+      messages.push(
+        { role: "assistant", content: response },
+        {
+          role: "user",
+          content: `That quest failed validation:\n${errors.map(e => `- ${e}`).join("\n")}\n\nRespond with the corrected JSON object only.`,
         },
-        conversationId: conversation.id,
-        createdAt: new Date(),
-        expiresAt: new Date(Date.now() + (questData.duration || 30) * 60 * 1000),
-        status: "active",
-        participants: [],
-      };
+      );
+    }
 
-      this.activeQuests.set(quest.id, quest);
-      this.emit("questCreated", quest, conversation.id);
-      return quest;
+    this.rejectQuest({
+      questMaster: this._personality.name,
+      conversationId,
+      rejectedAt: new Date(),
+      attempts: MAX_GENERATION_ATTEMPTS,
+      errors,
+      lastResponse: response,
+    });
+    return null;
+  }
 
-    } catch (error) {
-      console.error("Error creating quest:", error);
-      return null;
+  /**
+   * Difficulties someone in the group has the level for
+   */
+  private openDifficulties(groupMembers: any[]): Quest["difficulty"][] {
+    return this.store.difficultiesOpenTo(
+      groupMembers.map(member => member?.inboxId).filter((id): id is string => typeof id === "string")
+    );
+  }
+
+  private describeDifficulties(difficulties: Quest["difficulty"][]): string {
+    const locked = (["easy", "medium", "hard", "expert"] as const)
+      .filter(difficulty => !difficulties.includes(difficulty))
+      .map(difficulty => `${difficulty} unlocks at level ${this.store.progression.minLevelFor(difficulty)}`);
+    return `Difficulties the group can join: ${difficulties.join(", ")}${locked.length > 0 ? ` (${locked.join(", ")})` : ""}`;
+  }
+
+  /**
+   * Turn generated quest fields into a new quest for a conversation. A
+   * difficulty nobody in the group can join yet is lowered to the hardest
+   * one they can. Fields the quest schema rejects, and join rules naming a
+   * badge or quest that does not exist, are reported like any other
+   * validation error, so the model gets to repair them.
+   */
+  private buildQuest(
+    questData: GeneratedQuest,
+    conversationId: string,
+    difficulties: Quest["difficulty"][]
+  ): { success: true; value: Quest } | { success: false; errors: string[] } {
+    const difficulty = difficulties.includes(questData.difficulty)
+      ? questData.difficulty
+      : difficulties[difficulties.length - 1] ?? questData.difficulty;
+    const result = QuestSchema.safeParse({
+      ...questData,
+      difficulty,
+      id: uuidv4(),
+      conversationId,
+      questMaster: this._personality.name,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + questData.duration * 60 * 1000),
+      status: "open",
+      participants: [],
+    });
+    if (!result.success) {
+      return { success: false, errors: formatZodIssues(result.error, "quest") };
     }
+    const errors = checkRequirements(result.data.requirements ?? [], {
+      badgeExists: name => this.badges.findBadge(name) !== undefined,
+      questExists: questId => this.store.getQuest(questId) !== undefined,
+    });
+    return errors.length > 0 ? { success: false, errors } : { success: true, value: result.data };
+  }
+
+  /**
+   * Record a quest the model could not produce valid output for
+   */
+  private rejectQuest(rejection: QuestRejection): void {
+    console.error(`❌ ${this._personality.name} quest rejected after ${rejection.attempts} attempts:`, rejection.errors);
+    this.emit("questRejected", rejection);
   }
 
   /**
@@ -248,9 +465,9 @@ Respond with a JSON object in this exact format:
       msg => (now.getTime() - msg.sentAt.getTime()) < 3600000 // Last hour
     );
 
-    const topics = this.extractTopics(messages);
-    const activityLevel = this.calculateActivityLevel(recentMessages);
-    const engagement = this.calculateEngagement(messages, members);
+    const topics = extractTopics(messages);
+    const activityLevel = calculateActivityLevel(recentMessages);
+    const engagement = calculateEngagement(messages, members);
 
     return {
       topics,
@@ -261,50 +478,6 @@ Respond with a JSON object in this exact format:
     };
   }
 
-  /**
-   * Extract topics from messages using simple keyword analysis
-   */
-  private extractTopics(messages: DecodedMessage[]): string[] {
-    const messageTexts = messages
-      .map(m => m.content as string)
-      .filter(Boolean)
-      .join(" ")
-      .toLowerCase();
-
-    // Simple keyword extraction
-    const keywords = [
-      "web3", "crypto", "nft", "defi", "dao", "blockchain", "ethereum", "bitcoin",
-      "art", "music", "design", "creative", "build", "code", "develop",
-      "learn", "teach", "help", "mentor", "guide", "skill",
-      "compete", "challenge", "game", "contest", "tournament",
-      "community", "team", "collaborate", "together", "group"
-    ];
-
-    return keywords.filter(keyword => messageTexts.includes(keyword));
-  }
-
-  /**
-   * Calculate activity level based on recent messages
-   */
-  private calculateActivityLevel(recentMessages: DecodedMessage[]): "low" | "medium" | "high" {
-    const messageCount = recentMessages.length;
-    if (messageCount < 5) return "low";
-    if (messageCount < 15) return "medium";
-    return "high";
-  }
-
-  /**
-   * Calculate engagement score based on message patterns
-   */
-  private calculateEngagement(messages: DecodedMessage[], members: any[]): number {
-    if (messages.length === 0) return 0;
-    
-    const uniqueSenders = new Set(messages.map(m => m.senderInboxId)).size;
-    const totalMembers = members.length;
-    
-    return Math.min(100, (uniqueSenders / totalMembers) * 100);
-  }
-
   /**
    * Summarize recent messages for context
    */
@@ -319,67 +492,31 @@ Respond with a JSON object in this exact format:
   }
 
   /**
-   * Complete a quest and update user profile
+   * Generate quest announcement message, introduced in this Quest Master's voice
    */
-  async completeQuest(
-    questId: string,
-    participantInboxId: string,
-    result: any
-  ): Promise<void> {
-    const quest = this.activeQuests.get(questId);
-    if (!quest) {
-      throw new Error("Quest not found");
-    }
-
-    const userProfile = this.getUserProfile(participantInboxId);
-    const newXP = userProfile.xp + quest.rewards.xp;
-    const newLevel = Math.floor(newXP / 100) + 1;
-
-    const completion: QuestCompletion = {
-      questId,
-      participantInboxId,
-      completedAt: new Date(),
-      result,
-      rewards: quest.rewards,
-      newLevel,
-    };
+  async generateQuestAnnouncement(quest: Quest): Promise<string> {
+    const intro = await this.voice.write(
+      "announcement",
+      quest.id,
+      `Announce a new quest and invite people to join.
+Title: ${quest.title}
+Description: ${quest.description}
+Type: ${quest.type}, difficulty: ${quest.difficulty}, ${quest.duration} minutes`
+    );
 
-    // Update user profile
-    userProfile.xp = newXP;
-    userProfile.level = newLevel;
-    userProfile.completedQuests.push(questId);
-    userProfile.lastActive = new Date();
+    return `🎯 ${intro ?? "**New Quest Available!**"}
 
-    this.userProfiles.set(participantInboxId, userProfile);
-    quest.status = "completed";
+${this.formatQuestDetails(quest)}
 
-    this.emit("questCompleted", completion);
-  }
+*Created by ${this._personality.name}*
 
-  /**
-   * Get or create user profile
-   */
-  private getUserProfile(inboxId: string): UserProfile {
-    let profile = this.userProfiles.get(inboxId);
-    if (!profile) {
-      profile = {
-        inboxId,
-        level: 1,
-        xp: 0,
-        preferences: [],
-        completedQuests: [],
-        socialScore: 0,
-        lastActive: new Date(),
-      };
-      this.userProfiles.set(inboxId, profile);
-    }
-    return profile;
+React to join this quest! 🚀`;
   }
 
   /**
-   * Generate quest announcement message
+   * Quest facts shared by every announcement
    */
-  async generateQuestAnnouncement(quest: Quest): Promise<string> {
+  private formatQuestDetails(quest: Quest): string {
     const difficultyEmoji = {
       easy: "🟢",
       medium: "🟡", 
@@ -395,37 +532,325 @@ Respond with a JSON object in this exact format:
       cross_protocol: "🌐"
     };
 
-    return `🎯 **New Quest Available!**
-
-${typeEmoji[quest.type]} **${quest.title}**
+    return `${typeEmoji[quest.type]} **${quest.title}**${this.describeChainStep(quest)}
 ${quest.description}
 
 ${difficultyEmoji[quest.difficulty]} **Difficulty:** ${quest.difficulty.toUpperCase()}
 ⏱️ **Duration:** ${quest.duration} minutes
-👥 **Participants:** ${quest.participantLimits.min}-${quest.participantLimits.max}
+👥 **Participants:** ${quest.participantLimits.min}-${quest.participantLimits.max}${this.describeTeams(quest)}
 🏆 **Rewards:** ${quest.rewards.xp} XP${quest.rewards.tokens ? ` + ${quest.rewards.tokens} tokens` : ""}
+${this.describeCompletion(quest)}${this.describeRequirements(quest)}`;
+  }
 
-*Created by ${this._personality.name}*
+  /**
+   * Where a quest sits in its chain, appended to the title line
+   */
+  private describeChainStep(quest: Quest): string {
+    return quest.chain ? `\n📜 Step ${quest.chain.step} of ${quest.chain.steps} in *${quest.chain.title}*` : "";
+  }
 
-React to join this quest! 🚀`;
+  /**
+   * Requirements players must meet to join, as a line of their own
+   */
+  private describeRequirements(quest: Quest): string {
+    const requirements = describeRequirements(quest, id => this.store.getQuest(id)?.title);
+    return requirements.length > 0 ? `\n🔒 **To join:** ${requirements.join("; ")}` : "";
+  }
+
+  /**
+   * Team setup of a team quest, appended to the participants line
+   */
+  private describeTeams(quest: Quest): string {
+    if (!quest.teams) {
+      return "";
+    }
+    const formation = quest.teams.formation === "self" ? "pick your team with /team" : "balanced at the start";
+    const split = quest.teams.split === "equal" ? "XP split equally" : "XP split by contribution";
+    return ` in teams of ${quest.teams.size} (${formation}, ${split})`;
+  }
+
+  /**
+   * Announcement line telling participants how the quest is completed
+   */
+  private describeCompletion(quest: Quest): string {
+    if (quest.questions?.length) {
+      return `❓ **Questions:** ${quest.questions.length}, see them with /quiz once the quest starts`;
+    }
+    const ranked = quest.vote?.rankedChoice ? " (ranked choice)" : "";
+    if (quest.vote?.subject === "options") {
+      return `🗳️ **Vote${ranked}:** ${quest.vote.options?.join(" / ")}. Vote with /vote once the quest starts`;
+    }
+    const proof = `📎 **Proof:** ${describeProofRequirement(resolveProofRequirement(quest))}`;
+    return quest.vote ? `${proof}\n🗳️ **The group votes${ranked}** on the entries with /vote` : proof;
+  }
+
+  /**
+   * Generate a chat message announcing a quest status change
+   */
+  generateStatusAnnouncement(quest: Quest, from: QuestStatus, to: QuestStatus, reason?: string): string | null {
+    const suffix = reason ? `\n_${reason}_` : "";
+    switch (to) {
+      case "open":
+        return from === "paused"
+          ? `▶️ **${quest.title}** is back on! Registration is open again.${suffix}`
+          : `📣 Registration is open for **${quest.title}**! Join now.${suffix}`;
+      case "in_progress":
+        return from === "paused"
+          ? `▶️ **${quest.title}** has resumed. Keep going!${suffix}`
+          : `🚦 **${quest.title}** has started with ${quest.participants.length} participant(s). Good luck!${suffix}`;
+      case "paused":
+        return `⏸️ **${quest.title}** is paused for now.${suffix}`;
+      case "judging":
+        // Option votes are counted right away and announced with their results
+        if (quest.vote?.subject === "options") return null;
+        return quest.vote
+          ? `🗳️ Submissions for **${quest.title}** are closed. Vote for your favourite entry with /vote!${suffix}`
+          : `⚖️ Submissions for **${quest.title}** are closed. ${this._personality.name} is judging...${suffix}`;
+      case "completed":
+        return `🏆 **${quest.title}** is complete! Thanks to everyone who took part.${suffix}`;
+      case "expired":
+        return `⏰ **${quest.title}** has expired.${suffix}`;
+      case "cancelled":
+        return `🚫 **${quest.title}** was cancelled.${suffix}`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Generate a reminder that a quest is about to end
+   */
+  async generateReminder(quest: Quest, minutesLeft: number): Promise<string> {
+    const reminder = await this.voice.write(
+      "reminder",
+      `${quest.id}:${minutesLeft}`,
+      `Remind the group that the quest "${quest.title}" ends in ${minutesLeft} minutes. ${quest.participants.length} participant(s) have joined so far.`
+    );
+
+    return reminder
+      ? `⏳ ${reminder}`
+      : `⏳ Only ${minutesLeft} minutes left for **${quest.title}**! ${quest.participants.length} participant(s) so far — there's still time to finish.`;
+  }
+
+  /**
+   * Generate the congratulation posted when a participant completes a quest
+   */
+  async generateCompletionMessage(quest: Quest, completion: QuestCompletion): Promise<string> {
+    const who = this.shortInboxId(completion.participantInboxId);
+    const streak = completion.streakMultiplier ? ` (×${completion.streakMultiplier} streak bonus)` : "";
+    const congratulation = await this.voice.write(
+      "congratulation",
+      `${quest.id}:${completion.participantInboxId}`,
+      `Congratulate ${who} for completing the quest "${quest.title}". They earned ${completion.rewards.xp} XP${streak} and are now level ${completion.newLevel}.`
+    );
+
+    return congratulation
+      ? `🏆 ${congratulation}`
+      : `🏆 ${who} completed **${quest.title}** and earned ${completion.rewards.xp} XP${streak}! Now level ${completion.newLevel}.`;
+  }
+
+  /**
+   * Generate the recap posted when a quest's time runs out
+   */
+  async generateExpirySummary(quest: Quest, summary: QuestExpirySummary): Promise<string> {
+    // Streaks, partial quiz scores and team splits make awards differ per finisher
+    const awarded = summary.completedBy.map(finisher => finisher.xp);
+    const least = Math.min(...awarded);
+    const most = Math.max(...awarded);
+    const earned = least === most ? `each earning ${most} XP` : `earning ${least} to ${most} XP`;
+    const recap = await this.voice.write(
+      "recap",
+      quest.id,
+      `Recap the quest "${quest.title}" which just ended. ${summary.participantCount} joined and ${summary.completedBy.length} completed it${summary.completedBy.length ? `, ${earned}` : ""}.`
+    );
+
+    if (summary.completedBy.length === 0) {
+      return recap
+        ? `⏰ ${recap}`
+        : `⏰ **${quest.title}** has ended with no completions (${summary.participantCount} joined). ${this._personality.name} will be back with another challenge soon!`;
+    }
+
+    const finishers = summary.completedBy
+      .map(finisher => `• ${this.shortInboxId(finisher.inboxId)} — +${finisher.xp} XP`)
+      .join("\n");
+
+    return `⏰ ${recap ?? `**${quest.title}** has ended!`}
+
+👥 **Participants:** ${summary.participantCount}
+🏆 **Completed by ${summary.completedBy.length}:**
+${finishers}
+
+*— ${this._personality.name}*`;
+  }
+
+  /**
+   * Generate the ranked results of a judged quest
+   */
+  async generateContestResults(quest: Quest, placements: ContestPlacement[]): Promise<string> {
+    if (placements.length === 0) {
+      return `⚖️ Judging for **${quest.title}** is done, but there were no entries. *— ${this._personality.name}*`;
+    }
+
+    const winner = placements[0];
+    const recap = await this.voice.write(
+      "recap",
+      `${quest.id}:results`,
+      `Announce the results of the contest "${quest.title}". ${placements.length} entries were judged and the winner scored ${winner.score} out of 100${winner.comment ? `; the judges said: ${winner.comment}` : ""}.`
+    );
+
+    const medals = ["🥇", "🥈", "🥉"];
+    // All-zero scores mean the judge failed and submission order decided
+    const showScores = placements.some(p => p.score > 0);
+    const lines = placements.map(p => {
+      const score = showScores ? ` — ${p.score}/100` : "";
+      const note = p.comment ? `\n   _${p.comment}_` : "";
+      const tie = p.tieBreak ? ` (${p.tieBreak.toLowerCase()})` : "";
+      return `${medals[p.rank - 1] ?? `${p.rank}.`} ${this.shortInboxId(p.inboxId)}${score}, +${p.rewards.xp} XP${tie}${note}`;
+    });
+
+    return `⚖️ ${recap ?? `The results for **${quest.title}** are in!`}
+
+${lines.join("\n")}
+
+*— ${this._personality.name}*`;
+  }
+
+  /**
+   * Generate the results of a peer vote: entrants by place, or the winning option
+   */
+  async generateVoteResults(quest: Quest, tally: VoteTally, placements: JudgedPlacement[]): Promise<string> {
+    if (tally.ballots === 0) {
+      return `🗳️ Voting for **${quest.title}** is over, but nobody voted. *— ${this._personality.name}*`;
+    }
+
+    const winner = tally.counts.find(c => c.candidateId === tally.winner);
+    const recap = await this.voice.write(
+      "recap",
+      `${quest.id}:votes`,
+      `Announce the result of the group vote "${quest.title}". ${tally.ballots} member(s) voted and "${winner?.label ?? "nobody"}" won.`
+    );
+    const runoff = tally.rankedChoice && tally.rounds && tally.rounds.length > 1
+      ? `\n_Decided after ${tally.rounds.length - 1} runoff round(s)._`
+      : "";
+
+    if (quest.vote?.subject === "options") {
+      const lines = tally.counts.map(c => `${c.candidateId === tally.winner ? "👑" : "•"} ${c.label} — ${c.votes}`);
+      return `🗳️ ${recap ?? `The group has spoken on **${quest.title}**!`}
+
+${lines.join("\n")}${runoff}
+
+${placements.length} voter(s) earned ${quest.rewards.xp} XP. *— ${this._personality.name}*`;
+    }
+
+    const medals = ["🥇", "🥈", "🥉"];
+    const lines = placements.map(p => {
+      const rank = p.rank ?? 0;
+      const tie = p.result?.tieBreak ? ` (${String(p.result.tieBreak).toLowerCase()})` : "";
+      return `${medals[rank - 1] ?? `${rank}.`} ${this.shortInboxId(p.inboxId)} — ${p.result?.votes ?? 0} vote(s), +${p.rewards.xp} XP${tie}`;
+    });
+    return `🗳️ ${recap ?? `The votes for **${quest.title}** are in!`}
+
+${lines.join("\n")}${runoff}
+
+*— ${this._personality.name}*`;
+  }
+
+  /**
+   * Announce a team that finished and what each member earned
+   */
+  generateTeamResults(quest: Quest, team: QuestTeam, completions: QuestCompletion[]): string {
+    const split = quest.teams?.split === "contribution" ? "by contribution" : "equally";
+    const lines = completions.map(c => {
+      const share = Math.round((team.contributions[c.participantInboxId] ?? 0) * 100);
+      return `• ${this.shortInboxId(c.participantInboxId)} — ${share}% of their part, +${c.rewards.xp} XP`;
+    });
+    return `🏁 **${team.name}** finished **${quest.title}**! XP was shared ${split}:
+
+${lines.join("\n")}
+
+*— ${this._personality.name}*`;
+  }
+
+  /**
+   * Introduce a new quest chain and its steps; the first step is announced
+   * on its own
+   */
+  async generateChainAnnouncement(chain: QuestChain, quests: Quest[]): Promise<string> {
+    const intro = await this.voice.write(
+      "announcement",
+      chain.id,
+      `Announce a new storyline of ${quests.length} quests played one after another.
+Title: ${chain.title}
+Description: ${chain.description}`
+    );
+    const steps = quests.map((quest, index) => `${index === 0 ? "▶️" : "🔒"} ${index + 1}. ${quest.title}`);
+    const delay = chain.stepDelayMinutes > 0
+      ? ` Each step opens ${this.formatDelay(chain.stepDelayMinutes)} after the one before it completes.`
+      : " Each step opens once the one before it completes.";
+
+    return `📜 ${intro ?? `**New storyline: ${chain.title}**`}
+
+${chain.description}
+
+${steps.join("\n")}
+${delay.trim()}
+
+🎁 **Chain bonus:** ${chain.bonus.xp} XP${chain.bonus.tokens ? ` + ${chain.bonus.tokens} tokens` : ""} for finishing every step. Follow along with /chain
+
+*— ${this._personality.name}*`;
+  }
+
+  /**
+   * Congratulate a player who finished every step of a chain
+   */
+  generateChainBonusMessage(chain: QuestChain, inboxId: string): string {
+    const badges = chain.bonus.badges?.length ? ` and the ${chain.bonus.badges.join(", ")} badge` : "";
+    return `🎁 ${this.shortInboxId(inboxId)} finished every step of **${chain.title}** and earned a ${chain.bonus.xp} XP bonus${badges}!`;
+  }
+
+  /**
+   * Announce the end of a quest chain
+   */
+  generateChainEnded(chain: QuestChain): string {
+    if (chain.status === "completed") {
+      return `📜 **${chain.title}** is complete! ${chain.bonusAwardedTo.length} player(s) finished every step. *— ${this._personality.name}*`;
+    }
+    return `📜 **${chain.title}** has ended early${chain.endedReason ? `: ${chain.endedReason}` : ""}. *— ${this._personality.name}*`;
+  }
+
+  /**
+   * Celebrate a player reaching a new level, with any difficulty it unlocks
+   */
+  generateLevelUpMessage(levelUp: LevelUp): string {
+    const unlocked = this.store.progression
+      .difficultiesFor(levelUp.to)
+      .filter(difficulty => this.store.progression.minLevelFor(difficulty) > levelUp.from);
+    const unlocks = unlocked.length > 0 ? ` ${unlocked.map(d => d.charAt(0).toUpperCase() + d.slice(1)).join(" and ")} quests are now open to them.` : "";
+    return `⭐ ${this.shortInboxId(levelUp.inboxId)} reached **level ${levelUp.to}**!${unlocks} *— ${this._personality.name}*`;
+  }
+
+  private formatDelay(minutes: number): string {
+    if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} day(s)`;
+    if (minutes % 60 === 0) return `${minutes / 60} hour(s)`;
+    return `${minutes} minutes`;
+  }
+
+  private shortInboxId(inboxId: string): string {
+    return `${inboxId.slice(0, 6)}...${inboxId.slice(-6)}`;
   }
 
   /**
    * Get active quests for a conversation
    */
   getActiveQuests(conversationId?: string): Quest[] {
-    const quests = Array.from(this.activeQuests.values());
-    if (conversationId) {
-      return quests.filter(q => q.conversationId === conversationId && q.status === "active");
-    }
-    return quests.filter(q => q.status === "active");
+    return this.store.getActiveQuests(conversationId);
   }
 
   /**
    * Get user statistics
    */
   getUserStats(inboxId: string) {
-    const profile = this.getUserProfile(inboxId);
+    const profile = this.store.getUserProfile(inboxId);
     return {
       level: profile.level,
       xp: profile.xp,
@@ -439,10 +864,6 @@ React to join this quest! 🚀`;
    * Update user preferences based on quest participation
    */
   updateUserPreferences(inboxId: string, questType: Quest["type"]): void {
-    const profile = this.getUserProfile(inboxId);
-    if (!profile.preferences.includes(questType)) {
-      profile.preferences.push(questType);
-    }
-    this.userProfiles.set(inboxId, profile);
+    this.store.updateUserPreferences(inboxId, questType);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,104 @@
+import type { QuestMasterPersonality } from "../types/Quest";
+import type { LLMProvider } from "../llm/LLMProvider";
+
+// Character limits for generated chat text; long messages are hard to read in XMTP clients
+export const VOICE_MESSAGE_LIMITS = {
+  announcement: 280,
+  reminder: 200,
+  congratulation: 200,
+  recap: 280,
+} as const;
+
+export type VoiceMessageKind = keyof typeof VOICE_MESSAGE_LIMITS;
+
+const MAX_CACHED_MESSAGES = 200;
+
+/**
+ * Trim a generated message to the limit, preferring to cut at a sentence or
+ * word boundary
+ */
+export const clipChatMessage = (text: string, limit: number): string => {
+  const cleaned = text.trim().replace(/^["']+|["']+$/g, "").trim();
+  if (cleaned.length <= limit) {
+    return cleaned;
+  }
+
+  const slice = cleaned.slice(0, limit - 1);
+  const sentenceEnd = Math.max(slice.lastIndexOf(". "), slice.lastIndexOf("! "), slice.lastIndexOf("? "));
+  if (sentenceEnd > limit / 2) {
+    return slice.slice(0, sentenceEnd + 1);
+  }
+  const wordEnd = slice.lastIndexOf(" ");
+  return `${slice.slice(0, wordEnd > 0 ? wordEnd : slice.length)}…`;
+};
+
+/**
+ * Writes short chat messages in a Quest Master's voice. Results are cached per
+ * message key so the same quest event is never generated twice; callers fall
+ * back to their templates when this returns null.
+ */
+export class QuestVoice {
+  private personality: QuestMasterPersonality;
+  private llm: LLMProvider;
+  private cache: Map<string, Promise<string | null>> = new Map();
+
+  constructor(personality: QuestMasterPersonality, llm: LLMProvider) {
+    this.personality = personality;
+    this.llm = llm;
+  }
+
+  /**
+   * Generate a message of the given kind from the facts it must convey
+   */
+  write(kind: VoiceMessageKind, key: string, facts: string): Promise<string | null> {
+    const cacheKey = `${kind}:${key}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const pending = this.generate(kind, facts).then(message => {
+      // Let a failed generation be retried next time
+      if (!message) this.cache.delete(cacheKey);
+      return message;
+    });
+    this.cache.set(cacheKey, pending);
+
+    // Map keeps insertion order, so the first key is the oldest
+    if (this.cache.size > MAX_CACHED_MESSAGES) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return pending;
+  }
+
+  private async generate(kind: VoiceMessageKind, facts: string): Promise<string | null> {
+    const limit = VOICE_MESSAGE_LIMITS[kind];
+    // The first paragraph of each system prompt describes the personality's tone
+    const persona = this.personality.systemPrompt.split("\n\n")[0];
+
+    try {
+      const text = await this.llm.complete({
+        messages: [
+          {
+            role: "system",
+            content: `${persona}
+
+You are writing a ${kind} message for an XMTP group chat. Write in your ${this.personality.style} style.
+Rules:
+- Plain text, at most ${limit} characters, one or two sentences
+- At most one emoji, no hashtags, no markdown
+- Do not invent numbers, names or rewards beyond the facts given`,
+          },
+          { role: "user", content: facts },
+        ],
+        temperature: 0.8,
+        maxTokens: 150,
+      });
+
+      return text.trim() ? clipChatMessage(text, limit) : null;
+    } catch (error) {
+      console.error(`❌ ${this.personality.name} could not write ${kind} message:`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,49 @@
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Minimal object storage used for uploaded media, so files can live on local
+ * disk or in any S3-compatible bucket without touching the services that
+ * store them.
+ */
+export interface BlobStore {
+  readonly name: string;
+
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * The blob stored under a key, or undefined if there is none
+   */
+  get(key: string): Promise<StoredBlob | undefined>;
+
+  delete(key: string): Promise<void>;
+
+  /**
+   * Public URL a browser can load the blob from
+   */
+  url(key: string): string;
+}
+
+// Keys are relative paths of safe characters, like gallery/<questId>/<uuid>.png
+const BLOB_KEY_PATTERN = /^[\w-]+(\/[\w-]+)*\.[a-z0-9]+$/i;
+
+export const isValidBlobKey = (key: string): boolean => BLOB_KEY_PATTERN.test(key);
+
+export const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "text/plain": "txt",
+};
+
+/**
+ * Content type of a key by its extension
+ */
+export const contentTypeOf = (key: string): string => {
+  const extension = key.slice(key.lastIndexOf(".") + 1).toLowerCase();
+  const match = Object.entries(CONTENT_TYPE_EXTENSIONS).find(([, ext]) => ext === extension);
+  return match?.[0] ?? "application/octet-stream";
+};
@@ -0,0 +1,55 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { contentTypeOf, isValidBlobKey, type BlobStore, type StoredBlob } from "./BlobStore";
+
+export interface LocalBlobStoreOptions {
+  directory: string;
+  // Where the server serves the blobs from, e.g. http://localhost:5001/blobs
+  publicUrl: string;
+}
+
+/**
+ * Blobs as files under a directory; the content type follows the extension
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly name = "local";
+  private directory: string;
+  private publicUrl: string;
+
+  constructor({ directory, publicUrl }: LocalBlobStoreOptions) {
+    this.directory = path.resolve(directory);
+    this.publicUrl = publicUrl.replace(/\/+$/, "");
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const file = this.pathOf(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<StoredBlob | undefined> {
+    try {
+      return { data: await fs.readFile(this.pathOf(key)), contentType: contentTypeOf(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathOf(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+
+  private pathOf(key: string): string {
+    if (!isValidBlobKey(key)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(this.directory, key);
+  }
+}
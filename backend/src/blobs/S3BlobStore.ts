@@ -0,0 +1,117 @@
+import { createHash, createHmac } from "node:crypto";
+import { isValidBlobKey, type BlobStore, type StoredBlob } from "./BlobStore";
+
+export interface S3BlobStoreOptions {
+  // e.g. https://s3.us-east-1.amazonaws.com, https://<account>.r2.cloudflarestorage.com or http://localhost:9000 for MinIO
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Where browsers load the blobs from: a public bucket or CDN URL, or the server's own /blobs route
+  publicUrl: string;
+}
+
+const sha256 = (data: string | Buffer): string => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac("sha256", key).update(data).digest();
+
+/**
+ * Blobs in an S3-compatible bucket, addressed path-style so it works with
+ * AWS, R2, MinIO and the like. Requests are signed with AWS Signature V4.
+ */
+export class S3BlobStore implements BlobStore {
+  readonly name = "s3";
+  private endpoint: string;
+  private region: string;
+  private bucket: string;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+  private publicUrl: string;
+
+  constructor({ endpoint, region, bucket, accessKeyId, secretAccessKey, publicUrl }: S3BlobStoreOptions) {
+    this.endpoint = endpoint.replace(/\/+$/, "");
+    this.region = region;
+    this.bucket = bucket;
+    this.accessKeyId = accessKeyId;
+    this.secretAccessKey = secretAccessKey;
+    this.publicUrl = publicUrl.replace(/\/+$/, "");
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request("PUT", key, data, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 upload of ${key} failed: ${response.status} ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<StoredBlob | undefined> {
+    const response = await this.request("GET", key);
+    if (response.status === 404) {
+      return undefined;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 download of ${key} failed: ${response.status}`);
+    }
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type") ?? "application/octet-stream",
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request("DELETE", key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete of ${key} failed: ${response.status}`);
+    }
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+
+  private async request(method: "GET" | "PUT" | "DELETE", key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    if (!isValidBlobKey(key)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    const url = new URL(`${this.endpoint}/${encodeURIComponent(this.bucket)}/${key}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": sha256(body ?? ""),
+      "x-amz-date": amzDate,
+    };
+    if (contentType) {
+      headers["content-type"] = contentType;
+    }
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      signedHeaders.map(name => `${name}:${headers[name]}\n`).join(""),
+      signedHeaders.join(";"),
+      headers["x-amz-content-sha256"],
+    ].join("\n");
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+
+    const signingKey = ["s3", "aws4_request"].reduce(
+      (signing, part) => hmac(signing, part),
+      hmac(hmac(`AWS4${this.secretAccessKey}`, date), this.region)
+    );
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    // fetch sets the host header itself
+    const { host: _host, ...sent } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...sent,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import path from "node:path";
+import type { BlobStore } from "./BlobStore";
+import { LocalBlobStore } from "./LocalBlobStore";
+import { S3BlobStore } from "./S3BlobStore";
+
+export type BlobStoreKind = "local" | "s3";
+
+/**
+ * Build the store selected by BLOB_STORE (default "local"). Blobs are served
+ * from BLOB_PUBLIC_URL, which defaults to the server's own /blobs route.
+ *
+ * - local: files under BLOB_DIR (default .data/blobs, or blobs on the Railway volume)
+ * - s3: S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY, optional S3_ENDPOINT
+ *   for other S3-compatible services and S3_REGION (default us-east-1)
+ */
+export const createBlobStore = (env: NodeJS.ProcessEnv = process.env): BlobStore => {
+  const kind = (env.BLOB_STORE ?? "local") as BlobStoreKind;
+  const publicUrl = env.BLOB_PUBLIC_URL || `http://localhost:${env.PORT ?? "5001"}/blobs`;
+
+  switch (kind) {
+    case "local":
+      return new LocalBlobStore({
+        directory: env.BLOB_DIR || path.join(env.RAILWAY_VOLUME_MOUNT_PATH ?? ".data", "blobs"),
+        publicUrl,
+      });
+    case "s3": {
+      if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+        throw new Error("S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required when BLOB_STORE is s3");
+      }
+      const region = env.S3_REGION || "us-east-1";
+      return new S3BlobStore({
+        endpoint: env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket: env.S3_BUCKET,
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        publicUrl,
+      });
+    }
+    default:
+      throw new Error(`Unknown BLOB_STORE "${kind}" (expected local or s3)`);
+  }
+};
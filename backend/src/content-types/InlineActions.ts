@@ -0,0 +1,104 @@
+import {
+  ContentTypeId,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+
+// Inline actions (XIP-67): a message with buttons, answered by an intent message
+
+export const ContentTypeActions = new ContentTypeId({
+  authorityId: "coinbase.com",
+  typeId: "actions",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export const ContentTypeIntent = new ContentTypeId({
+  authorityId: "coinbase.com",
+  typeId: "intent",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export interface Action {
+  id: string;
+  label: string;
+  imageUrl?: string;
+  style?: "primary" | "secondary" | "danger";
+  expiresAt?: string;
+}
+
+export interface ActionsContent {
+  id: string;
+  description: string;
+  actions: Action[];
+  expiresAt?: string;
+}
+
+export interface IntentContent {
+  // ID of the actions message this intent answers
+  id: string;
+  actionId: string;
+  metadata?: Record<string, string | number | boolean | null>;
+}
+
+type Parameters = { encoding: "UTF-8" };
+
+const encodeJson = (type: ContentTypeId, value: unknown): EncodedContent<Parameters> => ({
+  type,
+  parameters: { encoding: "UTF-8" },
+  content: new TextEncoder().encode(JSON.stringify(value)),
+});
+
+const decodeJson = <T>(content: EncodedContent<Parameters>): T =>
+  JSON.parse(new TextDecoder().decode(content.content)) as T;
+
+export class ActionsCodec implements ContentCodec<ActionsContent, Parameters> {
+  get contentType(): ContentTypeId {
+    return ContentTypeActions;
+  }
+
+  encode(content: ActionsContent): EncodedContent<Parameters> {
+    if (!content.id || content.actions.length === 0) {
+      throw new Error("Actions content needs an id and at least one action");
+    }
+    return encodeJson(ContentTypeActions, content);
+  }
+
+  decode(content: EncodedContent<Parameters>): ActionsContent {
+    return decodeJson<ActionsContent>(content);
+  }
+
+  /**
+   * Shown by clients without inline action support
+   */
+  fallback(content: ActionsContent): string {
+    return `${content.description}\n\n${content.actions.map(action => `• ${action.label}`).join("\n")}`;
+  }
+
+  shouldPush(): boolean {
+    return true;
+  }
+}
+
+export class IntentCodec implements ContentCodec<IntentContent, Parameters> {
+  get contentType(): ContentTypeId {
+    return ContentTypeIntent;
+  }
+
+  encode(content: IntentContent): EncodedContent<Parameters> {
+    return encodeJson(ContentTypeIntent, content);
+  }
+
+  decode(content: EncodedContent<Parameters>): IntentContent {
+    return decodeJson<IntentContent>(content);
+  }
+
+  fallback(content: IntentContent): string {
+    return `Selected action: ${content.actionId}`;
+  }
+
+  shouldPush(): boolean {
+    return false;
+  }
+}
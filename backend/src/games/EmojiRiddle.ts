@@ -0,0 +1,132 @@
+import type { EmojiRiddleView } from "../types/Game";
+import { gradeAnswer } from "../services/QuizGrading";
+import { shuffle, type GameModule } from "./GameModule";
+
+interface Riddle {
+  emojis: string;
+  category: string;
+  answer: string;
+  acceptedAnswers?: string[];
+}
+
+interface EmojiRiddleState {
+  riddles: Riddle[];
+  current: number;
+  triesLeft: number; // on the current riddle
+  solved: number;
+  points: number;
+}
+
+const RIDDLES_PER_GAME = 5;
+const TRIES_PER_RIDDLE = 2;
+const SOLVED_POINTS = 100; // half for a close answer, and half again on the second try
+
+const RIDDLE_BANK: Riddle[] = [
+  { emojis: "🕷️🧑", category: "Movie", answer: "Spider-Man", acceptedAnswers: ["Spiderman"] },
+  { emojis: "🦁👑", category: "Movie", answer: "The Lion King" },
+  { emojis: "❄️👸", category: "Movie", answer: "Frozen" },
+  { emojis: "🧙‍♂️💍🌋", category: "Movie", answer: "The Lord of the Rings", acceptedAnswers: ["Lord of the Rings"] },
+  { emojis: "🚢🧊💔", category: "Movie", answer: "Titanic" },
+  { emojis: "🦈🏖️", category: "Movie", answer: "Jaws" },
+  { emojis: "🍎📱", category: "Company", answer: "Apple" },
+  { emojis: "⭐💸☕", category: "Company", answer: "Starbucks" },
+  { emojis: "🌧️🐱🐶", category: "Phrase", answer: "Raining cats and dogs", acceptedAnswers: ["It's raining cats and dogs"] },
+  { emojis: "⏰💰", category: "Phrase", answer: "Time is money" },
+  { emojis: "🐦✌️🪨", category: "Phrase", answer: "Two birds one stone", acceptedAnswers: ["Kill two birds with one stone"] },
+  { emojis: "⛓️🧱", category: "Crypto", answer: "Blockchain" },
+  { emojis: "🌕🚀", category: "Crypto", answer: "To the moon" },
+  { emojis: "💎🙌", category: "Crypto", answer: "Diamond hands" },
+  { emojis: "🔥⛽", category: "Crypto", answer: "Gas fees", acceptedAnswers: ["Burning gas", "High gas"] },
+];
+
+const currentRiddle = (state: EmojiRiddleState): Riddle | undefined => state.riddles[state.current];
+
+const nextRiddle = (state: EmojiRiddleState) => {
+  state.current += 1;
+  state.triesLeft = TRIES_PER_RIDDLE;
+};
+
+/**
+ * Emoji riddle: guess the movie, company or phrase behind a string of
+ * emojis. Answers are graded like quiz short answers, so small typos pass.
+ */
+export const emojiRiddle: GameModule<EmojiRiddleState> = {
+  game: "emoji_riddle",
+  title: "Emoji Riddle",
+  rules: `Decode ${RIDDLES_PER_GAME} emoji riddles, ${TRIES_PER_RIDDLE} tries each. Send "skip" to move on.`,
+  maxScore: RIDDLES_PER_GAME * SOLVED_POINTS,
+  passingScore: 250,
+
+  start(random) {
+    return {
+      riddles: shuffle(RIDDLE_BANK, random).slice(0, RIDDLES_PER_GAME),
+      current: 0,
+      triesLeft: TRIES_PER_RIDDLE,
+      solved: 0,
+      points: 0,
+    };
+  },
+
+  turn(state, move) {
+    const riddle = currentRiddle(state);
+    if (!riddle) {
+      throw new Error("No riddle left to solve");
+    }
+    const guess = move.trim();
+    if (!guess) {
+      throw new Error("Missing guess");
+    }
+    if (guess.toLowerCase() === "skip") {
+      nextRiddle(state);
+      return { correct: false, points: 0, feedback: "Skipped" };
+    }
+
+    // The answer is never revealed, others may get the same riddle
+    const graded = gradeAnswer(
+      { id: riddle.answer, prompt: riddle.emojis, kind: "short_answer", answer: riddle.answer, acceptedAnswers: riddle.acceptedAnswers },
+      guess
+    );
+    if (graded.score === 0) {
+      state.triesLeft -= 1;
+      if (state.triesLeft > 0) {
+        return { correct: false, points: 0, feedback: "Not quite, one more try" };
+      }
+      nextRiddle(state);
+      return { correct: false, points: 0, feedback: "Not quite, next riddle" };
+    }
+
+    const firstTry = state.triesLeft === TRIES_PER_RIDDLE;
+    const points = Math.round(SOLVED_POINTS * graded.score * (firstTry ? 1 : 0.5));
+    state.solved += 1;
+    state.points += points;
+    nextRiddle(state);
+    return { correct: true, points, feedback: `${graded.feedback} +${points}` };
+  },
+
+  score(state) {
+    return state.points;
+  },
+
+  isOver(state) {
+    return state.current >= state.riddles.length;
+  },
+
+  finish(state) {
+    state.current = state.riddles.length;
+  },
+
+  view(state): EmojiRiddleView {
+    const riddle = currentRiddle(state);
+    return {
+      game: "emoji_riddle",
+      riddle: riddle && {
+        number: state.current + 1,
+        emojis: riddle.emojis,
+        category: riddle.category,
+        triesLeft: state.triesLeft,
+      },
+      total: state.riddles.length,
+      solved: state.solved,
+    };
+  },
+};
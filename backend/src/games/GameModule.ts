@@ -0,0 +1,38 @@
+import type { GameKind, GameStateView, GameTurnResult } from "../types/Game";
+
+/**
+ * A playable game. Modules own the shape of their state and mutate it in
+ * place; the server keeps it, so answers and scoring never reach the player.
+ * Times are epoch milliseconds so the state survives a JSON round trip.
+ */
+export interface GameModule<State> {
+  game: GameKind;
+  title: string;
+  rules: string;
+  maxScore?: number; // omitted for open-ended games
+  passingScore: number; // score a finished game needs to complete the quest
+
+  // Deal a new game
+  start(random: () => number, now: number): State;
+  /** Grade one move. Throws for moves that should not cost a turn, such as an unknown choice. */
+  turn(state: State, move: string, now: number): GameTurnResult;
+  score(state: State): number;
+  // Whether no more moves are accepted, because they ran out or time is up
+  isOver(state: State, now: number): boolean;
+  // Settle a game that ends early, forfeiting what was left to play
+  finish(state: State, now: number): void;
+  // What the player may see
+  view(state: State, now: number): GameStateView;
+}
+
+/**
+ * Copy of the items in random order (Fisher-Yates)
+ */
+export const shuffle = <T>(items: readonly T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
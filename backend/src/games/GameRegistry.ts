@@ -0,0 +1,30 @@
+import type { Quest } from "../types/Quest";
+import { GameKindSchema, type GameKind } from "../types/Game";
+import type { GameModule } from "./GameModule";
+import { emojiRiddle } from "./EmojiRiddle";
+import { triviaRace } from "./TriviaRace";
+import { wordChain } from "./WordChain";
+
+// Every game a game mini app can run
+export const GAME_MODULES: Record<GameKind, GameModule<unknown>> = {
+  trivia_race: triviaRace,
+  word_chain: wordChain,
+  emoji_riddle: emojiRiddle,
+};
+
+// Game played when a quest's mini app config does not name one
+export const DEFAULT_GAMES: Record<Quest["type"], GameKind> = {
+  social_challenge: "word_chain",
+  knowledge_quest: "trivia_race",
+  creative_contest: "emoji_riddle",
+  community_building: "emoji_riddle",
+  cross_protocol: "trivia_race",
+};
+
+/**
+ * Game of a quest, from `miniAppConfig.config.game` or its type
+ */
+export const resolveGame = (quest: Quest): GameKind => {
+  const configured = GameKindSchema.safeParse(quest.miniAppConfig.config.game);
+  return configured.success ? configured.data : DEFAULT_GAMES[quest.type];
+};
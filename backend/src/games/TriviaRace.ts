@@ -0,0 +1,127 @@
+import type { TriviaRaceView } from "../types/Game";
+import { choiceLabel, resolveChoice } from "../services/QuizGrading";
+import { shuffle, type GameModule } from "./GameModule";
+
+interface TriviaQuestion {
+  prompt: string;
+  choices: string[];
+  answer: number; // index of the correct choice
+}
+
+interface TriviaRaceState {
+  questions: TriviaQuestion[];
+  current: number; // index of the question being asked
+  askedAt: number;
+  correct: number;
+  points: number;
+}
+
+const QUESTIONS_PER_GAME = 5;
+const QUESTION_TIME_MS = 15_000;
+const CORRECT_POINTS = 100;
+const MAX_SPEED_BONUS = 50; // for an instant answer, shrinking to nothing at the deadline
+
+const QUESTION_BANK: TriviaQuestion[] = [
+  { prompt: "Which messaging protocol powers this group chat?", choices: ["XMTP", "SMTP", "IRC", "XMPP"], answer: 0 },
+  { prompt: "What is the smallest unit of ether?", choices: ["Gwei", "Wei", "Finney", "Szabo"], answer: 1 },
+  { prompt: "Which network is an Ethereum layer 2 built by Coinbase?", choices: ["Polygon", "Arbitrum", "Base", "Solana"], answer: 2 },
+  { prompt: "What does NFT stand for?", choices: ["New File Type", "Non-Fungible Token", "Network Fee Ticket", "Node Field Test"], answer: 1 },
+  { prompt: "How many bitcoin will ever exist, at most?", choices: ["21 million", "100 million", "1 billion", "No limit"], answer: 0 },
+  { prompt: "What secures messages so only the chat members can read them?", choices: ["Gas fees", "End-to-end encryption", "Block explorers", "Mining"], answer: 1 },
+  { prompt: "What is a wallet's seed phrase for?", choices: ["Paying gas", "Naming tokens", "Recovering the wallet", "Joining groups"], answer: 2 },
+  { prompt: "Which consensus mechanism does Ethereum use today?", choices: ["Proof of Work", "Proof of Authority", "Proof of Space", "Proof of Stake"], answer: 3 },
+  { prompt: "What does DAO stand for?", choices: ["Digital Asset Office", "Decentralized Autonomous Organization", "Data Access Object", "Distributed App Operator"], answer: 1 },
+  { prompt: "What is paid to have a transaction included on Ethereum?", choices: ["Gas", "Rent", "Stake", "Tips only"], answer: 0 },
+  { prompt: "What is ENS used for?", choices: ["Encrypting chats", "Readable names for addresses", "Minting NFTs", "Bridging tokens"], answer: 1 },
+  { prompt: "Which of these is a stablecoin?", choices: ["ETH", "DOGE", "USDC", "BTC"], answer: 2 },
+];
+
+const currentQuestion = (state: TriviaRaceState): TriviaQuestion | undefined => state.questions[state.current];
+
+/**
+ * Trivia race: multiple choice questions against a per-question clock, with
+ * a bonus for answering fast. Late answers count as misses.
+ */
+export const triviaRace: GameModule<TriviaRaceState> = {
+  game: "trivia_race",
+  title: "Trivia Race",
+  rules: `Answer ${QUESTIONS_PER_GAME} questions, ${QUESTION_TIME_MS / 1000} seconds each. Faster correct answers score more.`,
+  maxScore: QUESTIONS_PER_GAME * (CORRECT_POINTS + MAX_SPEED_BONUS),
+  passingScore: 3 * CORRECT_POINTS,
+
+  start(random, now) {
+    return {
+      questions: shuffle(QUESTION_BANK, random)
+        .slice(0, QUESTIONS_PER_GAME)
+        .map(question => {
+          // Shuffle the choices too, keeping track of the correct one
+          const order = shuffle(question.choices.map((_, index) => index), random);
+          return {
+            prompt: question.prompt,
+            choices: order.map(index => question.choices[index]),
+            answer: order.indexOf(question.answer),
+          };
+        }),
+      current: 0,
+      askedAt: now,
+      correct: 0,
+      points: 0,
+    };
+  },
+
+  turn(state, move, now) {
+    const question = currentQuestion(state);
+    if (!question) {
+      throw new Error("No question left to answer");
+    }
+    const elapsed = now - state.askedAt;
+    // An empty move passes, which is how the clock running out is reported
+    const picked = move.trim() ? resolveChoice(move, question.choices) : undefined;
+    if (move.trim() && picked === undefined && elapsed <= QUESTION_TIME_MS) {
+      throw new Error(`Answer with a letter from A to ${choiceLabel(question.choices.length - 1)}`);
+    }
+
+    state.current += 1;
+    state.askedAt = now;
+    if (elapsed > QUESTION_TIME_MS) {
+      return { correct: false, points: 0, feedback: "Time's up!" };
+    }
+    if (picked === undefined) {
+      return { correct: false, points: 0, feedback: "Skipped" };
+    }
+    if (picked !== question.answer) {
+      return { correct: false, points: 0, feedback: "Not quite" };
+    }
+    const points = CORRECT_POINTS + Math.round(MAX_SPEED_BONUS * (1 - elapsed / QUESTION_TIME_MS));
+    state.correct += 1;
+    state.points += points;
+    return { correct: true, points, feedback: `Correct! +${points}` };
+  },
+
+  score(state) {
+    return state.points;
+  },
+
+  isOver(state) {
+    return state.current >= state.questions.length;
+  },
+
+  finish(state) {
+    state.current = state.questions.length;
+  },
+
+  view(state): TriviaRaceView {
+    const question = currentQuestion(state);
+    return {
+      game: "trivia_race",
+      question: question && {
+        number: state.current + 1,
+        prompt: question.prompt,
+        choices: question.choices,
+        deadline: state.askedAt + QUESTION_TIME_MS,
+      },
+      total: state.questions.length,
+      correct: state.correct,
+    };
+  },
+};
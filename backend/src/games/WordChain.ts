@@ -0,0 +1,111 @@
+import { readFileSync } from "node:fs";
+import type { WordChainView } from "../types/Game";
+import type { GameModule } from "./GameModule";
+
+interface WordChainState {
+  words: string[]; // the opening word, then the player's
+  strikes: number;
+  deadline: number;
+  points: number;
+  ended: boolean; // given up before the clock ran out
+}
+
+const GAME_TIME_MS = 90_000;
+const MAX_STRIKES = 3;
+const MIN_WORD_LENGTH = 3;
+const MAX_WORD_LENGTH = 24;
+// Long words score no more than this, so passing takes a chain, not a few long words
+const MAX_WORD_POINTS = 5;
+
+const OPENING_WORDS = ["quest", "arena", "token", "group", "badge", "chain", "reward", "streak", "level", "wallet"];
+
+// Common English words (SCOWL, see dictionary/COPYRIGHT), loaded on first use
+let dictionary: Set<string> | undefined;
+const isWord = (word: string): boolean => {
+  dictionary ??= new Set(readFileSync(new URL("./dictionary/words.txt", import.meta.url), "utf-8").split("\n"));
+  return dictionary.has(word);
+};
+
+const nextLetter = (state: WordChainState): string => state.words[state.words.length - 1].slice(-1);
+
+// Reason a word does not fit the chain, if any
+const checkWord = (state: WordChainState, word: string): string | undefined => {
+  if (!/^[a-z]+$/.test(word)) {
+    return "Letters only, one word";
+  }
+  if (word.length < MIN_WORD_LENGTH || word.length > MAX_WORD_LENGTH) {
+    return `Words need ${MIN_WORD_LENGTH} to ${MAX_WORD_LENGTH} letters`;
+  }
+  if (!word.startsWith(nextLetter(state))) {
+    return `It has to start with "${nextLetter(state).toUpperCase()}"`;
+  }
+  if (!isWord(word)) {
+    return "That is not in our dictionary";
+  }
+  if (state.words.includes(word)) {
+    return "Already used";
+  }
+  return undefined;
+};
+
+/**
+ * Word chain: each word starts with the last letter of the one before,
+ * against the clock. A point per letter, up to five a word, so passing takes
+ * a real chain; three bad words end the game.
+ */
+export const wordChain: GameModule<WordChainState> = {
+  game: "word_chain",
+  title: "Word Chain",
+  rules: `Chain words that start with the last letter of the previous one. ${GAME_TIME_MS / 1000} seconds, ${MAX_STRIKES} strikes and you're out. One point per letter, up to ${MAX_WORD_POINTS} per word.`,
+  passingScore: 40,
+
+  start(random, now) {
+    return {
+      words: [OPENING_WORDS[Math.floor(random() * OPENING_WORDS.length)]],
+      strikes: 0,
+      deadline: now + GAME_TIME_MS,
+      points: 0,
+      ended: false,
+    };
+  },
+
+  turn(state, move, now) {
+    if (now > state.deadline) {
+      return { correct: false, points: 0, feedback: "Time's up!" };
+    }
+    const word = move.trim().toLowerCase();
+    const problem = checkWord(state, word);
+    if (problem) {
+      state.strikes += 1;
+      const left = MAX_STRIKES - state.strikes;
+      return { correct: false, points: 0, feedback: `${problem}. ${left > 0 ? `${left} strike(s) left` : "Out of strikes"}` };
+    }
+    const points = Math.min(word.length, MAX_WORD_POINTS);
+    state.words.push(word);
+    state.points += points;
+    return { correct: true, points, feedback: `+${points}` };
+  },
+
+  score(state) {
+    return state.points;
+  },
+
+  isOver(state, now) {
+    return state.ended || state.strikes >= MAX_STRIKES || now > state.deadline;
+  },
+
+  finish(state) {
+    state.ended = true;
+  },
+
+  view(state): WordChainView {
+    return {
+      game: "word_chain",
+      words: state.words,
+      nextLetter: nextLetter(state),
+      strikes: state.strikes,
+      maxStrikes: MAX_STRIKES,
+      deadline: state.deadline,
+    };
+  },
+};
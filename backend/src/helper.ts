@@ -4,9 +4,16 @@ import fs from "node:fs";
 import path from "node:path";
 import { IdentifierKind, type Signer } from "@xmtp/node-sdk";
 import { fromString, toString } from "uint8arrays";
-import { createWalletClient, http, toBytes } from "viem";
+import {
+  TransactionReceiptNotFoundError,
+  createPublicClient,
+  createWalletClient,
+  http,
+  toBytes,
+} from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { sepolia } from "viem/chains";
+import type { ZodError } from "zod";
 
 export const defaultInboxes = [
   // Remove default inboxes for now to avoid verification issues
@@ -61,6 +68,59 @@ export const getDbPath = (env: string) => {
   return dbPath;
 };
 
+/**
+ * Path of the quest database, stored alongside the XMTP database
+ */
+export const getQuestDbPath = (env: string) => {
+  return path.join(path.dirname(getDbPath(env)), `${env}-quests.db3`);
+};
+
+/**
+ * Look up a mined transaction's outcome, sender and block time, for tx_hash
+ * quest proofs. Returns undefined when no RPC URL is configured.
+ */
+export const createTransactionLookup = (rpcUrl: string | undefined) => {
+  if (!rpcUrl) {
+    return undefined;
+  }
+  const client = createPublicClient({ transport: http(rpcUrl) });
+  return async (hash: `0x${string}`) => {
+    try {
+      const receipt = await client.getTransactionReceipt({ hash });
+      const block = await client.getBlock({ blockNumber: receipt.blockNumber });
+      return {
+        status: receipt.status,
+        from: receipt.from,
+        minedAt: new Date(Number(block.timestamp) * 1000),
+      };
+    } catch (error) {
+      if (error instanceof TransactionReceiptNotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  };
+};
+
+/**
+ * Read an environment variable holding JSON, undefined when it is unset
+ */
+export const parseJsonEnv = (name: string, value: string | undefined): unknown => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${name} must be JSON, got: ${value}`);
+  }
+};
+
+/**
+ * Zod issues as "path: message", with `root` as the path of issues about
+ * the whole value
+ */
+export const formatZodIssues = (error: ZodError, root = ""): string[] =>
+  error.issues.map(issue => `${issue.path.join(".") || root}: ${issue.message}`);
+
 export const generateEncryptionKeyHex = () => {
   const uint8Array = getRandomValues(new Uint8Array(32));
   return toString(uint8Array, "hex");
@@ -2,9 +2,12 @@
 import {
   Client,
   Group,
+  IdentifierKind,
+  type Conversation,
   type XmtpEnv,
   type DecodedMessage,
 } from "@xmtp/node-sdk";
+import { ContentTypeReaction, ReactionCodec, type Reaction } from "@xmtp/content-type-reaction";
 import cors from "cors";
 import "dotenv/config";
 import express, { type Request, type Response } from "express";
@@ -14,15 +17,79 @@ import { createServer } from "http";
 import {
   appendToEnv,
   createSigner,
+  createTransactionLookup,
   defaultInboxes,
+  formatZodIssues,
   getDbPath,
   getEncryptionKeyFromHex,
+  getQuestDbPath,
   validateEnvironment,
 } from "./helper";
 import { QuestMaster, QUEST_MASTER_PERSONALITIES } from "./agents/QuestMaster";
 import { QuestOrchestrator } from "./services/QuestOrchestrator";
 import { MiniAppLauncher } from "./services/MiniAppLauncher";
-import type { Quest } from "./types/Quest";
+import { QuestStore, type LevelUp } from "./services/QuestStore";
+import { createProgression } from "./services/Progression";
+import { createStreakTracker } from "./services/Streaks";
+import { StreakService, type StreakReminder } from "./services/StreakService";
+import { SeasonService, createSeasonConfig, parseSeasonRewards } from "./services/SeasonService";
+import { InvalidCursorError, LeaderboardService } from "./services/LeaderboardService";
+import { JobScheduler } from "./services/JobScheduler";
+import { QuestScheduler, type QuestExpirySummary } from "./services/QuestScheduler";
+import { QuestTriggerPolicy } from "./services/QuestTriggerPolicy";
+import { ChatCommandHandler, describeSubmission, type CommandReply } from "./services/ChatCommands";
+import { QuestReactionHandler } from "./services/QuestReactions";
+import { QuestActionHandler } from "./services/QuestActions";
+import { SubmissionService, type SubmissionOutcome } from "./services/SubmissionService";
+import type { BonusAward, JudgedPlacement, TeamContribution } from "./services/QuestStore";
+import { createProofVerifiers, publicProofRequirement } from "./services/ProofVerifiers";
+import { publicQuest } from "./services/PublicQuest";
+import { ContestJudge } from "./services/ContestJudge";
+import { QuizService } from "./services/QuizService";
+import { VoteService } from "./services/VoteService";
+import { TeamService, type TeamStanding } from "./services/TeamService";
+import { ChainService, CHAIN_ENDED_REASON } from "./services/ChainService";
+import { BadgeRegistry } from "./services/BadgeRegistry";
+import { AchievementService } from "./services/AchievementService";
+import { GalleryService, createGalleryConfig, type ReactionChange } from "./services/GalleryService";
+import { GameService } from "./services/GameService";
+import type { VoteTally } from "./services/VoteTally";
+import type { ContestPlacement } from "./agents/ContestJudging";
+import {
+  ActionsCodec,
+  ContentTypeIntent,
+  IntentCodec,
+  type IntentContent,
+} from "./content-types/InlineActions";
+import { SqliteQuestRepository } from "./storage/SqliteQuestRepository";
+import { createLLMProvider } from "./llm/createLLMProvider";
+import { createBlobStore } from "./blobs/createBlobStore";
+import { isValidBlobKey } from "./blobs/BlobStore";
+import type {
+  Quest,
+  QuestCompletion,
+  QuestSubmission,
+  ProofSubmission,
+  QuizAnswer,
+  QuestVote,
+  QuestTeam,
+  QuestChain,
+  UserProfile,
+} from "./types/Quest";
+import type { Badge, EarnedBadge } from "./types/Badge";
+import type { StreakUpdate } from "./types/Streak";
+import type { Season, SeasonStanding } from "./types/Season";
+import type { GameSession } from "./types/Game";
+import { ProofSubmissionSchema } from "./types/Quest";
+import { TriggerPolicyOverridesSchema } from "./types/TriggerPolicy";
+import { LeaderboardQuerySchema } from "./types/Leaderboard";
+import {
+  QUEST_JUDGED_REASON,
+  QUEST_TIME_UP_REASON,
+  isJudgedQuest,
+  isTeamQuest,
+  type QuestTransition,
+} from "./services/QuestLifecycle";
 
 const { 
   WALLET_KEY, 
@@ -30,25 +97,79 @@ const {
   ENCRYPTION_KEY, 
   XMTP_ENV, 
   PORT,
-  OPENAI_API_KEY 
 } = validateEnvironment([
   "WALLET_KEY",
   "API_SECRET_KEY",
   "ENCRYPTION_KEY",
   "XMTP_ENV",
   "PORT",
-  "OPENAI_API_KEY",
 ]);
 
 let GROUP_ID = process.env.GROUP_ID;
 console.log(GROUP_ID)
 // Global XMTP client
-let xmtpClient: Client;
+let xmtpClient: Client<any>;
+
+// Durable quest storage shared by every service
+const questRepository = new SqliteQuestRepository(getQuestDbPath(XMTP_ENV));
+// Single source of truth for participants, status and completions
+// and of levels and streaks, on the curve set by LEVEL_CURVE
+const questStore = new QuestStore(questRepository, createProgression(), createStreakTracker());
+// Persistent timers for quest start, reminders and expiration
+const jobScheduler = new JobScheduler(questRepository);
+const questScheduler = new QuestScheduler(questStore, jobScheduler);
+// Decides when a conversation gets an automatic quest
+const questTriggerPolicy = new QuestTriggerPolicy(questRepository, questStore);
+// Holds completions until their proof is verified
+const submissionService = new SubmissionService(
+  questRepository,
+  questStore,
+  createProofVerifiers({
+    hasPostedSince: (conversationId, inboxId, since) => hasPostedSince(conversationId, inboxId, since),
+    getTransaction: createTransactionLookup(process.env.PROOF_RPC_URL),
+    getWalletAddresses: inboxId => getWalletAddresses(inboxId),
+    getGameResult: sessionId => gameService.getResult(sessionId),
+  })
+);
+
+// Model backend shared by all Quest Masters, selected by LLM_PROVIDER
+const llmProvider = createLLMProvider();
+console.log(`🤖 Using LLM provider: ${llmProvider.name}`);
+// Grades knowledge quest answers
+const quizService = new QuizService(questRepository, questStore);
+// Runs peer votes on entries and poll options
+const voteService = new VoteService(questRepository, questStore, jobScheduler, (conversationId, inboxId) =>
+  isGroupMember(conversationId, inboxId)
+);
+// Forms the teams of team quests
+const teamService = new TeamService(questRepository, questStore);
+// Unlocks the steps of quest chains and awards their bonus
+const chainService = new ChainService(questRepository, questStore, jobScheduler, questScheduler);
+// Every badge that can be earned, and the engine that puts them on profiles
+const badgeRegistry = new BadgeRegistry(questRepository);
+const achievementService = new AchievementService(questRepository, questStore, badgeRegistry);
+// Settles daily streaks and reminds players before theirs ends
+const streakService = new StreakService(questStore, jobScheduler);
+// Seasonal leaderboards, set by SEASON_LENGTH_DAYS or scheduled through the API
+const seasonService = new SeasonService(questRepository, questStore, jobScheduler, createSeasonConfig());
+// Rankings by scope, time window and metric
+const leaderboardService = new LeaderboardService(questStore, seasonService);
+// Uploaded gallery entries, on disk or in an S3-compatible bucket (BLOB_STORE)
+const blobStore = createBlobStore();
+const galleryConfig = createGalleryConfig();
+const galleryService = new GalleryService(questRepository, questStore, submissionService, voteService, blobStore, galleryConfig);
+// Deals and scores game mini apps, submitting each finished game as proof
+const gameService: GameService = new GameService(questRepository, questStore, submissionService);
+// Ranks entries of creative contests and other judged quests
+const contestJudge = new ContestJudge(questStore, submissionService, llmProvider);
 
 // AI Quest Master instances
 let questMasters: Map<string, QuestMaster> = new Map();
 let questOrchestrator: QuestOrchestrator;
 let miniAppLauncher: MiniAppLauncher;
+let chatCommands: ChatCommandHandler;
+let questReactions: QuestReactionHandler;
+let questActions: QuestActionHandler;
 
 // WebSocket server for real-time updates
 let wss: WebSocketServer;
@@ -58,9 +179,7 @@ const initializeQuestMasters = () => {
   questMasters.clear();
   
   QUEST_MASTER_PERSONALITIES.forEach((personality) => {
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    console.log("openai", openaiApiKey);
-    const questMaster = new QuestMaster(personality, openaiApiKey!);
+    const questMaster = new QuestMaster(personality, questStore, badgeRegistry, llmProvider);
     questMasters.set(personality.name, questMaster);
     
     // Listen for quest events
@@ -68,36 +187,519 @@ const initializeQuestMasters = () => {
       console.log(`🎯 Quest "${quest.title}" created by ${personality.name} for conversation ${conversationId}`);
       broadcastToClients({
         type: "questCreated",
-        data: { quest, conversationId, questMaster: personality.name }
+        data: { quest: publicQuest(quest), conversationId, questMaster: personality.name }
       });
       
-      // Get the conversation object to pass to MiniAppLauncher
-      try {
-        const conversation = await xmtpClient.conversations.getConversationById(conversationId);
-        if (conversation && conversation instanceof Group) {
-          // Launch mini app for the quest with conversation object
-          await miniAppLauncher.launchQuestMiniApp(quest, conversationId, conversation as Group<any>);
-        } else {
-          // Fallback without conversation object
-          await miniAppLauncher.launchQuestMiniApp(quest, conversationId);
-        }
-      } catch (error) {
-        console.error("❌ Error launching mini app:", error);
-        // Fallback without conversation object
-        await miniAppLauncher.launchQuestMiniApp(quest, conversationId);
-      }
+      await launchMiniApp(quest, conversationId);
     });
-    
-    questMaster.on("questCompleted", (completion) => {
-      console.log(`🏆 Quest completed by ${completion.participantInboxId}`);
+  });
+  
+  console.log(`✅ Initialized ${questMasters.size} Quest Masters`);
+};
+
+// Launch the mini app of a quest in its conversation
+const launchMiniApp = async (quest: Quest, conversationId: string) => {
+  // Get the conversation object to pass to MiniAppLauncher
+  try {
+    const conversation = await xmtpClient.conversations.getConversationById(conversationId);
+    if (conversation && conversation instanceof Group) {
+      // Launch mini app for the quest with conversation object
+      await miniAppLauncher.launchQuestMiniApp(quest, conversationId, conversation as Group<any>);
+    } else {
+      // Fallback without conversation object
+      await miniAppLauncher.launchQuestMiniApp(quest, conversationId);
+    }
+  } catch (error) {
+    console.error("❌ Error launching mini app:", error);
+    // Fallback without conversation object
+    await miniAppLauncher.launchQuestMiniApp(quest, conversationId);
+  }
+};
+
+// Broadcast quest state changes no matter which channel caused them
+const initializeQuestStoreListeners = () => {
+  questStore.on("participantJoined", ({ questId, inboxId }) => {
+    broadcastToClients({
+      type: "participantJoined",
+      data: { questId, inboxId }
+    });
+  });
+
+  questStore.on("participantLeft", ({ questId, inboxId }) => {
+    broadcastToClients({
+      type: "participantLeft",
+      data: { questId, inboxId }
+    });
+  });
+
+  questStore.on("participantCompleted", async (completion: QuestCompletion, quest: Quest) => {
+    console.log(`🏆 Quest completed by ${completion.participantInboxId}`);
+    broadcastToClients({
+      type: "participantCompleted",
+      data: { ...completion, inboxId: completion.participantInboxId }
+    });
+
+    // Judged, voted and team quests post all results together once they are done
+    if (isJudgedQuest(quest) || isTeamQuest(quest)) return;
+
+    const questMaster = questOrchestrator?.getQuestMasterForQuest(quest);
+    if (questMaster) {
+      await sendToQuestConversation(quest, await questMaster.generateCompletionMessage(quest, completion));
+    }
+  });
+
+  questStore.on("questTransition", (transition: QuestTransition) => {
+    const { quest, from, to, reason } = transition;
+    broadcastToClients({
+      type: "questStatusChanged",
+      data: { questId: quest.id, from, to, reason, quest: publicQuest(quest) }
+    });
+    void announceQuestTransition(transition);
+  });
+};
+
+// Post ranked results of judged quests
+const initializeContestJudgeListeners = () => {
+  contestJudge.on("questJudged", async (quest: Quest, placements: ContestPlacement[]) => {
+    broadcastToClients({
+      type: "questJudged",
+      data: { questId: quest.id, placements }
+    });
+
+    const questMaster = questOrchestrator?.getQuestMasterForQuest(quest);
+    if (questMaster) {
+      await sendToQuestConversation(quest, await questMaster.generateContestResults(quest, placements));
+    }
+  });
+};
+
+// Push live tallies to the mini app and post vote results to the group
+const initializeVoteListeners = () => {
+  voteService.on("voteCast", (vote: QuestVote, _quest: Quest, tally: VoteTally) => {
+    broadcastToClients({
+      type: "voteTally",
+      data: { questId: vote.questId, tally }
+    });
+  });
+
+  voteService.on("voteClosed", async (quest: Quest, tally: VoteTally, placements: JudgedPlacement[]) => {
+    broadcastToClients({
+      type: "voteClosed",
+      data: { questId: quest.id, tally, placements }
+    });
+
+    const questMaster = questOrchestrator?.getQuestMasterForQuest(quest);
+    if (questMaster) {
+      await sendToQuestConversation(quest, await questMaster.generateVoteResults(quest, tally, placements));
+    }
+  });
+};
+
+// Keep team rosters live in the mini app and post each team's shared rewards
+const initializeTeamListeners = () => {
+  teamService.on("teamsChanged", (quest: Quest, standings: TeamStanding[]) => {
+    broadcastToClients({
+      type: "teamsUpdated",
+      data: { questId: quest.id, standings }
+    });
+  });
+
+  questStore.on("teamContribution", ({ quest }: TeamContribution) => {
+    broadcastToClients({
+      type: "teamsUpdated",
+      data: { questId: quest.id, standings: teamService.getStandings(quest.id) }
+    });
+  });
+
+  questStore.on("teamCompleted", async (team: QuestTeam, quest: Quest, completions: QuestCompletion[]) => {
+    broadcastToClients({
+      type: "teamCompleted",
+      data: { questId: quest.id, team, completions }
+    });
+
+    const questMaster = questOrchestrator?.getQuestMasterForQuest(quest);
+    if (questMaster) {
+      await sendToQuestConversation(quest, questMaster.generateTeamResults(quest, team, completions));
+    }
+  });
+};
+
+// Introduce quest chains, announce each step as it unlocks and post chain bonuses
+const initializeChainListeners = () => {
+  chainService.on("chainCreated", async (chain: QuestChain, quests: Quest[]) => {
+    broadcastToClients({
+      type: "chainCreated",
+      data: { chain, quests: quests.map(publicQuest) }
+    });
+
+    const questMaster = chain.questMaster ? questMasters.get(chain.questMaster) : undefined;
+    if (questMaster) {
+      await sendToQuestConversation(quests[0], await questMaster.generateChainAnnouncement(chain, quests));
+    }
+    await announceChainStep(quests[0]);
+  });
+
+  chainService.on("stepUnlocked", async (chain: QuestChain, quest: Quest) => {
+    broadcastToClients({
+      type: "chainUpdated",
+      data: { chain, questId: quest.id }
+    });
+    await announceChainStep(quest);
+  });
+
+  for (const event of ["chainCompleted", "chainFailed"]) {
+    chainService.on(event, async (chain: QuestChain) => {
       broadcastToClients({
-        type: "questCompleted", 
-        data: completion
+        type: "chainUpdated",
+        data: { chain }
       });
+
+      const questMaster = chain.questMaster ? questMasters.get(chain.questMaster) : undefined;
+      const quest = questStore.getQuest(chain.questIds[0]);
+      if (questMaster && quest) {
+        await sendToQuestConversation(quest, questMaster.generateChainEnded(chain));
+      }
+    });
+  }
+
+  chainService.on("chainBonusAwarded", async (chain: QuestChain, inboxId: string, profile: UserProfile) => {
+    broadcastToClients({
+      type: "chainBonusAwarded",
+      data: { chainId: chain.id, inboxId, profile }
     });
+
+    const questMaster = chain.questMaster ? questMasters.get(chain.questMaster) : undefined;
+    const quest = questStore.getQuest(chain.questIds[chain.questIds.length - 1]);
+    if (questMaster && quest) {
+      await sendToQuestConversation(quest, questMaster.generateChainBonusMessage(chain, inboxId));
+    }
+  });
+};
+
+// Celebrate level-ups in the conversation of the quest that gave the XP, or
+// by DM for bonuses
+const initializeLevelListeners = () => {
+  questStore.on("levelUp", async (levelUp: LevelUp) => {
+    broadcastToClients({
+      type: "levelUp",
+      data: { ...levelUp, levelProgress: questStore.progression.progress(levelUp.profile.xp) }
+    });
+
+    const quest = levelUp.questId ? questStore.getQuest(levelUp.questId) : undefined;
+    const questMaster = quest ? questOrchestrator?.getQuestMasterForQuest(quest) : undefined;
+    if (quest && questMaster) {
+      await sendToQuestConversation(quest, questMaster.generateLevelUpMessage(levelUp));
+    } else {
+      const unlocked = questStore.progression
+        .difficultiesFor(levelUp.to)
+        .filter(difficulty => questStore.progression.minLevelFor(difficulty) > levelUp.from);
+      const unlocks = unlocked.length > 0 ? `\nYou can now join ${unlocked.join(" and ")} quests.` : "";
+      await sendDirectMessage(levelUp.inboxId, `⭐ **You reached level ${levelUp.to}!**${unlocks}`);
+    }
+  });
+};
+
+// Keep streaks live on the dashboard and tell players when a freeze token
+// is earned or used, or their streak ends
+const initializeStreakListeners = () => {
+  questStore.on("streakUpdated", async (update: StreakUpdate) => {
+    broadcastToClients({ type: "streakUpdated", data: update });
+
+    const { status } = update;
+    const notes = [
+      update.lost > 0 ? `💔 Your ${update.lost}-day streak ended.${status.days > 0 ? ` A new one starts today!` : ""}` : "",
+      update.frozenDays > 0
+        ? `🧊 A streak freeze covered ${update.frozenDays} missed day(s), so your ${status.days}-day streak lives on (${status.freezeTokens} freeze(s) left).`
+        : "",
+      update.freezeEarned ? `🧊 You earned a streak freeze! You have ${status.freezeTokens} to cover missed days.` : "",
+    ].filter(Boolean);
+    if (notes.length > 0) {
+      await sendDirectMessage(update.inboxId, notes.join("\n"));
+    }
+  });
+
+  streakService.on("streakAtRisk", async ({ inboxId, status }: StreakReminder) => {
+    broadcastToClients({ type: "streakAtRisk", data: { inboxId, status } });
+    await sendDirectMessage(
+      inboxId,
+      `🔥 Your **${status.days}-day streak** ends at midnight UTC! Complete a quest today to keep it and earn ×${status.multiplier} XP.`
+    );
+  });
+};
+
+// Announce season changes in the default group and reward the winners by DM
+const initializeSeasonListeners = () => {
+  seasonService.on("seasonStarted", async (season: Season) => {
+    broadcastToClients({ type: "seasonStarted", data: season });
+    await sendToDefaultGroup(
+      `🚩 **${season.name} has begun!** Every XP you earn until ${season.endsAt.toUTCString()} counts towards the season leaderboard. Check it with /leaderboard`
+    );
+  });
+
+  seasonService.on("seasonEnded", async (season: Season, standings: SeasonStanding[]) => {
+    broadcastToClients({ type: "seasonEnded", data: { season, standings: standings.slice(0, 10) } });
+
+    const medals = ["🥇", "🥈", "🥉"];
+    const podium = standings
+      .slice(0, 3)
+      .map(s => `${medals[s.rank - 1]} ${s.inboxId.slice(0, 6)}...${s.inboxId.slice(-6)} — ${s.xp} XP`);
+    await sendToDefaultGroup(
+      podium.length > 0
+        ? `🏁 **${season.name} is over!** Final standings:\n\n${podium.join("\n")}`
+        : `🏁 **${season.name} is over!** Nobody scored this season.`
+    );
+    for (const standing of standings) {
+      if (standing.rewards) {
+        const badges = standing.rewards.badges.length > 0 ? ` and the ${standing.rewards.badges.join(", ")} badge` : "";
+        await sendDirectMessage(
+          standing.inboxId,
+          `🏆 You finished ${season.name} at **rank ${standing.rank}** with ${standing.xp} XP! You earned ${standing.rewards.xp} bonus XP${badges}.`
+        );
+      }
+    }
+  });
+};
+
+// Tell leaderboard mini apps to refresh when a score changes
+const initializeLeaderboardListeners = () => {
+  questStore.on("participantCompleted", (completion: QuestCompletion, quest: Quest) => {
+    broadcastToClients({
+      type: "leaderboardUpdated",
+      data: { inboxId: completion.participantInboxId, questId: quest.id, conversationId: quest.conversationId }
+    });
+  });
+
+  questStore.on("bonusAwarded", ({ inboxId }: BonusAward) => {
+    broadcastToClients({ type: "leaderboardUpdated", data: { inboxId } });
+  });
+};
+
+// Keep open galleries in sync as entries and reactions come in
+const initializeGalleryListeners = () => {
+  galleryService.on("entryAdded", (quest: Quest, submission: QuestSubmission) => {
+    broadcastToClients({
+      type: "galleryUpdated",
+      data: { questId: quest.id, submissionId: submission.id }
+    });
+  });
+
+  galleryService.on("reactionChanged", (change: ReactionChange) => {
+    broadcastToClients({ type: "galleryReaction", data: change });
+  });
+};
+
+// Keep game scoreboards live as players finish their games
+const initializeGameListeners = () => {
+  gameService.on("gameFinished", (session: GameSession) => {
+    broadcastToClients({
+      type: "gameScoreboard",
+      data: { questId: session.questId, scoreboard: gameService.getScoreboard(session.questId) }
+    });
+  });
+};
+
+// Announce a chain step that is now open to join and launch its mini app
+const announceChainStep = async (quest: Quest) => {
+  const questMaster = questOrchestrator?.getQuestMasterForQuest(quest);
+  if (!xmtpClient || !questMaster) return;
+
+  try {
+    const conversation = await xmtpClient.conversations.getConversationById(quest.conversationId);
+    if (conversation instanceof Group) {
+      await questOrchestrator.announceQuest(quest, questMaster, conversation);
+    }
+  } catch (error) {
+    console.error("❌ Error announcing chain step:", error);
+  }
+  await launchMiniApp(quest, quest.conversationId);
+};
+
+// Tell players about achievements they unlock; badges from quest rewards are
+// already in the Quest Master's congratulation
+const initializeAchievementListeners = () => {
+  achievementService.on("badgeEarned", async (inboxId: string, badge: Badge, earned: EarnedBadge) => {
+    broadcastToClients({
+      type: "badgeEarned",
+      data: { inboxId, badge, earned }
+    });
+
+    if (badge.criteria.kind !== "quest") {
+      await sendDirectMessage(inboxId, `${badge.icon} **Achievement unlocked: ${badge.name}** (${badge.rarity})\n${badge.description}`);
+    }
+  });
+};
+
+// Keep knowledge quest scoreboards live in the mini app
+const initializeQuizListeners = () => {
+  quizService.on("questionAnswered", (answer: QuizAnswer) => {
+    broadcastToClients({
+      type: "quizScoreboard",
+      data: { questId: answer.questId, scoreboard: quizService.getScoreboard(answer.questId) }
+    });
+  });
+};
+
+// Keep clients in sync with proof submissions and tell participants about
+// submissions settled after they sent them
+const initializeSubmissionListeners = () => {
+  for (const event of ["submissionPending", "submissionVerified", "submissionRejected"]) {
+    submissionService.on(event, (submission: QuestSubmission) => {
+      broadcastToClients({ type: "submissionUpdated", data: submission });
+    });
+  }
+
+  submissionService.on("submissionReviewed", async (outcome: SubmissionOutcome) => {
+    const quest = questStore.getQuest(outcome.submission.questId);
+    if (quest) {
+      await sendDirectMessage(outcome.submission.participantInboxId, describeSubmission(quest, outcome).text);
+    }
+  });
+};
+
+// Post a quest status change into the quest's group chat
+const announceQuestTransition = async ({ quest, from, to, reason }: QuestTransition) => {
+  // Time-ups are announced with the richer expiry summary instead, except
+  // when entries go to judging; judged quests finish with their results
+  if (reason === QUEST_TIME_UP_REASON && to !== "judging") return;
+  if (reason === QUEST_JUDGED_REASON) return;
+  // Chain steps are announced in full when they unlock, and steps that never
+  // unlocked are covered by the end of the chain
+  if (from === "draft" || reason === CHAIN_ENDED_REASON) return;
+
+  const questMaster = questOrchestrator?.getQuestMasterForQuest(quest);
+  const announcement = questMaster?.generateStatusAnnouncement(quest, from, to, reason);
+  if (announcement) {
+    await sendToQuestConversation(quest, announcement);
+  }
+};
+
+// Send a message to the group chat a quest belongs to
+const sendToQuestConversation = async (quest: Quest, message: string) => {
+  if (!xmtpClient) return;
+
+  try {
+    const conversation = await xmtpClient.conversations.getConversationById(quest.conversationId);
+    if (conversation) {
+      await conversation.send(message);
+    }
+  } catch (error) {
+    console.error("❌ Error sending quest message:", error);
+  }
+};
+
+// Post in the default group chat
+const sendToDefaultGroup = async (message: string) => {
+  if (!xmtpClient || !GROUP_ID) return;
+
+  try {
+    const conversation = await xmtpClient.conversations.getConversationById(GROUP_ID);
+    if (conversation) {
+      await conversation.send(message);
+    }
+  } catch (error) {
+    console.error("❌ Error sending group message:", error);
+  }
+};
+
+// Send a private message to a user
+const sendDirectMessage = async (inboxId: string, message: string) => {
+  if (!xmtpClient) return;
+
+  try {
+    const dm = await xmtpClient.conversations.newDm(inboxId);
+    await dm.send(message);
+  } catch (error) {
+    console.error("❌ Error sending direct message:", error);
+  }
+};
+
+// Whether a user posted a non-command message in a conversation since a given time
+const hasPostedSince = async (conversationId: string, inboxId: string, since: Date): Promise<boolean> => {
+  const conversation = await xmtpClient.conversations.getConversationById(conversationId);
+  if (!conversation) {
+    return false;
+  }
+  const messages = await conversation.messages({ sentAfterNs: since.getTime() * 1_000_000 });
+  return messages.some(
+    m => m.senderInboxId.toLowerCase() === inboxId.toLowerCase() &&
+      typeof m.content === "string" &&
+      !m.content.trim().startsWith("/")
+  );
+};
+
+// Emojis a user still has on a message, replaying their reactions to it
+const getReactions = async (conversationId: string, messageId: string, inboxId: string, since: Date): Promise<string[]> => {
+  const conversation = await xmtpClient.conversations.getConversationById(conversationId);
+  if (!conversation) {
+    return [];
+  }
+  const messages = await conversation.messages({ sentAfterNs: since.getTime() * 1_000_000 });
+  const emojis = new Set<string>();
+  for (const message of messages.sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime())) {
+    if (
+      !message.contentType ||
+      !ContentTypeReaction.sameAs(message.contentType) ||
+      message.senderInboxId.toLowerCase() !== inboxId.toLowerCase()
+    ) {
+      continue;
+    }
+    const reaction = message.content as Reaction;
+    if (reaction.reference !== messageId) {
+      continue;
+    }
+    if (reaction.action === "removed") {
+      emojis.delete(reaction.content);
+    } else {
+      emojis.add(reaction.content);
+    }
+  }
+  return Array.from(emojis);
+};
+
+// Ethereum addresses linked to an inbox
+const getWalletAddresses = async (inboxId: string): Promise<string[]> => {
+  const state = await xmtpClient.preferences.getLatestInboxState(inboxId);
+  return state.identifiers
+    .filter(identifier => identifier.identifierKind === IdentifierKind.Ethereum)
+    .map(identifier => identifier.identifier);
+};
+
+// Whether an inbox is a member of a group conversation
+const isGroupMember = async (conversationId: string, inboxId: string): Promise<boolean> => {
+  const conversation = await xmtpClient.conversations.getConversationById(conversationId);
+  if (!conversation) {
+    return false;
+  }
+  const members = await (conversation as Group).members();
+  return members.some(member => member.inboxId.toLowerCase() === inboxId.toLowerCase());
+};
+
+// Relay scheduled quest events to WebSocket clients and the group chat
+const initializeQuestSchedulerListeners = () => {
+  questScheduler.on("questReminder", async (quest: Quest, minutesLeft: number) => {
+    broadcastToClients({
+      type: "questReminder",
+      data: { questId: quest.id, minutesLeft }
+    });
+    const questMaster = questOrchestrator?.getQuestMasterForQuest(quest);
+    if (questMaster) {
+      await sendToQuestConversation(quest, await questMaster.generateReminder(quest, minutesLeft));
+    }
+  });
+
+  questScheduler.on("questExpired", async (quest: Quest, summary: QuestExpirySummary) => {
+    broadcastToClients({
+      type: "questExpired",
+      data: { questId: quest.id, summary }
+    });
+    // Results follow once judging is done
+    if (summary.outcome === "judging") return;
+
+    const questMaster = questOrchestrator?.getQuestMasterForQuest(quest);
+    if (questMaster) {
+      await sendToQuestConversation(quest, await questMaster.generateExpirySummary(quest, summary));
+    }
   });
-  
-  console.log(`✅ Initialized ${questMasters.size} Quest Masters`);
 };
 
 // Initialize XMTP client and services
@@ -112,6 +714,7 @@ const initializeXmtpClient = async () => {
     dbEncryptionKey,
     env: XMTP_ENV as XmtpEnv,
     dbPath,
+    codecs: [new ReactionCodec(), new ActionsCodec(), new IntentCodec()],
   });
 
   console.log("📡 XMTP Client initialized with inbox ID:", xmtpClient.inboxId);
@@ -154,8 +757,19 @@ const initializeXmtpClient = async () => {
   }
   
   // Initialize services
-  questOrchestrator = new QuestOrchestrator(questMasters, xmtpClient);
-  miniAppLauncher = new MiniAppLauncher(process.env.NEXT_PUBLIC_URL || 'http://localhost:3000');
+  questOrchestrator = new QuestOrchestrator(questMasters, xmtpClient, questRepository, questStore, submissionService, quizService, voteService, teamService, chainService, achievementService, seasonService);
+  miniAppLauncher = new MiniAppLauncher(questRepository, questStore, process.env.NEXT_PUBLIC_URL || 'http://localhost:3000');
+  chatCommands = new ChatCommandHandler(questOrchestrator);
+  questReactions = new QuestReactionHandler(questOrchestrator, questStore, (conversationId, messageId, inboxId, since) =>
+    getReactions(conversationId, messageId, inboxId, since)
+  );
+  questActions = new QuestActionHandler(questOrchestrator, miniAppLauncher);
+
+  // Rehydrate and start quest timers now that messages can be delivered
+  streakService.scheduleReminders();
+  seasonService.rollover();
+  questScheduler.start();
+  contestJudge.resumeJudging();
   
   // Start monitoring conversations for quest opportunities
   void startConversationMonitoring();
@@ -489,7 +1103,7 @@ const initializeWebSocketServer = () => {
 app.get("/api/quests/active", validateApiSecret, async (req: Request, res: Response) => {
   try {
     const activeQuests = questOrchestrator ? questOrchestrator.getActiveQuests() : [];
-    res.json(activeQuests);
+    res.json(activeQuests.map(publicQuest));
   } catch (error) {
     console.error("❌ Error fetching active quests:", error);
     res.status(500).json({ error: "Failed to fetch active quests" });
@@ -499,8 +1113,24 @@ app.get("/api/quests/active", validateApiSecret, async (req: Request, res: Respo
 app.get("/api/quests/user/:inboxId/stats", validateApiSecret, async (req: Request, res: Response) => {
   try {
     const { inboxId } = req.params;
-    const stats = questOrchestrator ? questOrchestrator.getUserStats(inboxId) : null;
-    res.json(stats || { level: 1, xp: 0, questsCompleted: 0, socialScore: 0 });
+    if (!questOrchestrator) {
+      return res.json({ level: 1, xp: 0, questsCompleted: 0, socialScore: 0, levelProgress: questStore.progression.progress(0), streak: questStore.getStreak(inboxId), season: seasonService.getPlacement(inboxId), badges: [], achievements: [] });
+    }
+
+    const profile = questOrchestrator.getUserStats(inboxId);
+    const progress = questOrchestrator.getBadgeProgress(inboxId);
+    res.json({
+      ...profile,
+      questsCompleted: profile.completedQuests.length,
+      levelProgress: questOrchestrator.getLevelProgress(inboxId),
+      streak: questOrchestrator.getStreak(inboxId),
+      season: questOrchestrator.getSeasonPlacement(inboxId),
+      // Earned badges with their registry details, newest first
+      badges: progress
+        .flatMap(({ badge, earned }) => (earned ? [{ ...badge, earnedAt: earned.earnedAt, questId: earned.questId }] : []))
+        .sort((a, b) => b.earnedAt.getTime() - a.earnedAt.getTime()),
+      achievements: progress.filter(({ badge }) => badge.criteria.kind !== "quest"),
+    });
   } catch (error) {
     console.error("❌ Error fetching user stats:", error);
     res.status(500).json({ error: "Failed to fetch user stats" });
@@ -539,22 +1169,14 @@ app.post("/api/quests/:questId/join", validateApiSecret, async (req: Request, re
       return res.status(400).json({ error: "Missing inboxId" });
     }
     
-    const success = miniAppLauncher.addParticipant(questId, inboxId);
-    
-    if (success) {
-      // Broadcast participant joined event
-      broadcastToClients({
-        type: "participantJoined",
-        data: { questId, inboxId }
-      });
-      
-      res.json({ success: true, message: "Successfully joined quest" });
-    } else {
-      res.status(400).json({ error: "Failed to join quest" });
-    }
+    const joined = await questOrchestrator.joinQuest(questId, inboxId);
+    res.json({
+      success: true,
+      message: joined ? "Successfully joined quest" : "Already joined quest"
+    });
   } catch (error) {
     console.error("❌ Error joining quest:", error);
-    res.status(500).json({ error: "Failed to join quest" });
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to join quest" });
   }
 });
 
@@ -568,83 +1190,743 @@ app.post("/api/quests/:questId/leave", validateApiSecret, async (req: Request, r
       return res.status(400).json({ error: "Missing inboxId" });
     }
     
-    const success = miniAppLauncher.removeParticipant(questId, inboxId);
+    const left = await questOrchestrator.leaveQuest(questId, inboxId);
     
-    if (success) {
-      // Broadcast participant left event
-      broadcastToClients({
-        type: "participantLeft",
-        data: { questId, inboxId }
-      });
-      
+    if (left) {
       res.json({ success: true, message: "Successfully left quest" });
     } else {
-      res.status(400).json({ error: "Failed to leave quest" });
+      res.status(400).json({ error: "Not a participant in this quest" });
     }
   } catch (error) {
     console.error("❌ Error leaving quest:", error);
-    res.status(500).json({ error: "Failed to leave quest" });
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to leave quest" });
   }
 });
 
-// Complete a quest
+// Proof from a completion request; older clients send a free-form result instead
+const readProof = (body: any): Partial<ProofSubmission> => {
+  if (body.proof && typeof body.proof === "object") {
+    return ProofSubmissionSchema.partial().parse(body.proof);
+  }
+  const value = body.proof ?? body.result?.proof ?? body.result;
+  return { value: typeof value === "string" ? value : "" };
+};
+
+// 200 once rewards are awarded, 202 while waiting for verification, 422 when rejected
+const sendSubmissionOutcome = (res: Response, outcome: SubmissionOutcome) => {
+  const { submission, completion } = outcome;
+  if (submission.status === "rejected") {
+    return res.status(422).json({ error: submission.reason, submission });
+  }
+  res.status(submission.status === "verified" ? 200 : 202).json({
+    success: true,
+    status: submission.status,
+    message: submission.status === "verified" ? "Quest completed successfully" : submission.reason,
+    submission,
+    completion,
+  });
+};
+
+// Submit proof of completion for a quest
 app.post("/api/quests/:questId/complete", validateApiSecret, async (req: Request, res: Response) => {
   try {
     const { questId } = req.params;
-    const { inboxId, result } = req.body;
+    const { inboxId } = req.body;
     
     if (!inboxId) {
       return res.status(400).json({ error: "Missing inboxId" });
     }
     
-    // Complete the quest in mini app launcher
-    const success = miniAppLauncher.completeQuest(questId, inboxId);
-    
-    if (success && questOrchestrator) {
-      // Process quest completion through orchestrator
-      const questMasterNames = Array.from(questMasters.keys());
-      const randomQuestMaster = questMasters.get(
-        questMasterNames[Math.floor(Math.random() * questMasterNames.length)]
-      );
-      
-      if (randomQuestMaster) {
-        await randomQuestMaster.completeQuest(questId, inboxId, result);
-      }
-      
-      // Broadcast quest completion event
-      broadcastToClients({
-        type: "questCompleted",
-        data: { questId, inboxId, result }
-      });
-      
-      res.json({ success: true, message: "Quest completed successfully" });
-    } else {
-      res.status(400).json({ error: "Failed to complete quest" });
-    }
+    const outcome = await questOrchestrator.submitProof(questId, inboxId, readProof(req.body));
+    sendSubmissionOutcome(res, outcome);
   } catch (error) {
     console.error("❌ Error completing quest:", error);
-    res.status(500).json({ error: "Failed to complete quest" });
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to complete quest" });
   }
 });
 
-// Get all mini apps
-app.get("/api/miniapps", validateApiSecret, async (req: Request, res: Response) => {
+// Proof submissions for a quest, optionally for one participant
+app.get("/api/quests/:questId/submissions", validateApiSecret, async (req: Request, res: Response) => {
   try {
-    const activeMiniApps = miniAppLauncher.getActiveMiniApps();
-    res.json(activeMiniApps);
+    const { questId } = req.params;
+    const quest = questStore.getQuest(questId);
+    if (!quest) {
+      return res.status(404).json({ error: "Quest not found" });
+    }
+    
+    const participantInboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+    const submissions = submissionService.listSubmissions({ questId, participantInboxId });
+    res.json({ proof: publicProofRequirement(quest), submissions });
   } catch (error) {
-    console.error("❌ Error fetching mini apps:", error);
-    res.status(500).json({ error: "Failed to fetch mini apps" });
+    console.error("❌ Error fetching submissions:", error);
+    res.status(500).json({ error: "Failed to fetch submissions" });
   }
 });
 
-// Clean up expired mini apps
-app.post("/api/miniapps/cleanup", validateApiSecret, async (req: Request, res: Response) => {
+// Vouch for another participant's peer-confirmed submission
+app.post("/api/submissions/:submissionId/confirm", validateApiSecret, async (req: Request, res: Response) => {
   try {
-    const cleaned = miniAppLauncher.cleanupExpiredMiniApps();
-    res.json({ success: true, cleaned });
-  } catch (error) {
-    console.error("❌ Error cleaning up mini apps:", error);
+    const { submissionId } = req.params;
+    const { inboxId } = req.body;
+    
+    if (!inboxId) {
+      return res.status(400).json({ error: "Missing inboxId" });
+    }
+    
+    const outcome = await questOrchestrator.confirmSubmission(submissionId, inboxId);
+    sendSubmissionOutcome(res, outcome);
+  } catch (error) {
+    console.error("❌ Error confirming submission:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to confirm submission" });
+  }
+});
+
+// Questions of a knowledge quest, without their answers
+app.get("/api/quests/:questId/questions", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    const quest = questStore.getQuest(questId);
+    if (!quest) {
+      return res.status(404).json({ error: "Quest not found" });
+    }
+    
+    const inboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+    const answered = inboxId
+      ? questRepository.listQuizAnswers({ questId, participantInboxId: inboxId })
+      : [];
+    res.json({ questions: questOrchestrator.getQuizQuestions(quest), answered });
+  } catch (error) {
+    console.error("❌ Error fetching questions:", error);
+    res.status(500).json({ error: "Failed to fetch questions" });
+  }
+});
+
+// Answer one question of a knowledge quest
+app.post("/api/quests/:questId/answers", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    const { inboxId, questionId, answer } = req.body;
+    
+    if (!inboxId || !questionId || typeof answer !== "string") {
+      return res.status(400).json({ error: "Missing inboxId, questionId or answer" });
+    }
+    
+    const result = await questOrchestrator.answerQuestion(questId, inboxId, String(questionId), answer);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error("❌ Error answering question:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to answer question" });
+  }
+});
+
+// Scoreboard of a knowledge quest
+app.get("/api/quests/:questId/scoreboard", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    res.json({ scoreboard: questOrchestrator.getQuizScoreboard(questId) });
+  } catch (error) {
+    console.error("❌ Error fetching scoreboard:", error);
+    res.status(404).json({ error: error instanceof Error ? error.message : "Failed to fetch scoreboard" });
+  }
+});
+
+// What a quest's vote is on, the live tally and, with ?inboxId=, that member's ballot
+app.get("/api/quests/:questId/vote", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    const quest = questStore.getQuest(questId);
+    if (!quest) {
+      return res.status(404).json({ error: "Quest not found" });
+    }
+    if (!quest.vote) {
+      return res.status(404).json({ error: "This quest has no vote" });
+    }
+    
+    const inboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+    res.json({
+      vote: quest.vote,
+      open: questOrchestrator.isVotingOpen(quest),
+      candidates: questOrchestrator.getVoteCandidates(quest),
+      tally: questOrchestrator.getVoteTally(questId),
+      ballot: inboxId ? voteService.getVote(questId, inboxId) : undefined,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching vote:", error);
+    res.status(500).json({ error: "Failed to fetch vote" });
+  }
+});
+
+// Cast or replace a ballot; choices are candidate IDs or numbers, in order of preference
+app.post("/api/quests/:questId/votes", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    const { inboxId, choices } = req.body;
+    
+    if (!inboxId || !Array.isArray(choices)) {
+      return res.status(400).json({ error: "Missing inboxId or choices" });
+    }
+    
+    const result = await questOrchestrator.castVote(questId, inboxId, choices.map(String));
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error("❌ Error casting vote:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to cast vote" });
+  }
+});
+
+// Gallery of a quest: entries with their reactions and votes, and the winners once it closes
+app.get("/api/quests/:questId/gallery", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    if (!questStore.getQuest(questId)) {
+      return res.status(404).json({ error: "Quest not found" });
+    }
+
+    const inboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+    res.json(galleryService.getGallery(questId, inboxId));
+  } catch (error) {
+    console.error("❌ Error fetching gallery:", error);
+    res.status(500).json({ error: "Failed to fetch gallery" });
+  }
+});
+
+// Upload a gallery entry as the request body (an image or text/plain) and submit it as proof
+app.post(
+  "/api/quests/:questId/gallery",
+  validateApiSecret,
+  express.raw({ type: ["image/*", "text/plain"], limit: galleryConfig.maxImageBytes }),
+  async (req: Request, res: Response) => {
+    try {
+      const { questId } = req.params;
+      const inboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+      const caption = typeof req.query.caption === "string" ? req.query.caption : undefined;
+
+      if (!inboxId) {
+        return res.status(400).json({ error: "Missing inboxId" });
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ error: "Send the image or text as the request body" });
+      }
+
+      const outcome = await galleryService.upload(questId, inboxId, {
+        contentType: req.get("content-type") ?? "",
+        data: req.body,
+        caption,
+      });
+      sendSubmissionOutcome(res, outcome);
+    } catch (error) {
+      console.error("❌ Error uploading gallery entry:", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Failed to upload entry" });
+    }
+  }
+);
+
+// React to a gallery entry; reacting again with the same emoji takes it back
+app.post("/api/gallery/:submissionId/reactions", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { submissionId } = req.params;
+    const { inboxId, emoji } = req.body;
+
+    if (!inboxId || typeof emoji !== "string") {
+      return res.status(400).json({ error: "Missing inboxId or emoji" });
+    }
+
+    res.json({ success: true, ...(await galleryService.toggleReaction(submissionId, inboxId, emoji)) });
+  } catch (error) {
+    console.error("❌ Error reacting to gallery entry:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to react" });
+  }
+});
+
+// Uploaded files, public so mini apps can show them in <img> tags
+app.get("/blobs/*", async (req: Request, res: Response) => {
+  try {
+    const key = (req.params as Record<string, string>)[0];
+    const blob = isValidBlobKey(key) ? await blobStore.get(key) : undefined;
+    if (!blob) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    // Keys are never reused, so blobs can be cached for good
+    res.set({
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "Cross-Origin-Resource-Policy": "cross-origin",
+    });
+    res.type(blob.contentType).send(blob.data);
+  } catch (error) {
+    console.error("❌ Error serving blob:", error);
+    res.status(500).json({ error: "Failed to fetch file" });
+  }
+});
+
+// Game of a quest with the rules, the viewer's latest game and the best scores
+app.get("/api/quests/:questId/game", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    if (!questStore.getQuest(questId)) {
+      return res.status(404).json({ error: "Quest not found" });
+    }
+
+    const inboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+    res.json(gameService.getGame(questId, inboxId));
+  } catch (error) {
+    console.error("❌ Error fetching game:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to fetch game" });
+  }
+});
+
+// Start a game, or resume the one still being played
+app.post("/api/quests/:questId/game", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    const { inboxId } = req.body;
+
+    if (!inboxId) {
+      return res.status(400).json({ error: "Missing inboxId" });
+    }
+
+    res.json({ success: true, game: await gameService.start(questId, inboxId) });
+  } catch (error) {
+    console.error("❌ Error starting game:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to start game" });
+  }
+});
+
+// A game as its player sees it
+app.get("/api/games/:sessionId", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const inboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+
+    if (!inboxId) {
+      return res.status(400).json({ error: "Missing inboxId" });
+    }
+
+    res.json(gameService.getSession(sessionId, inboxId));
+  } catch (error) {
+    console.error("❌ Error fetching game session:", error);
+    res.status(404).json({ error: error instanceof Error ? error.message : "Game not found" });
+  }
+});
+
+// Play one move; the result is submitted as proof once the game ends
+app.post("/api/games/:sessionId/turns", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const { inboxId, move } = req.body;
+
+    if (!inboxId || typeof move !== "string") {
+      return res.status(400).json({ error: "Missing inboxId or move" });
+    }
+
+    res.json({ success: true, ...await gameService.turn(sessionId, inboxId, move) });
+  } catch (error) {
+    console.error("❌ Error playing turn:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to play turn" });
+  }
+});
+
+// End a game early and submit the score so far
+app.post("/api/games/:sessionId/finish", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const { inboxId } = req.body;
+
+    if (!inboxId) {
+      return res.status(400).json({ error: "Missing inboxId" });
+    }
+
+    res.json({ success: true, ...await gameService.finish(sessionId, inboxId) });
+  } catch (error) {
+    console.error("❌ Error finishing game:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to finish game" });
+  }
+});
+
+// Teams of a team quest with their members and progress
+app.get("/api/quests/:questId/teams", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    const quest = questStore.getQuest(questId);
+    if (!quest) {
+      return res.status(404).json({ error: "Quest not found" });
+    }
+    if (!quest.teams) {
+      return res.status(404).json({ error: "This quest is not played in teams" });
+    }
+
+    const inboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+    res.json({
+      teams: quest.teams,
+      standings: questOrchestrator.getTeamStandings(questId),
+      team: inboxId ? teamService.getTeamOf(questId, inboxId) : undefined,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching teams:", error);
+    res.status(500).json({ error: "Failed to fetch teams" });
+  }
+});
+
+// Join a team of a self-formed team quest by number, ID or name; a new name starts a team
+app.post("/api/quests/:questId/teams", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    const { inboxId, team } = req.body;
+
+    if (!inboxId || !team) {
+      return res.status(400).json({ error: "Missing inboxId or team" });
+    }
+
+    const joined = await questOrchestrator.joinTeam(questId, inboxId, String(team));
+    res.json({ success: true, team: joined });
+  } catch (error) {
+    console.error("❌ Error joining team:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to join team" });
+  }
+});
+
+// The level curve and the level each difficulty needs
+app.get("/api/progression", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { progression } = questStore;
+    const shown = Math.min(progression.maxLevel, 20);
+    res.json({
+      ...progression.config,
+      maxLevel: progression.maxLevel,
+      // Total XP for each of the first levels
+      levels: Array.from({ length: shown }, (_, i) => ({ level: i + 1, xp: progression.xpForLevel(i + 1) })),
+    });
+  } catch (error) {
+    console.error("❌ Error fetching level progression:", error);
+    res.status(500).json({ error: "Failed to fetch level progression" });
+  }
+});
+
+// Ranked players by scope, window and metric, a page at a time
+app.get("/api/leaderboard", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const parsed = LeaderboardQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Invalid leaderboard query",
+        details: formatZodIssues(parsed.error)
+      });
+    }
+    res.json(leaderboardService.getPage(parsed.data));
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("❌ Error fetching leaderboard:", error);
+    res.status(500).json({ error: "Failed to fetch leaderboard" });
+  }
+});
+
+// Every season, newest first, with the one running now
+app.get("/api/seasons", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    res.json({ current: seasonService.getCurrentSeason(), seasons: seasonService.listSeasons() });
+  } catch (error) {
+    console.error("❌ Error fetching seasons:", error);
+    res.status(500).json({ error: "Failed to fetch seasons" });
+  }
+});
+
+// The running season, the time left and the top of its standings
+app.get("/api/seasons/current", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const season = seasonService.getCurrentSeason();
+    if (!season) {
+      return res.status(404).json({ error: "No season is running" });
+    }
+    const inboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+    res.json({
+      season,
+      endsInMs: Math.max(0, season.endsAt.getTime() - Date.now()),
+      standings: seasonService.getStandings(season.id).slice(0, 10),
+      player: inboxId ? seasonService.getPlacement(inboxId, season.id) : undefined,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching current season:", error);
+    res.status(500).json({ error: "Failed to fetch current season" });
+  }
+});
+
+// Standings of a season: live while it runs, the archived final ranks once it ended
+app.get("/api/seasons/:seasonId/standings", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const season = seasonService.getSeason(req.params.seasonId);
+    if (!season) {
+      return res.status(404).json({ error: "Season not found" });
+    }
+    const limit = Math.min(Number(req.query.limit) || 50, 500);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+    const standings = seasonService.getStandings(season.id);
+    const inboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+    res.json({
+      season,
+      total: standings.length,
+      standings: standings.slice(offset, offset + limit),
+      player: inboxId ? standings.find(s => s.inboxId === inboxId) : undefined,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching season standings:", error);
+    res.status(500).json({ error: "Failed to fetch season standings" });
+  }
+});
+
+// Schedule a season with set dates
+app.post("/api/seasons", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { name, startsAt, endsAt, rewards } = req.body;
+    if (typeof startsAt !== "string" || typeof endsAt !== "string") {
+      return res.status(400).json({ error: "startsAt and endsAt must be ISO dates" });
+    }
+    const season = seasonService.scheduleSeason({
+      name: typeof name === "string" ? name : undefined,
+      startsAt: new Date(startsAt),
+      endsAt: new Date(endsAt),
+      rewards: parseSeasonRewards(rewards),
+    });
+    res.json({ success: true, season });
+  } catch (error) {
+    console.error("❌ Error scheduling season:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to schedule season" });
+  }
+});
+
+// Every badge in the registry
+app.get("/api/badges", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    res.json({ badges: badgeRegistry.listBadges() });
+  } catch (error) {
+    console.error("❌ Error fetching badges:", error);
+    res.status(500).json({ error: "Failed to fetch badges" });
+  }
+});
+
+// Quest chains, optionally of one conversation
+app.get("/api/chains", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const conversationId = typeof req.query.conversationId === "string" ? req.query.conversationId : undefined;
+    res.json({ chains: chainService.listChains(conversationId) });
+  } catch (error) {
+    console.error("❌ Error fetching quest chains:", error);
+    res.status(500).json({ error: "Failed to fetch quest chains" });
+  }
+});
+
+// A quest chain with its steps and, given an inboxId, that player's progress
+app.get("/api/chains/:chainId", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { chainId } = req.params;
+    if (!chainService.getChain(chainId)) {
+      return res.status(404).json({ error: "Quest chain not found" });
+    }
+
+    const inboxId = typeof req.query.inboxId === "string" ? req.query.inboxId : undefined;
+    res.json(chainService.getProgress(chainId, inboxId));
+  } catch (error) {
+    console.error("❌ Error fetching quest chain:", error);
+    res.status(500).json({ error: "Failed to fetch quest chain" });
+  }
+});
+
+// Generate a quest chain for a conversation
+app.post("/api/conversations/:conversationId/chains", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { conversationId } = req.params;
+    const { steps, stepDelayMinutes } = req.body;
+
+    if (!questOrchestrator) {
+      return res.status(503).json({ error: "Quest system not initialized" });
+    }
+    if (steps !== undefined && (!Number.isInteger(steps) || steps < 2)) {
+      return res.status(400).json({ error: "steps must be a whole number of at least 2" });
+    }
+    if (stepDelayMinutes !== undefined && (!Number.isInteger(stepDelayMinutes) || stepDelayMinutes < 0)) {
+      return res.status(400).json({ error: "stepDelayMinutes must be a whole number of minutes" });
+    }
+
+    const chain = await questOrchestrator.createQuestChain(conversationId, { steps: steps ?? 3, stepDelayMinutes });
+    if (chain) {
+      res.json({ success: true, chain });
+    } else {
+      res.json({ success: false, message: "No quest chain created" });
+    }
+  } catch (error) {
+    console.error("❌ Error creating quest chain:", error);
+    res.status(500).json({ error: "Failed to create quest chain" });
+  }
+});
+
+// Close entries of a judged quest early and rank them
+app.post("/api/quests/:questId/judge", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    const quest = contestJudge.startJudging(questId, req.body?.reason);
+    res.json({ success: true, quest: publicQuest(quest) });
+  } catch (error) {
+    console.error("❌ Error starting judging:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to start judging" });
+  }
+});
+
+// Ranked results of a judged quest
+app.get("/api/quests/:questId/results", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    const quest = questStore.getQuest(questId);
+    if (!quest) {
+      return res.status(404).json({ error: "Quest not found" });
+    }
+    
+    const results = questStore
+      .listCompletions({ questId })
+      .filter(completion => completion.rank !== undefined)
+      .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0));
+    res.json({ status: quest.status, rubric: quest.rubric, results });
+  } catch (error) {
+    console.error("❌ Error fetching quest results:", error);
+    res.status(500).json({ error: "Failed to fetch quest results" });
+  }
+});
+
+// Manually verify or reject a pending submission
+app.post("/api/submissions/:submissionId/review", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { submissionId } = req.params;
+    const { status, reason } = req.body;
+    
+    if (status !== "verified" && status !== "rejected") {
+      return res.status(400).json({ error: "Status must be verified or rejected" });
+    }
+    
+    const outcome = submissionService.review(submissionId, status, reason);
+    res.json({ success: true, submission: outcome.submission, completion: outcome.completion });
+  } catch (error) {
+    console.error("❌ Error reviewing submission:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to review submission" });
+  }
+});
+
+// Pause, resume or cancel a quest
+app.post("/api/quests/:questId/status", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { questId } = req.params;
+    const { action, reason } = req.body;
+
+    // Other transitions carry side effects (publishing, rewards, judging) and
+    // only happen through the quest's own flow
+    let quest: Quest;
+    switch (action) {
+      case "pause":
+        quest = questStore.pauseQuest(questId, reason);
+        break;
+      case "resume":
+        quest = questStore.resumeQuest(questId, reason);
+        break;
+      case "cancel":
+        quest = questStore.cancelQuest(questId, reason);
+        break;
+      default:
+        return res.status(400).json({ error: "Action must be pause, resume or cancel" });
+    }
+    res.json({ success: true, quest: publicQuest(quest) });
+  } catch (error) {
+    console.error("❌ Error changing quest status:", error);
+    res.status(400).json({ error: error instanceof Error ? error.message : "Failed to change quest status" });
+  }
+});
+
+// Upcoming scheduled jobs (quest openings, reminders, expirations)
+app.get("/api/admin/jobs", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Number(req.query.limit) || 50, 500);
+    const jobs = jobScheduler.listJobs({ status: "pending", limit });
+    res.json({ count: jobs.length, jobs });
+  } catch (error) {
+    console.error("❌ Error fetching scheduled jobs:", error);
+    res.status(500).json({ error: "Failed to fetch scheduled jobs" });
+  }
+});
+
+// Recent quest generations that failed validation, with the reasons
+app.get("/api/admin/quest-rejections", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const rejections = questOrchestrator.getRejectedQuests();
+    res.json({ count: rejections.length, rejections });
+  } catch (error) {
+    console.error("❌ Error fetching quest rejections:", error);
+    res.status(500).json({ error: "Failed to fetch quest rejections" });
+  }
+});
+
+// Effective quest trigger policy and recent decisions for a conversation
+app.get("/api/conversations/:conversationId/trigger-policy", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { conversationId } = req.params;
+    res.json({
+      policy: questTriggerPolicy.getPolicy(conversationId),
+      decisions: questTriggerPolicy.getDecisions(conversationId)
+    });
+  } catch (error) {
+    console.error("❌ Error fetching trigger policy:", error);
+    res.status(500).json({ error: "Failed to fetch trigger policy" });
+  }
+});
+
+// Override trigger policy settings for a conversation
+app.post("/api/conversations/:conversationId/trigger-policy", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const { conversationId } = req.params;
+
+    const parsed = TriggerPolicyOverridesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Invalid trigger policy",
+        details: formatZodIssues(parsed.error)
+      });
+    }
+
+    const policy = questTriggerPolicy.updatePolicy(conversationId, parsed.data);
+    res.json({ success: true, policy });
+  } catch (error) {
+    console.error("❌ Error updating trigger policy:", error);
+    res.status(500).json({ error: "Failed to update trigger policy" });
+  }
+});
+
+// Recent quest trigger decisions across all conversations
+app.get("/api/admin/trigger-decisions", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Number(req.query.limit) || 50, 500);
+    const decisions = questTriggerPolicy.getDecisions(undefined, limit);
+    res.json({ count: decisions.length, decisions });
+  } catch (error) {
+    console.error("❌ Error fetching trigger decisions:", error);
+    res.status(500).json({ error: "Failed to fetch trigger decisions" });
+  }
+});
+
+// Get all mini apps
+app.get("/api/miniapps", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const activeMiniApps = miniAppLauncher.getActiveMiniApps();
+    res.json(activeMiniApps);
+  } catch (error) {
+    console.error("❌ Error fetching mini apps:", error);
+    res.status(500).json({ error: "Failed to fetch mini apps" });
+  }
+});
+
+// Clean up expired mini apps
+app.post("/api/miniapps/cleanup", validateApiSecret, async (req: Request, res: Response) => {
+  try {
+    const cleaned = miniAppLauncher.cleanupExpiredMiniApps();
+    res.json({ success: true, cleaned });
+  } catch (error) {
+    console.error("❌ Error cleaning up mini apps:", error);
     res.status(500).json({ error: "Failed to cleanup mini apps" });
   }
 });
@@ -680,9 +1962,8 @@ app.post("/api/quests/trigger", validateApiSecret, async (req: Request, res: Res
       );
       
       if (quest) {
-        const announcement = await randomQuestMaster.generateQuestAnnouncement(quest);
-        await conversation.send(announcement);
-        res.json({ success: true, quest });
+        await questOrchestrator.announceQuest(quest, randomQuestMaster, conversation);
+        res.json({ success: true, quest: publicQuest(quest) });
       } else {
         res.json({ success: false, message: "No quest created" });
       }
@@ -700,6 +1981,23 @@ void (async () => {
   try {
     // Initialize Quest Masters
     initializeQuestMasters();
+    initializeQuestStoreListeners();
+    initializeQuestSchedulerListeners();
+    initializeSubmissionListeners();
+    initializeContestJudgeListeners();
+    initializeQuizListeners();
+    initializeVoteListeners();
+    initializeTeamListeners();
+    initializeChainListeners();
+    initializeAchievementListeners();
+    initializeLevelListeners();
+    initializeStreakListeners();
+    initializeSeasonListeners();
+    initializeLeaderboardListeners();
+    initializeGalleryListeners();
+    initializeGameListeners();
+    questStore.applyLevelCurve();
+    achievementService.backfill();
     
     // Initialize XMTP client
     await initializeXmtpClient();
@@ -725,65 +2023,42 @@ const handleQuestAction = async (data: any, ws: any) => {
     switch (data.action) {
       case "joinQuest":
         if (data.questId && data.userInboxId) {
-          const success = miniAppLauncher.addParticipant(data.questId, data.userInboxId);
-          if (success) {
-            broadcastToClients({
-              type: "participantJoined",
-              data: { questId: data.questId, inboxId: data.userInboxId }
-            });
-            ws.send(JSON.stringify({ 
-              type: "questJoined", 
-              data: { questId: data.questId, success: true } 
-            }));
-          } else {
-            ws.send(JSON.stringify({ 
-              type: "error", 
-              data: "Failed to join quest" 
-            }));
-          }
+          await questOrchestrator.joinQuest(data.questId, data.userInboxId);
+          ws.send(JSON.stringify({ 
+            type: "questJoined", 
+            data: { questId: data.questId, success: true } 
+          }));
         }
         break;
         
       case "leaveQuest":
         if (data.questId && data.userInboxId) {
-          const success = miniAppLauncher.removeParticipant(data.questId, data.userInboxId);
-          if (success) {
-            broadcastToClients({
-              type: "participantLeft",
-              data: { questId: data.questId, inboxId: data.userInboxId }
-            });
-            ws.send(JSON.stringify({ 
-              type: "questLeft", 
-              data: { questId: data.questId, success: true } 
-            }));
-          }
+          const success = await questOrchestrator.leaveQuest(data.questId, data.userInboxId);
+          ws.send(JSON.stringify({ 
+            type: "questLeft", 
+            data: { questId: data.questId, success } 
+          }));
         }
         break;
         
       case "completeQuest":
         if (data.questId && data.userInboxId) {
-          const success = miniAppLauncher.completeQuest(data.questId, data.userInboxId);
-          if (success) {
-            // Process quest completion through orchestrator
-            const questMasterNames = Array.from(questMasters.keys());
-            const randomQuestMaster = questMasters.get(
-              questMasterNames[Math.floor(Math.random() * questMasterNames.length)]
-            );
-            
-            if (randomQuestMaster) {
-              await randomQuestMaster.completeQuest(data.questId, data.userInboxId, data.result);
-            }
-            
-            broadcastToClients({
-              type: "questCompleted",
-              data: { questId: data.questId, inboxId: data.userInboxId, result: data.result }
-            });
-            
-            ws.send(JSON.stringify({ 
-              type: "questCompleted", 
-              data: { questId: data.questId, success: true } 
-            }));
-          }
+          const { submission, completion } = await questOrchestrator.submitProof(
+            data.questId,
+            data.userInboxId,
+            readProof(data)
+          );
+          ws.send(JSON.stringify({ 
+            type: "questCompleted", 
+            data: {
+              questId: data.questId,
+              success: submission.status !== "rejected",
+              status: submission.status,
+              reason: submission.reason,
+              submission,
+              completion,
+            } 
+          }));
         }
         break;
         
@@ -801,7 +2076,7 @@ const handleQuestAction = async (data: any, ws: any) => {
         const activeQuests = questOrchestrator ? questOrchestrator.getActiveQuests() : [];
         ws.send(JSON.stringify({ 
           type: "activeQuests", 
-          data: activeQuests 
+          data: activeQuests.map(publicQuest)
         }));
         break;
         
@@ -848,15 +2123,18 @@ const startConversationMonitoring = async () => {
     const stream = await xmtpClient.conversations.streamAllMessages();
     
     for await (const message of stream) {
-      if (
-        message?.senderInboxId.toLowerCase() === xmtpClient.inboxId.toLowerCase() ||
-        message?.contentType?.typeId !== "text"
-      ) {
+      if (!message || message.senderInboxId.toLowerCase() === xmtpClient.inboxId.toLowerCase()) {
         continue;
       }
       
       try {
-        await handleNewMessage(message);
+        if (message.contentType && ContentTypeReaction.sameAs(message.contentType)) {
+          await handleReaction(message);
+        } else if (message.contentType && ContentTypeIntent.sameAs(message.contentType)) {
+          await handleIntent(message);
+        } else if (message.contentType?.typeId === "text") {
+          await handleNewMessage(message);
+        }
       } catch (error) {
         console.error("❌ Error handling message:", error);
       }
@@ -870,46 +2148,90 @@ const startConversationMonitoring = async () => {
   }
 };
 
+// Deliver a bot reply in the conversation or privately to the sender
+const sendReply = async (
+  conversation: Conversation<any>,
+  senderInboxId: string,
+  reply: CommandReply
+) => {
+  try {
+    if (reply.visibility === "dm" && conversation instanceof Group) {
+      const dm = await xmtpClient.conversations.newDm(senderInboxId);
+      await dm.send(reply.text);
+    } else {
+      await conversation.send(reply.text);
+    }
+  } catch (error) {
+    console.error("❌ Error sending reply:", error);
+  }
+};
+
+// Answer the sender of a message, if there is anything to say
+const replyToMessage = async (message: DecodedMessage, reply: CommandReply | null) => {
+  if (!reply) {
+    return;
+  }
+
+  const conversation = await xmtpClient.conversations.getConversationById(message.conversationId);
+  if (conversation) {
+    await sendReply(conversation, message.senderInboxId, reply);
+  }
+};
+
+// Reactions on quest announcements join or leave the quest
+const handleReaction = async (message: DecodedMessage) => {
+  await replyToMessage(message, await questReactions.handle(message.content as Reaction, message.senderInboxId));
+};
+
+// Button presses on quest action messages
+const handleIntent = async (message: DecodedMessage) => {
+  await replyToMessage(message, await questActions.handle(message.content as IntentContent, message.senderInboxId));
+};
+
 // Handle new messages and trigger quest creation
 const handleNewMessage = async (message: DecodedMessage) => {
   const conversation = await xmtpClient.conversations.getConversationById(
     message.conversationId
   );
   
-  if (!conversation || !(conversation instanceof Group)) {
+  if (!conversation) {
+    return;
+  }
+
+  // Slash commands work in groups and in DMs with the bot
+  const reply = await chatCommands.handle(message.content as string, {
+    senderInboxId: message.senderInboxId,
+    conversationId: conversation.id,
+    isGroup: conversation instanceof Group,
+  });
+  if (reply) {
+    await sendReply(conversation, message.senderInboxId, reply);
+    return;
+  }
+
+  if (!(conversation instanceof Group)) {
     return;
   }
   
-  // Check if it's time to create a quest (simplified logic for now)
-  const shouldCreateQuest = Math.random() < 0.1; // 10% chance for demo
-  
-  if (shouldCreateQuest) {
-    console.log("🎯 Triggering quest creation for conversation:", conversation.id);
-    
-    // Select a random quest master
-    const questMasterNames = Array.from(questMasters.keys());
-    const randomQuestMaster = questMasters.get(
-      questMasterNames[Math.floor(Math.random() * questMasterNames.length)]
-    );
-    
-    if (randomQuestMaster) {
-      try {
-        const members = await conversation.members();
-        const recentMessages = await conversation.messages({ limit: 10 });
-        
-        const quest = await randomQuestMaster.analyzeAndCreateQuest(
-          conversation,
-          recentMessages,
-          members
-        );
-        
-        if (quest) {
-          const announcement = await randomQuestMaster.generateQuestAnnouncement(quest);
-          await conversation.send(announcement);
-        }
-      } catch (error) {
-        console.error("❌ Error creating quest:", error);
-      }
-    }
+  // Check the conversation's trigger policy against recent activity
+  const policy = questTriggerPolicy.getPolicy(conversation.id);
+  const windowStartNs = (Date.now() - policy.activityWindowMinutes * 60 * 1000) * 1_000_000;
+  const [members, windowMessages] = await Promise.all([
+    conversation.members(),
+    conversation.messages({ sentAfterNs: windowStartNs }),
+  ]);
+  const humanMessages = windowMessages.filter(
+    m => m.senderInboxId.toLowerCase() !== xmtpClient.inboxId.toLowerCase()
+  );
+
+  const decision = questTriggerPolicy.evaluate(conversation.id, humanMessages, members);
+  if (!decision.trigger) {
+    return;
+  }
+
+  try {
+    await questOrchestrator.triggerQuestCreation(conversation.id);
+  } catch (error) {
+    console.error("❌ Error creating quest:", error);
   }
 };
@@ -0,0 +1,28 @@
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Minimal chat completion API used by the Quest Masters, so the model backend
+ * can be swapped without touching quest logic.
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Free-form chat completion. Returns an empty string if the model produced no text.
+   */
+  complete(request: ChatRequest): Promise<string>;
+
+  /**
+   * Chat completion constrained to a single JSON object, returned unparsed
+   */
+  completeJson(request: ChatRequest): Promise<string>;
+}
@@ -0,0 +1,196 @@
+import { QUEST_MASTER_PERSONALITIES } from "../agents/QuestMaster";
+import { CHAIN_PROMPT_HEADER, QUEST_GENERATION_LIMITS as LIMITS } from "../agents/QuestGeneration";
+import { JUDGING_PROMPT_HEADER, MAX_CRITERION_SCORE } from "../agents/ContestJudging";
+import { DEFAULT_PROOF_TYPES } from "../services/ProofVerifiers";
+import type { Quest, TeamConfig, VoteConfig } from "../types/Quest";
+import type { ChatMessage, ChatRequest, LLMProvider } from "./LLMProvider";
+
+const QUEST_TEMPLATES: Record<Quest["type"], {
+  title: string;
+  description: string;
+  quiz?: boolean;
+  vote?: VoteConfig;
+  teams?: TeamConfig;
+}[]> = {
+  social_challenge: [
+    { title: "Icebreaker Relay", description: "Introduce yourself in one sentence, then tag someone you haven't talked to yet about {topic}." },
+    { title: "Two Truths and a Lie", description: "Share two truths and one lie about your {topic} journey. Guess the lies of others!" },
+    { title: "Topic Pick", description: "Vote on what the group should dig into next about {topic}.", vote: { subject: "options", options: ["Beginner guides", "Deep dives", "Live demos"], rankedChoice: true } },
+    { title: "Hot Take Showdown", description: "Post your boldest take on {topic} and defend it against one challenger." },
+  ],
+  knowledge_quest: [
+    { title: "Lightning Round", description: "Answer three quick questions about {topic}. Fastest correct answers win bonus glory.", quiz: true },
+    { title: "Explain It Simply", description: "Explain a {topic} concept in under 50 words so a newcomer gets it." },
+    { title: "Myth Busters", description: "Find and debunk a common myth about {topic} with a source." },
+  ],
+  creative_contest: [
+    { title: "Six Word Story", description: "Write a six word story inspired by {topic}. The group votes on the best one.", vote: { subject: "submissions", rankedChoice: false, duration: 10 } },
+    { title: "Meme Forge", description: "Create a meme about {topic} and share it with the group." },
+    { title: "Remix Challenge", description: "Take someone's idea about {topic} and remix it into something new." },
+  ],
+  community_building: [
+    { title: "Welcome Wagon", description: "Greet a newer member and share one resource about {topic} that helped you." },
+    { title: "Group Playbook", description: "Pair up and add one tip each to a shared playbook for getting started with {topic}.", teams: { size: 2, formation: "auto", split: "equal" } },
+    { title: "Shoutout Circle", description: "Give a specific shoutout to someone who helped you with {topic}." },
+  ],
+  cross_protocol: [
+    { title: "Protocol Passport", description: "Try a protocol you've never used for {topic} and share what surprised you." },
+    { title: "Bridge Builders", description: "Form a crew and describe how two protocols could work together around {topic}.", teams: { size: 3, formation: "self", split: "contribution" } },
+    { title: "Testnet Tour", description: "Complete one testnet action related to {topic} and post the transaction." },
+  ],
+};
+
+const PROOF_INSTRUCTIONS: Record<Quest["type"], string> = {
+  social_challenge: "Post your entry in the group, then send /done",
+  knowledge_quest: "Reply with your answer",
+  creative_contest: "Share a link to your creation",
+  community_building: "Send /done and ask another participant to confirm it",
+  cross_protocol: "Send the hash of your transaction",
+};
+
+// General trivia for offline quiz quests, since the topic is free text
+const QUIZ_QUESTIONS = [
+  { prompt: "What does the X in XMTP stand for?", kind: "multiple_choice", choices: ["Extensible", "Cross", "Exchange"], answer: "Extensible" },
+  { prompt: "Which network is Ethereum's layer 2 built by Coinbase?", kind: "short_answer", answer: "Base" },
+  { prompt: "What is the smallest unit of ether called?", kind: "short_answer", answer: "Wei" },
+  { prompt: "Which of these keeps messages private between participants?", kind: "multiple_choice", choices: ["End-to-end encryption", "Public mempool", "Block explorer"], answer: "End-to-end encryption" },
+  { prompt: "What does DAO stand for?", kind: "short_answer", answer: "Decentralized Autonomous Organization", acceptedAnswers: ["Decentralised Autonomous Organisation"] },
+  { prompt: "Which consensus mechanism does Ethereum use today?", kind: "multiple_choice", choices: ["Proof of Work", "Proof of Stake", "Proof of Authority"], answer: "Proof of Stake" },
+] as const;
+const QUIZ_LENGTH = 3;
+
+const DIFFICULTIES: Quest["difficulty"][] = ["easy", "medium", "hard", "expert"];
+const MINI_APP_TYPES: Quest["miniAppConfig"]["type"][] = ["dashboard", "game", "poll", "leaderboard", "gallery"];
+
+// FNV-1a, so the same prompt always yields the same quest
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const pick = <T>(items: readonly T[], seed: number, salt: number): T =>
+  items[(seed >>> salt) % items.length];
+
+/**
+ * Deterministic, network-free provider. JSON requests return a valid quest
+ * built from templates for the Quest Master whose system prompt is in the
+ * request (with trivia questions for quiz templates), a storyline of them
+ * for quest chain requests, or scores derived from each entry for judging
+ * requests; free-form requests return an empty string
+ * so callers use their template fallbacks.
+ */
+export class OfflineQuestProvider implements LLMProvider {
+  readonly name = "offline";
+
+  complete(_request: ChatRequest): Promise<string> {
+    return Promise.resolve("");
+  }
+
+  completeJson({ messages }: ChatRequest): Promise<string> {
+    const prompt = messages.find(m => m.role === "system")?.content ?? "";
+    if (prompt.startsWith(JUDGING_PROMPT_HEADER)) {
+      return Promise.resolve(this.scoreEntries(prompt, messages));
+    }
+    const seed = hash(messages.map(m => m.content).join("\n"));
+    const personality = QUEST_MASTER_PERSONALITIES.find(p => prompt.includes(p.systemPrompt));
+    const types = personality?.questTypes ?? Object.keys(QUEST_TEMPLATES) as Quest["type"][];
+    const recentTopic = this.extractTopic(messages);
+    const topic = recentTopic ?? "this community";
+
+    if (prompt.startsWith(CHAIN_PROMPT_HEADER)) {
+      return Promise.resolve(JSON.stringify(this.buildChain(prompt, seed, types, topic, recentTopic)));
+    }
+    return Promise.resolve(JSON.stringify(this.buildQuest(seed, types, topic)));
+  }
+
+  /**
+   * Quest from the templates of the given types; difficulty follows the seed
+   * unless given
+   */
+  private buildQuest(seed: number, types: Quest["type"][], topic: string, difficultyIndex = (seed >>> 6) % DIFFICULTIES.length) {
+    const type = pick(types, seed, 0);
+    const template = pick(QUEST_TEMPLATES[type], seed, 3);
+
+    const minParticipants = 1 + ((seed >>> 9) % 3);
+    return {
+      title: template.title,
+      description: template.description.replace("{topic}", topic).slice(0, LIMITS.descriptionLength),
+      type,
+      difficulty: DIFFICULTIES[difficultyIndex],
+      duration: [15, 30, 45, 60][difficultyIndex],
+      participantLimits: { min: minParticipants, max: minParticipants + 4 + ((seed >>> 12) % 6) },
+      rewards: {
+        xp: 100 + difficultyIndex * 100,
+        tokens: 10 + difficultyIndex * 10,
+        badges: difficultyIndex >= 2 ? [`${template.title} Finisher`] : [],
+      },
+      requirements: [],
+      proof: { type: DEFAULT_PROOF_TYPES[type], instructions: PROOF_INSTRUCTIONS[type] },
+      questions: template.quiz
+        ? Array.from({ length: QUIZ_LENGTH }, (_, i) => QUIZ_QUESTIONS[((seed >>> 18) + i) % QUIZ_QUESTIONS.length])
+        : undefined,
+      vote: template.vote,
+      teams: template.teams,
+      rubric: type === "creative_contest" && !template.vote
+        ? [
+          { criterion: "Originality", description: `A fresh take on ${topic}`, weight: 3 },
+          { criterion: "Humor", description: "Makes the group smile", weight: 2 },
+          { criterion: "Effort", description: "Care put into the entry", weight: 1 },
+        ]
+        : undefined,
+      miniAppConfig: {
+        type: template.vote ? "poll" : pick(MINI_APP_TYPES, seed, 15),
+        config: { theme: type, features: ["participants", "timer"] },
+      },
+    };
+  }
+
+  /**
+   * Storyline of template quests for the "Steps:" count of the prompt,
+   * getting harder with each step
+   */
+  private buildChain(prompt: string, seed: number, types: Quest["type"][], topic: string, recentTopic?: string) {
+    const count = Number(prompt.match(/^Steps: (\d+)$/m)?.[1] ?? LIMITS.chainSteps.min);
+    const steps = Array.from({ length: count }, (_, step) =>
+      this.buildQuest(hash(`${seed}:${step}`), types, topic, Math.min(step, DIFFICULTIES.length - 1))
+    );
+    return {
+      title: (recentTopic ? `The ${recentTopic} Saga` : "The Community Saga").slice(0, LIMITS.titleLength),
+      description: `A ${count}-part journey through ${topic}, one quest at a time.`.slice(0, LIMITS.descriptionLength),
+      bonus: { xp: 100 * count, tokens: 10 * count, badges: ["Saga Finisher"] },
+      steps,
+    };
+  }
+
+  /**
+   * Score each entry from a hash of its content, so ranking is stable
+   */
+  private scoreEntries(prompt: string, messages: ChatMessage[]): string {
+    const criteria = Array.from(prompt.matchAll(/^- (.+?) \(weight \d+\)/gm), match => match[1]);
+    const request = messages.find(m => m.role === "user")?.content ?? "{}";
+    const { entries = [] } = JSON.parse(request) as { entries?: { id: string; content: string }[] };
+
+    const scores = entries.map(entry => ({
+      entry: entry.id,
+      criteria: Object.fromEntries(
+        criteria.map(criterion => [criterion, 4 + (hash(`${criterion}:${entry.content}`) % (MAX_CRITERION_SCORE - 3))])
+      ),
+      comment: "Solid entry, thanks for taking part.",
+    }));
+    return JSON.stringify({ scores });
+  }
+
+  /**
+   * First topic from the "Recent Topics:" line of the quest prompt
+   */
+  private extractTopic(messages: ChatMessage[]): string | undefined {
+    const line = messages
+      .map(m => m.content.match(/^Recent Topics:(.*)$/m)?.[1])
+      .find(Boolean);
+    return line?.split(",").map(t => t.trim()).find(Boolean);
+  }
+}
@@ -0,0 +1,47 @@
+import OpenAI from "openai";
+import type { ChatRequest, LLMProvider } from "./LLMProvider";
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  model: string;
+  // Set to use any OpenAI-compatible server (Ollama, LM Studio, vLLM, ...)
+  baseURL?: string;
+  // Some compatible servers reject response_format; the prompt still asks for JSON
+  jsonMode?: boolean;
+}
+
+/**
+ * Provider backed by the OpenAI chat completions API or a compatible endpoint
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private model: string;
+  private jsonMode: boolean;
+
+  constructor({ apiKey, model, baseURL, jsonMode = true }: OpenAIProviderOptions) {
+    this.client = new OpenAI({ apiKey, baseURL });
+    this.model = model;
+    this.jsonMode = jsonMode;
+    this.name = baseURL ? `openai-compatible:${model}` : `openai:${model}`;
+  }
+
+  async complete(request: ChatRequest): Promise<string> {
+    return this.create(request, false);
+  }
+
+  async completeJson(request: ChatRequest): Promise<string> {
+    return this.create(request, this.jsonMode);
+  }
+
+  private async create({ messages, temperature = 0.7, maxTokens = 1000 }: ChatRequest, json: boolean): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+      ...(json ? { response_format: { type: "json_object" as const } } : {}),
+    });
+    return completion.choices[0]?.message?.content ?? "";
+  }
+}
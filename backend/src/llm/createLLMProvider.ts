@@ -0,0 +1,42 @@
+import type { LLMProvider } from "./LLMProvider";
+import { OpenAIProvider } from "./OpenAIProvider";
+import { OfflineQuestProvider } from "./OfflineQuestProvider";
+
+export type LLMProviderKind = "openai" | "openai-compatible" | "offline";
+
+/**
+ * Build the provider selected by LLM_PROVIDER (default "openai").
+ *
+ * - openai: OPENAI_API_KEY, optional LLM_MODEL (default gpt-4o)
+ * - openai-compatible: LLM_BASE_URL and LLM_MODEL, optional LLM_API_KEY and LLM_JSON_MODE=false
+ * - offline: deterministic template quests, no network
+ */
+export const createLLMProvider = (env: NodeJS.ProcessEnv = process.env): LLMProvider => {
+  const kind = (env.LLM_PROVIDER ?? "openai") as LLMProviderKind;
+
+  switch (kind) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY is required when LLM_PROVIDER is openai");
+      }
+      return new OpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.LLM_MODEL || "gpt-4o",
+      });
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL || !env.LLM_MODEL) {
+        throw new Error("LLM_BASE_URL and LLM_MODEL are required when LLM_PROVIDER is openai-compatible");
+      }
+      return new OpenAIProvider({
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY || "not-needed",
+        model: env.LLM_MODEL,
+        baseURL: env.LLM_BASE_URL,
+        jsonMode: env.LLM_JSON_MODE !== "false",
+      });
+    case "offline":
+      return new OfflineQuestProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}" (expected openai, openai-compatible or offline)`);
+  }
+};
@@ -0,0 +1,196 @@
+import { EventEmitter } from "events";
+import { QuestSchema, type Quest, type QuestCompletion } from "../types/Quest";
+import type { Badge, BadgeCriteria, BadgeRarity, EarnedBadge } from "../types/Badge";
+import type { QuestRepository } from "../storage/QuestRepository";
+import type { BonusAward, QuestStore } from "./QuestStore";
+import { RARITY_BY_DIFFICULTY, type BadgeRegistry } from "./BadgeRegistry";
+import { isTerminalStatus } from "./QuestLifecycle";
+
+// Bonuses such as a finished quest chain hand out rarer badges than single quests
+const BONUS_BADGE_RARITY: BadgeRarity = "epic";
+
+export interface AchievementStats {
+  questsCompleted: number;
+  bestStreak: number; // most quests completed in a row
+  currentStreak: number;
+  questTypes: Quest["type"][]; // types of quest completed at least once
+}
+
+export interface BadgeProgress {
+  badge: Badge;
+  earned?: EarnedBadge;
+  progress: number; // towards the badge, 0 to target
+  target: number;
+}
+
+/**
+ * Puts badges on profiles: the badges named in quest and bonus rewards, and
+ * achievements from the registry once a player meets their criteria. Both
+ * are checked whenever a player completes a quest or earns a bonus.
+ *
+ * Emits "badgeEarned" (inboxId, badge, earned).
+ */
+export class AchievementService extends EventEmitter {
+  private repository: QuestRepository;
+  private store: QuestStore;
+  private registry: BadgeRegistry;
+
+  constructor(repository: QuestRepository, store: QuestStore, registry: BadgeRegistry) {
+    super();
+    this.repository = repository;
+    this.store = store;
+    this.registry = registry;
+
+    this.store.on("participantCompleted", (completion: QuestCompletion, quest: Quest) => {
+      this.awardRewardBadges(
+        completion.participantInboxId,
+        completion.rewards.badges ?? [],
+        `Awarded by "${quest.title}"`,
+        RARITY_BY_DIFFICULTY[quest.difficulty],
+        quest.id
+      );
+      this.checkAchievements(completion.participantInboxId);
+    });
+
+    this.store.on("bonusAwarded", ({ inboxId, rewards, reason }: BonusAward) => {
+      this.awardRewardBadges(inboxId, rewards.badges ?? [], reason, BONUS_BADGE_RARITY);
+      this.checkAchievements(inboxId);
+    });
+  }
+
+  /**
+   * Award every achievement a player qualifies for and does not have yet
+   */
+  checkAchievements(inboxId: string, announce = true): EarnedBadge[] {
+    const stats = this.getStats(inboxId);
+    return this.registry
+      .listAchievements()
+      .filter(badge => this.isMet(badge.criteria, stats))
+      .flatMap(badge => this.award(inboxId, badge, undefined, announce) ?? []);
+  }
+
+  /**
+   * Badges a player has and how close they are to each achievement
+   */
+  getBadgeProgress(inboxId: string): BadgeProgress[] {
+    const stats = this.getStats(inboxId);
+    const earned = new Map(this.store.getUserProfile(inboxId).badges.map(badge => [badge.badgeId, badge]));
+
+    return this.registry
+      .listBadges()
+      .filter(badge => badge.criteria.kind !== "quest" || earned.has(badge.id))
+      .map(badge => {
+        const target = this.target(badge.criteria);
+        const progress = earned.has(badge.id) ? target : Math.min(this.progress(badge.criteria, stats), target);
+        return { badge, earned: earned.get(badge.id), progress, target };
+      });
+  }
+
+  /**
+   * What the achievements look at for a player
+   */
+  getStats(inboxId: string): AchievementStats {
+    const profile = this.store.getUserProfile(inboxId);
+    const questTypes = new Set(
+      profile.completedQuests.flatMap(questId => this.store.getQuest(questId)?.type ?? [])
+    );
+
+    // A quest the player joined and did not complete before it ended breaks
+    // the streak; quests still running do not count either way
+    let currentStreak = 0;
+    let bestStreak = 0;
+    for (const participation of this.repository.listParticipations(inboxId)) {
+      if (participation.status === "completed") {
+        currentStreak++;
+        bestStreak = Math.max(bestStreak, currentStreak);
+      } else if (isTerminalStatus(this.store.getQuest(participation.questId)?.status ?? "cancelled")) {
+        currentStreak = 0;
+      }
+    }
+
+    return {
+      questsCompleted: profile.completedQuests.length,
+      bestStreak,
+      currentStreak,
+      questTypes: Array.from(questTypes),
+    };
+  }
+
+  /**
+   * Give players the badges of their past completions and any achievements
+   * they already qualify for, without announcing them. Safe to run on every
+   * start; returns the number of badges awarded.
+   */
+  backfill(): number {
+    let awarded = 0;
+    for (const profile of this.store.listUserProfiles()) {
+      for (const completion of this.store.listCompletions({ participantInboxId: profile.inboxId })) {
+        const quest = this.store.getQuest(completion.questId);
+        awarded += this.awardRewardBadges(
+          profile.inboxId,
+          completion.rewards.badges ?? [],
+          quest ? `Awarded by "${quest.title}"` : "Quest reward",
+          quest ? RARITY_BY_DIFFICULTY[quest.difficulty] : "common",
+          completion.questId,
+          false
+        ).length;
+      }
+      awarded += this.checkAchievements(profile.inboxId, false).length;
+    }
+    if (awarded > 0) {
+      console.log(`🏅 Backfilled ${awarded} badge(s) onto profiles`);
+    }
+    return awarded;
+  }
+
+  private awardRewardBadges(
+    inboxId: string,
+    names: string[],
+    description: string,
+    rarity: BadgeRarity,
+    questId?: string,
+    announce = true
+  ): EarnedBadge[] {
+    return names
+      .filter(name => name.trim())
+      .flatMap(name => this.award(inboxId, this.registry.resolveRewardBadge(name, description, rarity), questId, announce) ?? []);
+  }
+
+  private award(inboxId: string, badge: Badge, questId?: string, announce = true): EarnedBadge | undefined {
+    const earned = this.store.awardBadge(inboxId, badge, questId);
+    if (earned && announce) {
+      this.emit("badgeEarned", inboxId, badge, earned);
+      console.log(`${badge.icon} ${inboxId} earned the "${badge.name}" badge`);
+    }
+    return earned;
+  }
+
+  private isMet(criteria: BadgeCriteria, stats: AchievementStats): boolean {
+    return criteria.kind !== "quest" && this.progress(criteria, stats) >= this.target(criteria);
+  }
+
+  private progress(criteria: BadgeCriteria, stats: AchievementStats): number {
+    switch (criteria.kind) {
+      case "quest":
+        return 0;
+      case "quests_completed":
+        return stats.questsCompleted;
+      case "quest_streak":
+        return stats.bestStreak;
+      case "all_quest_types":
+        return stats.questTypes.length;
+    }
+  }
+
+  private target(criteria: BadgeCriteria): number {
+    switch (criteria.kind) {
+      case "quest":
+        return 1;
+      case "quests_completed":
+      case "quest_streak":
+        return criteria.count;
+      case "all_quest_types":
+        return QuestSchema.shape.type.options.length;
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import type { Quest } from "../types/Quest";
+import type { Badge, BadgeRarity } from "../types/Badge";
+import type { QuestRepository } from "../storage/QuestRepository";
+
+// Achievements every player can unlock, seeded into the registry on startup
+export const BUILT_IN_BADGES: Omit<Badge, "createdAt">[] = [
+  {
+    id: "first-quest",
+    name: "First Steps",
+    description: "Complete your first quest",
+    icon: "🐣",
+    rarity: "common",
+    criteria: { kind: "quests_completed", count: 1 },
+  },
+  {
+    id: "ten-quests",
+    name: "Seasoned Quester",
+    description: "Complete 10 quests",
+    icon: "🎖️",
+    rarity: "uncommon",
+    criteria: { kind: "quests_completed", count: 10 },
+  },
+  {
+    id: "fifty-quests",
+    name: "Quest Legend",
+    description: "Complete 50 quests",
+    icon: "👑",
+    rarity: "epic",
+    criteria: { kind: "quests_completed", count: 50 },
+  },
+  {
+    id: "quest-streak-10",
+    name: "Unstoppable",
+    description: "Complete 10 quests in a row without missing one you joined",
+    icon: "🔥",
+    rarity: "rare",
+    criteria: { kind: "quest_streak", count: 10 },
+  },
+  {
+    id: "all-quest-types",
+    name: "Renaissance Quester",
+    description: "Complete a quest of every type",
+    icon: "🌈",
+    rarity: "epic",
+    criteria: { kind: "all_quest_types" },
+  },
+];
+
+export const RARITY_BY_DIFFICULTY: Record<Quest["difficulty"], BadgeRarity> = {
+  easy: "common",
+  medium: "uncommon",
+  hard: "rare",
+  expert: "epic",
+};
+
+const REWARD_BADGE_ICON = "🏅";
+
+/**
+ * Registry ID for a badge name, e.g. "Myth Buster" → "myth-buster"
+ */
+export const badgeSlug = (name: string): string => {
+  const slug = name
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || encodeURIComponent(name.trim().toLowerCase());
+};
+
+/**
+ * Every badge that can be earned. Achievements are built in; badges named in
+ * quest and chain rewards are registered the first time they are awarded, so
+ * the same name always maps to the same badge.
+ */
+export class BadgeRegistry {
+  private repository: QuestRepository;
+
+  constructor(repository: QuestRepository) {
+    this.repository = repository;
+
+    for (const badge of BUILT_IN_BADGES) {
+      if (!this.repository.getBadge(badge.id)) {
+        this.repository.saveBadge({ ...badge, createdAt: new Date() });
+      }
+    }
+  }
+
+  getBadge(badgeId: string): Badge | undefined {
+    return this.repository.getBadge(badgeId);
+  }
+
+  listBadges(): Badge[] {
+    return this.repository.listBadges();
+  }
+
+  /**
+   * Badges unlocked by rules rather than handed out by quests
+   */
+  listAchievements(): Badge[] {
+    return this.listBadges().filter(badge => badge.criteria.kind !== "quest");
+  }
+
+  /**
+   * The registered badge with a name or ID
+   */
+  findBadge(name: string): Badge | undefined {
+    const trimmed = name.trim();
+    return this.repository.getBadge(trimmed) ??
+      this.repository.getBadge(badgeSlug(trimmed)) ??
+      this.listBadges().find(badge => badge.name.toLowerCase() === trimmed.toLowerCase());
+  }
+
+  /**
+   * The registered badge for a reward name, registering it if it is new
+   */
+  resolveRewardBadge(name: string, description: string, rarity: BadgeRarity): Badge {
+    const trimmed = name.trim();
+    const existing = this.findBadge(trimmed);
+    if (existing) {
+      return existing;
+    }
+
+    const badge: Badge = {
+      id: badgeSlug(trimmed),
+      name: trimmed,
+      description,
+      icon: REWARD_BADGE_ICON,
+      rarity,
+      criteria: { kind: "quest" },
+      createdAt: new Date(),
+    };
+    this.repository.saveBadge(badge);
+    console.log(`🏅 Registered badge "${badge.name}" (${badge.rarity})`);
+    return badge;
+  }
+}
@@ -0,0 +1,243 @@
+import { EventEmitter } from "events";
+import { v4 as uuidv4 } from "uuid";
+import type { Quest, QuestChain } from "../types/Quest";
+import type { ScheduledJob } from "../types/Job";
+import type { QuestRepository } from "../storage/QuestRepository";
+import type { JobScheduler } from "./JobScheduler";
+import type { QuestStore } from "./QuestStore";
+import { QUEST_JOB_TYPES, type QuestScheduler } from "./QuestScheduler";
+import { isTerminalStatus, type QuestTransition } from "./QuestLifecycle";
+import { formatRequirement } from "./QuestRequirements";
+
+export const CHAIN_ADVANCE_JOB_TYPE = "chain_advance";
+export const CHAIN_ENDED_REASON = "The quest chain ended";
+
+export interface ChainDraft {
+  title: string;
+  description: string;
+  conversationId: string;
+  questMaster?: string;
+  quests: Quest[]; // steps in order, not stored yet
+  bonus: QuestChain["bonus"];
+  stepDelayMinutes?: number;
+}
+
+export interface ChainStepProgress {
+  step: number;
+  questId: string;
+  title: string;
+  status: Quest["status"];
+  unlocked: boolean; // the step has been published
+  completed: boolean; // completed by the player asked about
+}
+
+export interface ChainProgress {
+  chain: QuestChain;
+  steps: ChainStepProgress[];
+  completedSteps: number;
+  bonusAwarded: boolean;
+}
+
+/**
+ * Runs quest chains: storylines of quests played in order. Later steps are
+ * stored as drafts and published once the step before them completes; each
+ * requires the one before it ("quest:<ID>"), so only players who finished a
+ * step can join the next. When the last step completes, players who
+ * completed every step earn the chain's bonus. A step that expires or is
+ * cancelled ends the chain.
+ *
+ * Emits "chainCreated" (chain, quests), "stepUnlocked" (chain, quest),
+ * "chainCompleted" (chain), "chainFailed" (chain, quest) and
+ * "chainBonusAwarded" (chain, inboxId, profile).
+ */
+export class ChainService extends EventEmitter {
+  private repository: QuestRepository;
+  private store: QuestStore;
+  private scheduler: JobScheduler;
+  private questScheduler: QuestScheduler;
+
+  constructor(repository: QuestRepository, store: QuestStore, scheduler: JobScheduler, questScheduler: QuestScheduler) {
+    super();
+    this.repository = repository;
+    this.store = store;
+    this.scheduler = scheduler;
+    this.questScheduler = questScheduler;
+
+    this.scheduler.registerHandler(CHAIN_ADVANCE_JOB_TYPE, (job: ScheduledJob) => {
+      const quest = job.questId ? this.store.getQuest(job.questId) : undefined;
+      if (quest?.chain && isTerminalStatus(quest.status)) {
+        this.advance(quest);
+      }
+    });
+
+    // Advancing is a job, so it survives restarts and the next step is
+    // announced after the end of the one before it has reached every listener
+    this.store.on("questTransition", ({ quest, to }: QuestTransition) => {
+      if (quest.chain && isTerminalStatus(to)) {
+        this.scheduler.schedule(CHAIN_ADVANCE_JOB_TYPE, new Date(), { questId: quest.id });
+      }
+    });
+  }
+
+  /**
+   * Store a chain and its steps. The first step opens as generated; the
+   * rest wait as drafts.
+   */
+  createChain(draft: ChainDraft): QuestChain {
+    if (draft.quests.length < 2) {
+      throw new Error("A quest chain needs at least two steps");
+    }
+
+    const chain: QuestChain = {
+      id: uuidv4(),
+      title: draft.title,
+      description: draft.description,
+      conversationId: draft.conversationId,
+      questMaster: draft.questMaster,
+      questIds: draft.quests.map(quest => quest.id),
+      bonus: draft.bonus,
+      stepDelayMinutes: draft.stepDelayMinutes ?? 0,
+      status: "active",
+      bonusAwardedTo: [],
+      createdAt: new Date(),
+    };
+    this.repository.saveChain(chain);
+
+    const quests = draft.quests.map((quest, index) => {
+      quest.chain = { id: chain.id, title: chain.title, step: index + 1, steps: draft.quests.length };
+      if (index > 0) {
+        const previous = formatRequirement({ kind: "quest", questId: draft.quests[index - 1].id });
+        quest.requirements = [previous, ...(quest.requirements ?? [])];
+        quest.status = "draft";
+      }
+      return this.store.createQuest(quest);
+    });
+
+    this.emit("chainCreated", chain, quests);
+    console.log(`📜 Quest chain "${chain.title}" created with ${quests.length} steps`);
+    return chain;
+  }
+
+  getChain(chainId: string): QuestChain | undefined {
+    return this.repository.getChain(chainId);
+  }
+
+  /**
+   * Chains of a conversation, oldest first
+   */
+  listChains(conversationId?: string, status?: QuestChain["status"]): QuestChain[] {
+    return this.repository.listChains({ conversationId, status });
+  }
+
+  /**
+   * Steps of a chain with what a player has completed
+   */
+  getProgress(chainId: string, inboxId?: string): ChainProgress {
+    const chain = this.repository.getChain(chainId);
+    if (!chain) {
+      throw new Error("Quest chain not found");
+    }
+
+    const completed = new Set(inboxId ? this.store.getUserProfile(inboxId).completedQuests : []);
+    const quests = chain.questIds.map(questId => this.store.getQuest(questId));
+    const steps = chain.questIds.map((questId, index) => {
+      const quest = quests[index];
+      return {
+        step: index + 1,
+        questId,
+        title: quest?.title ?? "Unknown quest",
+        status: quest?.status ?? "cancelled",
+        // Steps unlock when the one before them completes
+        unlocked: index === 0 || quests[index - 1]?.status === "completed",
+        completed: completed.has(questId),
+      };
+    });
+
+    return {
+      chain,
+      steps,
+      completedSteps: steps.filter(step => step.completed).length,
+      bonusAwarded: inboxId !== undefined && chain.bonusAwardedTo.includes(inboxId),
+    };
+  }
+
+  /**
+   * A step finished: unlock the next one, or close the chain
+   */
+  private advance(quest: Quest): void {
+    const chain = quest.chain ? this.repository.getChain(quest.chain.id) : undefined;
+    if (chain?.status !== "active") {
+      return;
+    }
+
+    if (quest.status !== "completed") {
+      this.endChain(chain, "failed", `"${quest.title}" ${quest.status}`);
+      this.emit("chainFailed", chain, quest);
+      return;
+    }
+
+    const nextId = chain.questIds[chain.questIds.indexOf(quest.id) + 1];
+    if (!nextId) {
+      for (const completion of this.store.listCompletions({ questId: quest.id })) {
+        this.awardBonus(chain, completion.participantInboxId);
+      }
+      this.endChain(chain, "completed");
+      this.emit("chainCompleted", chain);
+      return;
+    }
+
+    // Handlers rerun after a crash or a failed run. A step published by an
+    // earlier run only needs the jobs that run may not have scheduled, and
+    // is announced if the run failed before its jobs were in place.
+    const pending = this.store.getQuest(nextId);
+    if (pending?.status === "scheduled" || pending?.status === "open") {
+      const announced = this.scheduler
+        .listJobs({ questId: nextId, type: QUEST_JOB_TYPES.expiration, status: ["pending", "running", "done"] })
+        .length > 0;
+      this.questScheduler.scheduleQuest(pending);
+      if (!announced) {
+        this.emit("stepUnlocked", chain, pending);
+      }
+      return;
+    }
+    if (pending?.status !== "draft") {
+      return;
+    }
+    const opensAt = new Date(Date.now() + chain.stepDelayMinutes * 60 * 1000);
+    const next = this.store.publishQuest(nextId, opensAt, `Step ${(quest.chain?.step ?? 0) + 1} of "${chain.title}" unlocked`);
+    this.emit("stepUnlocked", chain, next);
+  }
+
+  private endChain(chain: QuestChain, status: "completed" | "failed", reason?: string): void {
+    chain.status = status;
+    chain.endedAt = new Date();
+    chain.endedReason = reason;
+    this.repository.saveChain(chain);
+
+    // Steps that never unlocked will not run
+    for (const questId of chain.questIds) {
+      if (this.store.getQuest(questId)?.status === "draft") {
+        this.store.cancelQuest(questId, CHAIN_ENDED_REASON);
+      }
+    }
+    console.log(`📜 Quest chain "${chain.title}" ${status}${reason ? ` (${reason})` : ""}`);
+  }
+
+  /**
+   * Award the chain bonus to a player who completed every step
+   */
+  private awardBonus(chain: QuestChain, inboxId: string): void {
+    if (chain.bonusAwardedTo.includes(inboxId)) {
+      return;
+    }
+    const completed = this.store.getUserProfile(inboxId).completedQuests;
+    if (!chain.questIds.every(questId => completed.includes(questId))) {
+      return;
+    }
+
+    chain.bonusAwardedTo.push(inboxId);
+    this.repository.saveChain(chain);
+    const profile = this.store.awardBonus(inboxId, chain.bonus, `Completed the "${chain.title}" quest chain`);
+    this.emit("chainBonusAwarded", chain, inboxId, profile);
+  }
+}
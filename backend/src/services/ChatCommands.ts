@@ -0,0 +1,575 @@
+import type { Quest } from "../types/Quest";
+import type { StreakStatus } from "../types/Streak";
+import type { QuestOrchestrator } from "./QuestOrchestrator";
+import type { SubmissionOutcome } from "./SubmissionService";
+import { PROOF_TYPE_LABELS, proofNeedsValue } from "./ProofVerifiers";
+import { choiceLabel } from "./QuizGrading";
+
+export interface ParsedCommand {
+  name: string;
+  args: string[];
+  // Everything after the command name, for free-text arguments such as proof
+  rest: string;
+}
+
+export interface CommandReply {
+  text: string;
+  // "conversation" replies where the command was sent, "dm" replies privately
+  visibility: "conversation" | "dm";
+}
+
+export interface CommandContext {
+  senderInboxId: string;
+  conversationId: string;
+  // Commands sent in a group only see that group's quests
+  isGroup: boolean;
+}
+
+// Characters of the quest ID shown in chat and accepted as a prefix
+const SHORT_ID_LENGTH = 8;
+
+export const shortQuestId = (questId: string) => questId.slice(0, SHORT_ID_LENGTH);
+
+const shortInboxId = (inboxId: string) => `${inboxId.slice(0, 6)}...${inboxId.slice(-6)}`;
+
+const formatTimeLeft = (until: Date): string => {
+  const minutes = Math.max(0, Math.round((until.getTime() - Date.now()) / 60000));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const describeStreak = (streak: StreakStatus): string => {
+  if (streak.days === 0) {
+    return `none yet, complete a quest to start one (best ${streak.bestDays} days)`;
+  }
+  const today = streak.activeToday ? "today counted" : streak.atRisk ? "⚠️ ends at midnight UTC" : "a freeze covers today if you miss it";
+  return `${streak.days} day(s), ${streak.weeks} week(s), ×${streak.multiplier} XP (${today}, ${streak.freezeTokens} freeze(s), best ${streak.bestDays} days)`;
+};
+
+/**
+ * Tell a participant what happened to their proof. Peer-confirmed proofs are
+ * announced to the conversation so another participant can vouch for them.
+ */
+export const describeSubmission = (quest: Quest, { submission, completion }: SubmissionOutcome): CommandReply => {
+  if (completion) {
+    return {
+      text: `✅ Proof accepted for **${quest.title}**. You earned ${completion.rewards.xp} XP${completion.streakMultiplier ? ` (×${completion.streakMultiplier} streak bonus)` : ""} and are now level ${completion.newLevel}.`,
+      visibility: "dm",
+    };
+  }
+  if (submission.status === "verified" && quest.teams) {
+    return {
+      text: `🤝 Your part of **${quest.title}** is done. Rewards are shared once your whole team has played.`,
+      visibility: "dm",
+    };
+  }
+  if (submission.status === "verified") {
+    return {
+      text: `🎨 Entry received for **${quest.title}**. Ranked results are posted after judging.`,
+      visibility: "dm",
+    };
+  }
+  if (submission.status === "rejected") {
+    return {
+      text: `❌ Proof rejected for **${quest.title}**: ${submission.reason ?? "it did not meet the requirements"}`,
+      visibility: "dm",
+    };
+  }
+  if (submission.proof.type === "peer_confirmation") {
+    const note = submission.proof.value ? `: "${submission.proof.value}"` : "";
+    return {
+      text: `🙋 ${shortInboxId(submission.participantInboxId)} finished **${quest.title}**${note}. Another participant can confirm with /confirm ${shortQuestId(submission.id)}`,
+      visibility: "conversation",
+    };
+  }
+  return {
+    text: `⏳ Proof received for **${quest.title}**. ${submission.reason ?? "It is waiting for verification."}`,
+    visibility: "dm",
+  };
+};
+
+const HELP_TEXT = `🤖 **Quest Master commands**
+
+/quests — list active quests
+/join <id> — join a quest
+/leave <id> — leave a quest
+/done <id> <proof> — submit proof that you completed a quest
+/confirm <submission> — vouch for another participant's completion
+/quiz <id> — show a knowledge quest's questions
+/answer <id> <number> <answer> — answer a question (best sent in a DM)
+/scores <id> — a knowledge quest's scoreboard
+/vote <id> [choice] — see what is up for a vote, or vote (rank several for ranked votes, e.g. 2 1 3)
+/tally <id> — live results of a vote
+/team <id> [name] — see the teams, or join or start a team by number or name
+/chain [id] — quest chains in this chat, or your progress through one
+/stats — your level, XP, completed quests and badges (sent privately)
+/leaderboard [all] — top questers this season, or of all time
+/help — show this message`;
+
+/**
+ * Parse a chat message into a command. Returns null for anything that is not
+ * a slash command.
+ */
+export const parseCommand = (text: string): ParsedCommand | null => {
+  const match = text.trim().match(/^\/(\w+)(?:@\S+)?(?:\s+([\s\S]*))?$/);
+  if (!match) {
+    return null;
+  }
+  const rest = (match[2] ?? "").trim();
+  return {
+    name: match[1].toLowerCase(),
+    args: rest ? rest.split(/\s+/) : [],
+    rest,
+  };
+};
+
+/**
+ * Handles slash commands from the message stream. All quest changes go
+ * through QuestOrchestrator, so chat follows the same rules as REST and the
+ * mini app; the caller is responsible for delivering the reply.
+ */
+export class ChatCommandHandler {
+  private orchestrator: QuestOrchestrator;
+
+  constructor(orchestrator: QuestOrchestrator) {
+    this.orchestrator = orchestrator;
+  }
+
+  /**
+   * Run a command, returning the reply or null if the text is not a command
+   */
+  async handle(text: string, context: CommandContext): Promise<CommandReply | null> {
+    const command = parseCommand(text);
+    if (!command) {
+      return null;
+    }
+
+    console.log(`💬 Command /${command.name} from ${context.senderInboxId}`);
+    try {
+      return await this.run(command, context);
+    } catch (error) {
+      return {
+        text: `⚠️ ${error instanceof Error ? error.message : "Something went wrong"}`,
+        visibility: "dm",
+      };
+    }
+  }
+
+  private async run(command: ParsedCommand, context: CommandContext): Promise<CommandReply> {
+    switch (command.name) {
+      case "quests":
+        return this.listQuests(context);
+      case "join":
+        return this.joinQuest(command, context);
+      case "leave":
+        return this.leaveQuest(command, context);
+      case "done":
+        return this.completeQuest(command, context);
+      case "confirm":
+        return this.confirmSubmission(command, context);
+      case "quiz":
+        return this.showQuiz(command, context);
+      case "answer":
+        return this.answerQuestion(command, context);
+      case "scores":
+        return this.showScores(command, context);
+      case "vote":
+        return this.vote(command, context);
+      case "tally":
+        return this.showTally(command, context);
+      case "team":
+      case "teams":
+        return this.team(command, context);
+      case "chain":
+      case "chains":
+        return this.chain(command, context);
+      case "stats":
+        return this.showStats(context);
+      case "leaderboard":
+        return this.showLeaderboard(command);
+      case "help":
+      case "start":
+        return { text: HELP_TEXT, visibility: "conversation" };
+      default:
+        return { text: `❓ Unknown command /${command.name}. Try /help`, visibility: "dm" };
+    }
+  }
+
+  private listQuests(context: CommandContext): CommandReply {
+    const quests = this.orchestrator.getActiveQuests(context.isGroup ? context.conversationId : undefined);
+    if (quests.length === 0) {
+      return { text: "📭 No active quests right now. Keep chatting and a Quest Master will show up!", visibility: "conversation" };
+    }
+
+    const lines = quests.map(quest =>
+      `• \`${shortQuestId(quest.id)}\` **${quest.title}** — ${quest.status.replace("_", " ")}, ${quest.participants.length}/${quest.participantLimits.max} joined, ${quest.rewards.xp} XP`
+    );
+    return {
+      text: `🎯 **Active quests**\n\n${lines.join("\n")}\n\nJoin with /join <id>`,
+      visibility: "conversation",
+    };
+  }
+
+  private async joinQuest(command: ParsedCommand, context: CommandContext): Promise<CommandReply> {
+    const quest = this.resolveQuest(command.args[0], context);
+    const joined = await this.orchestrator.joinQuest(quest.id, context.senderInboxId);
+    if (!joined) {
+      return { text: `You already joined **${quest.title}**.`, visibility: "dm" };
+    }
+
+    const updated = this.orchestrator.getQuestById(quest.id) ?? quest;
+    return {
+      text: `👥 ${shortInboxId(context.senderInboxId)} joined **${quest.title}** (${updated.participants.length}/${quest.participantLimits.max})`,
+      visibility: "conversation",
+    };
+  }
+
+  private async leaveQuest(command: ParsedCommand, context: CommandContext): Promise<CommandReply> {
+    const quest = this.resolveQuest(command.args[0], context);
+    const left = await this.orchestrator.leaveQuest(quest.id, context.senderInboxId);
+    if (!left) {
+      return { text: `You are not participating in **${quest.title}**.`, visibility: "dm" };
+    }
+    return {
+      text: `👤 ${shortInboxId(context.senderInboxId)} left **${quest.title}**`,
+      visibility: "conversation",
+    };
+  }
+
+  private async completeQuest(command: ParsedCommand, context: CommandContext): Promise<CommandReply> {
+    const quest = this.resolveQuest(command.args[0], context);
+    const proof = command.rest.slice(command.args[0].length).trim();
+    const requirement = this.orchestrator.getProofRequirement(quest);
+    if (requirement.type === "game_result") {
+      throw new Error(`**${quest.title}** is completed by playing its game in the mini app`);
+    }
+    if (!proof && proofNeedsValue(requirement.type)) {
+      throw new Error(`Add ${PROOF_TYPE_LABELS[requirement.type]} after the quest ID, e.g. /done ${shortQuestId(quest.id)} <proof>`);
+    }
+
+    const outcome = await this.orchestrator.submitProof(quest.id, context.senderInboxId, { value: proof });
+    // The group hears about verified proofs from the Quest Master's congratulation
+    return describeSubmission(quest, outcome);
+  }
+
+  private async confirmSubmission(command: ParsedCommand, context: CommandContext): Promise<CommandReply> {
+    const id = command.args[0];
+    if (!id) {
+      throw new Error("Missing submission ID, e.g. /confirm 1a2b3c4d");
+    }
+    const submission = this.orchestrator.findPendingSubmission(id, context.isGroup ? context.conversationId : undefined);
+    if (!submission) {
+      throw new Error(`No pending submission matches "${id}"`);
+    }
+
+    const outcome = await this.orchestrator.confirmSubmission(submission.id, context.senderInboxId);
+    const quest = this.orchestrator.getQuestById(submission.questId);
+    if (outcome.submission.status === "verified") {
+      return {
+        text: `🤝 ${shortInboxId(context.senderInboxId)} confirmed ${shortInboxId(submission.participantInboxId)}'s completion of **${quest?.title ?? "the quest"}**`,
+        visibility: "conversation",
+      };
+    }
+    return {
+      text: `🤝 Confirmation recorded. ${outcome.submission.reason ?? ""}`.trim(),
+      visibility: "dm",
+    };
+  }
+
+  private showQuiz(command: ParsedCommand, context: CommandContext): CommandReply {
+    const quest = this.resolveQuest(command.args[0], context);
+    const questions = this.orchestrator.getQuizQuestions(quest);
+    if (questions.length === 0) {
+      return { text: `**${quest.title}** has no questions.`, visibility: "dm" };
+    }
+
+    const lines = questions.map((question, index) => {
+      const choices = question.choices?.map((choice, i) => `${choiceLabel(i)}) ${choice}`).join("  ");
+      return `${index + 1}. ${question.prompt}${choices ? `\n   ${choices}` : ""}`;
+    });
+    return {
+      text: `🧠 **${quest.title}**: ${questions.length} question(s)
+
+${lines.join("\n")}
+
+Answer with /answer ${shortQuestId(quest.id)} <number> <answer>, one try per question. Send answers in a DM so nobody sees them.`,
+      visibility: "conversation",
+    };
+  }
+
+  private async answerQuestion(command: ParsedCommand, context: CommandContext): Promise<CommandReply> {
+    const [questRef, questionRef] = command.args;
+    const quest = this.resolveQuest(questRef, context);
+    if (!questionRef) {
+      throw new Error(`Missing question number, e.g. /answer ${shortQuestId(quest.id)} 1 <answer>`);
+    }
+    const answer = command.args.slice(2).join(" ");
+
+    const result = await this.orchestrator.answerQuestion(quest.id, context.senderInboxId, questionRef, answer);
+    const mark = result.score === 1 ? "✅" : result.score > 0 ? "🟡" : "❌";
+    if (result.answered >= result.total) {
+      const points = this.orchestrator
+        .getQuizScoreboard(quest.id)
+        .find(score => score.inboxId === context.senderInboxId)?.points ?? 0;
+      const rewards = result.completion
+        ? `earned ${result.completion.rewards.xp} XP`
+        : "will share your team's rewards once everyone has played";
+      return {
+        text: `${mark} ${result.feedback}\n\n🏁 You finished **${quest.title}** with ${points}/${result.total} points and ${rewards}.`,
+        visibility: "dm",
+      };
+    }
+    return {
+      text: `${mark} ${result.feedback} (${result.answered}/${result.total} answered)`,
+      visibility: "dm",
+    };
+  }
+
+  private showScores(command: ParsedCommand, context: CommandContext): CommandReply {
+    const quest = this.resolveQuest(command.args[0], context);
+    const scores = this.orchestrator.getQuizScoreboard(quest.id);
+    if (scores.length === 0) {
+      return { text: `📭 No answers yet for **${quest.title}**.`, visibility: "conversation" };
+    }
+
+    const medals = ["🥇", "🥈", "🥉"];
+    const lines = scores.map((score, index) =>
+      `${medals[index] ?? `${index + 1}.`} ${shortInboxId(score.inboxId)} — ${score.points}/${score.total}${score.finished ? "" : ` (${score.answered} answered)`}`
+    );
+    return { text: `🧠 **${quest.title} scoreboard**\n\n${lines.join("\n")}`, visibility: "conversation" };
+  }
+
+  private async vote(command: ParsedCommand, context: CommandContext): Promise<CommandReply> {
+    const quest = this.resolveQuest(command.args[0], context);
+    const choices = command.args.slice(1).flatMap(arg => arg.split(",")).filter(Boolean);
+    if (choices.length === 0) {
+      return this.showCandidates(quest);
+    }
+
+    const { vote, replaced } = await this.orchestrator.castVote(quest.id, context.senderInboxId, choices);
+    const candidates = this.orchestrator.getVoteCandidates(quest);
+    const picked = vote.choices
+      .map(id => candidates.findIndex(c => c.id === id))
+      .filter(index => index >= 0)
+      .map(index => `${index + 1}. ${candidates[index].label}`);
+    if (picked.length < vote.choices.length) {
+      // An entry was withdrawn or rejected between casting and reading back
+      return {
+        text: `⚠️ The options of **${quest.title}** changed while you voted. See them with /vote ${shortQuestId(quest.id)} and vote again.`,
+        visibility: "dm",
+      };
+    }
+    return {
+      text: `🗳️ ${replaced ? "Vote changed" : "Vote recorded"} for **${quest.title}**:\n${picked.join("\n")}`,
+      visibility: "dm",
+    };
+  }
+
+  private showCandidates(quest: Quest): CommandReply {
+    if (!quest.vote) {
+      return { text: `**${quest.title}** has no vote.`, visibility: "dm" };
+    }
+    const candidates = this.orchestrator.getVoteCandidates(quest);
+    if (candidates.length === 0) {
+      return { text: `📭 Nothing to vote for in **${quest.title}** yet.`, visibility: "conversation" };
+    }
+
+    const lines = candidates.map((candidate, index) => `${index + 1}. ${candidate.label}`);
+    const how = quest.vote.rankedChoice
+      ? `Rank your picks with /vote ${shortQuestId(quest.id)} <first> <second> ...`
+      : `Vote with /vote ${shortQuestId(quest.id)} <number>`;
+    const status = this.orchestrator.isVotingOpen(quest) ? `${how}. Voting again replaces your vote.` : "Voting is not open.";
+    return {
+      text: `🗳️ **${quest.title}**
+
+${lines.join("\n")}
+
+${status}`,
+      visibility: "conversation",
+    };
+  }
+
+  private showTally(command: ParsedCommand, context: CommandContext): CommandReply {
+    const quest = this.resolveQuest(command.args[0], context);
+    const tally = this.orchestrator.getVoteTally(quest.id);
+    if (tally.ballots === 0) {
+      return { text: `📭 No votes yet for **${quest.title}**.`, visibility: "conversation" };
+    }
+
+    const lines = tally.counts.map(count => {
+      const share = Math.round((count.votes / tally.ballots) * 100);
+      return `${count.candidateId === tally.winner ? "👑" : "•"} ${count.label} — ${count.votes} (${share}%)`;
+    });
+    const note = tally.rankedChoice && tally.rounds && tally.rounds.length > 1
+      ? `\n\nFirst choices shown; the lead is decided after ${tally.rounds.length - 1} runoff round(s).`
+      : "";
+    return {
+      text: `🗳️ **${quest.title}**: ${tally.ballots} vote(s)
+
+${lines.join("\n")}${note}`,
+      visibility: "conversation",
+    };
+  }
+
+  private async team(command: ParsedCommand, context: CommandContext): Promise<CommandReply> {
+    const quest = this.resolveQuest(command.args[0], context);
+    const teamRef = command.args.slice(1).join(" ");
+    if (!teamRef) {
+      return this.showTeams(quest);
+    }
+
+    const team = await this.orchestrator.joinTeam(quest.id, context.senderInboxId, teamRef);
+    return {
+      text: `👥 ${shortInboxId(context.senderInboxId)} joined **${team.name}** for **${quest.title}** (${team.members.length}/${quest.teams?.size ?? team.members.length})`,
+      visibility: "conversation",
+    };
+  }
+
+  private showTeams(quest: Quest): CommandReply {
+    if (!quest.teams) {
+      return { text: `**${quest.title}** is not played in teams.`, visibility: "dm" };
+    }
+    const standings = this.orchestrator.getTeamStandings(quest.id);
+    const join = quest.teams.formation === "self"
+      ? `Join or start a team with /team ${shortQuestId(quest.id)} <number or name>.`
+      : "Teams are balanced automatically when the quest starts.";
+    if (standings.length === 0) {
+      return { text: `👥 No teams yet for **${quest.title}**. ${join}`, visibility: "conversation" };
+    }
+
+    const lines = standings.map(({ team, size, contributed, progress, completed }, index) => {
+      const members = team.members.map(shortInboxId).join(", ") || "nobody yet";
+      const status = completed ? "🏁 finished" : `${contributed}/${team.members.length} played, ${Math.round(progress * 100)}%`;
+      return `${index + 1}. **${team.name}** (${team.members.length}/${size}) — ${status}\n   ${members}`;
+    });
+    const split = quest.teams.split === "equal" ? "XP is split equally" : "XP is split by contribution";
+    return {
+      text: `👥 **${quest.title}** teams
+
+${lines.join("\n")}
+
+${split}. ${join}`,
+      visibility: "conversation",
+    };
+  }
+
+  private chain(command: ParsedCommand, context: CommandContext): CommandReply {
+    const conversationId = context.isGroup ? context.conversationId : undefined;
+    const id = command.args[0];
+    if (!id) {
+      const chains = this.orchestrator.getChains(conversationId);
+      if (chains.length === 0) {
+        return { text: "📜 No quest chains here yet.", visibility: "conversation" };
+      }
+      const lines = chains.map(chain =>
+        `• \`${shortQuestId(chain.id)}\` **${chain.title}** — ${chain.status}, ${chain.questIds.length} steps, ${chain.bonus.xp} XP bonus`
+      );
+      return {
+        text: `📜 **Quest chains**\n\n${lines.join("\n")}\n\nSee your progress with /chain <id>`,
+        visibility: "conversation",
+      };
+    }
+
+    const chain = this.orchestrator.findChain(id.toLowerCase(), conversationId);
+    if (!chain) {
+      throw new Error(`No quest chain matches "${id}". Use /chain to see the IDs`);
+    }
+    const progress = this.orchestrator.getChainProgress(chain.id, context.senderInboxId);
+    const lines = progress.steps.map(step => {
+      const icon = step.completed ? "✅" : step.unlocked ? "▶️" : "🔒";
+      const status = step.unlocked && !step.completed ? ` — \`${shortQuestId(step.questId)}\`, ${step.status.replace("_", " ")}` : "";
+      return `${icon} ${step.step}. ${step.title}${status}`;
+    });
+    const bonus = progress.bonusAwarded
+      ? "🎁 You earned the chain bonus!"
+      : `🎁 Finish every step for a ${chain.bonus.xp} XP bonus (${progress.completedSteps}/${progress.steps.length} done)`;
+    return {
+      text: `📜 **${chain.title}** (${chain.status})
+
+${lines.join("\n")}
+
+${bonus}`,
+      visibility: "dm",
+    };
+  }
+
+  private showStats(context: CommandContext): CommandReply {
+    const profile = this.orchestrator.getUserStats(context.senderInboxId);
+    const level = this.orchestrator.getLevelProgress(context.senderInboxId);
+    const streak = this.orchestrator.getStreak(context.senderInboxId);
+    const season = this.orchestrator.getSeasonPlacement(context.senderInboxId);
+    const toNext = level.nextLevelXp === undefined ? "max level" : `${level.nextLevelXp - level.xp} XP to level ${level.level + 1}`;
+    const badges = this.orchestrator.getBadgeProgress(context.senderInboxId);
+    const earned = badges.filter(progress => progress.earned).map(({ badge }) => `${badge.icon} ${badge.name}`);
+    // The locked achievement the player is closest to
+    const next = badges
+      .filter(progress => !progress.earned)
+      .sort((a, b) => b.progress / b.target - a.progress / a.target)[0];
+    return {
+      text: `📊 **Your stats**
+
+⭐ Level ${level.level} (${profile.xp} XP, ${toNext})
+🏆 Quests completed: ${profile.completedQuests.length}
+🤝 Social score: ${profile.socialScore}
+🔥 Streak: ${describeStreak(streak)}${season ? `\n🗓️ ${season.season.name}: ${season.xp} XP${season.rank ? `, rank #${season.rank}` : ""} (ends in ${formatTimeLeft(season.season.endsAt)})` : ""}
+🏅 Badges: ${earned.length > 0 ? earned.join(", ") : "none yet"}${next ? `\n🔓 Next: ${next.badge.icon} ${next.badge.name} — ${next.badge.description} (${next.progress}/${next.target})` : ""}`,
+      visibility: "dm",
+    };
+  }
+
+  private showLeaderboard(command: ParsedCommand): CommandReply {
+    const medals = ["🥇", "🥈", "🥉"];
+    const seasonal = command.args[0]?.toLowerCase() === "all" ? undefined : this.orchestrator.getSeasonLeaderboard(10);
+    if (seasonal) {
+      const { season, standings } = seasonal;
+      if (standings.length === 0) {
+        return { text: `🏆 Nobody has scored in ${season.name} yet. Complete a quest to claim the top spot!`, visibility: "conversation" };
+      }
+      const lines = standings.map(standing =>
+        `${medals[standing.rank - 1] ?? `${standing.rank}.`} ${shortInboxId(standing.inboxId)} — ${standing.xp} XP, ${standing.questsCompleted} quest(s)`
+      );
+      return {
+        text: `🏆 **${season.name} leaderboard** (ends in ${formatTimeLeft(season.endsAt)})\n\n${lines.join("\n")}\n\nAll-time: /leaderboard all`,
+        visibility: "conversation",
+      };
+    }
+
+    const leaders = this.orchestrator.getLeaderboard(10);
+    if (leaders.length === 0) {
+      return { text: "🏆 The leaderboard is empty. Complete a quest to claim the top spot!", visibility: "conversation" };
+    }
+
+    const lines = leaders.map((profile, index) =>
+      `${medals[index] ?? `${index + 1}.`} ${shortInboxId(profile.inboxId)} — level ${profile.level}, ${profile.xp} XP`
+    );
+    return { text: `🏆 **All-time leaderboard**\n\n${lines.join("\n")}`, visibility: "conversation" };
+  }
+
+  /**
+   * Find an active quest by full ID or the short ID shown in /quests
+   */
+  private resolveQuest(id: string | undefined, context: CommandContext): Quest {
+    if (!id) {
+      throw new Error("Missing quest ID. Use /quests to see the IDs");
+    }
+
+    // In a group, only that group's quests; in a DM, any
+    const exact = this.orchestrator.getQuestById(id);
+    if (exact && (!context.isGroup || exact.conversationId === context.conversationId)) {
+      return exact;
+    }
+
+    const matches = this.orchestrator
+      .getActiveQuests(context.isGroup ? context.conversationId : undefined)
+      .filter(quest => quest.id.startsWith(id.toLowerCase()));
+    if (matches.length === 0) {
+      throw new Error(`No active quest matches "${id}". Use /quests to see the IDs`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`"${id}" matches several quests, use more characters of the ID`);
+    }
+    return matches[0];
+  }
+}
@@ -0,0 +1,198 @@
+import { EventEmitter } from "events";
+import type { Quest, QuestSubmission, RubricCriterion } from "../types/Quest";
+import type { ChatMessage, LLMProvider } from "../llm/LLMProvider";
+import { QUEST_MASTER_PERSONALITIES } from "../agents/QuestMaster";
+import {
+  DEFAULT_RUBRIC,
+  buildJudgingMessages,
+  parseJudgingResponse,
+  rankEntries,
+  type ContestPlacement,
+  type EntryScore,
+  type JudgingEntry,
+} from "../agents/ContestJudging";
+import type { QuestStore } from "./QuestStore";
+import type { SubmissionService } from "./SubmissionService";
+import { isJudgedQuest, isVotedQuest, type QuestTransition } from "./QuestLifecycle";
+
+const MAX_JUDGING_ATTEMPTS = 2;
+
+// Every entry scores zero, so the tie-breaks (submission order) decide
+const zeroScores = (submissions: QuestSubmission[], rubric: RubricCriterion[]): EntryScore[] =>
+  submissions.map((_, index) => ({
+    entryId: `E${index + 1}`,
+    criteria: Object.fromEntries(rubric.map(c => [c.criterion, 0])),
+  }));
+
+/**
+ * Ranks the entries of judged quests once they move to judging: every
+ * verified submission is scored by the LLM against the quest's rubric, ties
+ * are broken, and rewards are awarded by rank through QuestStore.
+ *
+ * Emits "questJudged" (quest, placements).
+ */
+export class ContestJudge extends EventEmitter {
+  private store: QuestStore;
+  private submissions: SubmissionService;
+  private llm: LLMProvider;
+  private judging: Set<string> = new Set();
+
+  constructor(store: QuestStore, submissions: SubmissionService, llm: LLMProvider) {
+    super();
+    this.store = store;
+    this.submissions = submissions;
+    this.llm = llm;
+
+    this.store.on("questTransition", ({ quest, to }: QuestTransition) => {
+      if (to === "judging") {
+        void this.judgeQuest(quest.id);
+      }
+    });
+  }
+
+  /**
+   * Judge quests left in judging by a restart
+   */
+  resumeJudging(): void {
+    for (const quest of this.store.listQuests({ status: "judging" })) {
+      void this.judgeQuest(quest.id);
+    }
+  }
+
+  /**
+   * Close entries early and judge a running quest now
+   */
+  startJudging(questId: string, reason = "Entries closed early"): Quest {
+    const quest = this.store.getQuest(questId);
+    if (!quest) {
+      throw new Error("Quest not found");
+    }
+    if (!isJudgedQuest(quest)) {
+      throw new Error("Only judged quests can be judged");
+    }
+    return this.store.transitionQuest(questId, "judging", reason);
+  }
+
+  /**
+   * Score, rank and reward the entries of a quest in judging
+   */
+  async judgeQuest(questId: string): Promise<ContestPlacement[]> {
+    if (this.judging.has(questId)) {
+      return [];
+    }
+    this.judging.add(questId);
+
+    try {
+      const quest = this.store.getQuest(questId);
+      // Voted quests are settled by VoteService, others in judging are reviewed by hand
+      if (quest?.status !== "judging" || !isJudgedQuest(quest) || isVotedQuest(quest)) {
+        return [];
+      }
+
+      const entries = this.submissions.listSubmissions({ questId, status: "verified" });
+      const rubric = quest.rubric?.length ? quest.rubric : DEFAULT_RUBRIC;
+      console.log(`⚖️ Judging ${entries.length} entries for "${quest.title}"`);
+
+      const scores = entries.length > 0 ? await this.scoreEntries(quest, rubric, entries) : [];
+      try {
+        return this.award(quest, rubric, entries, scores);
+      } catch (error) {
+        // Rewards already given are kept; the rest are closed like a failed judge
+        console.error(`❌ Error awarding the results of "${quest.title}":`, error);
+        if (this.store.getQuest(questId)?.status !== "judging") {
+          return [];
+        }
+        console.warn(`⚠️ Falling back to submission order for "${quest.title}"`);
+        return this.award(quest, rubric, entries, zeroScores(entries, rubric));
+      }
+    } catch (error) {
+      console.error(`❌ Error judging quest ${questId}:`, error);
+      return [];
+    } finally {
+      this.judging.delete(questId);
+    }
+  }
+
+  /**
+   * Rank the scored entries, reward them and complete the quest
+   */
+  private award(
+    quest: Quest,
+    rubric: RubricCriterion[],
+    entries: QuestSubmission[],
+    scores: EntryScore[]
+  ): ContestPlacement[] {
+    const placements = rankEntries(
+      entries.map((submission, index) => ({ submission, score: scores[index] })),
+      rubric,
+      quest.rewards
+    );
+
+    this.store.completeJudgedQuest(
+      quest.id,
+      placements.map(placement => ({
+        inboxId: placement.inboxId,
+        rank: placement.rank,
+        rewards: placement.rewards,
+        result: {
+          submissionId: placement.submissionId,
+          score: placement.score,
+          criteria: placement.criteria,
+          comment: placement.comment,
+          tieBreak: placement.tieBreak,
+        },
+      }))
+    );
+
+    this.emit("questJudged", this.store.getQuest(quest.id) ?? quest, placements);
+    return placements;
+  }
+
+  /**
+   * Scores in the same order as the entries. If the model cannot produce
+   * valid scores, every entry scores zero and the tie-breaks decide.
+   */
+  private async scoreEntries(
+    quest: Quest,
+    rubric: RubricCriterion[],
+    submissions: QuestSubmission[]
+  ): Promise<EntryScore[]> {
+    const entries: JudgingEntry[] = submissions.map((submission, index) => ({
+      id: `E${index + 1}`,
+      content: submission.proof.value || `(${submission.proof.type} entry)`,
+    }));
+    const messages: ChatMessage[] = buildJudgingMessages(quest, rubric, entries, this.getPersona(quest));
+
+    for (let attempt = 1; attempt <= MAX_JUDGING_ATTEMPTS; attempt++) {
+      try {
+        const response = await this.llm.completeJson({ messages, temperature: 0.2, maxTokens: 1500 });
+        const result = parseJudgingResponse(response, entries, rubric);
+        if (result.success) {
+          return entries.map(entry => result.scores.find(s => s.entryId === entry.id) as EntryScore);
+        }
+
+        console.warn(`⚠️ Invalid judging response for "${quest.title}" (attempt ${attempt}/${MAX_JUDGING_ATTEMPTS}):`, result.errors);
+        messages.push(
+          { role: "assistant", content: response },
+          {
+            role: "user",
+            content: `Those scores failed validation:\n${result.errors.map(e => `- ${e}`).join("\n")}\n\nRespond with the corrected JSON object only.`,
+          }
+        );
+      } catch (error) {
+        console.error(`❌ ${this.llm.name} could not judge "${quest.title}":`, error);
+      }
+    }
+
+    console.warn(`⚠️ Falling back to submission order for "${quest.title}"`);
+    return zeroScores(submissions, rubric);
+  }
+
+  /**
+   * Tone of the Quest Master that created the quest
+   */
+  private getPersona(quest: Quest): string {
+    const personality = QUEST_MASTER_PERSONALITIES.find(p => p.name === quest.questMaster);
+    return personality?.systemPrompt.split("\n\n")[0] ?? "You are a fair and encouraging judge.";
+  }
+}
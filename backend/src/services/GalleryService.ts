@@ -0,0 +1,340 @@
+import { EventEmitter } from "events";
+import { v4 as uuidv4 } from "uuid";
+import type { Quest, QuestSubmission } from "../types/Quest";
+import {
+  GALLERY_REACTIONS,
+  GalleryConfigSchema,
+  type GalleryConfig,
+  type GalleryEntry,
+  type GalleryReaction,
+  type GalleryUpload,
+  type GalleryView,
+} from "../types/Gallery";
+import type { QuestRepository } from "../storage/QuestRepository";
+import { CONTENT_TYPE_EXTENSIONS, type BlobStore } from "../blobs/BlobStore";
+import type { QuestStore } from "./QuestStore";
+import type { SubmissionOutcome, SubmissionService } from "./SubmissionService";
+import type { VoteService } from "./VoteService";
+import { SUBMITTABLE_QUEST_STATUSES, isTerminalStatus } from "./QuestLifecycle";
+import { PROOF_TYPE_LABELS, resolveProofRequirement } from "./ProofVerifiers";
+import { formatZodIssues } from "../helper";
+
+export interface GalleryUploadInput {
+  contentType: string;
+  data: Buffer;
+  caption?: string;
+}
+
+export interface ReactionChange {
+  questId: string;
+  submissionId: string;
+  inboxId: string;
+  emoji: string;
+  reacted: boolean; // false when the reaction was taken back
+  reactions: Record<string, number>;
+}
+
+type UploadKind = GalleryUpload["kind"];
+
+// First bytes of each accepted image type, so a renamed file cannot pass as an image
+const IMAGE_SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  "image/png": data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  "image/jpeg": data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  "image/gif": data => data.subarray(0, 4).toString("latin1") === "GIF8",
+  "image/webp": data => data.subarray(0, 4).toString("latin1") === "RIFF" && data.subarray(8, 12).toString("latin1") === "WEBP",
+};
+
+/**
+ * Gallery of a quest's entries. Participants upload an image or a piece of
+ * writing, which is stored in the blob store and submitted as their proof,
+ * so entries are verified, judged and voted on like any other submission.
+ * Anyone can react to verified entries with a few emojis, and once the quest
+ * closes its winners are shown: the judged or voted placements, or the most
+ * reacted-to entries when the quest was not ranked.
+ *
+ * Emits "entryAdded" (quest, submission) and "reactionChanged" (change).
+ */
+export class GalleryService extends EventEmitter {
+  private repository: QuestRepository;
+  private store: QuestStore;
+  private submissions: SubmissionService;
+  private votes: VoteService;
+  private blobs: BlobStore;
+  private config: GalleryConfig;
+
+  constructor(
+    repository: QuestRepository,
+    store: QuestStore,
+    submissions: SubmissionService,
+    votes: VoteService,
+    blobs: BlobStore,
+    config: GalleryConfig = GalleryConfigSchema.parse({})
+  ) {
+    super();
+    this.repository = repository;
+    this.store = store;
+    this.submissions = submissions;
+    this.votes = votes;
+    this.blobs = blobs;
+    this.config = config;
+  }
+
+  /**
+   * What participants can upload, following the quest's proof: images
+   * for image proofs, writing for text proofs and either for links
+   */
+  acceptedKinds(quest: Quest): UploadKind[] {
+    switch (resolveProofRequirement(quest).type) {
+      case "image":
+        return ["image"];
+      case "text":
+        return ["text"];
+      case "link":
+        return ["image", "text"];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Store an upload and submit it as the participant's proof. Nothing is
+   * kept when the submission fails or is rejected.
+   */
+  async upload(questId: string, inboxId: string, input: GalleryUploadInput): Promise<SubmissionOutcome> {
+    const quest = this.requireQuest(questId);
+    const requirement = resolveProofRequirement(quest);
+    const contentType = input.contentType.split(";")[0].trim().toLowerCase();
+    const kind: UploadKind | undefined =
+      contentType === "text/plain" ? "text" : Object.hasOwn(IMAGE_SIGNATURES, contentType) ? "image" : undefined;
+
+    if (!kind) {
+      throw new Error("Upload a PNG, JPEG, GIF or WebP image, or plain text");
+    }
+    const accepted = this.acceptedKinds(quest);
+    if (!accepted.includes(kind)) {
+      throw new Error(
+        accepted.length > 0
+          ? `This quest takes ${accepted.map(k => (k === "image" ? "images" : "writing")).join(" or ")}`
+          : `This quest needs ${PROOF_TYPE_LABELS[requirement.type]} as proof`
+      );
+    }
+
+    let text: string | undefined;
+    if (kind === "image") {
+      if (input.data.length > this.config.maxImageBytes) {
+        throw new Error(`Images can be up to ${Math.floor(this.config.maxImageBytes / (1024 * 1024))} MB`);
+      }
+      if (!IMAGE_SIGNATURES[contentType](input.data)) {
+        throw new Error("That file is not a valid image");
+      }
+    } else {
+      text = input.data.toString("utf8").trim();
+      if (!text) {
+        throw new Error("Write something first");
+      }
+      if (text.length > this.config.maxTextLength) {
+        throw new Error(`Entries can be up to ${this.config.maxTextLength} characters`);
+      }
+    }
+
+    const blobKey = `gallery/${quest.id}/${uuidv4()}.${CONTENT_TYPE_EXTENSIONS[contentType]}`;
+    const data = text === undefined ? input.data : Buffer.from(text, "utf8");
+    await this.blobs.put(blobKey, data, contentType);
+
+    let outcome: SubmissionOutcome;
+    try {
+      // Text proofs are checked against the writing itself, the rest get its link
+      outcome = await this.submissions.submit(quest.id, inboxId, {
+        value: requirement.type === "text" && text !== undefined ? text : this.blobs.url(blobKey),
+      });
+    } catch (error) {
+      await this.deleteBlob(blobKey);
+      throw error;
+    }
+    if (outcome.submission.status === "rejected") {
+      await this.deleteBlob(blobKey);
+      return outcome;
+    }
+
+    this.repository.saveGalleryUpload({
+      submissionId: outcome.submission.id,
+      questId: quest.id,
+      inboxId,
+      kind,
+      blobKey,
+      contentType,
+      size: data.length,
+      text,
+      caption: input.caption?.trim().slice(0, this.config.maxCaptionLength) || undefined,
+      createdAt: new Date(),
+    });
+    this.emit("entryAdded", quest, outcome.submission);
+    console.log(`🖼️ Gallery ${kind} entry ${outcome.submission.id} added to "${quest.title}"`);
+    return outcome;
+  }
+
+  /**
+   * Add a reaction to a verified entry, or take it back if the member
+   * already reacted with that emoji. Only members of the quest's group can
+   * react, as reactions can pick the winners.
+   */
+  async toggleReaction(submissionId: string, inboxId: string, emoji: string): Promise<ReactionChange> {
+    const submission = this.submissions.getSubmission(submissionId);
+    if (submission?.status !== "verified") {
+      throw new Error("Entry not found");
+    }
+    if (!GALLERY_REACTIONS.includes(emoji)) {
+      throw new Error(`React with one of ${GALLERY_REACTIONS.join(" ")}`);
+    }
+    if (!(await this.votes.isMember(this.requireQuest(submission.questId), inboxId))) {
+      throw new Error("Only members of the quest's group can react");
+    }
+
+    const reaction: GalleryReaction = {
+      questId: submission.questId,
+      submissionId,
+      inboxId,
+      emoji,
+      reactedAt: new Date(),
+    };
+    const reacted = this.repository.addGalleryReaction(reaction);
+    if (!reacted) {
+      this.repository.removeGalleryReaction(submissionId, inboxId, emoji);
+    }
+
+    const reactions = this.countReactions(submission.questId).get(submissionId) ?? {};
+    const change: ReactionChange = { questId: submission.questId, submissionId, inboxId, emoji, reacted, reactions };
+    this.emit("reactionChanged", change);
+    return change;
+  }
+
+  /**
+   * Verified entries in the order they came in, plus the viewer's own entries
+   * whatever their status, and the winners once the quest has closed
+   */
+  getGallery(questId: string, viewerInboxId?: string): GalleryView {
+    const quest = this.requireQuest(questId);
+    const uploads = new Map(this.repository.listGalleryUploads(questId).map(upload => [upload.submissionId, upload]));
+    const reactions = this.countReactions(questId);
+    const reactedBy = viewerInboxId
+      ? this.repository.listGalleryReactions(questId).filter(reaction => reaction.inboxId === viewerInboxId)
+      : [];
+    const votes = quest.vote?.subject === "submissions"
+      ? new Map(this.votes.getTally(questId).counts.map(count => [count.candidateId, count.votes]))
+      : undefined;
+
+    // Placements of judged and voted quests point back at the winning submission
+    const ranks = new Map<string, number>();
+    for (const completion of this.repository.listCompletions({ questId })) {
+      const submissionId: unknown = completion.result?.submissionId;
+      if (completion.rank && typeof submissionId === "string") {
+        ranks.set(submissionId, completion.rank);
+      }
+    }
+
+    const entries = this.repository
+      .listSubmissions({ questId })
+      .filter(submission => submission.status === "verified" || submission.participantInboxId === viewerInboxId)
+      .map(submission => this.toEntry(submission, uploads.get(submission.id), {
+        reactions: reactions.get(submission.id) ?? {},
+        reacted: reactedBy.filter(reaction => reaction.submissionId === submission.id).map(reaction => reaction.emoji),
+        votes: votes ? votes.get(submission.id) ?? 0 : undefined,
+        rank: ranks.get(submission.id),
+      }));
+
+    return {
+      questId,
+      status: quest.status,
+      accepts: this.acceptedKinds(quest),
+      open: SUBMITTABLE_QUEST_STATUSES.includes(quest.status),
+      reactions: GALLERY_REACTIONS,
+      entries,
+      winners: isTerminalStatus(quest.status) ? this.pickWinners(entries) : [],
+    };
+  }
+
+  /**
+   * The top placements, or when the quest was not ranked the entries with
+   * the most reactions, ties going to the earlier entry
+   */
+  private pickWinners(entries: GalleryEntry[]): GalleryEntry[] {
+    const verified = entries.filter(entry => entry.status === "verified");
+    const ranked = verified
+      .filter(entry => entry.rank !== undefined)
+      .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0));
+    if (ranked.length > 0) {
+      return ranked.slice(0, this.config.winners);
+    }
+
+    const total = (entry: GalleryEntry) => Object.values(entry.reactions).reduce((sum, count) => sum + count, 0);
+    return verified
+      .filter(entry => total(entry) > 0)
+      .sort((a, b) => total(b) - total(a) || a.submittedAt.getTime() - b.submittedAt.getTime())
+      .slice(0, this.config.winners)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+
+  private toEntry(
+    submission: QuestSubmission,
+    upload: GalleryUpload | undefined,
+    extra: Pick<GalleryEntry, "reactions" | "reacted" | "votes" | "rank">
+  ): GalleryEntry {
+    const { proof } = submission;
+    // Entries proved in chat have no upload; their proof is shown as it was sent
+    const kind = upload?.kind ?? (proof.type === "image" ? "image" : proof.type === "link" ? "link" : "text");
+    return {
+      id: submission.id,
+      inboxId: submission.participantInboxId,
+      kind,
+      url: upload ? this.blobs.url(upload.blobKey) : kind === "text" ? undefined : proof.value,
+      text: upload ? upload.text : kind === "text" ? proof.value : undefined,
+      caption: upload?.caption,
+      status: submission.status,
+      reason: submission.status === "verified" ? undefined : submission.reason,
+      submittedAt: submission.submittedAt,
+      ...extra,
+    };
+  }
+
+  /**
+   * Reaction counts per emoji for each entry of a quest
+   */
+  private countReactions(questId: string): Map<string, Record<string, number>> {
+    const counts = new Map<string, Record<string, number>>();
+    for (const reaction of this.repository.listGalleryReactions(questId)) {
+      const entry = counts.get(reaction.submissionId) ?? {};
+      entry[reaction.emoji] = (entry[reaction.emoji] ?? 0) + 1;
+      counts.set(reaction.submissionId, entry);
+    }
+    return counts;
+  }
+
+  private async deleteBlob(key: string): Promise<void> {
+    try {
+      await this.blobs.delete(key);
+    } catch (error) {
+      console.error(`❌ Could not delete blob ${key}:`, error);
+    }
+  }
+
+  private requireQuest(questId: string): Quest {
+    const quest = this.store.getQuest(questId);
+    if (!quest) {
+      throw new Error("Quest not found");
+    }
+    return quest;
+  }
+}
+
+/**
+ * Gallery limits from GALLERY_MAX_IMAGE_MB, 5 MB images by default
+ */
+export const createGalleryConfig = (env: NodeJS.ProcessEnv = process.env): GalleryConfig => {
+  const result = GalleryConfigSchema.safeParse({
+    maxImageBytes: env.GALLERY_MAX_IMAGE_MB ? Math.round(Number(env.GALLERY_MAX_IMAGE_MB) * 1024 * 1024) : undefined,
+  });
+  if (!result.success) {
+    throw new Error(`Invalid gallery settings: ${formatZodIssues(result.error).join("; ")}`);
+  }
+  return result.data;
+};
@@ -0,0 +1,253 @@
+import { EventEmitter } from "events";
+import { v4 as uuidv4 } from "uuid";
+import type { Quest } from "../types/Quest";
+import type { GameOverview, GameScore, GameSession, GameTurnOutcome, GameView } from "../types/Game";
+import type { QuestRepository } from "../storage/QuestRepository";
+import type { GameModule } from "../games/GameModule";
+import { GAME_MODULES, resolveGame } from "../games/GameRegistry";
+import type { QuestStore } from "./QuestStore";
+import type { SubmissionOutcome, SubmissionService } from "./SubmissionService";
+import { SUBMITTABLE_QUEST_STATUSES, isGameQuest } from "./QuestLifecycle";
+import type { GameResult } from "./ProofVerifiers";
+
+/**
+ * Runs the game mini app of game quests. The server deals each game, grades
+ * every move and keeps the score, so players only ever see what the game
+ * module chooses to show. When a game ends, its session is submitted as the
+ * participant's proof; a passing score completes the quest, a failing one
+ * is rejected and the participant can play again.
+ *
+ * Emits "gameStarted" (session, quest), "turnPlayed" (session, turn, quest)
+ * and "gameFinished" (session, quest).
+ */
+export class GameService extends EventEmitter {
+  private repository: QuestRepository;
+  private store: QuestStore;
+  private submissions: SubmissionService;
+
+  constructor(repository: QuestRepository, store: QuestStore, submissions: SubmissionService) {
+    super();
+    this.repository = repository;
+    this.store = store;
+    this.submissions = submissions;
+  }
+
+  /**
+   * Game of a quest with the viewer's latest play and the scoreboard
+   */
+  getGame(questId: string, inboxId?: string): GameOverview {
+    const quest = this.requireQuest(questId);
+    if (!isGameQuest(quest)) {
+      throw new Error("This quest has no game to play");
+    }
+    const game = resolveGame(quest);
+    const module = GAME_MODULES[game];
+    return {
+      questId,
+      game,
+      title: module.title,
+      rules: module.rules,
+      maxScore: module.maxScore,
+      passingScore: module.passingScore,
+      session: inboxId ? this.getLatestSession(questId, inboxId) : undefined,
+      scoreboard: this.getScoreboard(questId),
+    };
+  }
+
+  /**
+   * Start a game, or resume the one the participant is still playing. A game
+   * left to run out is settled first, and if it passed, it is the one shown.
+   */
+  async start(questId: string, inboxId: string): Promise<GameView> {
+    const quest = this.requirePlayableQuest(questId);
+    const participant = this.repository.getParticipant(questId, inboxId);
+    if (!participant) {
+      throw new Error("User is not a participant in this quest");
+    }
+    if (participant.status === "completed") {
+      throw new Error("Quest already completed by this user");
+    }
+
+    const [playing] = this.repository.listGameSessions({ questId, inboxId, status: "playing" });
+    if (playing) {
+      const module = GAME_MODULES[playing.game];
+      if (!module.isOver(playing.state, Date.now())) {
+        return this.toView(playing);
+      }
+      // Left unfinished until its time ran out; it still counts as a play
+      await this.settle(playing, quest, module);
+      if (this.repository.getParticipant(questId, inboxId)?.status === "completed") {
+        return this.toView(playing);
+      }
+    }
+
+    const game = resolveGame(quest);
+    const now = Date.now();
+    const session: GameSession = {
+      id: uuidv4(),
+      questId,
+      inboxId,
+      game,
+      status: "playing",
+      state: GAME_MODULES[game].start(Math.random, now),
+      score: 0,
+      turns: 0,
+      startedAt: new Date(now),
+    };
+    this.repository.saveGameSession(session);
+    this.emit("gameStarted", session, quest);
+    console.log(`🎮 ${inboxId} started ${GAME_MODULES[game].title} in "${quest.title}"`);
+    return this.toView(session);
+  }
+
+  /**
+   * Play one move. The game ends, and its result is submitted, once the
+   * module has no more moves to take.
+   */
+  async turn(sessionId: string, inboxId: string, move: string): Promise<GameTurnOutcome> {
+    const session = this.requirePlayingSession(sessionId, inboxId);
+    const quest = this.requirePlayableQuest(session.questId);
+    const module = GAME_MODULES[session.game];
+    const now = Date.now();
+
+    const turn = module.turn(session.state, move, now);
+    session.turns += 1;
+    session.score = module.score(session.state);
+    this.repository.saveGameSession(session);
+    this.emit("turnPlayed", session, turn, quest);
+
+    if (!module.isOver(session.state, now)) {
+      return { game: this.toView(session), turn };
+    }
+    const outcome = await this.settle(session, quest, module);
+    return { game: this.toView(session), turn, completion: outcome.completion };
+  }
+
+  /**
+   * End a game early, keeping the points scored so far
+   */
+  async finish(sessionId: string, inboxId: string): Promise<Omit<GameTurnOutcome, "turn">> {
+    const session = this.requirePlayingSession(sessionId, inboxId);
+    const quest = this.requirePlayableQuest(session.questId);
+    const module = GAME_MODULES[session.game];
+
+    module.finish(session.state, Date.now());
+    const outcome = await this.settle(session, quest, module);
+    return { game: this.toView(session), completion: outcome.completion };
+  }
+
+  /**
+   * A participant's game, as they may see it
+   */
+  getSession(sessionId: string, inboxId: string): GameView {
+    const session = this.repository.getGameSession(sessionId);
+    if (session?.inboxId !== inboxId) {
+      throw new Error("Game not found");
+    }
+    return this.toView(session);
+  }
+
+  /**
+   * The participant's latest game in a quest, to pick up where they left off
+   */
+  getLatestSession(questId: string, inboxId: string): GameView | undefined {
+    const session = this.repository.listGameSessions({ questId, inboxId }).at(-1);
+    return session && this.toView(session);
+  }
+
+  /**
+   * Best finished game of each player, highest score first; ties go to whoever played fewer games
+   */
+  getScoreboard(questId: string): GameScore[] {
+    const scores = new Map<string, GameScore>();
+
+    for (const session of this.repository.listGameSessions({ questId, status: "finished" })) {
+      const score = scores.get(session.inboxId) ?? { inboxId: session.inboxId, score: 0, games: 0, passed: false };
+      score.score = Math.max(score.score, session.score);
+      score.games += 1;
+      score.passed = score.passed || session.score >= GAME_MODULES[session.game].passingScore;
+      scores.set(session.inboxId, score);
+    }
+
+    return Array.from(scores.values()).sort((a, b) => b.score - a.score || a.games - b.games);
+  }
+
+  /**
+   * Result of a game for the game_result proof verifier
+   */
+  getResult(sessionId: string): GameResult | undefined {
+    const session = this.repository.getGameSession(sessionId);
+    return session && {
+      questId: session.questId,
+      inboxId: session.inboxId,
+      status: session.status,
+      score: session.score,
+      passingScore: GAME_MODULES[session.game].passingScore,
+    };
+  }
+
+  /**
+   * Close a game and submit it as the participant's proof
+   */
+  private async settle(session: GameSession, quest: Quest, module: GameModule<unknown>): Promise<SubmissionOutcome> {
+    session.status = "finished";
+    session.score = module.score(session.state);
+    session.finishedAt = new Date();
+    this.repository.saveGameSession(session);
+    this.emit("gameFinished", session, quest);
+    console.log(`🏁 ${session.inboxId} finished ${module.title} in "${quest.title}" with ${session.score}`);
+
+    const outcome = await this.submissions.submit(quest.id, session.inboxId, { type: "game_result", value: session.id });
+    session.submissionId = outcome.submission.id;
+    this.repository.saveGameSession(session);
+    return outcome;
+  }
+
+  private toView(session: GameSession): GameView {
+    const module = GAME_MODULES[session.game];
+    return {
+      sessionId: session.id,
+      questId: session.questId,
+      game: session.game,
+      title: module.title,
+      rules: module.rules,
+      status: session.status,
+      score: session.score,
+      maxScore: module.maxScore,
+      passingScore: module.passingScore,
+      turns: session.turns,
+      state: module.view(session.state, Date.now()),
+      submission: session.submissionId ? this.submissions.getSubmission(session.submissionId) : undefined,
+    };
+  }
+
+  private requireQuest(questId: string): Quest {
+    const quest = this.store.getQuest(questId);
+    if (!quest) {
+      throw new Error("Quest not found");
+    }
+    return quest;
+  }
+
+  private requirePlayableQuest(questId: string): Quest {
+    const quest = this.requireQuest(questId);
+    if (!isGameQuest(quest)) {
+      throw new Error("This quest has no game to play");
+    }
+    if (!SUBMITTABLE_QUEST_STATUSES.includes(quest.status)) {
+      throw new Error(`Quest is not accepting plays (${quest.status})`);
+    }
+    return quest;
+  }
+
+  private requirePlayingSession(sessionId: string, inboxId: string): GameSession {
+    const session = this.repository.getGameSession(sessionId);
+    if (session?.inboxId !== inboxId) {
+      throw new Error("Game not found");
+    }
+    if (session.status !== "playing") {
+      throw new Error("This game is over, start a new one");
+    }
+    return session;
+  }
+}
@@ -0,0 +1,172 @@
+import { EventEmitter } from "events";
+import { v4 as uuidv4 } from "uuid";
+import type { QuestRepository, JobFilter } from "../storage/QuestRepository";
+import type { ScheduledJob } from "../types/Job";
+
+export type JobHandler = (job: ScheduledJob) => Promise<void> | void;
+
+// Upper bound for a single timer so newly persisted jobs are picked up even
+// if they were written by another process
+const MAX_TIMER_DELAY_MS = 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * Persistent job scheduler. Jobs are stored in the repository, so pending work
+ * survives restarts, and each job is claimed before it runs so it fires once.
+ */
+export class JobScheduler extends EventEmitter {
+  private repository: QuestRepository;
+  private handlers: Map<string, JobHandler> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private started = false;
+
+  constructor(repository: QuestRepository) {
+    super();
+    this.repository = repository;
+  }
+
+  /**
+   * Register the handler for a job type
+   */
+  registerHandler(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Persist a job to run at the given time
+   */
+  schedule(
+    type: string,
+    runAt: Date,
+    options: { questId?: string; payload?: Record<string, unknown> } = {},
+  ): ScheduledJob {
+    const job: ScheduledJob = {
+      id: uuidv4(),
+      type,
+      questId: options.questId,
+      runAt,
+      status: "pending",
+      attempts: 0,
+      payload: options.payload,
+      createdAt: new Date(),
+    };
+    this.repository.saveJob(job);
+    console.log(`🗓️ Scheduled ${type} job for ${runAt.toISOString()}${job.questId ? ` (quest ${job.questId})` : ""}`);
+
+    if (this.started) {
+      this.arm();
+    }
+    return job;
+  }
+
+  /**
+   * Cancel pending jobs for a quest, optionally only of the given types
+   */
+  cancelForQuest(questId: string, types?: string[]): number {
+    return this.repository.cancelJobs(questId, types);
+  }
+
+  /**
+   * List jobs, by default the pending queue ordered by run time
+   */
+  listJobs(filter: JobFilter = { status: "pending" }): ScheduledJob[] {
+    return this.repository.listJobs(filter);
+  }
+
+  /**
+   * Rehydrate the queue from storage and start firing jobs
+   */
+  start(): void {
+    // Jobs left running by a crash are retried; handlers must be idempotent
+    const interrupted = this.repository.listJobs({ status: "running" });
+    interrupted.forEach(job => this.repository.saveJob({ ...job, status: "pending" }));
+
+    const pending = this.repository.listJobs({ status: "pending" }).length;
+    console.log(`🗓️ Job scheduler started with ${pending} pending job(s)`);
+
+    this.started = true;
+    void this.tick();
+  }
+
+  /**
+   * Stop the timer. Pending jobs stay persisted.
+   */
+  stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every due job, then wait for the next one
+   */
+  private async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const dueJobs = this.repository.listJobs({ status: "pending", dueBefore: new Date() });
+      for (const job of dueJobs) {
+        await this.runJob(job);
+      }
+    } catch (error) {
+      console.error("❌ Error running scheduled jobs:", error);
+    } finally {
+      this.running = false;
+      if (this.started) {
+        this.arm();
+      }
+    }
+  }
+
+  private async runJob(job: ScheduledJob): Promise<void> {
+    if (!this.repository.claimJob(job.id)) {
+      return; // Already claimed elsewhere
+    }
+
+    const handler = this.handlers.get(job.type);
+    const attempts = job.attempts + 1;
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+      await handler(job);
+      this.repository.saveJob({ ...job, status: "done", attempts, completedAt: new Date() });
+      this.emit("jobCompleted", job);
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const retry = attempts < MAX_ATTEMPTS;
+      this.repository.saveJob({
+        ...job,
+        status: retry ? "pending" : "failed",
+        attempts,
+        lastError,
+        runAt: retry ? new Date(Date.now() + RETRY_DELAY_MS * attempts) : job.runAt,
+      });
+      console.error(`❌ Job ${job.type} (${job.id}) failed on attempt ${attempts}:`, lastError);
+      this.emit("jobFailed", job, error);
+    }
+  }
+
+  /**
+   * Set a timer for the next pending job
+   */
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    const [next] = this.repository.listJobs({ status: "pending", limit: 1 });
+    const delay = next
+      ? Math.min(Math.max(next.runAt.getTime() - Date.now(), 0), MAX_TIMER_DELAY_MS)
+      : MAX_TIMER_DELAY_MS;
+
+    this.timer = setTimeout(() => void this.tick(), delay);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import { InMemoryQuestRepository } from "../storage/InMemoryQuestRepository";
+import { LeaderboardQuerySchema, type LeaderboardPage } from "../types/Leaderboard";
+import { JobScheduler } from "./JobScheduler";
+import { InvalidCursorError, LeaderboardService } from "./LeaderboardService";
+import { createProgression } from "./Progression";
+import { QuestStore } from "./QuestStore";
+import { SeasonService } from "./SeasonService";
+import { createStreakTracker } from "./Streaks";
+
+const ids = (page: LeaderboardPage) => page.entries.map(entry => entry.inboxId);
+
+describe("LeaderboardService", () => {
+  let repository: InMemoryQuestRepository;
+  let store: QuestStore;
+  let leaderboard: LeaderboardService;
+
+  const setXp = (inboxId: string, xp: number) => {
+    repository.saveUserProfile({ ...store.getUserProfile(inboxId), xp });
+  };
+
+  const page = (query: Record<string, unknown>) => leaderboard.getPage(LeaderboardQuerySchema.parse(query));
+
+  beforeEach(() => {
+    repository = new InMemoryQuestRepository();
+    store = new QuestStore(repository, createProgression({}), createStreakTracker({}));
+    const seasons = new SeasonService(repository, store, new JobScheduler(repository));
+    leaderboard = new LeaderboardService(store, seasons);
+
+    setXp("alice", 300);
+    setXp("bob", 200);
+    setXp("carol", 200);
+    setXp("dave", 200);
+    setXp("erin", 100);
+    setXp("frank", 0);
+  });
+
+  test("ranks ties together and orders them by inbox ID", () => {
+    const board = page({ limit: 10 });
+
+    assert.deepEqual(ids(board), ["alice", "bob", "carol", "dave", "erin"]);
+    assert.deepEqual(board.entries.map(entry => entry.rank), [1, 2, 2, 2, 5]);
+    assert.equal(board.total, 5);
+    assert.equal(board.nextCursor, undefined);
+  });
+
+  test("pages through ties without repeating or skipping anyone", () => {
+    const first = page({ limit: 2 });
+    const second = page({ limit: 2, cursor: first.nextCursor });
+    const third = page({ limit: 2, cursor: second.nextCursor });
+
+    assert.deepEqual([ids(first), ids(second), ids(third)], [["alice", "bob"], ["carol", "dave"], ["erin"]]);
+    assert.equal(third.nextCursor, undefined);
+  });
+
+  test("keeps the next page in place when players above the cursor move", () => {
+    const first = page({ limit: 2 });
+    setXp("alice", 500);
+    setXp("aaron", 400);
+
+    const second = page({ limit: 2, cursor: first.nextCursor });
+
+    assert.deepEqual(ids(second), ["carol", "dave"]);
+    // Ranks are current, not the ones of the first page
+    assert.deepEqual(second.entries.map(entry => entry.rank), [3, 3]);
+  });
+
+  test("rejects a cursor it did not issue", () => {
+    assert.throws(() => page({ cursor: "not a cursor" }), InvalidCursorError);
+    const wrongShape = Buffer.from(JSON.stringify({ score: 200 })).toString("base64url");
+    assert.throws(() => page({ cursor: wrongShape }), InvalidCursorError);
+  });
+
+  test("includes the requesting player's entry when it is outside the page", () => {
+    const board = page({ limit: 2, inboxId: "erin" });
+
+    assert.deepEqual(ids(board), ["alice", "bob"]);
+    assert.equal(board.me?.inboxId, "erin");
+    assert.equal(board.me.rank, 5);
+    assert.equal(board.me.score, 100);
+  });
+
+  test("leaves out a requesting player who is not ranked", () => {
+    assert.equal(page({ inboxId: "frank" }).me, undefined);
+  });
+});
@@ -0,0 +1,194 @@
+import type { Quest } from "../types/Quest";
+import type {
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardPage,
+  LeaderboardQuery,
+} from "../types/Leaderboard";
+import type { QuestStore } from "./QuestStore";
+import type { SeasonService } from "./SeasonService";
+import { dayKey, weekKey } from "./Streaks";
+
+type Tally = Omit<LeaderboardEntry, "rank" | "score" | "level">;
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid leaderboard cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * Ranks players by XP, social score or completions. The global all-time
+ * board reads lifetime totals from profiles and the global season board the
+ * season tallies, so both include bonuses; every other scope and window adds
+ * up the quest completions that fall in it.
+ */
+export class LeaderboardService {
+  private store: QuestStore;
+  private seasons: SeasonService;
+
+  constructor(store: QuestStore, seasons: SeasonService) {
+    this.store = store;
+    this.seasons = seasons;
+  }
+
+  /**
+   * One page of a leaderboard, with the requesting player's own entry
+   */
+  getPage(query: LeaderboardQuery, now: Date = new Date()): LeaderboardPage {
+    const season = query.window === "season" ? this.seasons.getCurrentSeason() : undefined;
+    const since = this.windowStart(query, now);
+    const entries = query.window === "season" && !season ? [] : this.rank(query, since);
+
+    const start = query.cursor ? this.afterCursor(entries, query.cursor) : 0;
+    const page = entries.slice(start, start + query.limit);
+    const last = page[page.length - 1];
+
+    return {
+      scope: query.scope,
+      window: query.window,
+      metric: query.metric,
+      since,
+      season: season ? { id: season.id, name: season.name, endsAt: season.endsAt } : undefined,
+      total: entries.length,
+      entries: page,
+      nextCursor: last && start + page.length < entries.length ? encodeCursor(last) : undefined,
+      me: query.inboxId ? entries.find(entry => entry.inboxId === query.inboxId) : undefined,
+    };
+  }
+
+  /**
+   * Every ranked player, best first
+   */
+  private rank(query: LeaderboardQuery, since: Date | undefined): LeaderboardEntry[] {
+    const profiles = new Map(this.store.listUserProfiles().map(profile => [profile.inboxId, profile]));
+    const tallies: Tally[] = query.scope === "global" && query.window === "all"
+      ? Array.from(profiles.values()).map(profile => ({
+          inboxId: profile.inboxId,
+          xp: profile.xp,
+          socialScore: profile.socialScore,
+          completions: profile.completedQuests.length,
+        }))
+      : this.tallyCompletions(query, since);
+
+    if (query.scope === "global" && query.window === "season") {
+      // Season XP includes bonuses, so players whose only XP this season is a
+      // bonus rank too
+      const season = this.seasons.getCurrentSeason();
+      const tallied = new Map(tallies.map(tally => [tally.inboxId, tally]));
+      for (const standing of season ? this.seasons.getStandings(season.id) : []) {
+        const tally = tallied.get(standing.inboxId);
+        if (tally) {
+          tally.xp = standing.xp;
+        } else {
+          tallies.push({ inboxId: standing.inboxId, xp: standing.xp, socialScore: 0, completions: 0 });
+        }
+      }
+    }
+
+    const sorted = tallies
+      .filter(tally => tally.xp > 0 || tally.completions > 0)
+      .map(tally => ({ ...tally, score: scoreOf(tally, query.metric) }))
+      .sort((a, b) => b.score - a.score || (a.inboxId < b.inboxId ? -1 : a.inboxId > b.inboxId ? 1 : 0));
+
+    // Competition ranking: ties share a rank and the next rank skips past them
+    let rank = 0;
+    return sorted.map((tally, index) => {
+      if (index === 0 || tally.score !== sorted[index - 1].score) {
+        rank = index + 1;
+      }
+      return { ...tally, rank, level: profiles.get(tally.inboxId)?.level ?? 1 };
+    });
+  }
+
+  private tallyCompletions(query: LeaderboardQuery, since: Date | undefined): Tally[] {
+    const quests = new Map<string, Quest | undefined>();
+    const tallies = new Map<string, Tally>();
+
+    for (const completion of this.store.listCompletions({ completedSince: since })) {
+      if (!quests.has(completion.questId)) {
+        quests.set(completion.questId, this.store.getQuest(completion.questId));
+      }
+      const quest = quests.get(completion.questId);
+      if (!quest || !this.inScope(quest, query)) {
+        continue;
+      }
+
+      const tally = tallies.get(completion.participantInboxId) ?? {
+        inboxId: completion.participantInboxId,
+        xp: 0,
+        socialScore: 0,
+        completions: 0,
+      };
+      tally.xp += completion.rewards.xp;
+      tally.socialScore += this.store.calculateSocialScoreIncrease(quest);
+      tally.completions++;
+      tallies.set(tally.inboxId, tally);
+    }
+    return Array.from(tallies.values());
+  }
+
+  private inScope(quest: Quest, query: LeaderboardQuery): boolean {
+    switch (query.scope) {
+      case "global":
+        return true;
+      case "conversation":
+        return quest.conversationId === query.conversationId;
+      case "quest_type":
+        return quest.type === query.questType;
+      case "quest_master":
+        return quest.questMaster?.toLowerCase() === query.questMaster?.toLowerCase();
+    }
+  }
+
+  private windowStart(query: LeaderboardQuery, now: Date): Date | undefined {
+    switch (query.window) {
+      case "day":
+        return new Date(`${dayKey(now)}T00:00:00Z`);
+      case "week":
+        return new Date(`${weekKey(dayKey(now))}T00:00:00Z`);
+      case "season":
+        return this.seasons.getCurrentSeason()?.startsAt;
+      case "all":
+        return undefined;
+    }
+  }
+
+  /**
+   * Index of the first entry ranked after the cursor's entry
+   */
+  private afterCursor(entries: LeaderboardEntry[], cursor: string): number {
+    const [score, inboxId] = decodeCursor(cursor);
+    const index = entries.findIndex(entry => entry.score < score || (entry.score === score && entry.inboxId > inboxId));
+    return index === -1 ? entries.length : index;
+  }
+}
+
+const scoreOf = (tally: Tally, metric: LeaderboardMetric): number => {
+  switch (metric) {
+    case "xp":
+      return tally.xp;
+    case "social":
+      return tally.socialScore;
+    case "completions":
+      return tally.completions;
+  }
+};
+
+// Cursors point at the last entry of a page by score and inbox ID, so pages
+// stay in place when players above them move
+const encodeCursor = (entry: LeaderboardEntry): string =>
+  Buffer.from(JSON.stringify([entry.score, entry.inboxId])).toString("base64url");
+
+const decodeCursor = (cursor: string): [number, string] => {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(value) && typeof value[0] === "number" && typeof value[1] === "string") {
+      return [value[0], value[1]];
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new InvalidCursorError();
+};
@@ -1,22 +1,36 @@
 import type { Quest } from "../types/Quest";
+import type { MiniAppConfig } from "../types/MiniApp";
+import type { QuestRepository } from "../storage/QuestRepository";
+import type { QuestStore } from "./QuestStore";
+import { isActiveStatus, isTerminalStatus } from "./QuestLifecycle";
 import type { Group } from "@xmtp/node-sdk";
-
-interface MiniAppConfig {
-  questId: string;
-  conversationId: string;
-  type: string;
-  config: any;
-  launchedAt: Date;
-  url?: string;
-  status: 'active' | 'completed' | 'expired';
-  participants: string[];
-}
-
+import { ContentTypeActions } from "../content-types/InlineActions";
+import { buildQuestActions } from "./QuestActions";
+import { shortQuestId } from "./ChatCommands";
+import {
+  describeProofRequirement,
+  publicProofRequirement,
+  resolveProofRequirement,
+} from "./ProofVerifiers";
+import { publicQuizQuestions } from "./QuizService";
+import { describeRequirements } from "./QuestRequirements";
+
+/**
+ * Launches and tracks quest mini apps. Participants and status are read from
+ * the QuestStore; only launch details (URL, config) are stored here.
+ */
 export class MiniAppLauncher {
-  private activeMiniApps: Map<string, MiniAppConfig> = new Map();
+  private repository: QuestRepository;
+  private store: QuestStore;
   private baseUrl: string;
 
-  constructor(baseUrl: string = process.env.NEXT_PUBLIC_URL || 'http://localhost:3000') {
+  constructor(
+    repository: QuestRepository,
+    store: QuestStore,
+    baseUrl: string = process.env.NEXT_PUBLIC_URL || 'http://localhost:3000'
+  ) {
+    this.repository = repository;
+    this.store = store;
     this.baseUrl = baseUrl;
     console.log("🚀 MiniAppLauncher initialized with base URL:", this.baseUrl);
   }
@@ -43,26 +57,33 @@ export class MiniAppLauncher {
           duration: quest.duration,
           rewards: quest.rewards,
           participantLimits: quest.participantLimits,
-          requirements: quest.requirements,
+          requirements: this.describeRequirements(quest),
+          chain: quest.chain,
+          proof: publicProofRequirement(quest),
+          questions: publicQuizQuestions(quest),
+          vote: quest.vote,
+          teams: quest.teams,
         },
         launchedAt: new Date(),
         url: miniAppUrl,
-        status: 'active',
+        status: quest.status,
         participants: [],
       };
 
       // Store the mini app configuration
-      this.activeMiniApps.set(quest.id, miniAppConfig);
+      this.repository.saveMiniApp(miniAppConfig);
 
-      // Send mini app link to the conversation if available
+      // Send the quest card with action buttons to the conversation if available.
+      // Clients without inline actions get the text fallback from the codec.
       if (conversation) {
         const miniAppMessage = this.generateMiniAppMessage(quest, miniAppUrl);
-        await conversation.send(miniAppMessage);
+        const messageId = await conversation.send(
+          buildQuestActions(quest, miniAppMessage),
+          ContentTypeActions
+        );
+        this.store.linkQuestMessage(messageId, quest.id);
       }
 
-      // Set up auto-expiration based on quest duration
-      this.scheduleAutoExpiration(quest.id, quest.duration);
-
       console.log(`✅ Mini app launched for quest ${quest.id} at ${miniAppUrl}`);
       return true;
     } catch (error) {
@@ -91,8 +112,9 @@ export class MiniAppLauncher {
   private generateMiniAppMessage(quest: Quest, url: string): string {
     const emoji = this.getQuestEmoji(quest.type);
     const difficultyStars = '⭐'.repeat(this.getDifficultyLevel(quest.difficulty));
+    const requirements = this.describeRequirements(quest);
     
-    return `${emoji} **${quest.title}** ${difficultyStars}
+    return `${emoji} **${quest.title}** ${difficultyStars}${quest.chain ? `\n📜 Step ${quest.chain.step} of ${quest.chain.steps} in *${quest.chain.title}*` : ""}
 
 ${quest.description}
 
@@ -100,12 +122,22 @@ ${quest.description}
 • Type: ${quest.type.replace('_', ' ').toUpperCase()}
 • Difficulty: ${quest.difficulty.toUpperCase()}
 • Duration: ${quest.duration} minutes
-• Participants: ${quest.participantLimits.min}-${quest.participantLimits.max}
-• XP Reward: ${quest.rewards.xp}
+• Participants: ${quest.participantLimits.min}-${quest.participantLimits.max}${quest.teams ? ` in teams of ${quest.teams.size}` : ""}
+• XP Reward: ${quest.rewards.xp}${requirements.length > 0 ? `\n• To join: ${requirements.join("; ")}` : ""}
+${quest.vote?.subject === "options"
+  ? `• Vote: /vote ${shortQuestId(quest.id)} once the quest starts`
+  : `• Proof: ${describeProofRequirement(resolveProofRequirement(quest))}${quest.vote ? "\n• Winners: decided by a group vote" : ""}`}
 
 🚀 **Join Quest:** ${url}
 
-React with 🎮 to participate!`;
+Tap a button below, react to join, or use /join ${shortQuestId(quest.id)}`;
+  }
+
+  /**
+   * Requirements as players read them, with quest rules named by title
+   */
+  private describeRequirements(quest: Quest): string[] {
+    return describeRequirements(quest, questId => this.store.getQuest(questId)?.title);
   }
 
   /**
@@ -136,80 +168,29 @@ React with 🎮 to participate!`;
   }
 
   /**
-   * Schedule auto-expiration for a quest
-   */
-  private scheduleAutoExpiration(questId: string, durationMinutes: number): void {
-    setTimeout(() => {
-      const miniApp = this.activeMiniApps.get(questId);
-      if (miniApp && miniApp.status === 'active') {
-        miniApp.status = 'expired';
-        console.log(`⏰ Quest ${questId} has expired after ${durationMinutes} minutes`);
-      }
-    }, durationMinutes * 60 * 1000);
-  }
-
-  /**
-   * Add participant to a quest
-   */
-  addParticipant(questId: string, participantInboxId: string): boolean {
-    const miniApp = this.activeMiniApps.get(questId);
-    if (!miniApp || miniApp.status !== 'active') {
-      return false;
-    }
-
-    if (!miniApp.participants.includes(participantInboxId)) {
-      miniApp.participants.push(participantInboxId);
-      console.log(`👤 Added participant ${participantInboxId} to quest ${questId}`);
-    }
-
-    return true;
-  }
-
-  /**
-   * Remove participant from a quest
+   * Get mini app configuration for a quest
    */
-  removeParticipant(questId: string, participantInboxId: string): boolean {
-    const miniApp = this.activeMiniApps.get(questId);
-    if (!miniApp) {
-      return false;
-    }
-
-    const index = miniApp.participants.indexOf(participantInboxId);
-    if (index > -1) {
-      miniApp.participants.splice(index, 1);
-      console.log(`👤 Removed participant ${participantInboxId} from quest ${questId}`);
-      return true;
-    }
-
-    return false;
+  getMiniAppConfig(questId: string): MiniAppConfig | undefined {
+    const miniApp = this.repository.getMiniApp(questId);
+    return miniApp ? this.withQuestState(miniApp) : undefined;
   }
 
   /**
-   * Complete a quest and update status
+   * Overlay the current quest status and participants from the store
    */
-  completeQuest(questId: string, completedBy: string): boolean {
-    const miniApp = this.activeMiniApps.get(questId);
-    if (!miniApp || miniApp.status !== 'active') {
-      return false;
+  private withQuestState(miniApp: MiniAppConfig): MiniAppConfig {
+    const quest = this.store.getQuest(miniApp.questId);
+    if (!quest) {
+      return miniApp;
     }
-
-    miniApp.status = 'completed';
-    console.log(`🏆 Quest ${questId} completed by ${completedBy}`);
-    return true;
-  }
-
-  /**
-   * Get mini app configuration for a quest
-   */
-  getMiniAppConfig(questId: string): MiniAppConfig | undefined {
-    return this.activeMiniApps.get(questId);
+    return { ...miniApp, status: quest.status, participants: quest.participants };
   }
 
   /**
    * Get mini app URL for a quest
    */
   getMiniAppUrl(questId: string): string | undefined {
-    const miniApp = this.activeMiniApps.get(questId);
+    const miniApp = this.repository.getMiniApp(questId);
     return miniApp?.url;
   }
 
@@ -217,28 +198,26 @@ React with 🎮 to participate!`;
    * Check if a quest is active
    */
   isQuestActive(questId: string): boolean {
-    const miniApp = this.activeMiniApps.get(questId);
-    return miniApp?.status === 'active' || false;
+    const quest = this.store.getQuest(questId);
+    return quest ? isActiveStatus(quest.status) : false;
   }
 
   /**
    * Get participants for a quest
    */
   getQuestParticipants(questId: string): string[] {
-    const miniApp = this.activeMiniApps.get(questId);
-    return miniApp?.participants || [];
+    return this.store.getQuest(questId)?.participants || [];
   }
 
   /**
    * Close a mini app when quest is completed or expired
    */
   closeMiniApp(questId: string): boolean {
-    const miniApp = this.activeMiniApps.get(questId);
-    if (!miniApp) {
+    if (!this.repository.getMiniApp(questId)) {
       return false;
     }
 
-    miniApp.status = 'expired';
+    this.store.closeQuest(questId);
     console.log(`🔒 Mini app closed for quest ${questId}`);
     return true;
   }
@@ -247,14 +226,14 @@ React with 🎮 to participate!`;
    * Get all active mini apps
    */
   getActiveMiniApps(): MiniAppConfig[] {
-    return Array.from(this.activeMiniApps.values()).filter(app => app.status === 'active');
+    return this.getAllMiniApps().filter(app => isActiveStatus(app.status));
   }
 
   /**
    * Get all mini apps (active, completed, expired)
    */
   getAllMiniApps(): MiniAppConfig[] {
-    return Array.from(this.activeMiniApps.values());
+    return this.repository.listMiniApps().map(app => this.withQuestState(app));
   }
 
   /**
@@ -264,11 +243,11 @@ React with 🎮 to participate!`;
     let cleaned = 0;
     const now = new Date();
     
-    for (const [questId, miniApp] of this.activeMiniApps.entries()) {
+    for (const miniApp of this.getAllMiniApps()) {
       const expiredTime = new Date(miniApp.launchedAt.getTime() + (60 * 60 * 1000)); // 1 hour default
       
-      if (miniApp.status === 'expired' && now > expiredTime) {
-        this.activeMiniApps.delete(questId);
+      if (isTerminalStatus(miniApp.status) && now > expiredTime) {
+        this.repository.deleteMiniApp(miniApp.questId);
         cleaned++;
       }
     }
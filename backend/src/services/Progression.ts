@@ -0,0 +1,113 @@
+import type { Quest } from "../types/Quest";
+import {
+  ProgressionConfigSchema,
+  type LevelProgress,
+  type ProgressionConfig,
+} from "../types/Progression";
+import { formatZodIssues, parseJsonEnv } from "../helper";
+
+const DIFFICULTIES: Quest["difficulty"][] = ["easy", "medium", "hard", "expert"];
+
+/**
+ * Levels from XP on a configurable curve, and the level each quest
+ * difficulty needs
+ */
+export class Progression {
+  readonly config: ProgressionConfig;
+
+  constructor(config: ProgressionConfig = ProgressionConfigSchema.parse({})) {
+    this.config = config;
+  }
+
+  /**
+   * Highest level a player reaches with this much XP
+   */
+  levelFor(xp: number): number {
+    let level = 1;
+    while (level < this.maxLevel && xp >= this.xpForLevel(level + 1)) {
+      level++;
+    }
+    return level;
+  }
+
+  /**
+   * Total XP needed to reach a level; level 1 needs none
+   */
+  xpForLevel(level: number): number {
+    if (level <= 1) return 0;
+    if (level > this.maxLevel) return Infinity;
+
+    const { curve } = this.config;
+    switch (curve.kind) {
+      case "linear":
+        return (level - 1) * curve.xpPerLevel;
+      case "exponential":
+        return curve.growth === 1
+          ? (level - 1) * curve.baseXp
+          : Math.round(curve.baseXp * (Math.pow(curve.growth, level - 1) - 1) / (curve.growth - 1));
+      case "table":
+        return curve.thresholds[level - 2];
+    }
+  }
+
+  progress(xp: number): LevelProgress {
+    const level = this.levelFor(xp);
+    const levelXp = this.xpForLevel(level);
+    const nextLevelXp = level < this.maxLevel ? this.xpForLevel(level + 1) : undefined;
+    return {
+      level,
+      xp,
+      levelXp,
+      nextLevelXp,
+      progress: nextLevelXp === undefined ? 1 : (xp - levelXp) / (nextLevelXp - levelXp),
+    };
+  }
+
+  /**
+   * Top level; tables end at their last threshold
+   */
+  get maxLevel(): number {
+    const { curve, maxLevel } = this.config;
+    return curve.kind === "table" ? Math.min(maxLevel, curve.thresholds.length + 1) : maxLevel;
+  }
+
+  minLevelFor(difficulty: Quest["difficulty"]): number {
+    return this.config.difficultyLevels[difficulty];
+  }
+
+  /**
+   * Difficulties a player of this level can join
+   */
+  difficultiesFor(level: number): Quest["difficulty"][] {
+    return DIFFICULTIES.filter(difficulty => this.minLevelFor(difficulty) <= level);
+  }
+
+  /**
+   * Changes whenever the curve would give the same XP a different level
+   */
+  get fingerprint(): string {
+    return JSON.stringify({ curve: this.config.curve, maxLevel: this.maxLevel });
+  }
+}
+
+/**
+ * Build the progression from LEVEL_CURVE, MAX_LEVEL and DIFFICULTY_LEVELS,
+ * falling back to an exponential curve (100 XP for level 2, each level 1.5
+ * times the one before) with hard quests from level 3 and expert from 5.
+ *
+ * - LEVEL_CURVE: {"kind":"linear","xpPerLevel":100},
+ *   {"kind":"exponential","baseXp":100,"growth":1.5} or
+ *   {"kind":"table","thresholds":[100,300,700]}
+ * - DIFFICULTY_LEVELS: e.g. {"hard":4,"expert":8}
+ */
+export const createProgression = (env: NodeJS.ProcessEnv = process.env): Progression => {
+  const result = ProgressionConfigSchema.safeParse({
+    curve: parseJsonEnv("LEVEL_CURVE", env.LEVEL_CURVE),
+    maxLevel: env.MAX_LEVEL ? Number(env.MAX_LEVEL) : undefined,
+    difficultyLevels: parseJsonEnv("DIFFICULTY_LEVELS", env.DIFFICULTY_LEVELS),
+  });
+  if (!result.success) {
+    throw new Error(`Invalid level progression settings: ${formatZodIssues(result.error).join("; ")}`);
+  }
+  return new Progression(result.data);
+};
@@ -0,0 +1,239 @@
+import type { Quest, ProofRequirement, ProofType, QuestSubmission } from "../types/Quest";
+import type { GameSessionStatus } from "../types/Game";
+import { isGameQuest } from "./QuestLifecycle";
+
+export interface VerificationResult {
+  status: "verified" | "rejected" | "pending";
+  // Shown to the participant when the proof is rejected or still pending
+  reason?: string;
+}
+
+export interface VerificationContext {
+  quest: Quest;
+  requirement: ProofRequirement;
+  joinedAt: Date;
+}
+
+export interface ProofVerifier {
+  verify(submission: QuestSubmission, context: VerificationContext): Promise<VerificationResult>;
+}
+
+/**
+ * Lookups the network-backed verifiers need. Without them, group message and
+ * transaction proofs wait for a manual review instead.
+ */
+export interface ProofVerifierLookups {
+  // Whether the participant posted in the conversation since the given time
+  hasPostedSince?: (conversationId: string, inboxId: string, since: Date) => Promise<boolean>;
+  // A mined transaction, or undefined when it is not on-chain (yet)
+  getTransaction?: (hash: `0x${string}`) => Promise<TransactionDetails | undefined>;
+  // Wallet addresses linked to an inbox
+  getWalletAddresses?: (inboxId: string) => Promise<string[]>;
+  getGameResult?: (sessionId: string) => GameResult | undefined;
+}
+
+// Transaction submitted as proof, as recorded on-chain
+export interface TransactionDetails {
+  status: "success" | "reverted";
+  from: string;
+  minedAt: Date;
+}
+
+// Game session submitted as proof, as scored by the server
+export interface GameResult {
+  questId: string;
+  inboxId: string;
+  status: GameSessionStatus;
+  score: number;
+  passingScore: number;
+}
+
+// Proof asked for when a quest does not declare one
+export const DEFAULT_PROOF_TYPES: Record<Quest["type"], ProofType> = {
+  social_challenge: "group_message",
+  knowledge_quest: "text",
+  creative_contest: "link",
+  community_building: "peer_confirmation",
+  cross_protocol: "tx_hash",
+};
+
+export const PROOF_TYPE_LABELS: Record<ProofType, string> = {
+  text: "a written answer",
+  image: "an image link",
+  link: "a link",
+  group_message: "a message in the group",
+  peer_confirmation: "a confirmation from another participant",
+  tx_hash: "a transaction hash",
+  game_result: "a finished game in the quest's mini app",
+};
+
+/**
+ * Proof a quest asks for, falling back to the default for its type. Game
+ * quests are always proven by playing.
+ */
+export const resolveProofRequirement = (quest: Quest): ProofRequirement =>
+  isGameQuest(quest)
+    ? { type: "game_result", instructions: "Play the game in the quest's mini app" }
+    : quest.proof ?? { type: DEFAULT_PROOF_TYPES[quest.type] };
+
+/**
+ * Proof requirement without the expected answer, safe to show participants
+ */
+export const publicProofRequirement = (quest: Quest): Omit<ProofRequirement, "expectedAnswer"> => {
+  const { expectedAnswer: _expectedAnswer, ...requirement } = resolveProofRequirement(quest);
+  return requirement;
+};
+
+// What to tell participants to submit
+export const describeProofRequirement = (requirement: ProofRequirement): string =>
+  requirement.instructions ?? `Submit ${PROOF_TYPE_LABELS[requirement.type]}`;
+
+// Proof the participant has to type or paste; the others are checked without input
+export const proofNeedsValue = (type: ProofType): boolean =>
+  type !== "group_message" && type !== "peer_confirmation";
+
+const MIN_TEXT_ANSWER_LENGTH = 3;
+const IMAGE_URL_PATTERN = /\.(png|jpe?g|gif|webp|svg)(\?.*)?$/i;
+const TX_HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+const verified = (): VerificationResult => ({ status: "verified" });
+const rejected = (reason: string): VerificationResult => ({ status: "rejected", reason });
+const pending = (reason: string): VerificationResult => ({ status: "pending", reason });
+
+const normalizeAnswer = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, "").replace(/\s+/g, " ").trim();
+
+const parseHttpUrl = (value: string): URL | undefined => {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const textVerifier: ProofVerifier = {
+  verify(submission, { requirement }) {
+    const answer = submission.proof.value.trim();
+    if (answer.length < MIN_TEXT_ANSWER_LENGTH) {
+      return Promise.resolve(rejected("Your answer is too short"));
+    }
+    if (requirement.expectedAnswer && normalizeAnswer(answer) !== normalizeAnswer(requirement.expectedAnswer)) {
+      return Promise.resolve(rejected("That answer is not correct, try again"));
+    }
+    return Promise.resolve(verified());
+  },
+};
+
+const imageVerifier: ProofVerifier = {
+  verify(submission) {
+    const value = submission.proof.value.trim();
+    if (value.startsWith("data:image/")) {
+      return Promise.resolve(verified());
+    }
+    const url = parseHttpUrl(value);
+    if (!url || !IMAGE_URL_PATTERN.test(url.pathname)) {
+      return Promise.resolve(rejected("Send a link to an image (png, jpg, gif, webp or svg)"));
+    }
+    return Promise.resolve(verified());
+  },
+};
+
+const linkVerifier: ProofVerifier = {
+  verify(submission, { requirement }) {
+    const url = parseHttpUrl(submission.proof.value);
+    if (!url) {
+      return Promise.resolve(rejected("Send a full link starting with https://"));
+    }
+    const domain = requirement.domain?.toLowerCase();
+    if (domain && url.hostname !== domain && !url.hostname.endsWith(`.${domain}`)) {
+      return Promise.resolve(rejected(`The link must be on ${domain}`));
+    }
+    return Promise.resolve(verified());
+  },
+};
+
+const peerConfirmationVerifier: ProofVerifier = {
+  verify(submission, { requirement }) {
+    const needed = requirement.confirmations ?? 1;
+    const remaining = needed - submission.confirmations.length;
+    return Promise.resolve(
+      remaining <= 0
+        ? verified()
+        : pending(`Waiting for ${remaining} confirmation(s) from other participants`)
+    );
+  },
+};
+
+const createGroupMessageVerifier = (lookups: ProofVerifierLookups): ProofVerifier => ({
+  async verify(submission, { quest, joinedAt }) {
+    if (!lookups.hasPostedSince) {
+      return pending("Waiting for a moderator to check your message");
+    }
+    const posted = await lookups.hasPostedSince(quest.conversationId, submission.participantInboxId, joinedAt);
+    return posted
+      ? verified()
+      : rejected("No message from you in the group since you joined. Post your entry there, then submit again");
+  },
+});
+
+const createTxHashVerifier = (lookups: ProofVerifierLookups): ProofVerifier => ({
+  async verify(submission, { joinedAt }) {
+    const hash = submission.proof.value.trim();
+    if (!TX_HASH_PATTERN.test(hash)) {
+      return rejected("Send a transaction hash: 0x followed by 64 hex characters");
+    }
+    if (!lookups.getTransaction || !lookups.getWalletAddresses) {
+      return pending("Waiting for a moderator to check your transaction");
+    }
+    const transaction = await lookups.getTransaction(hash as `0x${string}`);
+    if (!transaction) {
+      return rejected("That transaction was not found. Wait until it is confirmed and submit again");
+    }
+    if (transaction.status === "reverted") {
+      return rejected("That transaction failed on-chain");
+    }
+    const wallets = await lookups.getWalletAddresses(submission.participantInboxId);
+    if (!wallets.some(wallet => wallet.toLowerCase() === transaction.from.toLowerCase())) {
+      return rejected("That transaction was not sent from a wallet linked to your account");
+    }
+    if (transaction.minedAt < joinedAt) {
+      return rejected("That transaction was made before you joined the quest");
+    }
+    return verified();
+  },
+});
+
+const createGameResultVerifier = (lookups: ProofVerifierLookups): ProofVerifier => ({
+  verify(submission, { quest }) {
+    if (!lookups.getGameResult) {
+      return Promise.resolve(pending("Waiting for a moderator to check your game"));
+    }
+    const result = lookups.getGameResult(submission.proof.value.trim());
+    if (!result || result.questId !== quest.id || result.inboxId !== submission.participantInboxId) {
+      return Promise.resolve(rejected("Play the game in the quest's mini app, your result is sent when it ends"));
+    }
+    if (result.status !== "finished") {
+      return Promise.resolve(rejected("Finish your game first"));
+    }
+    if (result.score < result.passingScore) {
+      return Promise.resolve(
+        rejected(`You scored ${result.score}, ${result.passingScore} is needed to complete the quest. Play again!`)
+      );
+    }
+    return Promise.resolve(verified());
+  },
+});
+
+/**
+ * One verifier per proof type
+ */
+export const createProofVerifiers = (lookups: ProofVerifierLookups = {}): Record<ProofType, ProofVerifier> => ({
+  text: textVerifier,
+  image: imageVerifier,
+  link: linkVerifier,
+  group_message: createGroupMessageVerifier(lookups),
+  peer_confirmation: peerConfirmationVerifier,
+  tx_hash: createTxHashVerifier(lookups),
+  game_result: createGameResultVerifier(lookups),
+});
@@ -0,0 +1,22 @@
+import type { ProofRequirement, Quest } from "../types/Quest";
+import { publicProofRequirement } from "./ProofVerifiers";
+import { publicQuizQuestions, type PublicQuizQuestion } from "./QuizService";
+
+// Quest without quiz answers or the expected proof answer, safe to send to clients
+export type PublicQuest = Omit<Quest, "questions" | "proof"> & {
+  questions?: PublicQuizQuestion[];
+  proof: Omit<ProofRequirement, "expectedAnswer">;
+};
+
+/**
+ * What clients may see of a quest. Every quest sent over the API or the
+ * WebSocket goes through here, since neither is private to the server.
+ */
+export const publicQuest = (quest: Quest): PublicQuest => {
+  const { questions, proof: _proof, ...rest } = quest;
+  return {
+    ...rest,
+    questions: questions ? publicQuizQuestions(quest) : undefined,
+    proof: publicProofRequirement(quest),
+  };
+};
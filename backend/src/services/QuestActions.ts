@@ -0,0 +1,119 @@
+import type { Quest } from "../types/Quest";
+import type { ActionsContent, IntentContent } from "../content-types/InlineActions";
+import { describeSubmission, shortQuestId, type CommandReply } from "./ChatCommands";
+import type { MiniAppLauncher } from "./MiniAppLauncher";
+import type { QuestOrchestrator } from "./QuestOrchestrator";
+import { QuestFullError } from "./QuestStore";
+import { PROOF_TYPE_LABELS, proofNeedsValue } from "./ProofVerifiers";
+
+export const QUEST_ACTION_IDS = {
+  join: "join",
+  leave: "leave",
+  open: "open",
+  complete: "complete",
+} as const;
+
+const ACTIONS_ID_PREFIX = "quest:";
+
+/**
+ * Build the button set sent with a quest
+ */
+export const buildQuestActions = (quest: Quest, description: string): ActionsContent => ({
+  id: `${ACTIONS_ID_PREFIX}${quest.id}`,
+  description,
+  actions: [
+    { id: QUEST_ACTION_IDS.join, label: "🎮 Join", style: "primary" },
+    { id: QUEST_ACTION_IDS.leave, label: "👋 Leave", style: "secondary" },
+    { id: QUEST_ACTION_IDS.open, label: "🚀 Open Mini App", style: "secondary" },
+    { id: QUEST_ACTION_IDS.complete, label: "✅ Mark Complete", style: "primary" },
+  ],
+  expiresAt: quest.expiresAt.toISOString(),
+});
+
+/**
+ * Handles intent replies to quest action buttons
+ */
+export class QuestActionHandler {
+  private orchestrator: QuestOrchestrator;
+  private miniAppLauncher: MiniAppLauncher;
+
+  constructor(orchestrator: QuestOrchestrator, miniAppLauncher: MiniAppLauncher) {
+    this.orchestrator = orchestrator;
+    this.miniAppLauncher = miniAppLauncher;
+  }
+
+  /**
+   * Handle an intent, returning the reply for the sender or null if the
+   * intent does not belong to a quest
+   */
+  async handle(intent: IntentContent, senderInboxId: string): Promise<CommandReply | null> {
+    if (!intent.id.startsWith(ACTIONS_ID_PREFIX)) {
+      return null;
+    }
+
+    const quest = this.orchestrator.getQuestById(intent.id.slice(ACTIONS_ID_PREFIX.length));
+    if (!quest) {
+      return { text: "⚠️ That quest no longer exists.", visibility: "dm" };
+    }
+
+    console.log(`🔘 ${senderInboxId} pressed "${intent.actionId}" on quest "${quest.title}"`);
+    try {
+      switch (intent.actionId) {
+        case QUEST_ACTION_IDS.join: {
+          const joined = await this.orchestrator.joinQuest(quest.id, senderInboxId);
+          return {
+            text: joined
+              ? `✅ You joined **${quest.title}**! Tap Mark Complete or use /done ${shortQuestId(quest.id)} <proof> when you're done.`
+              : `You already joined **${quest.title}**.`,
+            visibility: "dm",
+          };
+        }
+        case QUEST_ACTION_IDS.leave: {
+          const left = await this.orchestrator.leaveQuest(quest.id, senderInboxId);
+          return {
+            text: left ? `👋 You left **${quest.title}**.` : `You are not participating in **${quest.title}**.`,
+            visibility: "dm",
+          };
+        }
+        case QUEST_ACTION_IDS.open: {
+          const url = this.miniAppLauncher.getMiniAppUrl(quest.id);
+          return {
+            text: url ? `🚀 Open **${quest.title}**: ${url}` : `The mini app for **${quest.title}** is not available.`,
+            visibility: "dm",
+          };
+        }
+        case QUEST_ACTION_IDS.complete: {
+          const requirement = this.orchestrator.getProofRequirement(quest);
+          if (requirement.type === "game_result") {
+            const url = this.miniAppLauncher.getMiniAppUrl(quest.id);
+            return {
+              text: `🎮 **${quest.title}** is completed by playing its game${url ? `: ${url}` : " in the mini app"}`,
+              visibility: "dm",
+            };
+          }
+          if (proofNeedsValue(requirement.type)) {
+            return {
+              text: `📎 **${quest.title}** needs ${PROOF_TYPE_LABELS[requirement.type]} as proof. Send /done ${shortQuestId(quest.id)} <proof>`,
+              visibility: "dm",
+            };
+          }
+          const outcome = await this.orchestrator.submitProof(quest.id, senderInboxId, {});
+          return describeSubmission(quest, outcome);
+        }
+        default:
+          return { text: `❓ Unknown action "${intent.actionId}"`, visibility: "dm" };
+      }
+    } catch (error) {
+      if (error instanceof QuestFullError) {
+        return {
+          text: `🚫 **${quest.title}** is full (${quest.participantLimits.max}/${quest.participantLimits.max}). Watch for the next quest!`,
+          visibility: "conversation",
+        };
+      }
+      return {
+        text: `⚠️ ${error instanceof Error ? error.message : "Could not complete that action"}`,
+        visibility: "dm",
+      };
+    }
+  }
+}
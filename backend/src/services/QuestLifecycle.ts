@@ -0,0 +1,110 @@
+import type { Quest, QuestStatus } from "../types/Quest";
+
+/**
+ * Allowed quest status transitions:
+ *
+ *   draft → scheduled → open → in_progress → judging → completed
+ *
+ * Any non-terminal status can be cancelled, registration and play can expire,
+ * and open/in_progress quests can be paused and later resumed.
+ */
+export const QUEST_TRANSITIONS: Record<QuestStatus, QuestStatus[]> = {
+  draft: ["scheduled", "open", "cancelled"],
+  scheduled: ["open", "expired", "cancelled"],
+  open: ["in_progress", "paused", "expired", "cancelled"],
+  in_progress: ["judging", "completed", "paused", "expired", "cancelled"],
+  paused: ["open", "in_progress", "expired", "cancelled"],
+  judging: ["completed", "cancelled"],
+  completed: [],
+  expired: [],
+  cancelled: [],
+};
+
+// Quests shown to players as running
+export const ACTIVE_QUEST_STATUSES: QuestStatus[] = [
+  "scheduled",
+  "open",
+  "in_progress",
+  "paused",
+  "judging",
+];
+
+// Quests that accept new participants
+export const JOINABLE_QUEST_STATUSES: QuestStatus[] = ["open", "in_progress"];
+
+// Quests that accept completions from participants
+export const SUBMITTABLE_QUEST_STATUSES: QuestStatus[] = ["in_progress"];
+
+// Transition reason used when a quest is closed because its time ran out
+export const QUEST_TIME_UP_REASON = "Quest time is up";
+
+// Transition reason used when a judged quest completes with ranked results
+export const QUEST_JUDGED_REASON = "Judging finished";
+
+/**
+ * Judged quests collect entries (or ballots) while in progress and are
+ * ranked in the judging status instead of rewarding each completion as it
+ * arrives
+ */
+export const isJudgedQuest = (quest: Quest): boolean =>
+  quest.type === "creative_contest" || Boolean(quest.rubric?.length) || isVotedQuest(quest);
+
+/**
+ * Voted quests are decided by a peer vote instead of the LLM judge
+ */
+export const isVotedQuest = (quest: Quest): boolean => quest.vote !== undefined;
+
+/**
+ * Game quests are completed by playing their game mini app, the finished game
+ * being the proof. Quizzes and judged quests keep their own way to complete.
+ */
+export const isGameQuest = (quest: Quest): boolean =>
+  quest.miniAppConfig.type === "game" && !quest.questions?.length && !isJudgedQuest(quest);
+
+/**
+ * Team quests group participants into teams that share their rewards
+ */
+export const isTeamQuest = (quest: Quest): boolean => quest.teams !== undefined;
+
+export const isTerminalStatus = (status: QuestStatus): boolean =>
+  QUEST_TRANSITIONS[status].length === 0;
+
+export const isActiveStatus = (status: QuestStatus): boolean =>
+  ACTIVE_QUEST_STATUSES.includes(status);
+
+/**
+ * Check whether a quest may move to the given status. A paused quest may only
+ * resume to the status it was paused from.
+ */
+export const canTransition = (quest: Quest, to: QuestStatus): boolean => {
+  if (!QUEST_TRANSITIONS[quest.status].includes(to)) {
+    return false;
+  }
+  if (quest.status === "paused" && (to === "open" || to === "in_progress")) {
+    return quest.pausedFrom === to;
+  }
+  return true;
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly from: QuestStatus,
+    public readonly to: QuestStatus,
+  ) {
+    super(`Cannot move quest from ${from} to ${to}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+export const assertTransition = (quest: Quest, to: QuestStatus): void => {
+  if (!canTransition(quest, to)) {
+    throw new InvalidTransitionError(quest.status, to);
+  }
+};
+
+export interface QuestTransition {
+  quest: Quest;
+  from: QuestStatus;
+  to: QuestStatus;
+  reason?: string;
+}
@@ -2,23 +2,76 @@ import { EventEmitter } from "events";
 import type { Client, DecodedMessage } from "@xmtp/node-sdk";
 import { Group } from "@xmtp/node-sdk";
 import type { QuestMaster } from "../agents/QuestMaster";
-import type { Quest, UserProfile, QuestCompletion } from "../types/Quest";
+import type {
+  Quest,
+  UserProfile,
+  QuestCompletion,
+  ProofRequirement,
+  ProofSubmission,
+  QuestSubmission,
+  QuestTeam,
+  QuestChain,
+  QuestRejection,
+} from "../types/Quest";
+import type { QuestRepository } from "../storage/QuestRepository";
+import type { QuestStore } from "./QuestStore";
+import type { SubmissionOutcome, SubmissionService } from "./SubmissionService";
+import type { PublicQuizQuestion, QuizAnswerResult, QuizScore, QuizService } from "./QuizService";
+import type { VoteResult, VoteService } from "./VoteService";
+import type { VoteCandidate, VoteTally } from "./VoteTally";
+import type { TeamService, TeamStanding } from "./TeamService";
+import type { ChainProgress, ChainService } from "./ChainService";
+import type { AchievementService, BadgeProgress } from "./AchievementService";
+import type { SeasonPlacement, SeasonService } from "./SeasonService";
+import type { Season, SeasonStanding } from "../types/Season";
+import type { LevelProgress } from "../types/Progression";
+import type { StreakStatus } from "../types/Streak";
+
+// Number of recent rejected quest generations kept for inspection
+const MAX_RECORDED_REJECTIONS = 50;
 
 export class QuestOrchestrator extends EventEmitter {
   private questMasters: Map<string, QuestMaster>;
   private xmtpClient: Client;
-  private activeQuests: Map<string, Quest> = new Map();
-  private userProfiles: Map<string, UserProfile> = new Map();
-  private conversationAnalytics: Map<string, any> = new Map();
-  private questHistory: QuestCompletion[] = [];
-
-  constructor(questMasters: Map<string, QuestMaster>, xmtpClient: Client) {
+  private repository: QuestRepository;
+  private store: QuestStore;
+  private submissions: SubmissionService;
+  private quiz: QuizService;
+  private votes: VoteService;
+  private teams: TeamService;
+  private chains: ChainService;
+  private achievements: AchievementService;
+  private seasons: SeasonService;
+
+  constructor(
+    questMasters: Map<string, QuestMaster>,
+    xmtpClient: Client,
+    repository: QuestRepository,
+    store: QuestStore,
+    submissions: SubmissionService,
+    quiz: QuizService,
+    votes: VoteService,
+    teams: TeamService,
+    chains: ChainService,
+    achievements: AchievementService,
+    seasons: SeasonService
+  ) {
     super();
     this.questMasters = questMasters;
     this.xmtpClient = xmtpClient;
+    this.repository = repository;
+    this.store = store;
+    this.submissions = submissions;
+    this.quiz = quiz;
+    this.votes = votes;
+    this.teams = teams;
+    this.chains = chains;
+    this.achievements = achievements;
+    this.seasons = seasons;
     
-    // Listen to quest events from all Quest Masters
+    // Listen to quest events from all Quest Masters and the store
     this.setupQuestMasterListeners();
+    this.setupStoreListeners();
   }
 
   /**
@@ -27,138 +80,235 @@ export class QuestOrchestrator extends EventEmitter {
   private setupQuestMasterListeners(): void {
     this.questMasters.forEach((questMaster, name) => {
       questMaster.on("questCreated", (quest: Quest, conversationId: string) => {
-        this.activeQuests.set(quest.id, quest);
         this.emit("questCreated", quest, conversationId, name);
         console.log(`📋 Quest Orchestrator: Registered quest "${quest.title}" from ${name}`);
       });
 
-      questMaster.on("questCompleted", (completion: QuestCompletion) => {
-        this.questHistory.push(completion);
-        this.activeQuests.delete(completion.questId);
-        this.updateUserProfile(completion);
-        this.emit("questCompleted", completion);
-        console.log(`🏆 Quest Orchestrator: Quest completed by ${completion.participantInboxId}`);
+      questMaster.on("questRejected", (rejection: QuestRejection) => {
+        this.repository.saveQuestRejection(rejection, MAX_RECORDED_REJECTIONS);
+        this.emit("questRejected", rejection);
       });
     });
   }
 
+  /**
+   * Forward quest state changes from the store
+   */
+  private setupStoreListeners(): void {
+    this.store.on("participantJoined", (event) => this.emit("questJoined", event));
+    this.store.on("participantLeft", (event) => this.emit("questLeft", event));
+    this.store.on("participantCompleted", (completion: QuestCompletion) => {
+      this.emit("questCompleted", completion);
+    });
+    this.store.on("questExpired", (quest: Quest) => this.emit("questExpired", quest.id));
+  }
+
   /**
    * Get all active quests across all Quest Masters
    */
   getActiveQuests(conversationId?: string): Quest[] {
-    const quests = Array.from(this.activeQuests.values());
-    if (conversationId) {
-      return quests.filter(q => q.conversationId === conversationId && q.status === "active");
-    }
-    return quests.filter(q => q.status === "active");
+    return this.store.getActiveQuests(conversationId);
+  }
+
+  /**
+   * Get recently rejected quest generations, newest first
+   */
+  getRejectedQuests(): QuestRejection[] {
+    return this.repository.listQuestRejections();
   }
 
   /**
    * Get quest by ID
    */
   getQuestById(questId: string): Quest | undefined {
-    return this.activeQuests.get(questId);
+    return this.store.getQuest(questId);
   }
 
   /**
    * Join a quest
    */
   async joinQuest(questId: string, userInboxId: string): Promise<boolean> {
-    const quest = this.activeQuests.get(questId);
-    if (!quest) {
-      throw new Error("Quest not found");
-    }
+    return this.store.joinQuest(questId, userInboxId);
+  }
 
-    if (quest.status !== "active") {
-      throw new Error("Quest is not active");
-    }
+  /**
+   * Leave a quest
+   */
+  async leaveQuest(questId: string, userInboxId: string): Promise<boolean> {
+    return this.store.leaveQuest(questId, userInboxId);
+  }
 
-    if (quest.participants.includes(userInboxId)) {
-      return false; // Already joined
-    }
+  /**
+   * Submit proof of completion. Rewards are only awarded once the proof is
+   * verified; otherwise the submission is pending or rejected with a reason.
+   */
+  async submitProof(
+    questId: string,
+    userInboxId: string,
+    proof: Partial<ProofSubmission>
+  ): Promise<SubmissionOutcome> {
+    return this.submissions.submit(questId, userInboxId, proof);
+  }
 
-    if (quest.participants.length >= quest.participantLimits.max) {
-      throw new Error("Quest is full");
-    }
+  /**
+   * Proof a quest asks for
+   */
+  getProofRequirement(quest: Quest): ProofRequirement {
+    return this.submissions.getProofRequirement(quest);
+  }
 
-    // Add participant
-    quest.participants.push(userInboxId);
-    this.activeQuests.set(questId, quest);
+  /**
+   * Find a pending submission by full ID or the short ID shown in chat
+   */
+  findPendingSubmission(idOrPrefix: string, conversationId?: string): QuestSubmission | undefined {
+    const questIds = conversationId
+      ? this.store.listQuests({ conversationId }).map(quest => quest.id)
+      : undefined;
+    return this.submissions.findPendingSubmission(idOrPrefix, questIds);
+  }
 
-    // Update user preferences
-    const questMaster = this.getQuestMasterForQuest(quest);
-    if (questMaster) {
-      questMaster.updateUserPreferences(userInboxId, quest.type);
-    }
+  /**
+   * Confirm another participant's submission for a peer-confirmed quest
+   */
+  async confirmSubmission(submissionId: string, userInboxId: string): Promise<SubmissionOutcome> {
+    return this.submissions.confirm(submissionId, userInboxId);
+  }
 
-    this.emit("questJoined", { questId, userInboxId, quest });
-    console.log(`👥 User ${userInboxId} joined quest "${quest.title}"`);
-    
-    return true;
+  /**
+   * Questions of a knowledge quest, without their answers
+   */
+  getQuizQuestions(quest: Quest): PublicQuizQuestion[] {
+    return this.quiz.getQuestions(quest);
   }
 
   /**
-   * Complete a quest
+   * Answer one question of a knowledge quest
    */
-  async completeQuest(
-    questId: string, 
-    userInboxId: string, 
-    result: any
-  ): Promise<QuestCompletion> {
-    const quest = this.activeQuests.get(questId);
-    if (!quest) {
-      throw new Error("Quest not found");
-    }
+  async answerQuestion(
+    questId: string,
+    userInboxId: string,
+    questionRef: string,
+    answer: string
+  ): Promise<QuizAnswerResult> {
+    return this.quiz.answer(questId, userInboxId, questionRef, answer);
+  }
 
-    if (!quest.participants.includes(userInboxId)) {
-      throw new Error("User is not a participant in this quest");
-    }
+  /**
+   * Scoreboard of a knowledge quest
+   */
+  getQuizScoreboard(questId: string): QuizScore[] {
+    return this.quiz.getScoreboard(questId);
+  }
 
-    const questMaster = this.getQuestMasterForQuest(quest);
-    if (!questMaster) {
-      throw new Error("Quest Master not found for this quest");
-    }
+  /**
+   * What members can vote for in a quest's vote
+   */
+  getVoteCandidates(quest: Quest): VoteCandidate[] {
+    return this.votes.getCandidates(quest);
+  }
 
-    // Complete the quest through the Quest Master
-    await questMaster.completeQuest(questId, userInboxId, result);
+  /**
+   * Cast or replace a member's ballot
+   */
+  async castVote(questId: string, userInboxId: string, choices: string[]): Promise<VoteResult> {
+    return this.votes.castVote(questId, userInboxId, choices);
+  }
 
-    // The completion will be handled by the event listener
-    const completion = this.questHistory.find(
-      c => c.questId === questId && c.participantInboxId === userInboxId
-    );
+  /**
+   * Live tally of a quest's vote
+   */
+  getVoteTally(questId: string): VoteTally {
+    return this.votes.getTally(questId);
+  }
 
-    if (!completion) {
-      throw new Error("Quest completion not recorded");
-    }
+  isVotingOpen(quest: Quest): boolean {
+    return this.votes.isVotingOpen(quest);
+  }
 
-    return completion;
+  /**
+   * Teams of a team quest with their progress
+   */
+  getTeamStandings(questId: string): TeamStanding[] {
+    return this.teams.getStandings(questId);
+  }
+
+  /**
+   * Join or create a team of a self-formed team quest
+   */
+  async joinTeam(questId: string, userInboxId: string, teamRef: string): Promise<QuestTeam> {
+    return this.teams.joinTeam(questId, userInboxId, teamRef);
+  }
+
+  /**
+   * Quest chains of a conversation, oldest first
+   */
+  getChains(conversationId?: string): QuestChain[] {
+    return this.chains.listChains(conversationId);
+  }
+
+  /**
+   * Find a chain by ID or ID prefix, in a conversation if given
+   */
+  findChain(idOrPrefix: string, conversationId?: string): QuestChain | undefined {
+    return this.chains.getChain(idOrPrefix) ??
+      this.chains.listChains(conversationId).find(chain => chain.id.startsWith(idOrPrefix));
+  }
+
+  /**
+   * Steps of a chain with what a player has completed
+   */
+  getChainProgress(chainId: string, userInboxId?: string): ChainProgress {
+    return this.chains.getProgress(chainId, userInboxId);
   }
 
   /**
    * Get user statistics
    */
   getUserStats(userInboxId: string): UserProfile {
-    let profile = this.userProfiles.get(userInboxId);
-    if (!profile) {
-      profile = {
-        inboxId: userInboxId,
-        level: 1,
-        xp: 0,
-        preferences: [],
-        completedQuests: [],
-        socialScore: 0,
-        lastActive: new Date(),
-      };
-      this.userProfiles.set(userInboxId, profile);
-    }
-    return profile;
+    return this.store.getUserProfile(userInboxId);
+  }
+
+  /**
+   * How far a user is through their level
+   */
+  getLevelProgress(userInboxId: string): LevelProgress {
+    return this.store.progression.progress(this.store.getUserProfile(userInboxId).xp);
+  }
+
+  /**
+   * A user's daily and weekly streak and the XP multiplier it gives
+   */
+  getStreak(userInboxId: string): StreakStatus {
+    return this.store.getStreak(userInboxId);
+  }
+
+  /**
+   * Badges a user earned and their progress towards each achievement
+   */
+  getBadgeProgress(userInboxId: string): BadgeProgress[] {
+    return this.achievements.getBadgeProgress(userInboxId);
   }
 
   /**
-   * Get quest leaderboard
+   * A user's XP and rank in the current season
+   */
+  getSeasonPlacement(userInboxId: string): SeasonPlacement | undefined {
+    return this.seasons.getPlacement(userInboxId);
+  }
+
+  /**
+   * Top of the current season's standings
+   */
+  getSeasonLeaderboard(limit: number = 10): { season: Season; standings: SeasonStanding[] } | undefined {
+    const season = this.seasons.getCurrentSeason();
+    return season ? { season, standings: this.seasons.getStandings(season.id).slice(0, limit) } : undefined;
+  }
+
+  /**
+   * Get the all-time quest leaderboard
    */
   getLeaderboard(limit: number = 10): UserProfile[] {
-    return Array.from(this.userProfiles.values())
+    return this.store.listUserProfiles()
       .sort((a, b) => b.xp - a.xp)
       .slice(0, limit);
   }
@@ -167,7 +317,7 @@ export class QuestOrchestrator extends EventEmitter {
    * Get quest history for a user
    */
   getUserQuestHistory(userInboxId: string): QuestCompletion[] {
-    return this.questHistory.filter(c => c.participantInboxId === userInboxId);
+    return this.store.listCompletions({ participantInboxId: userInboxId });
   }
 
   /**
@@ -195,9 +345,7 @@ export class QuestOrchestrator extends EventEmitter {
         );
 
         if (quest) {
-          // Send quest announcement to the group
-          const announcement = await selectedQuestMaster.generateQuestAnnouncement(quest);
-          await conversation.send(announcement);
+          await this.announceQuest(quest, selectedQuestMaster, conversation);
           return quest;
         }
       }
@@ -209,6 +357,49 @@ export class QuestOrchestrator extends EventEmitter {
     }
   }
 
+  /**
+   * Generate a quest chain for a conversation. The chain is announced by the
+   * listeners of ChainService once stored.
+   */
+  async createQuestChain(
+    conversationId: string,
+    options: { steps: number; stepDelayMinutes?: number }
+  ): Promise<QuestChain | null> {
+    try {
+      const conversation = await this.xmtpClient.conversations.getConversationById(conversationId);
+      if (!conversation || !(conversation instanceof Group)) {
+        throw new Error("Conversation not found or not a group");
+      }
+
+      const recentMessages = await conversation.messages({ limit: 10 });
+      const members = await conversation.members();
+      const selectedQuestMaster = this.selectQuestMaster(recentMessages, members);
+      if (!selectedQuestMaster) {
+        return null;
+      }
+
+      const draft = await selectedQuestMaster.analyzeAndCreateChain(conversation, recentMessages, members, options.steps);
+      if (!draft) {
+        return null;
+      }
+      return this.chains.createChain({ ...draft, stepDelayMinutes: options.stepDelayMinutes });
+    } catch (error) {
+      console.error("Error creating quest chain:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Post a quest announcement and remember the message so reactions to it
+   * can join the quest
+   */
+  async announceQuest(quest: Quest, questMaster: QuestMaster, conversation: Group<any>): Promise<string> {
+    const announcement = await questMaster.generateQuestAnnouncement(quest);
+    const messageId = await conversation.send(announcement);
+    this.store.linkQuestMessage(messageId, quest.id);
+    return messageId;
+  }
+
   /**
    * Select appropriate Quest Master based on conversation context
    */
@@ -255,127 +446,37 @@ export class QuestOrchestrator extends EventEmitter {
   /**
    * Find the Quest Master that created a specific quest
    */
-  private getQuestMasterForQuest(quest: Quest): QuestMaster | null {
-    // Since we don't store the creator, we'll need to find it by quest type preference
-    for (const [name, questMaster] of this.questMasters) {
-      const personality = questMaster.personality;
-      if (personality.questTypes.includes(quest.type)) {
-        return questMaster;
-      }
+  getQuestMasterForQuest(quest: Quest): QuestMaster | null {
+    if (quest.questMaster) {
+      return this.questMasters.get(quest.questMaster) || null;
     }
-    return null;
-  }
 
-  /**
-   * Update user profile after quest completion
-   */
-  private updateUserProfile(completion: QuestCompletion): void {
-    const profile = this.getUserStats(completion.participantInboxId);
-    
-    // Update XP and level
-    profile.xp += completion.rewards.xp;
-    profile.level = Math.floor(profile.xp / 100) + 1;
-    
-    // Add completed quest
-    if (!profile.completedQuests.includes(completion.questId)) {
-      profile.completedQuests.push(completion.questId);
-    }
-    
-    // Update social score based on quest type and performance
-    profile.socialScore += this.calculateSocialScoreIncrease(completion);
-    
-    // Update last active
-    profile.lastActive = new Date();
-    
-    this.userProfiles.set(completion.participantInboxId, profile);
-  }
-
-  /**
-   * Calculate social score increase based on quest completion
-   */
-  private calculateSocialScoreIncrease(completion: QuestCompletion): number {
-    const quest = this.activeQuests.get(completion.questId);
-    if (!quest) return 5; // Default increase
-
-    let increase = 5;
-    
-    // Bonus for different quest types
-    switch (quest.type) {
-      case "community_building":
-        increase += 10;
-        break;
-      case "social_challenge":
-        increase += 8;
-        break;
-      case "knowledge_quest":
-        increase += 6;
-        break;
-      case "creative_contest":
-        increase += 7;
-        break;
-      case "cross_protocol":
-        increase += 9;
-        break;
-    }
-    
-    // Bonus for difficulty
-    switch (quest.difficulty) {
-      case "expert":
-        increase += 15;
-        break;
-      case "hard":
-        increase += 10;
-        break;
-      case "medium":
-        increase += 5;
-        break;
-      case "easy":
-        increase += 2;
-        break;
-    }
-    
-    return increase;
-  }
-
-  /**
-   * Clean up expired quests
-   */
-  cleanupExpiredQuests(): void {
-    const now = new Date();
-    const expiredQuests: string[] = [];
-    
-    this.activeQuests.forEach((quest, questId) => {
-      if (new Date(quest.expiresAt) < now) {
-        quest.status = "expired";
-        expiredQuests.push(questId);
+    // Quests created before the creator was recorded: match by quest type preference
+    for (const questMaster of this.questMasters.values()) {
+      if (questMaster.personality.questTypes.includes(quest.type)) {
+        return questMaster;
       }
-    });
-    
-    expiredQuests.forEach(questId => {
-      this.activeQuests.delete(questId);
-      this.emit("questExpired", questId);
-    });
-    
-    if (expiredQuests.length > 0) {
-      console.log(`🕐 Quest Orchestrator: Cleaned up ${expiredQuests.length} expired quests`);
     }
+    return null;
   }
 
   /**
    * Get quest analytics
    */
   getQuestAnalytics() {
-    const totalQuests = this.activeQuests.size + this.questHistory.length;
-    const completedQuests = this.questHistory.length;
-    const activeUsers = new Set(this.questHistory.map(c => c.participantInboxId)).size;
+    const questHistory = this.store.listCompletions();
+    const activeQuests = this.store.getActiveQuests();
+    const totalQuests = activeQuests.length + questHistory.length;
+    const completedQuests = questHistory.length;
+    const activeUsers = new Set(questHistory.map(c => c.participantInboxId)).size;
     
     return {
       totalQuests,
-      activeQuests: this.activeQuests.size,
+      activeQuests: activeQuests.length,
       completedQuests,
       activeUsers,
       averageXpPerQuest: completedQuests > 0 
-        ? this.questHistory.reduce((sum, c) => sum + c.rewards.xp, 0) / completedQuests 
+        ? questHistory.reduce((sum, c) => sum + c.rewards.xp, 0) / completedQuests 
         : 0,
       questTypeDistribution: this.getQuestTypeDistribution(),
     };
@@ -387,12 +488,12 @@ export class QuestOrchestrator extends EventEmitter {
   private getQuestTypeDistribution() {
     const distribution: Record<string, number> = {};
     
-    this.activeQuests.forEach(quest => {
+    this.store.getActiveQuests().forEach(quest => {
       distribution[quest.type] = (distribution[quest.type] || 0) + 1;
     });
     
-    this.questHistory.forEach(completion => {
-      const quest = this.activeQuests.get(completion.questId);
+    this.store.listCompletions().forEach(completion => {
+      const quest = this.store.getQuest(completion.questId);
       if (quest) {
         distribution[quest.type] = (distribution[quest.type] || 0) + 1;
       }
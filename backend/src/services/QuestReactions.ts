@@ -0,0 +1,73 @@
+import type { Reaction } from "@xmtp/content-type-reaction";
+import { shortQuestId, type CommandReply } from "./ChatCommands";
+import type { QuestOrchestrator } from "./QuestOrchestrator";
+import { QuestFullError, type QuestStore } from "./QuestStore";
+import { isActiveStatus } from "./QuestLifecycle";
+
+// Emojis a user still has on a message sent in a conversation since a given time
+export type ReactionLookup = (conversationId: string, messageId: string, inboxId: string, since: Date) => Promise<string[]>;
+
+/**
+ * Turns reactions on quest announcements into joins and leaves. Any emoji
+ * added to an announcement joins the quest; removing the last one leaves.
+ * Without a reaction lookup, removing any emoji leaves.
+ */
+export class QuestReactionHandler {
+  private orchestrator: QuestOrchestrator;
+  private store: QuestStore;
+  private getReactions?: ReactionLookup;
+
+  constructor(orchestrator: QuestOrchestrator, store: QuestStore, getReactions?: ReactionLookup) {
+    this.orchestrator = orchestrator;
+    this.store = store;
+    this.getReactions = getReactions;
+  }
+
+  /**
+   * Handle a reaction, returning a reply for the reactor or null if the
+   * reaction was not on a quest announcement or needs no answer
+   */
+  async handle(reaction: Reaction, senderInboxId: string): Promise<CommandReply | null> {
+    const quest = this.store.getQuestByMessage(reaction.reference);
+    if (!quest) {
+      return null;
+    }
+
+    try {
+      if (reaction.action === "removed") {
+        // Nothing to leave once the quest is over
+        if (!isActiveStatus(quest.status)) {
+          return null;
+        }
+        const remaining = this.getReactions
+          ? await this.getReactions(quest.conversationId, reaction.reference, senderInboxId, quest.createdAt)
+          : [];
+        if (!remaining.some(emoji => emoji !== reaction.content)) {
+          await this.orchestrator.leaveQuest(quest.id, senderInboxId);
+        }
+        return null;
+      }
+
+      const joined = await this.orchestrator.joinQuest(quest.id, senderInboxId);
+      if (!joined) {
+        return null;
+      }
+      console.log(`${reaction.content} ${senderInboxId} joined "${quest.title}" by reaction`);
+      return {
+        text: `✅ You joined **${quest.title}**! When you're done, submit with /done ${shortQuestId(quest.id)} <proof>`,
+        visibility: "dm",
+      };
+    } catch (error) {
+      if (error instanceof QuestFullError) {
+        return {
+          text: `🚫 **${quest.title}** is full (${quest.participantLimits.max}/${quest.participantLimits.max}). Watch for the next quest!`,
+          visibility: "conversation",
+        };
+      }
+      return {
+        text: `⚠️ ${error instanceof Error ? error.message : "Could not update your quest participation"}`,
+        visibility: "dm",
+      };
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import type { Quest, UserProfile } from "../types/Quest";
+
+/**
+ * Requirements a quest can check on join. They are written into the quest's
+ * `requirements` as "level:3", "quest:<quest ID>" or "badge:<name>"; any
+ * other requirement is free text shown to players but not enforced.
+ */
+export type RequirementRule =
+  | { kind: "level"; level: number }
+  | { kind: "quest"; questId: string }
+  | { kind: "badge"; badge: string };
+
+export interface RequirementContext {
+  profile: UserProfile;
+  badges: string[]; // badges the player has earned
+}
+
+const RULE_PATTERN = /^(level|quest|badge):\s*(.+)$/i;
+
+/**
+ * Read a requirement as a rule, or undefined for free text
+ */
+export const parseRequirement = (text: string): RequirementRule | undefined => {
+  const match = text.trim().match(RULE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  const value = match[2].trim();
+  switch (match[1].toLowerCase()) {
+    case "level": {
+      const level = Number(value);
+      return Number.isInteger(level) && level > 1 ? { kind: "level", level } : undefined;
+    }
+    case "quest":
+      return { kind: "quest", questId: value };
+    default:
+      return { kind: "badge", badge: value };
+  }
+};
+
+export const formatRequirement = (rule: RequirementRule): string => {
+  switch (rule.kind) {
+    case "level":
+      return `level:${rule.level}`;
+    case "quest":
+      return `quest:${rule.questId}`;
+    case "badge":
+      return `badge:${rule.badge}`;
+  }
+};
+
+export interface RequirementLookups {
+  badgeExists: (name: string) => boolean;
+  questExists: (questId: string) => boolean;
+}
+
+/**
+ * Problems with the rules among a new quest's requirements, e.g. a badge
+ * nobody can earn. Level rules and free text are always fine.
+ */
+export const checkRequirements = (requirements: string[], { badgeExists, questExists }: RequirementLookups): string[] =>
+  requirements.flatMap((text, index) => {
+    const rule = parseRequirement(text);
+    if (rule?.kind === "badge" && !badgeExists(rule.badge)) {
+      return [`requirements.${index}: unknown badge "${rule.badge}"`];
+    }
+    if (rule?.kind === "quest" && !questExists(rule.questId)) {
+      return [`requirements.${index}: unknown quest "${rule.questId}"`];
+    }
+    return [];
+  });
+
+/**
+ * Rules of a quest the player does not meet yet
+ */
+export const unmetRequirements = (quest: Quest, { profile, badges }: RequirementContext): RequirementRule[] =>
+  (quest.requirements ?? [])
+    .map(parseRequirement)
+    .filter((rule): rule is RequirementRule => rule !== undefined)
+    .filter(rule => {
+      switch (rule.kind) {
+        case "level":
+          return profile.level < rule.level;
+        case "quest":
+          return !profile.completedQuests.includes(rule.questId);
+        case "badge":
+          return !badges.some(badge => badge.toLowerCase() === rule.badge.toLowerCase());
+      }
+    });
+
+/**
+ * What a player has to do to meet a rule, e.g. `complete "Icebreaker Relay"`
+ */
+export const describeRequirement = (rule: RequirementRule, questTitle: (questId: string) => string | undefined): string => {
+  switch (rule.kind) {
+    case "level":
+      return `reach level ${rule.level}`;
+    case "quest":
+      return `complete "${questTitle(rule.questId) ?? "an earlier quest"}"`;
+    case "badge":
+      return `earn the "${rule.badge}" badge`;
+  }
+};
+
+/**
+ * Requirements of a quest as players should read them
+ */
+export const describeRequirements = (quest: Quest, questTitle: (questId: string) => string | undefined): string[] =>
+  (quest.requirements ?? []).map(text => {
+    const rule = parseRequirement(text);
+    return rule ? describeRequirement(rule, questTitle).replace(/^./, c => c.toUpperCase()) : text;
+  });
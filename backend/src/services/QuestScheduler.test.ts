@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { InMemoryQuestRepository } from "../storage/InMemoryQuestRepository";
+import type { Quest } from "../types/Quest";
+import { JobScheduler } from "./JobScheduler";
+import { createProgression } from "./Progression";
+import { QuestScheduler } from "./QuestScheduler";
+import { QuestStore } from "./QuestStore";
+import { createStreakTracker } from "./Streaks";
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2026, 0, 1, 12, 0);
+
+const buildQuest = (): Quest => ({
+  id: "quest-1",
+  type: "social_challenge",
+  title: "Say hi",
+  description: "Greet the group",
+  difficulty: "easy",
+  duration: 30,
+  participantLimits: { min: 1, max: 10 },
+  rewards: { xp: 50 },
+  miniAppConfig: { type: "dashboard", config: {} },
+  conversationId: "conversation-1",
+  createdAt: new Date(START),
+  expiresAt: new Date(START + 30 * MINUTE),
+  status: "open",
+  participants: [],
+});
+
+describe("QuestScheduler pausing", () => {
+  let store: QuestStore;
+  let jobs: JobScheduler;
+  let reminders: number;
+
+  // Move the clock and let the jobs that came due run
+  const advance = async (ms: number) => {
+    mock.timers.tick(ms);
+    for (let i = 0; i < 10; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["Date", "setTimeout"], now: START });
+    const repository = new InMemoryQuestRepository();
+    store = new QuestStore(repository, createProgression({}), createStreakTracker({}));
+    jobs = new JobScheduler(repository);
+    const scheduler = new QuestScheduler(store, jobs);
+    reminders = 0;
+    scheduler.on("questReminder", () => reminders++);
+    store.createQuest(buildQuest());
+    scheduler.start();
+  });
+
+  afterEach(() => {
+    jobs.stop();
+    mock.timers.reset();
+  });
+
+  test("a paused quest outlives its deadline and gets the paused time back on resume", async () => {
+    await advance(10 * MINUTE);
+    store.pauseQuest("quest-1");
+
+    // Past the reminder and the original deadline
+    await advance(30 * MINUTE);
+    assert.equal(store.getQuest("quest-1")?.status, "paused");
+    assert.equal(reminders, 0);
+
+    store.resumeQuest("quest-1");
+    assert.equal(store.getQuest("quest-1")?.expiresAt.getTime(), START + 60 * MINUTE);
+
+    await advance(15 * MINUTE);
+    assert.equal(store.getQuest("quest-1")?.status, "open");
+    assert.equal(reminders, 1);
+
+    await advance(6 * MINUTE);
+    assert.equal(store.getQuest("quest-1")?.status, "expired");
+  });
+});
@@ -0,0 +1,156 @@
+import { EventEmitter } from "events";
+import type { Quest } from "../types/Quest";
+import type { ScheduledJob } from "../types/Job";
+import type { JobScheduler } from "./JobScheduler";
+import type { QuestStore } from "./QuestStore";
+import { isActiveStatus, isTerminalStatus, type QuestTransition } from "./QuestLifecycle";
+
+export const QUEST_JOB_TYPES = {
+  start: "quest_start",
+  reminder: "quest_reminder",
+  expiration: "quest_expiration",
+} as const;
+
+// Send a reminder this long before a quest expires, for quests long enough to need one
+const REMINDER_LEAD_MINUTES = 10;
+const MIN_DURATION_FOR_REMINDER_MINUTES = 20;
+
+export interface QuestExpirySummary {
+  outcome: Quest["status"];
+  participantCount: number;
+  completedBy: { inboxId: string; xp: number }[]; // with the XP each finisher was awarded
+}
+
+/**
+ * Schedules the timed parts of a quest (opening, reminder, expiration) as
+ * persistent jobs and turns them into store transitions and events.
+ *
+ * Emits "questReminder" (quest, minutesLeft) and "questExpired" (quest, summary),
+ * each at most once per quest.
+ */
+export class QuestScheduler extends EventEmitter {
+  private store: QuestStore;
+  private scheduler: JobScheduler;
+
+  constructor(store: QuestStore, scheduler: JobScheduler) {
+    super();
+    this.store = store;
+    this.scheduler = scheduler;
+
+    this.scheduler.registerHandler(QUEST_JOB_TYPES.start, (job) => this.handleStart(job));
+    this.scheduler.registerHandler(QUEST_JOB_TYPES.reminder, (job) => this.handleReminder(job));
+    this.scheduler.registerHandler(QUEST_JOB_TYPES.expiration, (job) => this.handleExpiration(job));
+
+    this.store.on("questCreated", (quest: Quest) => this.scheduleQuest(quest));
+    this.store.on("questTransition", ({ quest, from, to }: QuestTransition) => {
+      if (isTerminalStatus(to)) {
+        // Jobs of other services may still have work to do for the quest
+        this.scheduler.cancelForQuest(quest.id, Object.values(QUEST_JOB_TYPES));
+      } else if (from === "draft") {
+        this.scheduleQuest(quest);
+      } else if (from === "paused") {
+        this.rescheduleDeadline(quest);
+      }
+    });
+  }
+
+  /**
+   * Make sure every running quest has its jobs, then start the scheduler
+   */
+  start(): void {
+    for (const quest of this.store.getActiveQuests()) {
+      this.scheduleQuest(quest);
+    }
+    this.scheduler.start();
+  }
+
+  /**
+   * Schedule any jobs the quest does not have yet. Drafts are scheduled once
+   * they are published, when their times are known.
+   */
+  scheduleQuest(quest: Quest): void {
+    if (quest.status === "draft") {
+      return;
+    }
+    const existing = new Set(
+      this.scheduler
+        .listJobs({ questId: quest.id, status: ["pending", "running", "done"] })
+        .map(job => job.type)
+    );
+    const schedule = (type: string, runAt: Date) => {
+      if (!existing.has(type)) {
+        this.scheduler.schedule(type, runAt, { questId: quest.id });
+      }
+    };
+
+    if (quest.status === "scheduled" && quest.startsAt) {
+      schedule(QUEST_JOB_TYPES.start, quest.startsAt);
+    }
+
+    const reminderAt = this.reminderTime(quest);
+    if (reminderAt) {
+      schedule(QUEST_JOB_TYPES.reminder, reminderAt);
+    }
+
+    schedule(QUEST_JOB_TYPES.expiration, quest.expiresAt);
+  }
+
+  /**
+   * Replace the reminder and expiration of a resumed quest, whose deadline
+   * moved by the time it was paused
+   */
+  private rescheduleDeadline(quest: Quest): void {
+    this.scheduler.cancelForQuest(quest.id, [QUEST_JOB_TYPES.reminder, QUEST_JOB_TYPES.expiration]);
+    const reminderAt = this.reminderTime(quest);
+    if (reminderAt) {
+      this.scheduler.schedule(QUEST_JOB_TYPES.reminder, reminderAt, { questId: quest.id });
+    }
+    this.scheduler.schedule(QUEST_JOB_TYPES.expiration, quest.expiresAt, { questId: quest.id });
+  }
+
+  // When to remind participants, for quests long enough to need it and not too close to their end
+  private reminderTime(quest: Quest): Date | undefined {
+    const reminderAt = new Date(quest.expiresAt.getTime() - REMINDER_LEAD_MINUTES * 60 * 1000);
+    return quest.duration >= MIN_DURATION_FOR_REMINDER_MINUTES && reminderAt > new Date() ? reminderAt : undefined;
+  }
+
+  private handleStart(job: ScheduledJob): void {
+    const quest = job.questId ? this.store.getQuest(job.questId) : undefined;
+    if (quest?.status === "scheduled") {
+      this.store.transitionQuest(quest.id, "open", "Registration opened");
+    }
+  }
+
+  private handleReminder(job: ScheduledJob): void {
+    const quest = job.questId ? this.store.getQuest(job.questId) : undefined;
+    if (!quest || !isActiveStatus(quest.status) || quest.status === "judging" || quest.status === "paused") {
+      return;
+    }
+
+    const minutesLeft = Math.max(0, Math.round((quest.expiresAt.getTime() - Date.now()) / 60000));
+    this.emit("questReminder", quest, minutesLeft);
+  }
+
+  private handleExpiration(job: ScheduledJob): void {
+    // Paused quests get a new expiration when they resume
+    if (!job.questId || this.store.getQuest(job.questId)?.status === "paused") {
+      return;
+    }
+    if (!this.store.closeQuest(job.questId)) {
+      return; // Already finished, cancelled or waiting on judging
+    }
+
+    const quest = this.store.getQuest(job.questId);
+    if (!quest) return;
+
+    const summary: QuestExpirySummary = {
+      outcome: quest.status,
+      participantCount: quest.participants.length,
+      completedBy: this.store
+        .listCompletions({ questId: quest.id })
+        .map(c => ({ inboxId: c.participantInboxId, xp: c.rewards.xp })),
+    };
+    console.log(`⏰ Quest "${quest.title}" closed as ${quest.status}`);
+    this.emit("questExpired", quest, summary);
+  }
+}
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import { InMemoryQuestRepository } from "../storage/InMemoryQuestRepository";
+import type { Quest, QuestCompletion } from "../types/Quest";
+import { createProgression } from "./Progression";
+import { QuestStore } from "./QuestStore";
+import { createStreakTracker } from "./Streaks";
+
+const buildTeamQuest = (): Quest => ({
+  id: "quest-1",
+  type: "social_challenge",
+  title: "Team photo",
+  description: "Post a photo with your team",
+  difficulty: "easy",
+  duration: 60,
+  participantLimits: { min: 1, max: 10 },
+  rewards: { xp: 90 },
+  teams: { size: 3, formation: "self", split: "equal" },
+  miniAppConfig: { type: "dashboard", config: {} },
+  conversationId: "conversation-1",
+  createdAt: new Date(),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  status: "open",
+  participants: [],
+});
+
+describe("QuestStore team quests", () => {
+  let repository: InMemoryQuestRepository;
+  let store: QuestStore;
+
+  beforeEach(() => {
+    repository = new InMemoryQuestRepository();
+    store = new QuestStore(repository, createProgression({}), createStreakTracker({}));
+    store.createQuest(buildTeamQuest());
+    for (const inboxId of ["alice", "bob", "carol"]) {
+      store.joinQuest("quest-1", inboxId);
+    }
+    repository.saveTeam({
+      id: "team-1",
+      questId: "quest-1",
+      name: "Red",
+      members: ["alice", "bob", "carol"],
+      contributions: {},
+      results: {},
+      createdAt: new Date(),
+    });
+  });
+
+  test("closing an equal split credits only the members who played", () => {
+    const completed: QuestCompletion[] = [];
+    store.on("participantCompleted", (completion: QuestCompletion) => completed.push(completion));
+    store.completeQuest("quest-1", "alice", { photo: "a" });
+    store.completeQuest("quest-1", "bob", { photo: "b" });
+
+    assert.equal(store.closeQuest("quest-1"), true);
+
+    assert.deepEqual(completed.map(c => c.participantInboxId), ["alice", "bob"]);
+    assert.deepEqual(store.listCompletions({ questId: "quest-1" }).map(c => c.participantInboxId), ["alice", "bob"]);
+    // Carol sat out: the team average is two thirds of the quest's XP
+    assert.equal(completed[0].rewards.xp, 60);
+
+    const carol = store.getUserProfile("carol");
+    assert.equal(carol.xp, 0);
+    assert.deepEqual(carol.completedQuests, []);
+    assert.equal(carol.streak.days, 0);
+    assert.equal(store.getUserProfile("alice").streak.days, 1);
+    assert.equal(repository.getParticipant("quest-1", "carol")?.status, "joined");
+    assert.equal(store.getQuest("quest-1")?.status, "completed");
+  });
+});
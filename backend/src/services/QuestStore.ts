@@ -0,0 +1,730 @@
+import { EventEmitter } from "events";
+import type { Quest, QuestStatus, UserProfile, QuestCompletion, QuestTeam } from "../types/Quest";
+import type { Badge, EarnedBadge } from "../types/Badge";
+import type { StreakStatus, StreakUpdate } from "../types/Streak";
+import {
+  createDefaultUserProfile,
+  type QuestRepository,
+  type QuestFilter,
+  type CompletionFilter,
+} from "../storage/QuestRepository";
+import {
+  ACTIVE_QUEST_STATUSES,
+  JOINABLE_QUEST_STATUSES,
+  QUEST_JUDGED_REASON,
+  QUEST_TIME_UP_REASON,
+  SUBMITTABLE_QUEST_STATUSES,
+  assertTransition,
+  isActiveStatus,
+  isJudgedQuest,
+  isTeamQuest,
+  type QuestTransition,
+} from "./QuestLifecycle";
+import { contributionShare, splitTeamRewards } from "./TeamSplit";
+import {
+  describeRequirement,
+  formatRequirement,
+  parseRequirement,
+  unmetRequirements,
+  type RequirementRule,
+} from "./QuestRequirements";
+import { Progression } from "./Progression";
+import { StreakTracker, dayKey } from "./Streaks";
+
+// Setting that records which level curve the stored levels were computed with
+const LEVEL_CURVE_SETTING = "level_curve";
+
+export interface JudgedPlacement {
+  inboxId: string;
+  rank?: number; // unset when everyone is rewarded alike, as in option votes
+  rewards: Quest["rewards"];
+  result: any;
+}
+
+export interface TeamContribution {
+  quest: Quest;
+  team: QuestTeam;
+  inboxId: string;
+}
+
+export interface BonusAward {
+  inboxId: string;
+  rewards: Quest["rewards"];
+  reason: string;
+  profile: UserProfile;
+}
+
+export interface LevelUp {
+  inboxId: string;
+  from: number;
+  to: number;
+  profile: UserProfile;
+  questId?: string; // the quest whose rewards caused it, if any
+}
+
+export class QuestFullError extends Error {
+  constructor(public readonly quest: Quest) {
+    super("Quest is full");
+    this.name = "QuestFullError";
+  }
+}
+
+export class RequirementsNotMetError extends Error {
+  constructor(public readonly quest: Quest, public readonly unmet: RequirementRule[], message: string) {
+    super(message);
+    this.name = "RequirementsNotMetError";
+  }
+}
+
+/**
+ * Single owner of quest state: participants, status, completions and the
+ * profile updates they cause. QuestMaster, QuestOrchestrator and
+ * MiniAppLauncher read and mutate quests only through this store, so REST,
+ * WebSocket and chat actions all follow the same rules and emit the same events.
+ */
+export class QuestStore extends EventEmitter {
+  private repository: QuestRepository;
+  readonly progression: Progression;
+  readonly streaks: StreakTracker;
+
+  constructor(
+    repository: QuestRepository,
+    progression: Progression = new Progression(),
+    streaks: StreakTracker = new StreakTracker()
+  ) {
+    super();
+    this.repository = repository;
+    this.progression = progression;
+    this.streaks = streaks;
+  }
+
+  /**
+   * Register a newly generated quest. Quests with a future start time are
+   * scheduled instead of opening immediately, and quests of a gated
+   * difficulty require the level it needs.
+   */
+  createQuest(quest: Quest): Quest {
+    if (quest.status === "open" && quest.startsAt && quest.startsAt > new Date()) {
+      quest.status = "scheduled";
+    }
+    const minLevel = this.progression.minLevelFor(quest.difficulty);
+    const levelRules = (quest.requirements ?? []).map(parseRequirement).filter(rule => rule?.kind === "level");
+    if (minLevel > 1 && !levelRules.some(rule => rule.level >= minLevel)) {
+      quest.requirements = [formatRequirement({ kind: "level", level: minLevel }), ...(quest.requirements ?? [])];
+    }
+    this.repository.saveQuest(quest);
+    this.emit("questCreated", quest);
+    return quest;
+  }
+
+  /**
+   * Get quest by ID
+   */
+  getQuest(questId: string): Quest | undefined {
+    return this.repository.getQuest(questId);
+  }
+
+  /**
+   * List quests, optionally filtered by conversation and status
+   */
+  listQuests(filter?: QuestFilter): Quest[] {
+    return this.repository.listQuests(filter);
+  }
+
+  /**
+   * Get active quests, optionally for a single conversation
+   */
+  getActiveQuests(conversationId?: string): Quest[] {
+    return this.repository.listQuests({ conversationId, status: ACTIVE_QUEST_STATUSES });
+  }
+
+  /**
+   * Remember a chat message that announces a quest, so reactions and replies
+   * to it can be routed back to the quest
+   */
+  linkQuestMessage(messageId: string, questId: string): void {
+    this.repository.saveQuestMessage(messageId, questId);
+  }
+
+  /**
+   * Find the quest a chat message announced
+   */
+  getQuestByMessage(messageId: string): Quest | undefined {
+    const questId = this.repository.getQuestIdByMessage(messageId);
+    return questId ? this.repository.getQuest(questId) : undefined;
+  }
+
+  /**
+   * Add a participant. Returns false if the user already joined.
+   */
+  joinQuest(questId: string, inboxId: string): boolean {
+    const quest = this.requireQuest(questId);
+
+    if (!JOINABLE_QUEST_STATUSES.includes(quest.status)) {
+      throw new Error(`Quest is not open for registration (${quest.status})`);
+    }
+
+    if (quest.participants.includes(inboxId)) {
+      return false;
+    }
+
+    if (quest.participants.length >= quest.participantLimits.max) {
+      throw new QuestFullError(quest);
+    }
+
+    const unmet = unmetRequirements(quest, { profile: this.getUserProfile(inboxId), badges: this.earnedBadges(inboxId) });
+    if (unmet.length > 0) {
+      const steps = unmet.map(rule => describeRequirement(rule, id => this.repository.getQuest(id)?.title));
+      throw new RequirementsNotMetError(quest, unmet, `To join this quest, first ${steps.join(" and ")}`);
+    }
+
+    this.repository.addParticipant(questId, inboxId);
+    quest.participants.push(inboxId);
+    this.updateUserPreferences(inboxId, quest.type);
+
+    this.emit("participantJoined", { questId, inboxId, quest });
+    console.log(`👥 User ${inboxId} joined quest "${quest.title}"`);
+
+    if (quest.status === "open" && quest.participants.length >= quest.participantLimits.min) {
+      this.transitionQuest(questId, "in_progress", "Minimum participants reached");
+    }
+    return true;
+  }
+
+  /**
+   * Remove a participant. Returns false if the user was not participating.
+   */
+  leaveQuest(questId: string, inboxId: string): boolean {
+    const quest = this.requireQuest(questId);
+
+    if (!isActiveStatus(quest.status)) {
+      throw new Error(`Quest is no longer running (${quest.status})`);
+    }
+
+    if (this.repository.getParticipant(questId, inboxId)?.status === "completed") {
+      throw new Error("You already completed this quest");
+    }
+
+    if (!this.repository.removeParticipant(questId, inboxId)) {
+      return false;
+    }
+    quest.participants = quest.participants.filter(p => p !== inboxId);
+
+    this.emit("participantLeft", { questId, inboxId, quest });
+    console.log(`👤 User ${inboxId} left quest "${quest.title}"`);
+    return true;
+  }
+
+  /**
+   * Record a participant's completion and award rewards, the quest's own
+   * unless partial rewards are given. In team quests the completion is the
+   * member's part: rewards are shared once the whole team has played, so
+   * nothing is returned until then. The quest itself completes once it is
+   * full and every participant has finished, or at expiry.
+   */
+  completeQuest(
+    questId: string,
+    inboxId: string,
+    result: any,
+    rewards?: Quest["rewards"]
+  ): QuestCompletion | undefined {
+    const quest = this.requireQuest(questId);
+
+    if (!SUBMITTABLE_QUEST_STATUSES.includes(quest.status)) {
+      throw new Error(`Quest is not accepting completions (${quest.status})`);
+    }
+
+    const participant = this.repository.getParticipant(questId, inboxId);
+    if (!participant) {
+      throw new Error("User is not a participant in this quest");
+    }
+
+    if (participant.status === "completed") {
+      throw new Error("Quest already completed by this user");
+    }
+
+    const completion = isTeamQuest(quest)
+      ? this.recordTeamContribution(quest, inboxId, result, rewards ?? quest.rewards)
+      : this.awardCompletion(quest, inboxId, rewards ?? quest.rewards, result);
+
+    const records = this.repository.listParticipantRecords(questId);
+    if (
+      records.length >= quest.participantLimits.max &&
+      records.every(p => p.status === "completed")
+    ) {
+      this.transitionQuest(questId, "completed", "All participants completed");
+    }
+    return completion;
+  }
+
+  /**
+   * Award the results of a judged quest and complete it. Each placement
+   * carries its own rewards, scaled by rank.
+   */
+  completeJudgedQuest(questId: string, placements: JudgedPlacement[]): QuestCompletion[] {
+    const quest = this.requireQuest(questId);
+    if (quest.status !== "judging") {
+      throw new Error(`Quest is not being judged (${quest.status})`);
+    }
+
+    const completions = placements
+      .filter(placement => this.repository.getParticipant(questId, placement.inboxId)?.status === "joined")
+      .map(placement =>
+        this.awardCompletion(quest, placement.inboxId, placement.rewards, placement.result, placement.rank)
+      );
+    this.transitionQuest(questId, "completed", QUEST_JUDGED_REASON);
+    return completions;
+  }
+
+  /**
+   * Share a team's rewards among its members once every one of them has
+   * played their part. Returns the completions, or an empty list if the team
+   * is still playing or was already rewarded.
+   */
+  settleTeam(questId: string, teamId: string): QuestCompletion[] {
+    const quest = this.requireQuest(questId);
+    const team = this.repository.getTeam(teamId);
+    if (!team || team.completedAt || !SUBMITTABLE_QUEST_STATUSES.includes(quest.status)) {
+      return [];
+    }
+    if (team.members.length === 0 || !team.members.every(member => member in team.contributions)) {
+      return [];
+    }
+    return this.shareTeamRewards(quest, team);
+  }
+
+  /**
+   * Move a quest to a new status, enforcing the lifecycle rules
+   */
+  transitionQuest(questId: string, to: QuestStatus, reason?: string): Quest {
+    const quest = this.requireQuest(questId);
+    const from = quest.status;
+    assertTransition(quest, to);
+
+    quest.status = to;
+    quest.pausedFrom = to === "paused" ? from : undefined;
+    quest.pausedAt = to === "paused" ? new Date() : undefined;
+    this.repository.saveQuest(quest);
+
+    const transition: QuestTransition = { quest, from, to, reason };
+    this.emit("questTransition", transition);
+    if (to === "expired") {
+      this.emit("questExpired", quest);
+    }
+    console.log(`🔀 Quest "${quest.title}": ${from} → ${to}${reason ? ` (${reason})` : ""}`);
+    return quest;
+  }
+
+  /**
+   * Publish a draft quest. It opens at `startsAt`, right away by default,
+   * and runs for its duration from then.
+   */
+  publishQuest(questId: string, startsAt: Date = new Date(), reason?: string): Quest {
+    const quest = this.requireQuest(questId);
+    if (quest.status !== "draft") {
+      throw new Error(`Quest is not a draft (${quest.status})`);
+    }
+
+    const opensLater = startsAt > new Date();
+    quest.startsAt = opensLater ? startsAt : undefined;
+    quest.expiresAt = new Date(Math.max(startsAt.getTime(), Date.now()) + quest.duration * 60 * 1000);
+    this.repository.saveQuest(quest);
+    return this.transitionQuest(questId, opensLater ? "scheduled" : "open", reason);
+  }
+
+  /**
+   * Pause a running quest
+   */
+  pauseQuest(questId: string, reason?: string): Quest {
+    return this.transitionQuest(questId, "paused", reason);
+  }
+
+  /**
+   * Resume a paused quest to the status it was paused from. The time it
+   * spent paused is added to its deadline.
+   */
+  resumeQuest(questId: string, reason?: string): Quest {
+    const quest = this.requireQuest(questId);
+    if (quest.status !== "paused" || !quest.pausedFrom) {
+      throw new Error("Quest is not paused");
+    }
+    if (quest.pausedAt) {
+      const pausedFor = Math.max(0, Date.now() - quest.pausedAt.getTime());
+      quest.expiresAt = new Date(quest.expiresAt.getTime() + pausedFor);
+      this.repository.saveQuest(quest);
+    }
+    return this.transitionQuest(questId, quest.pausedFrom, reason);
+  }
+
+  /**
+   * Cancel a quest that has not finished yet
+   */
+  cancelQuest(questId: string, reason?: string): Quest {
+    return this.transitionQuest(questId, "cancelled", reason);
+  }
+
+  /**
+   * Close a quest whose time is up: judged quests with entries (or ballots,
+   * for option votes) move to judging, others complete if anyone finished
+   * them, otherwise expire. Teams that played part of a team quest share
+   * what they earned first. Returns false if the quest was not running.
+   */
+  closeQuest(questId: string): boolean {
+    const quest = this.repository.getQuest(questId);
+    if (!quest || !isActiveStatus(quest.status) || quest.status === "judging") {
+      return false;
+    }
+
+    if (quest.status === "in_progress" && isTeamQuest(quest)) {
+      for (const team of this.repository.listTeams(questId)) {
+        if (!team.completedAt && Object.keys(team.contributions).length > 0) {
+          this.shareTeamRewards(quest, team);
+        }
+      }
+    }
+
+    const anyCompleted = this.repository
+      .listParticipantRecords(questId)
+      .some(p => p.status === "completed");
+    const hasEntries = quest.vote?.subject === "options"
+      ? this.repository.listVotes(questId).length > 0
+      : isJudgedQuest(quest) && this.repository.listSubmissions({ questId, status: "verified" }).length > 0;
+
+    if (quest.status === "in_progress" && hasEntries) {
+      this.transitionQuest(questId, "judging", QUEST_TIME_UP_REASON);
+    } else if (quest.status === "in_progress" && anyCompleted) {
+      this.transitionQuest(questId, "completed", QUEST_TIME_UP_REASON);
+    } else {
+      this.transitionQuest(questId, "expired", QUEST_TIME_UP_REASON);
+    }
+    return true;
+  }
+
+  /**
+   * Get or create user profile
+   */
+  getUserProfile(inboxId: string): UserProfile {
+    let profile = this.repository.getUserProfile(inboxId);
+    if (!profile) {
+      profile = createDefaultUserProfile(inboxId);
+      this.repository.saveUserProfile(profile);
+    }
+    return profile;
+  }
+
+  /**
+   * List every known user profile
+   */
+  listUserProfiles(): UserProfile[] {
+    return this.repository.listUserProfiles();
+  }
+
+  /**
+   * Update user preferences based on quest participation
+   */
+  updateUserPreferences(inboxId: string, questType: Quest["type"]): void {
+    const profile = this.getUserProfile(inboxId);
+    if (!profile.preferences.includes(questType)) {
+      profile.preferences.push(questType);
+      this.repository.saveUserProfile(profile);
+    }
+  }
+
+  /**
+   * Award rewards that do not come from completing a quest, such as a quest
+   * chain's bonus
+   */
+  awardBonus(inboxId: string, rewards: Quest["rewards"], reason: string): UserProfile {
+    const profile = this.getUserProfile(inboxId);
+    const levelUp = this.gainXp(profile, rewards.xp);
+    profile.lastActive = new Date();
+    this.repository.saveUserProfile(profile);
+
+    const award: BonusAward = { inboxId, rewards, reason, profile };
+    this.emit("bonusAwarded", award);
+    console.log(`🎁 ${inboxId} earned a ${rewards.xp} XP bonus: ${reason}`);
+    if (levelUp) this.emitLevelUp(levelUp);
+    return profile;
+  }
+
+  /**
+   * Recompute every stored level when the level curve changed since the
+   * last start. Returns the number of profiles whose level changed.
+   */
+  applyLevelCurve(): number {
+    const fingerprint = this.progression.fingerprint;
+    if (this.repository.getSetting(LEVEL_CURVE_SETTING) === fingerprint) {
+      return 0;
+    }
+
+    let changed = 0;
+    for (const profile of this.repository.listUserProfiles()) {
+      const level = this.progression.levelFor(profile.xp);
+      if (level !== profile.level) {
+        profile.level = level;
+        this.repository.saveUserProfile(profile);
+        changed++;
+      }
+    }
+    this.repository.saveSetting(LEVEL_CURVE_SETTING, fingerprint);
+    console.log(`📈 Level curve changed, recomputed levels (${changed} profile(s) updated)`);
+    return changed;
+  }
+
+  /**
+   * Difficulties the highest-level of these players can join
+   */
+  difficultiesOpenTo(inboxIds: string[]): Quest["difficulty"][] {
+    const topLevel = Math.max(1, ...inboxIds.map(inboxId => this.repository.getUserProfile(inboxId)?.level ?? 1));
+    return this.progression.difficultiesFor(topLevel);
+  }
+
+  /**
+   * Add XP to a profile and move its level along the curve; returns the
+   * level-up to announce once the profile is saved
+   */
+  private gainXp(profile: UserProfile, xp: number, questId?: string): LevelUp | undefined {
+    const from = profile.level;
+    profile.xp += xp;
+    profile.level = this.progression.levelFor(profile.xp);
+    return profile.level > from ? { inboxId: profile.inboxId, from, to: profile.level, profile, questId } : undefined;
+  }
+
+  /**
+   * A user's daily and weekly streak as of now
+   */
+  getStreak(inboxId: string): StreakStatus {
+    return this.streaks.status(this.getUserProfile(inboxId).streak);
+  }
+
+  /**
+   * Apply freeze tokens and break streaks for the days players missed, so
+   * stored streaks are current without waiting for their next quest.
+   * Returns the updates of the streaks that changed.
+   */
+  settleStreaks(now: Date = new Date()): StreakUpdate[] {
+    const updates: StreakUpdate[] = [];
+    for (const profile of this.repository.listUserProfiles()) {
+      const { frozenDays, lost } = this.streaks.settle(profile.streak, dayKey(now));
+      if (frozenDays === 0 && lost === 0) continue;
+
+      this.repository.saveUserProfile(profile);
+      const update: StreakUpdate = {
+        inboxId: profile.inboxId,
+        status: this.streaks.status(profile.streak, now),
+        extended: false,
+        frozenDays,
+        lost,
+        freezeEarned: false,
+      };
+      this.emit("streakUpdated", update);
+      updates.push(update);
+    }
+    return updates;
+  }
+
+  /**
+   * Note that a user was reminded of their streak today; returns false if
+   * they already were
+   */
+  markStreakReminded(inboxId: string, now: Date = new Date()): boolean {
+    const profile = this.getUserProfile(inboxId);
+    if (profile.streak.remindedOn === dayKey(now)) {
+      return false;
+    }
+    profile.streak.remindedOn = dayKey(now);
+    this.repository.saveUserProfile(profile);
+    return true;
+  }
+
+  private emitLevelUp(levelUp: LevelUp): void {
+    this.emit("levelUp", levelUp);
+    console.log(`⭐ ${levelUp.inboxId} reached level ${levelUp.to}`);
+  }
+
+  /**
+   * Put a badge on a user's profile. Returns undefined if they already have it.
+   */
+  awardBadge(inboxId: string, badge: Pick<Badge, "id" | "name">, questId?: string): EarnedBadge | undefined {
+    const profile = this.getUserProfile(inboxId);
+    if (profile.badges.some(earned => earned.badgeId === badge.id)) {
+      return undefined;
+    }
+
+    const earned: EarnedBadge = { badgeId: badge.id, name: badge.name, earnedAt: new Date(), questId };
+    profile.badges.push(earned);
+    this.repository.saveUserProfile(profile);
+    return earned;
+  }
+
+  /**
+   * IDs and names of the badges on a user's profile
+   */
+  earnedBadges(inboxId: string): string[] {
+    return this.getUserProfile(inboxId).badges.flatMap(earned => [earned.badgeId, earned.name]);
+  }
+
+  /**
+   * List recorded completions
+   */
+  listCompletions(filter?: CompletionFilter): QuestCompletion[] {
+    return this.repository.listCompletions(filter);
+  }
+
+  private requireQuest(questId: string): Quest {
+    const quest = this.repository.getQuest(questId);
+    if (!quest) {
+      throw new Error("Quest not found");
+    }
+    return quest;
+  }
+
+  /**
+   * Record a team member's part. Rewards wait until the rest of the team
+   * has played, unless this was the last part.
+   */
+  private recordTeamContribution(
+    quest: Quest,
+    inboxId: string,
+    result: any,
+    rewards: Quest["rewards"]
+  ): QuestCompletion | undefined {
+    const team = this.repository.listTeams(quest.id).find(t => t.members.includes(inboxId));
+    if (!team) {
+      throw new Error("You are not on a team for this quest yet");
+    }
+
+    team.contributions[inboxId] = contributionShare(quest, rewards);
+    team.results[inboxId] = result;
+    this.repository.saveTeam(team);
+    this.repository.setParticipantStatus(quest.id, inboxId, "completed");
+
+    const contribution: TeamContribution = { quest, team, inboxId };
+    this.emit("teamContribution", contribution);
+    console.log(`🤝 ${inboxId} played their part for ${team.name} in "${quest.title}"`);
+
+    return this.settleTeam(quest.id, team.id).find(c => c.participantInboxId === inboxId);
+  }
+
+  /**
+   * Award the members of a team who played their part their share of the
+   * team's rewards. Members who never played earn no completion, even when
+   * an equal split would carry them.
+   */
+  private shareTeamRewards(quest: Quest, team: QuestTeam): QuestCompletion[] {
+    team.completedAt = new Date();
+    this.repository.saveTeam(team);
+
+    const split = quest.teams?.split ?? "equal";
+    const played = Array.from(splitTeamRewards(quest, team)).filter(([member]) => member in team.contributions);
+    const completions = played.map(([member, rewards]) =>
+      this.awardCompletion(quest, member, rewards, {
+        team: { id: team.id, name: team.name, split, share: team.contributions[member] ?? 0 },
+        contribution: team.results[member],
+      }, undefined, team.id)
+    );
+
+    this.emit("teamCompleted", team, quest, completions);
+    console.log(`🏁 ${team.name} finished "${quest.title}" (${split} split)`);
+    return completions;
+  }
+
+  /**
+   * Give a participant their rewards, with XP multiplied by their daily
+   * streak, and record the completion
+   */
+  private awardCompletion(
+    quest: Quest,
+    inboxId: string,
+    rewards: Quest["rewards"],
+    result: any,
+    rank?: number,
+    teamId?: string
+  ): QuestCompletion {
+    const profile = this.getUserProfile(inboxId);
+    const activity = this.streaks.recordActivity(profile.streak);
+    const freezeEarned = this.streaks.earnFreeze(profile.streak, quest);
+    const streakMultiplier = this.streaks.multiplier(profile.streak.days);
+    const earned = streakMultiplier > 1 ? { ...rewards, xp: Math.round(rewards.xp * streakMultiplier) } : rewards;
+    const levelUp = this.gainXp(profile, earned.xp, quest.id);
+    if (!profile.completedQuests.includes(quest.id)) {
+      profile.completedQuests.push(quest.id);
+    }
+    profile.socialScore += this.calculateSocialScoreIncrease(quest);
+    profile.lastActive = new Date();
+    this.repository.saveUserProfile(profile);
+
+    const completion: QuestCompletion = {
+      questId: quest.id,
+      participantInboxId: inboxId,
+      completedAt: new Date(),
+      result,
+      rewards: earned,
+      newLevel: profile.level,
+      streakMultiplier: streakMultiplier > 1 ? streakMultiplier : undefined,
+      rank,
+      teamId,
+    };
+    this.repository.saveCompletion(completion);
+    this.repository.setParticipantStatus(quest.id, inboxId, "completed");
+
+    this.emit("participantCompleted", completion, quest);
+    console.log(`🏆 Quest "${quest.title}" completed by ${inboxId}${rank ? ` (rank ${rank})` : ""}`);
+    if (activity.extended || activity.frozenDays > 0 || activity.lost > 0 || freezeEarned) {
+      const update: StreakUpdate = {
+        inboxId,
+        status: this.streaks.status(profile.streak),
+        ...activity,
+        freezeEarned,
+        questId: quest.id,
+      };
+      this.emit("streakUpdated", update);
+    }
+    if (levelUp) this.emitLevelUp(levelUp);
+    return completion;
+  }
+
+  /**
+   * Calculate social score increase based on quest completion
+   */
+  calculateSocialScoreIncrease(quest: Quest): number {
+    let increase = 5;
+
+    // Bonus for different quest types
+    switch (quest.type) {
+      case "community_building":
+        increase += 10;
+        break;
+      case "social_challenge":
+        increase += 8;
+        break;
+      case "knowledge_quest":
+        increase += 6;
+        break;
+      case "creative_contest":
+        increase += 7;
+        break;
+      case "cross_protocol":
+        increase += 9;
+        break;
+    }
+
+    // Bonus for difficulty
+    switch (quest.difficulty) {
+      case "expert":
+        increase += 15;
+        break;
+      case "hard":
+        increase += 10;
+        break;
+      case "medium":
+        increase += 5;
+        break;
+      case "easy":
+        increase += 2;
+        break;
+    }
+
+    return increase;
+  }
+}
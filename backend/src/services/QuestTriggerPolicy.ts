@@ -0,0 +1,145 @@
+import type { QuestRepository } from "../storage/QuestRepository";
+import {
+  TriggerPolicySchema,
+  type TriggerDecision,
+  type TriggerPolicy,
+  type TriggerPolicyOverrides,
+} from "../types/TriggerPolicy";
+import {
+  calculateActivityLevel,
+  calculateEngagement,
+  type AnalyzedMessage,
+} from "../agents/ConversationAnalysis";
+import type { QuestStore } from "./QuestStore";
+
+// Decisions kept per conversation for inspection
+const MAX_DECISIONS_PER_CONVERSATION = 20;
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000;
+
+const isInQuietHours = (hour: number, { start, end }: { start: number; end: number }) =>
+  start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+
+/**
+ * Decides when a conversation should get an automatic quest. Quests are held
+ * back by quiet hours, cooldowns, concurrency limits and too few active
+ * senders, and are started when a conversation is quiet or only a few members
+ * are carrying it. Every decision is logged and stored with its reasons; the
+ * latest ones per conversation are kept.
+ */
+export class QuestTriggerPolicy {
+  private repository: QuestRepository;
+  private store: QuestStore;
+  private defaults: TriggerPolicy;
+
+  constructor(repository: QuestRepository, store: QuestStore, defaults: TriggerPolicyOverrides = {}) {
+    this.repository = repository;
+    this.store = store;
+    this.defaults = TriggerPolicySchema.parse(defaults);
+  }
+
+  /**
+   * Effective policy for a conversation: defaults plus its saved overrides
+   */
+  getPolicy(conversationId: string): TriggerPolicy {
+    return { ...this.defaults, ...this.repository.getTriggerPolicy(conversationId) };
+  }
+
+  /**
+   * Merge overrides into the conversation's saved policy
+   */
+  updatePolicy(conversationId: string, overrides: TriggerPolicyOverrides): TriggerPolicy {
+    const merged = { ...this.repository.getTriggerPolicy(conversationId), ...overrides };
+    this.repository.saveTriggerPolicy(conversationId, merged);
+    return this.getPolicy(conversationId);
+  }
+
+  /**
+   * Decide whether to start a quest after the latest message in a conversation
+   */
+  evaluate(
+    conversationId: string,
+    messages: AnalyzedMessage[],
+    members: unknown[],
+    now: Date = new Date()
+  ): TriggerDecision {
+    const policy = this.getPolicy(conversationId);
+
+    const sorted = [...messages].sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+    const windowMessages = sorted.filter(m => minutesBetween(m.sentAt, now) <= policy.activityWindowMinutes);
+    const latest = sorted.at(-1);
+    const previous = sorted.at(-2);
+
+    const quests = this.store.listQuests({ conversationId });
+    const lastQuest = quests.reduce<Date | undefined>(
+      (newest, q) => (!newest || q.createdAt > newest ? q.createdAt : newest),
+      undefined
+    );
+
+    const metrics: TriggerDecision["metrics"] = {
+      activityLevel: calculateActivityLevel(windowMessages),
+      engagement: Math.round(calculateEngagement(windowMessages, members)),
+      activeSenders: new Set(windowMessages.map(m => m.senderInboxId)).size,
+      activeQuests: this.store.getActiveQuests(conversationId).length,
+      minutesSinceLastQuest: lastQuest ? Math.round(minutesBetween(lastQuest, now)) : undefined,
+      minutesSincePreviousMessage: previous && latest
+        ? Math.round(minutesBetween(previous.sentAt, latest.sentAt))
+        : undefined,
+    };
+
+    const blockers: string[] = [];
+    if (!policy.enabled) {
+      blockers.push("Automatic quests are disabled for this conversation");
+    }
+    if (policy.quietHours && isInQuietHours(now.getHours(), policy.quietHours)) {
+      blockers.push(`Quiet hours (${policy.quietHours.start}:00-${policy.quietHours.end}:00)`);
+    }
+    if (metrics.activeQuests >= policy.maxConcurrentQuests) {
+      blockers.push(`${metrics.activeQuests} active quest(s), limit is ${policy.maxConcurrentQuests}`);
+    }
+    if (metrics.minutesSinceLastQuest !== undefined && metrics.minutesSinceLastQuest < policy.cooldownMinutes) {
+      blockers.push(`Last quest was ${metrics.minutesSinceLastQuest} min ago, cooldown is ${policy.cooldownMinutes} min`);
+    }
+    if (metrics.activeSenders < policy.minActiveSenders) {
+      blockers.push(`${metrics.activeSenders} active sender(s), need ${policy.minActiveSenders}`);
+    }
+
+    const opportunities: string[] = [];
+    // No earlier message in the window also means the chat was silent
+    const lull = metrics.minutesSincePreviousMessage ?? policy.activityWindowMinutes;
+    if (lull >= policy.lullMinutes) {
+      opportunities.push(`Conversation picked up after a ${lull} min lull`);
+    }
+    if (metrics.activityLevel === "low") {
+      opportunities.push("Activity is low");
+    }
+    if (metrics.engagement < policy.maxEngagement) {
+      opportunities.push(`Only ${metrics.engagement}% of members are talking`);
+    }
+
+    const trigger = blockers.length === 0 && opportunities.length > 0;
+    const reasons = trigger
+      ? opportunities
+      : blockers.length > 0
+        ? blockers
+        : [`Conversation is already lively (${metrics.activityLevel} activity, ${metrics.engagement}% engagement)`];
+
+    const decision: TriggerDecision = { conversationId, trigger, reasons, evaluatedAt: now, metrics };
+    this.record(decision);
+    return decision;
+  }
+
+  /**
+   * Recent decisions, newest first, optionally for a single conversation
+   */
+  getDecisions(conversationId?: string, limit = 50): TriggerDecision[] {
+    return this.repository.listTriggerDecisions(conversationId, limit);
+  }
+
+  private record(decision: TriggerDecision): void {
+    this.repository.saveTriggerDecision(decision, MAX_DECISIONS_PER_CONVERSATION);
+    console.log(
+      `${decision.trigger ? "🎯" : "⏸️"} Quest trigger for ${decision.conversationId}: ${decision.trigger ? "yes" : "no"} — ${decision.reasons.join("; ")}`
+    );
+  }
+}
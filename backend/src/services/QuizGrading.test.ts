@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { QuizQuestion } from "../types/Quest";
+import { answerSimilarity, gradeAnswer, resolveChoice } from "./QuizGrading";
+
+const shortAnswer = (answer: string, acceptedAnswers?: string[]): QuizQuestion => ({
+  id: "q1",
+  prompt: "Name it",
+  kind: "short_answer",
+  answer,
+  acceptedAnswers,
+});
+
+const multipleChoice = (choices: string[], answer: string): QuizQuestion => ({
+  id: "q1",
+  prompt: "Pick one",
+  kind: "multiple_choice",
+  choices,
+  answer,
+});
+
+describe("answerSimilarity", () => {
+  test("ignores case, accents, punctuation and leading articles", () => {
+    assert.equal(answerSimilarity("  the Eiffel tower!", "Eiffel Tower"), 1);
+    assert.equal(answerSimilarity("Pokémon", "pokemon"), 1);
+  });
+
+  test("scores typos by edit distance", () => {
+    assert.equal(answerSimilarity("Pari", "Paris"), 0.8);
+    assert.equal(answerSimilarity("Rome", "Paris"), 0);
+  });
+
+  test("needs numbers to match exactly", () => {
+    assert.equal(answerSimilarity("1999", "1990"), 0);
+    assert.equal(answerSimilarity("3.140", "3.14"), 1);
+  });
+
+  test("scores an empty answer as 0", () => {
+    assert.equal(answerSimilarity("?!", "Paris"), 0);
+  });
+});
+
+describe("resolveChoice", () => {
+  const choices = ["Paris", "Rome", "Berlin", "Madrid"];
+
+  test("reads a letter or a 1-based number", () => {
+    assert.equal(resolveChoice("b", choices), 1);
+    assert.equal(resolveChoice("C)", choices), 2);
+    assert.equal(resolveChoice("4.", choices), 3);
+  });
+
+  test("rejects a letter or number past the last choice", () => {
+    assert.equal(resolveChoice("e", choices), undefined);
+    assert.equal(resolveChoice("5", choices), undefined);
+    assert.equal(resolveChoice("0", choices), undefined);
+  });
+
+  test("matches the choice text, allowing small typos", () => {
+    assert.equal(resolveChoice("the berlin", choices), 2);
+    assert.equal(resolveChoice("Madird", ["Paris", "Madrid"]), undefined);
+    assert.equal(resolveChoice("Madridd", choices), 3);
+  });
+
+  test("prefers a choice's text over its number", () => {
+    assert.equal(resolveChoice("4", ["2", "4", "6", "8"]), 1);
+    assert.equal(resolveChoice("3", ["2", "4", "6", "8"]), 2);
+  });
+});
+
+describe("gradeAnswer", () => {
+  test("gives full credit at the correct threshold and half at the close one", () => {
+    const question = shortAnswer("Shakespeare");
+    assert.equal(gradeAnswer(question, "Shakespear").score, 1);
+    assert.equal(gradeAnswer(question, "Shakespaer").score, 0.5);
+    assert.equal(gradeAnswer(question, "Marlowe").score, 0);
+  });
+
+  test("accepts other spellings", () => {
+    assert.equal(gradeAnswer(shortAnswer("United States", ["USA"]), "usa").score, 1);
+  });
+
+  test("gives no partial credit on numbers", () => {
+    assert.equal(gradeAnswer(shortAnswer("1969"), "1968").score, 0);
+    assert.equal(gradeAnswer(shortAnswer("1969"), "1969").score, 1);
+  });
+
+  test("grades multiple choice by the picked choice", () => {
+    const question = multipleChoice(["Paris", "Rome", "Berlin"], "Rome");
+    assert.equal(gradeAnswer(question, "b").score, 1);
+    assert.equal(gradeAnswer(question, "2").score, 1);
+    assert.equal(gradeAnswer(question, "rome").score, 1);
+    assert.deepEqual(gradeAnswer(question, "a"), { score: 0, feedback: "Not quite" });
+    assert.deepEqual(gradeAnswer(question, "Lisbon"), { score: 0, feedback: "\"Lisbon\" is not one of the choices" });
+  });
+});
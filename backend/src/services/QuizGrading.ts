@@ -0,0 +1,116 @@
+import type { QuizQuestion } from "../types/Quest";
+
+// Similarity needed for a short answer to count as correct, or as close for half credit
+export const CORRECT_SIMILARITY = 0.85;
+export const CLOSE_SIMILARITY = 0.65;
+
+export interface GradedAnswer {
+  score: number; // 1 correct, 0.5 close, 0 wrong
+  feedback: string;
+}
+
+const CHOICE_LETTERS = "abcdefghij";
+
+/**
+ * Lowercase, strip accents, punctuation and leading articles
+ */
+export const normalizeAnswer = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s.]/gu, " ")
+    .replace(/\.(?!\d)/g, " ")
+    .replace(/^\s*(the|a|an)\s+/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity of two answers from 0 to 1, after normalising both
+ */
+export const answerSimilarity = (given: string, expected: string): number => {
+  const a = normalizeAnswer(given);
+  const b = normalizeAnswer(expected);
+  if (!a || !b) {
+    return 0;
+  }
+  // Numbers must match exactly; "1999" is not close to "1990"
+  if (!Number.isNaN(Number(a)) && !Number.isNaN(Number(b))) {
+    return Number(a) === Number(b) ? 1 : 0;
+  }
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+/**
+ * Index of the choice an answer picks: the choice text itself, a letter
+ * ("b") or a number ("2"). Text wins, so "4" picks the choice "4" among
+ * "2/4/6/8" rather than the fourth one.
+ */
+export const resolveChoice = (answer: string, choices: string[]): number | undefined => {
+  const exact = choices.findIndex(choice => normalizeAnswer(choice) === normalizeAnswer(answer));
+  if (exact >= 0) {
+    return exact;
+  }
+  const trimmed = answer.trim().toLowerCase().replace(/[).:]$/, "");
+  if (trimmed.length === 1 && CHOICE_LETTERS.includes(trimmed)) {
+    const index = CHOICE_LETTERS.indexOf(trimmed);
+    return index < choices.length ? index : undefined;
+  }
+  if (/^\d+$/.test(trimmed)) {
+    const index = Number(trimmed) - 1;
+    return index >= 0 && index < choices.length ? index : undefined;
+  }
+
+  let best: { index: number; similarity: number } | undefined;
+  choices.forEach((choice, index) => {
+    const similarity = answerSimilarity(answer, choice);
+    if (!best || similarity > best.similarity) best = { index, similarity };
+  });
+  return best && best.similarity >= CORRECT_SIMILARITY ? best.index : undefined;
+};
+
+export const choiceLabel = (index: number): string => CHOICE_LETTERS[index].toUpperCase();
+
+/**
+ * Grade an answer against a question's canonical answer. Feedback never
+ * reveals the answer while others may still be playing.
+ */
+export const gradeAnswer = (question: QuizQuestion, answer: string): GradedAnswer => {
+  if (question.kind === "multiple_choice" && question.choices?.length) {
+    const picked = resolveChoice(answer, question.choices);
+    if (picked === undefined) {
+      return { score: 0, feedback: `"${answer}" is not one of the choices` };
+    }
+    const correct = question.choices.findIndex(c => normalizeAnswer(c) === normalizeAnswer(question.answer));
+    return picked === correct
+      ? { score: 1, feedback: "Correct!" }
+      : { score: 0, feedback: "Not quite" };
+  }
+
+  const similarity = Math.max(
+    ...[question.answer, ...(question.acceptedAnswers ?? [])].map(expected => answerSimilarity(answer, expected))
+  );
+  if (similarity >= CORRECT_SIMILARITY) {
+    return { score: 1, feedback: "Correct!" };
+  }
+  if (similarity >= CLOSE_SIMILARITY) {
+    return { score: 0.5, feedback: "Close, half credit" };
+  }
+  return { score: 0, feedback: "Not quite" };
+};
@@ -0,0 +1,175 @@
+import { EventEmitter } from "events";
+import type { Quest, QuestCompletion, QuizAnswer, QuizQuestion } from "../types/Quest";
+import type { QuestRepository } from "../storage/QuestRepository";
+import type { QuestStore } from "./QuestStore";
+import { SUBMITTABLE_QUEST_STATUSES } from "./QuestLifecycle";
+import { choiceLabel, gradeAnswer, resolveChoice, type GradedAnswer } from "./QuizGrading";
+
+// Question without its answers, safe to show participants
+export type PublicQuizQuestion = Omit<QuizQuestion, "answer" | "acceptedAnswers">;
+
+export const publicQuizQuestions = (quest: Quest): PublicQuizQuestion[] =>
+  (quest.questions ?? []).map(({ answer: _answer, acceptedAnswers: _accepted, ...question }) => question);
+
+export interface QuizAnswerResult extends GradedAnswer {
+  question: PublicQuizQuestion;
+  answered: number;
+  total: number;
+  // Set once the last question is answered and rewards are awarded; in team
+  // quests only once the whole team has played
+  completion?: QuestCompletion;
+}
+
+export interface QuizScore {
+  inboxId: string;
+  points: number; // sum of question scores
+  answered: number;
+  total: number;
+  finished: boolean;
+  lastAnsweredAt?: Date;
+}
+
+/**
+ * Runs the question bank of knowledge quests: grades each answer once,
+ * completes the participant after their last question with XP scaled by
+ * their score, and keeps a per-quest scoreboard.
+ *
+ * Emits "questionAnswered" (answer, quest) and "quizFinished" (score, quest).
+ */
+export class QuizService extends EventEmitter {
+  private repository: QuestRepository;
+  private store: QuestStore;
+
+  constructor(repository: QuestRepository, store: QuestStore) {
+    super();
+    this.repository = repository;
+    this.store = store;
+  }
+
+  /**
+   * Questions of a quest without their answers
+   */
+  getQuestions(quest: Quest): PublicQuizQuestion[] {
+    return publicQuizQuestions(quest);
+  }
+
+  /**
+   * Grade a participant's answer to one question. Each question can be
+   * answered once; the question is found by ID or by its 1-based number.
+   */
+  answer(questId: string, inboxId: string, questionRef: string, answer: string): QuizAnswerResult {
+    const quest = this.requireQuest(questId);
+    const questions = quest.questions ?? [];
+    if (questions.length === 0) {
+      throw new Error("This quest has no questions");
+    }
+    if (!SUBMITTABLE_QUEST_STATUSES.includes(quest.status)) {
+      throw new Error(`Quest is not accepting answers (${quest.status})`);
+    }
+    const participant = this.repository.getParticipant(questId, inboxId);
+    if (!participant) {
+      throw new Error("User is not a participant in this quest");
+    }
+    if (participant.status === "completed") {
+      throw new Error("You already finished this quiz");
+    }
+
+    const question = questions.find(q => q.id === questionRef) ?? questions[Number(questionRef) - 1];
+    if (!question) {
+      throw new Error(`No question ${questionRef}, this quest has ${questions.length}`);
+    }
+    if (!answer.trim()) {
+      throw new Error("Missing answer");
+    }
+    // A typo in the letter should not cost the attempt
+    if (question.kind === "multiple_choice" && question.choices?.length &&
+      resolveChoice(answer, question.choices) === undefined) {
+      throw new Error(`Answer with a letter from A to ${choiceLabel(question.choices.length - 1)}`);
+    }
+
+    const graded = gradeAnswer(question, answer);
+    const saved: QuizAnswer = {
+      questId,
+      questionId: question.id,
+      participantInboxId: inboxId,
+      answer: answer.trim(),
+      score: graded.score,
+      answeredAt: new Date(),
+    };
+    if (!this.repository.saveQuizAnswer(saved)) {
+      throw new Error(`You already answered question ${questions.indexOf(question) + 1}`);
+    }
+    this.emit("questionAnswered", saved, quest);
+
+    const answers = this.repository.listQuizAnswers({ questId, participantInboxId: inboxId });
+    const result: QuizAnswerResult = {
+      ...graded,
+      question: this.getQuestions(quest)[questions.indexOf(question)],
+      answered: answers.length,
+      total: questions.length,
+    };
+
+    if (answers.length >= questions.length) {
+      result.completion = this.finish(quest, inboxId, answers);
+    }
+    return result;
+  }
+
+  /**
+   * Participants ranked by points, then by who finished first
+   */
+  getScoreboard(questId: string): QuizScore[] {
+    const quest = this.requireQuest(questId);
+    const total = quest.questions?.length ?? 0;
+    const scores = new Map<string, QuizScore>();
+
+    for (const answer of this.repository.listQuizAnswers({ questId })) {
+      const score = scores.get(answer.participantInboxId) ??
+        { inboxId: answer.participantInboxId, points: 0, answered: 0, total, finished: false };
+      score.points += answer.score;
+      score.answered += 1;
+      score.finished = score.answered >= total;
+      score.lastAnsweredAt = answer.answeredAt;
+      scores.set(answer.participantInboxId, score);
+    }
+
+    return Array.from(scores.values()).sort((a, b) =>
+      b.points - a.points ||
+      Number(b.finished) - Number(a.finished) ||
+      (a.lastAnsweredAt?.getTime() ?? 0) - (b.lastAnsweredAt?.getTime() ?? 0)
+    );
+  }
+
+  /**
+   * Complete the participant with rewards scaled by the share of points earned
+   */
+  private finish(quest: Quest, inboxId: string, answers: QuizAnswer[]): QuestCompletion | undefined {
+    const total = quest.questions?.length ?? answers.length;
+    const points = answers.reduce((sum, a) => sum + a.score, 0);
+    const share = total > 0 ? points / total : 0;
+
+    const completion = this.store.completeQuest(
+      quest.id,
+      inboxId,
+      { quiz: { points, total } },
+      {
+        xp: Math.round(quest.rewards.xp * share),
+        tokens: quest.rewards.tokens !== undefined ? Math.round(quest.rewards.tokens * share) : undefined,
+        badges: share === 1 ? quest.rewards.badges : [],
+      }
+    );
+
+    const score: QuizScore = { inboxId, points, answered: answers.length, total, finished: true };
+    this.emit("quizFinished", score, quest);
+    console.log(`🧠 ${inboxId} finished "${quest.title}" with ${points}/${total}`);
+    return completion;
+  }
+
+  private requireQuest(questId: string): Quest {
+    const quest = this.store.getQuest(questId);
+    if (!quest) {
+      throw new Error("Quest not found");
+    }
+    return quest;
+  }
+}
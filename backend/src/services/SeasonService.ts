@@ -0,0 +1,297 @@
+import { EventEmitter } from "events";
+import { v4 as uuidv4 } from "uuid";
+import type { QuestCompletion } from "../types/Quest";
+import {
+  SeasonConfigSchema,
+  SeasonRewardSchema,
+  type Season,
+  type SeasonConfig,
+  type SeasonReward,
+  type SeasonScore,
+  type SeasonStanding,
+} from "../types/Season";
+import type { QuestRepository } from "../storage/QuestRepository";
+import type { JobScheduler } from "./JobScheduler";
+import type { BonusAward, QuestStore } from "./QuestStore";
+import { formatZodIssues, parseJsonEnv } from "../helper";
+
+export const SEASON_ROLLOVER_JOB_TYPE = "season_rollover";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SeasonPlacement {
+  season: Season;
+  xp: number;
+  questsCompleted: number;
+  rank?: number; // unset until the player earns XP this season
+}
+
+export interface NewSeason {
+  name?: string;
+  startsAt: Date;
+  endsAt: Date;
+  rewards?: SeasonReward[];
+}
+
+/**
+ * Runs leaderboard seasons. XP earned from quests and bonuses while a season
+ * is active is tallied for it alongside lifetime XP. When a season ends its
+ * standings are archived with final ranks, the top players get the season
+ * rewards, and the next season starts: one scheduled by an admin, or a new
+ * one of the configured length right after it.
+ *
+ * Emits "seasonStarted" (season) and "seasonEnded" (season, standings).
+ */
+export class SeasonService extends EventEmitter {
+  private repository: QuestRepository;
+  private store: QuestStore;
+  private scheduler: JobScheduler;
+  private config: SeasonConfig;
+
+  constructor(
+    repository: QuestRepository,
+    store: QuestStore,
+    scheduler: JobScheduler,
+    config: SeasonConfig = SeasonConfigSchema.parse({})
+  ) {
+    super();
+    this.repository = repository;
+    this.store = store;
+    this.scheduler = scheduler;
+    this.config = config;
+
+    this.scheduler.registerHandler(SEASON_ROLLOVER_JOB_TYPE, () => {
+      this.rollover();
+    });
+
+    this.store.on("participantCompleted", (completion: QuestCompletion) => {
+      this.addXp(completion.participantInboxId, completion.rewards.xp, 1);
+    });
+
+    this.store.on("bonusAwarded", ({ inboxId, rewards }: BonusAward) => {
+      this.addXp(inboxId, rewards.xp, 0);
+    });
+  }
+
+  getCurrentSeason(): Season | undefined {
+    return this.repository.listSeasons({ status: "active" })[0];
+  }
+
+  getSeason(seasonId: string): Season | undefined {
+    return this.repository.getSeason(seasonId);
+  }
+
+  /**
+   * Every season, newest first
+   */
+  listSeasons(): Season[] {
+    return this.repository.listSeasons().reverse();
+  }
+
+  /**
+   * Ranked standings of a season: the archived final ranks once it ended,
+   * live ranks while it runs
+   */
+  getStandings(seasonId: string): SeasonStanding[] {
+    return this.repository.listSeasonScores(seasonId).map((score, index) => ({
+      rank: score.rank ?? index + 1,
+      inboxId: score.inboxId,
+      xp: score.xp,
+      questsCompleted: score.questsCompleted,
+      rewards: score.rewards,
+    }));
+  }
+
+  /**
+   * A player's tally and rank in a season, the current one by default
+   */
+  getPlacement(inboxId: string, seasonId?: string): SeasonPlacement | undefined {
+    const season = seasonId ? this.repository.getSeason(seasonId) : this.getCurrentSeason();
+    if (!season) {
+      return undefined;
+    }
+    const standing = this.getStandings(season.id).find(s => s.inboxId === inboxId);
+    return {
+      season,
+      xp: standing?.xp ?? 0,
+      questsCompleted: standing?.questsCompleted ?? 0,
+      rank: standing?.rank,
+    };
+  }
+
+  /**
+   * Schedule a season with set dates. It must not overlap another season
+   * that has not ended; it starts right away if its start has passed.
+   */
+  scheduleSeason(input: NewSeason): Season {
+    if (Number.isNaN(input.startsAt.getTime()) || Number.isNaN(input.endsAt.getTime()) || input.endsAt <= input.startsAt) {
+      throw new Error("A season needs a start date before its end date");
+    }
+    if (input.endsAt <= new Date()) {
+      throw new Error("A season cannot end in the past");
+    }
+    const overlapping = this.repository
+      .listSeasons({ status: ["scheduled", "active"] })
+      .find(season => input.startsAt < season.endsAt && season.startsAt < input.endsAt);
+    if (overlapping) {
+      throw new Error(`Overlaps ${overlapping.name} (${overlapping.startsAt.toISOString()} to ${overlapping.endsAt.toISOString()})`);
+    }
+
+    const season = this.createSeason(input.startsAt, input.endsAt, input.name, input.rewards);
+    console.log(`📅 Scheduled ${season.name} from ${season.startsAt.toISOString()} to ${season.endsAt.toISOString()}`);
+    this.rollover();
+    return this.repository.getSeason(season.id) ?? season;
+  }
+
+  /**
+   * Bring seasons up to date: end the active season once its time is up,
+   * start the next one, and schedule the next rollover. Safe to call any
+   * time; called on startup and by the rollover job.
+   */
+  rollover(now: Date = new Date()): Season | undefined {
+    let active = this.getCurrentSeason();
+    while (!active || active.endsAt <= now) {
+      if (active) {
+        this.endSeason(active, now);
+      }
+      const scheduled = this.repository.listSeasons({ status: "scheduled" });
+      const due = scheduled.find(season => season.startsAt <= now);
+      if (due) {
+        active = this.startSeason(due);
+        continue;
+      }
+      active = scheduled.length === 0 ? this.createNextSeason(now) : undefined;
+      break;
+    }
+
+    this.scheduleRollover(active);
+    return active;
+  }
+
+  private addXp(inboxId: string, xp: number, questsCompleted: number): void {
+    const season = this.getCurrentSeason();
+    const now = new Date();
+    if (!season || now < season.startsAt || now >= season.endsAt) {
+      return;
+    }
+    const score: SeasonScore = this.repository.getSeasonScore(season.id, inboxId) ?? {
+      seasonId: season.id,
+      inboxId,
+      xp: 0,
+      questsCompleted: 0,
+      updatedAt: now,
+    };
+    score.xp += xp;
+    score.questsCompleted += questsCompleted;
+    score.updatedAt = now;
+    this.repository.saveSeasonScore(score);
+  }
+
+  /**
+   * Archive the final standings, reward the top players and end the season
+   */
+  private endSeason(season: Season, now: Date): void {
+    const tiers = [...season.rewards].sort((a, b) => a.upToRank - b.upToRank);
+    const standings = this.repository.listSeasonScores(season.id).map((score, index) => {
+      const rank = index + 1;
+      const tier = tiers.find(t => rank <= t.upToRank);
+      const rewards = tier && (tier.xp > 0 || tier.badges.length > 0) ? { xp: tier.xp, badges: tier.badges } : undefined;
+      this.repository.saveSeasonScore({ ...score, rank, rewards });
+      return { rank, inboxId: score.inboxId, xp: score.xp, questsCompleted: score.questsCompleted, rewards };
+    });
+
+    season.status = "ended";
+    season.endedAt = now;
+    this.repository.saveSeason(season);
+    this.emit("seasonEnded", season, standings);
+    console.log(`🏁 ${season.name} ended with ${standings.length} ranked player(s)`);
+
+    // No season is active while these are handed out, so they do not count towards the next one
+    for (const standing of standings) {
+      if (standing.rewards) {
+        this.store.awardBonus(standing.inboxId, standing.rewards, `Finished ${season.name} at rank ${standing.rank}`);
+      }
+    }
+  }
+
+  private startSeason(season: Season): Season {
+    season.status = "active";
+    this.repository.saveSeason(season);
+    this.emit("seasonStarted", season);
+    console.log(`🚩 ${season.name} started, ends ${season.endsAt.toISOString()}`);
+    return season;
+  }
+
+  /**
+   * Start the next automatic season right after the last one. Periods the
+   * server missed entirely are skipped rather than created empty.
+   */
+  private createNextSeason(now: Date): Season | undefined {
+    const length = this.config.lengthDays * DAY_MS;
+    const last = this.repository.listSeasons().pop();
+    let startsAt = last?.endsAt ?? this.config.firstStartsAt ?? now;
+    if (startsAt.getTime() + length <= now.getTime()) {
+      const skipped = Math.floor((now.getTime() - startsAt.getTime()) / length);
+      startsAt = new Date(startsAt.getTime() + skipped * length);
+    }
+
+    const season = this.createSeason(startsAt, new Date(startsAt.getTime() + length));
+    return season.startsAt <= now ? this.startSeason(season) : undefined;
+  }
+
+  private createSeason(startsAt: Date, endsAt: Date, name?: string, rewards?: SeasonReward[]): Season {
+    const number = Math.max(0, ...this.repository.listSeasons().map(season => season.number)) + 1;
+    const season: Season = {
+      id: uuidv4(),
+      number,
+      name: name?.trim() || `Season ${number}`,
+      startsAt,
+      endsAt,
+      status: "scheduled",
+      rewards: rewards ?? this.config.rewards,
+      createdAt: new Date(),
+    };
+    this.repository.saveSeason(season);
+    return season;
+  }
+
+  /**
+   * Run the rollover when the active season ends, or when the next
+   * scheduled season starts if none is active
+   */
+  private scheduleRollover(active: Season | undefined): void {
+    const runAt = active?.endsAt ?? this.repository.listSeasons({ status: "scheduled" })[0]?.startsAt;
+    if (!runAt) {
+      return;
+    }
+    const pending = this.scheduler.listJobs({ type: SEASON_ROLLOVER_JOB_TYPE, status: "pending" });
+    if (!pending.some(job => job.runAt.getTime() === runAt.getTime())) {
+      this.scheduler.schedule(SEASON_ROLLOVER_JOB_TYPE, runAt);
+    }
+  }
+}
+
+/**
+ * Season settings from SEASON_LENGTH_DAYS, SEASON_START and SEASON_REWARDS,
+ * falling back to 30-day seasons starting on first run with XP and badges
+ * for the top 10.
+ *
+ * - SEASON_REWARDS: e.g. [{"upToRank":1,"xp":500,"badges":["Season Champion"]},{"upToRank":5,"xp":100}]
+ */
+export const createSeasonConfig = (env: NodeJS.ProcessEnv = process.env): SeasonConfig => {
+  const result = SeasonConfigSchema.safeParse({
+    lengthDays: env.SEASON_LENGTH_DAYS ? Number(env.SEASON_LENGTH_DAYS) : undefined,
+    firstStartsAt: env.SEASON_START || undefined,
+    rewards: parseJsonEnv("SEASON_REWARDS", env.SEASON_REWARDS),
+  });
+  if (!result.success) {
+    throw new Error(`Invalid season settings: ${formatZodIssues(result.error).join("; ")}`);
+  }
+  return result.data;
+};
+
+/**
+ * Validate the rewards of a season scheduled through the API
+ */
+export const parseSeasonRewards = (value: unknown): SeasonReward[] | undefined =>
+  value === undefined ? undefined : SeasonRewardSchema.array().parse(value);
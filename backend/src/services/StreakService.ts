@@ -0,0 +1,80 @@
+import { EventEmitter } from "events";
+import type { StreakStatus } from "../types/Streak";
+import type { JobScheduler } from "./JobScheduler";
+import type { QuestStore } from "./QuestStore";
+
+export const STREAK_REMINDER_JOB_TYPE = "streak_reminders";
+
+// Streaks shorter than this end without a reminder
+const MIN_REMINDER_DAYS = 2;
+
+export interface StreakReminder {
+  inboxId: string;
+  status: StreakStatus;
+}
+
+/**
+ * Keeps stored streaks current and warns players whose streak is about to
+ * end. Once a day, at the configured hour, missed days are settled with
+ * freeze tokens and everyone who has not completed a quest yet today with a
+ * streak on the line is reminded once.
+ *
+ * Emits "streakAtRisk" (reminder).
+ */
+export class StreakService extends EventEmitter {
+  private store: QuestStore;
+  private scheduler: JobScheduler;
+
+  constructor(store: QuestStore, scheduler: JobScheduler) {
+    super();
+    this.store = store;
+    this.scheduler = scheduler;
+
+    this.scheduler.registerHandler(STREAK_REMINDER_JOB_TYPE, () => {
+      try {
+        this.sendReminders();
+      } finally {
+        this.scheduleReminders();
+      }
+    });
+  }
+
+  /**
+   * Make sure the next daily reminder run is scheduled
+   */
+  scheduleReminders(now: Date = new Date()): void {
+    if (this.scheduler.listJobs({ type: STREAK_REMINDER_JOB_TYPE, status: "pending" }).length > 0) {
+      return;
+    }
+    const runAt = new Date(now);
+    runAt.setUTCHours(this.store.streaks.config.reminderHourUtc, 0, 0, 0);
+    if (runAt <= now) {
+      runAt.setUTCDate(runAt.getUTCDate() + 1);
+    }
+    this.scheduler.schedule(STREAK_REMINDER_JOB_TYPE, runAt);
+  }
+
+  /**
+   * Settle streaks and remind players whose streak ends tonight. Returns
+   * the reminders sent.
+   */
+  sendReminders(now: Date = new Date()): StreakReminder[] {
+    this.store.settleStreaks(now);
+
+    const reminders: StreakReminder[] = [];
+    for (const profile of this.store.listUserProfiles()) {
+      const status = this.store.streaks.status(profile.streak, now);
+      if (!status.atRisk || status.days < MIN_REMINDER_DAYS || !this.store.markStreakReminded(profile.inboxId, now)) {
+        continue;
+      }
+      const reminder: StreakReminder = { inboxId: profile.inboxId, status };
+      this.emit("streakAtRisk", reminder);
+      reminders.push(reminder);
+    }
+
+    if (reminders.length > 0) {
+      console.log(`🔥 Reminded ${reminders.length} player(s) that their streak is at risk`);
+    }
+    return reminders;
+  }
+}
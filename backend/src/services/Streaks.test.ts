@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { StreakSchema, type Streak } from "../types/Streak";
+import { createStreakTracker } from "./Streaks";
+
+// 2026-01-05 is a Monday
+const on = (day: string, hour = 12) => new Date(`${day}T${String(hour).padStart(2, "0")}:00:00Z`);
+
+const buildStreak = (overrides: Partial<Streak> = {}): Streak => ({ ...StreakSchema.parse({}), ...overrides });
+
+describe("StreakTracker", () => {
+  const tracker = createStreakTracker({});
+
+  describe("recordActivity", () => {
+    test("extends the streak once a day", () => {
+      const streak = buildStreak();
+      assert.deepEqual(tracker.recordActivity(streak, on("2026-01-05")), { extended: true, frozenDays: 0, lost: 0 });
+      assert.equal(tracker.recordActivity(streak, on("2026-01-05", 20)).extended, false);
+      tracker.recordActivity(streak, on("2026-01-06"));
+
+      assert.equal(streak.days, 2);
+      assert.equal(streak.bestDays, 2);
+      assert.equal(streak.lastActiveDay, "2026-01-06");
+    });
+
+    test("covers missed days with freeze tokens", () => {
+      const streak = buildStreak({ days: 3, bestDays: 3, lastActiveDay: "2026-01-05", freezeTokens: 2 });
+
+      const activity = tracker.recordActivity(streak, on("2026-01-08"));
+
+      assert.deepEqual(activity, { extended: true, frozenDays: 2, lost: 0 });
+      assert.equal(streak.days, 4);
+      assert.equal(streak.freezeTokens, 0);
+    });
+
+    test("breaks the streak when the tokens do not cover every missed day", () => {
+      const streak = buildStreak({ days: 3, bestDays: 5, lastActiveDay: "2026-01-05", freezeTokens: 1 });
+
+      const activity = tracker.recordActivity(streak, on("2026-01-08"));
+
+      assert.deepEqual(activity, { extended: true, frozenDays: 0, lost: 3 });
+      assert.equal(streak.days, 1);
+      assert.equal(streak.bestDays, 5);
+      // Tokens are kept for the next streak
+      assert.equal(streak.freezeTokens, 1);
+    });
+
+    test("counts consecutive weeks from Monday and restarts after a missed week", () => {
+      const streak = buildStreak();
+      tracker.recordActivity(streak, on("2026-01-11")); // Sunday
+      tracker.recordActivity(streak, on("2026-01-12")); // Monday of the next week
+      assert.equal(streak.weeks, 2);
+      assert.equal(streak.lastActiveWeek, "2026-01-12");
+
+      tracker.recordActivity(streak, on("2026-01-18"));
+      assert.equal(streak.weeks, 2);
+
+      tracker.recordActivity(streak, on("2026-01-19"));
+      assert.equal(streak.weeks, 3);
+
+      tracker.recordActivity(streak, on("2026-02-09"));
+      assert.equal(streak.weeks, 1);
+      assert.equal(streak.bestWeeks, 3);
+    });
+  });
+
+  describe("settle", () => {
+    test("leaves a streak that is up to date alone", () => {
+      const streak = buildStreak({ days: 2, lastActiveDay: "2026-01-05", freezeTokens: 1 });
+      assert.deepEqual(tracker.settle(streak, "2026-01-06"), { frozenDays: 0, lost: 0 });
+      assert.equal(streak.freezeTokens, 1);
+    });
+
+    test("moves the last active day up to yesterday when tokens cover the gap", () => {
+      const streak = buildStreak({ days: 2, lastActiveDay: "2026-01-05", freezeTokens: 3 });
+      assert.deepEqual(tracker.settle(streak, "2026-01-08"), { frozenDays: 2, lost: 0 });
+      assert.equal(streak.lastActiveDay, "2026-01-07");
+      assert.equal(streak.freezeTokens, 1);
+    });
+
+    test("resets the weekly streak once a whole week was missed", () => {
+      const streak = buildStreak({ weeks: 4, lastActiveWeek: "2026-01-05" });
+      tracker.settle(streak, "2026-01-18");
+      assert.equal(streak.weeks, 4);
+      tracker.settle(streak, "2026-01-19");
+      assert.equal(streak.weeks, 0);
+    });
+  });
+
+  describe("multiplier", () => {
+    test("adds 10% per streak day up to double", () => {
+      assert.equal(tracker.multiplier(0), 1);
+      assert.equal(tracker.multiplier(1), 1);
+      assert.equal(tracker.multiplier(2), 1.1);
+      assert.equal(tracker.multiplier(11), 2);
+      assert.equal(tracker.multiplier(40), 2);
+    });
+
+    test("is capped by STREAK_MAX_MULTIPLIER", () => {
+      assert.equal(createStreakTracker({ STREAK_MAX_MULTIPLIER: "1.5" }).multiplier(40), 1.5);
+    });
+  });
+
+  describe("status", () => {
+    test("shows a streak that continues today as at risk without changing it", () => {
+      const streak = buildStreak({ days: 3, bestDays: 3, lastActiveDay: "2026-01-05" });
+
+      const status = tracker.status(streak, on("2026-01-06"));
+
+      assert.equal(status.days, 3);
+      assert.equal(status.activeToday, false);
+      assert.equal(status.atRisk, true);
+      // The multiplier today's first quest would earn
+      assert.equal(status.multiplier, 1.3);
+      assert.deepEqual(streak, buildStreak({ days: 3, bestDays: 3, lastActiveDay: "2026-01-05" }));
+    });
+
+    test("shows a broken streak as ended", () => {
+      const status = tracker.status(buildStreak({ days: 3, lastActiveDay: "2026-01-05" }), on("2026-01-08"));
+      assert.equal(status.days, 0);
+      assert.equal(status.atRisk, false);
+      assert.equal(status.multiplier, 1);
+    });
+
+    test("uses freeze tokens without spending the stored ones", () => {
+      const streak = buildStreak({ days: 3, lastActiveDay: "2026-01-05", freezeTokens: 2 });
+
+      const status = tracker.status(streak, on("2026-01-07"));
+
+      assert.equal(status.days, 3);
+      assert.equal(status.freezeTokens, 1);
+      assert.equal(status.lastActiveDay, "2026-01-06");
+      assert.equal(streak.freezeTokens, 2);
+    });
+  });
+});
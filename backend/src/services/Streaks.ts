@@ -0,0 +1,156 @@
+import type { Quest } from "../types/Quest";
+import {
+  StreakConfigSchema,
+  StreakSchema,
+  type Streak,
+  type StreakConfig,
+  type StreakStatus,
+} from "../types/Streak";
+import { formatZodIssues } from "../helper";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC day of a date, e.g. "2025-06-30"
+ */
+export const dayKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const addDays = (day: string, days: number): string =>
+  dayKey(new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS));
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+/**
+ * Monday of the UTC week a day falls in
+ */
+export const weekKey = (day: string): string =>
+  addDays(day, -((new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7));
+
+export interface StreakActivity {
+  extended: boolean; // the day counted for the first time
+  frozenDays: number;
+  lost: number; // length of the streak that broke, 0 if none
+}
+
+/**
+ * Daily and weekly streak rules: how activity extends a streak, how freeze
+ * tokens cover missed days and what a streak multiplies XP by. Works on the
+ * streak stored on a profile; saving it is up to the caller.
+ */
+export class StreakTracker {
+  readonly config: StreakConfig;
+
+  constructor(config: StreakConfig = StreakConfigSchema.parse({})) {
+    this.config = config;
+  }
+
+  /**
+   * Count a completed quest towards the streak of the day it happened
+   */
+  recordActivity(streak: Streak, at: Date = new Date()): StreakActivity {
+    const today = dayKey(at);
+    const { frozenDays, lost } = this.settle(streak, today);
+
+    const week = weekKey(today);
+    if (streak.lastActiveWeek !== week) {
+      streak.weeks = streak.lastActiveWeek === addDays(week, -7) ? streak.weeks + 1 : 1;
+      streak.bestWeeks = Math.max(streak.bestWeeks, streak.weeks);
+      streak.lastActiveWeek = week;
+    }
+
+    if (streak.lastActiveDay === today) {
+      return { extended: false, frozenDays, lost };
+    }
+    streak.days = streak.lastActiveDay === addDays(today, -1) ? streak.days + 1 : 1;
+    streak.bestDays = Math.max(streak.bestDays, streak.days);
+    streak.lastActiveDay = today;
+    return { extended: true, frozenDays, lost };
+  }
+
+  /**
+   * Bring a streak up to date: missed days are covered by freeze tokens if
+   * there are enough for all of them, otherwise the streak breaks
+   */
+  settle(streak: Streak, today: string): Omit<StreakActivity, "extended"> {
+    if (streak.lastActiveWeek && daysBetween(streak.lastActiveWeek, weekKey(today)) > 7) {
+      streak.weeks = 0;
+    }
+
+    const missed = streak.lastActiveDay ? daysBetween(streak.lastActiveDay, today) - 1 : 0;
+    if (streak.days === 0 || missed <= 0) {
+      return { frozenDays: 0, lost: 0 };
+    }
+    if (streak.freezeTokens >= missed) {
+      streak.freezeTokens -= missed;
+      streak.lastActiveDay = addDays(today, -1);
+      return { frozenDays: missed, lost: 0 };
+    }
+
+    const lost = streak.days;
+    streak.days = 0;
+    return { frozenDays: 0, lost };
+  }
+
+  /**
+   * Give a freeze token for completing a quest of a qualifying difficulty
+   */
+  earnFreeze(streak: Streak, quest: Quest): boolean {
+    if (!this.config.freezeDifficulties.includes(quest.difficulty) || streak.freezeTokens >= this.config.maxFreezeTokens) {
+      return false;
+    }
+    streak.freezeTokens++;
+    return true;
+  }
+
+  /**
+   * XP multiplier for a streak of this many days
+   */
+  multiplier(days: number): number {
+    if (days <= 1) return 1;
+    const multiplier = Math.min(this.config.maxMultiplier, 1 + this.config.multiplierPerDay * (days - 1));
+    return Math.round(multiplier * 100) / 100;
+  }
+
+  /**
+   * The streak as of now, without changing the stored one
+   */
+  status(stored: Streak, now: Date = new Date()): StreakStatus {
+    const today = dayKey(now);
+    const streak = StreakSchema.parse(structuredClone(stored));
+    this.settle(streak, today);
+
+    const activeToday = streak.lastActiveDay === today;
+    const continues = streak.days > 0 && streak.lastActiveDay === addDays(today, -1);
+    return {
+      days: streak.days,
+      bestDays: streak.bestDays,
+      weeks: streak.weeks,
+      bestWeeks: streak.bestWeeks,
+      freezeTokens: streak.freezeTokens,
+      multiplier: this.multiplier(activeToday ? streak.days : continues ? streak.days + 1 : 1),
+      activeToday,
+      atRisk: continues && streak.freezeTokens === 0,
+      lastActiveDay: streak.lastActiveDay,
+    };
+  }
+}
+
+/**
+ * Build the streak rules from STREAK_MULTIPLIER_PER_DAY, STREAK_MAX_MULTIPLIER,
+ * STREAK_MAX_FREEZES and STREAK_REMINDER_HOUR, falling back to +10% XP per
+ * streak day up to double, at most 3 freeze tokens and reminders at 18:00 UTC
+ */
+export const createStreakTracker = (env: NodeJS.ProcessEnv = process.env): StreakTracker => {
+  const number = (value: string | undefined) => (value ? Number(value) : undefined);
+  const result = StreakConfigSchema.safeParse({
+    multiplierPerDay: number(env.STREAK_MULTIPLIER_PER_DAY),
+    maxMultiplier: number(env.STREAK_MAX_MULTIPLIER),
+    maxFreezeTokens: number(env.STREAK_MAX_FREEZES),
+    reminderHourUtc: number(env.STREAK_REMINDER_HOUR),
+  });
+  if (!result.success) {
+    throw new Error(`Invalid streak settings: ${formatZodIssues(result.error).join("; ")}`);
+  }
+  return new StreakTracker(result.data);
+};
@@ -0,0 +1,287 @@
+import { EventEmitter } from "events";
+import { v4 as uuidv4 } from "uuid";
+import type {
+  Quest,
+  ProofRequirement,
+  ProofSubmission,
+  ProofType,
+  QuestCompletion,
+  QuestSubmission,
+  SubmissionStatus,
+} from "../types/Quest";
+import type { QuestRepository, SubmissionFilter } from "../storage/QuestRepository";
+import type { QuestStore } from "./QuestStore";
+import {
+  SUBMITTABLE_QUEST_STATUSES,
+  isJudgedQuest,
+  isTerminalStatus,
+  type QuestTransition,
+} from "./QuestLifecycle";
+import {
+  PROOF_TYPE_LABELS,
+  resolveProofRequirement,
+  type ProofVerifier,
+  type VerificationResult,
+} from "./ProofVerifiers";
+
+export interface SubmissionOutcome {
+  submission: QuestSubmission;
+  // Set once the submission is verified and rewards are awarded
+  completion?: QuestCompletion;
+}
+
+/**
+ * Holds quest completions as pending submissions until their proof is
+ * verified. Verified submissions are awarded through QuestStore, except in
+ * judged quests where they are entries ranked by ContestJudge; rejected ones
+ * keep the reason so it can be shown to the participant.
+ *
+ * Emits "submissionCreated", "submissionPending", "submissionVerified"
+ * (submission, completion) and "submissionRejected", plus "submissionReviewed"
+ * (outcome) when a submission is settled after the participant submitted it,
+ * by a moderator or because the quest ended.
+ */
+export class SubmissionService extends EventEmitter {
+  private repository: QuestRepository;
+  private store: QuestStore;
+  private verifiers: Record<ProofType, ProofVerifier>;
+
+  constructor(repository: QuestRepository, store: QuestStore, verifiers: Record<ProofType, ProofVerifier>) {
+    super();
+    this.repository = repository;
+    this.store = store;
+    this.verifiers = verifiers;
+
+    this.store.on("questTransition", ({ quest, to }: QuestTransition) => {
+      if (isTerminalStatus(to) || to === "judging") {
+        this.rejectPending(quest.id, `Quest moved to ${to} before your proof was verified`);
+      }
+    });
+  }
+
+  /**
+   * Proof a quest asks for, falling back to the default for its type
+   */
+  getProofRequirement(quest: Quest): ProofRequirement {
+    return resolveProofRequirement(quest);
+  }
+
+  /**
+   * Submit proof for a quest and verify it. The proof type defaults to the
+   * one the quest asks for.
+   */
+  async submit(
+    questId: string,
+    inboxId: string,
+    proof: Partial<ProofSubmission>
+  ): Promise<SubmissionOutcome> {
+    const quest = this.requireQuest(questId);
+    const requirement = this.getProofRequirement(quest);
+
+    if (!SUBMITTABLE_QUEST_STATUSES.includes(quest.status)) {
+      throw new Error(`Quest is not accepting completions (${quest.status})`);
+    }
+    if (quest.questions?.length) {
+      throw new Error("This quest is completed by answering its questions, see them with /quiz");
+    }
+    if (quest.vote?.subject === "options") {
+      throw new Error("This quest is completed by voting, see the options with /vote");
+    }
+    const participant = this.repository.getParticipant(questId, inboxId);
+    if (!participant) {
+      throw new Error("User is not a participant in this quest");
+    }
+    if (participant.status === "completed") {
+      throw new Error("Quest already completed by this user");
+    }
+    if (proof.type && proof.type !== requirement.type) {
+      throw new Error(`This quest needs ${PROOF_TYPE_LABELS[requirement.type]} as proof`);
+    }
+    const previous = this.repository.listSubmissions({ questId, participantInboxId: inboxId, status: ["pending", "verified"] });
+    if (previous.some(s => s.status === "pending")) {
+      throw new Error("You already have a submission waiting for verification");
+    }
+    if (previous.length > 0) {
+      throw new Error("You already entered this contest");
+    }
+    // Hashes are hex, so the same transaction can be typed in either case
+    const value = requirement.type === "tx_hash" ? proof.value?.trim().toLowerCase() ?? "" : proof.value?.trim() ?? "";
+    if (requirement.type === "tx_hash" && this.repository.listSubmissions({ proofValue: value, status: ["pending", "verified"] }).length > 0) {
+      throw new Error("That transaction was already submitted as proof");
+    }
+
+    const submission: QuestSubmission = {
+      id: uuidv4(),
+      questId,
+      participantInboxId: inboxId,
+      proof: { type: requirement.type, value, messageId: proof.messageId },
+      status: "pending",
+      confirmations: [],
+      submittedAt: new Date(),
+    };
+    this.repository.saveSubmission(submission);
+    this.emit("submissionCreated", submission);
+
+    let result: VerificationResult;
+    try {
+      result = await this.verifiers[requirement.type].verify(submission, {
+        quest,
+        requirement,
+        joinedAt: participant.joinedAt,
+      });
+    } catch (error) {
+      console.error(`❌ Could not verify ${requirement.type} proof for "${quest.title}":`, error);
+      result = { status: "pending", reason: "Verification is temporarily unavailable, a moderator will review it" };
+    }
+    return this.apply(submission, result);
+  }
+
+  /**
+   * Record another participant vouching for a peer-confirmed submission
+   */
+  async confirm(submissionId: string, confirmerInboxId: string): Promise<SubmissionOutcome> {
+    const submission = this.requireSubmission(submissionId);
+    const quest = this.requireQuest(submission.questId);
+    const requirement = this.getProofRequirement(quest);
+
+    if (submission.status !== "pending" || submission.proof.type !== "peer_confirmation") {
+      throw new Error("This submission is not waiting for confirmations");
+    }
+    if (submission.participantInboxId === confirmerInboxId) {
+      throw new Error("You cannot confirm your own submission");
+    }
+    if (!this.repository.getParticipant(quest.id, confirmerInboxId)) {
+      throw new Error("Only participants of this quest can confirm submissions");
+    }
+    if (submission.confirmations.includes(confirmerInboxId)) {
+      throw new Error("You already confirmed this submission");
+    }
+
+    submission.confirmations.push(confirmerInboxId);
+    const result = await this.verifiers.peer_confirmation.verify(submission, {
+      quest,
+      requirement,
+      joinedAt: submission.submittedAt,
+    });
+    return this.apply(submission, result);
+  }
+
+  /**
+   * Verify or reject a pending submission by hand
+   */
+  review(submissionId: string, status: Exclude<SubmissionStatus, "pending">, reason?: string): SubmissionOutcome {
+    const submission = this.requireSubmission(submissionId);
+    if (submission.status !== "pending") {
+      throw new Error(`Submission is already ${submission.status}`);
+    }
+    const outcome = this.apply(
+      submission,
+      status === "rejected" ? { status, reason: reason ?? "Rejected by a moderator" } : { status }
+    );
+    this.emit("submissionReviewed", outcome);
+    return outcome;
+  }
+
+  getSubmission(submissionId: string): QuestSubmission | undefined {
+    return this.repository.getSubmission(submissionId);
+  }
+
+  listSubmissions(filter?: SubmissionFilter): QuestSubmission[] {
+    return this.repository.listSubmissions(filter);
+  }
+
+  /**
+   * Find a pending submission by full ID or ID prefix
+   */
+  findPendingSubmission(idOrPrefix: string, questIds?: string[]): QuestSubmission | undefined {
+    const exact = this.repository.getSubmission(idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+    const matches = this.repository
+      .listSubmissions({ status: "pending" })
+      .filter(s => s.id.startsWith(idOrPrefix.toLowerCase()))
+      .filter(s => !questIds || questIds.includes(s.questId));
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  private apply(submission: QuestSubmission, result: VerificationResult): SubmissionOutcome {
+    if (result.status === "pending") {
+      submission.reason = result.reason;
+      this.repository.saveSubmission(submission);
+      this.emit("submissionPending", submission);
+      return { submission };
+    }
+
+    if (result.status === "rejected") {
+      return { submission: this.reject(submission, result.reason ?? "Proof was not accepted") };
+    }
+
+    // Saved as verified first: the completion can close the quest, which
+    // rejects whatever is still pending
+    const quest = this.requireQuest(submission.questId);
+    if (isJudgedQuest(quest) && !SUBMITTABLE_QUEST_STATUSES.includes(quest.status)) {
+      return { submission: this.reject(submission, `Entries are closed (${quest.status})`) };
+    }
+    submission.status = "verified";
+    submission.reason = isJudgedQuest(quest) ? "Entered for judging" : undefined;
+    submission.reviewedAt = new Date();
+    this.repository.saveSubmission(submission);
+
+    // Judged quests award rewards by rank once judging is done
+    if (isJudgedQuest(quest)) {
+      this.emit("submissionVerified", submission);
+      console.log(`🎨 Submission ${submission.id} entered for judging`);
+      return { submission };
+    }
+
+    // Team members' rewards wait for the rest of their team
+    let completion: QuestCompletion | undefined;
+    try {
+      completion = this.store.completeQuest(submission.questId, submission.participantInboxId, {
+        submissionId: submission.id,
+        proof: submission.proof,
+      });
+    } catch (error) {
+      // The quest may have closed while the proof was being checked
+      const reason = error instanceof Error ? error.message : "Could not award the completion";
+      return { submission: this.reject(submission, reason) };
+    }
+
+    this.emit("submissionVerified", submission, completion);
+    console.log(`✅ Submission ${submission.id} verified (${submission.proof.type})`);
+    return { submission, completion };
+  }
+
+  private reject(submission: QuestSubmission, reason: string): QuestSubmission {
+    submission.status = "rejected";
+    submission.reason = reason;
+    submission.reviewedAt = new Date();
+    this.repository.saveSubmission(submission);
+    this.emit("submissionRejected", submission);
+    console.log(`🚫 Submission ${submission.id} rejected: ${reason}`);
+    return submission;
+  }
+
+  private rejectPending(questId: string, reason: string): void {
+    for (const submission of this.repository.listSubmissions({ questId, status: "pending" })) {
+      this.emit("submissionReviewed", { submission: this.reject(submission, reason) });
+    }
+  }
+
+  private requireQuest(questId: string): Quest {
+    const quest = this.store.getQuest(questId);
+    if (!quest) {
+      throw new Error("Quest not found");
+    }
+    return quest;
+  }
+
+  private requireSubmission(submissionId: string): QuestSubmission {
+    const submission = this.repository.getSubmission(submissionId);
+    if (!submission) {
+      throw new Error("Submission not found");
+    }
+    return submission;
+  }
+}
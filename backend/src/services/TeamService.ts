@@ -0,0 +1,234 @@
+import { EventEmitter } from "events";
+import { v4 as uuidv4 } from "uuid";
+import type { Quest, QuestTeam } from "../types/Quest";
+import type { QuestRepository } from "../storage/QuestRepository";
+import type { QuestStore } from "./QuestStore";
+import { JOINABLE_QUEST_STATUSES, isTeamQuest, type QuestTransition } from "./QuestLifecycle";
+import { teamProgress } from "./TeamSplit";
+
+const TEAM_NAMES = ["Red", "Blue", "Green", "Gold", "Purple", "Silver", "Orange", "Teal"];
+const MAX_TEAM_NAME_LENGTH = 30;
+
+export interface TeamStanding {
+  team: QuestTeam;
+  size: number; // members the team can hold
+  contributed: number; // members who played their part
+  progress: number; // average share of the rewards earned, 0-1
+  completed: boolean;
+}
+
+/**
+ * Forms the teams of team quests. Auto teams are dealt out evenly when the
+ * quest starts; self-formed teams are created and joined by name, and anyone
+ * still without a team at the start is placed in the smallest one. Late
+ * joiners fill the smallest team with room. Rewards are shared by QuestStore.
+ *
+ * Emits "teamsChanged" (quest, standings) when a roster changes.
+ */
+export class TeamService extends EventEmitter {
+  private repository: QuestRepository;
+  private store: QuestStore;
+
+  constructor(repository: QuestRepository, store: QuestStore) {
+    super();
+    this.repository = repository;
+    this.store = store;
+
+    this.store.on("questTransition", ({ quest, from, to }: QuestTransition) => {
+      if (from === "open" && to === "in_progress" && isTeamQuest(quest)) {
+        this.formTeams(quest);
+      }
+    });
+    this.store.on("participantJoined", ({ quest, inboxId }: { quest: Quest; inboxId: string }) => {
+      // Joins before the start are placed when the quest starts
+      if (isTeamQuest(quest) && quest.status === "in_progress") {
+        this.placeParticipant(quest, inboxId);
+        this.emit("teamsChanged", quest, this.getStandings(quest.id));
+      }
+    });
+    this.store.on("participantLeft", ({ quest, inboxId }: { quest: Quest; inboxId: string }) => {
+      if (isTeamQuest(quest)) {
+        this.removeMember(quest, inboxId);
+      }
+    });
+  }
+
+  /**
+   * Teams of a quest with their progress, in the order they were formed
+   */
+  getStandings(questId: string): TeamStanding[] {
+    const quest = this.requireTeamQuest(questId);
+    return this.repository.listTeams(questId).map(team => ({
+      team,
+      size: quest.teams?.size ?? team.members.length,
+      contributed: team.members.filter(member => member in team.contributions).length,
+      progress: teamProgress(team),
+      completed: team.completedAt !== undefined,
+    }));
+  }
+
+  /**
+   * The team a participant is on
+   */
+  getTeamOf(questId: string, inboxId: string): QuestTeam | undefined {
+    return this.repository.listTeams(questId).find(team => team.members.includes(inboxId));
+  }
+
+  /**
+   * Join a team of a self-formed quest, by number, ID or name. A name no team
+   * has yet creates a new team. Members can switch until they play their part.
+   */
+  joinTeam(questId: string, inboxId: string, teamRef: string): QuestTeam {
+    const quest = this.requireTeamQuest(questId);
+    if (quest.teams?.formation !== "self") {
+      throw new Error("Teams are balanced automatically for this quest");
+    }
+    if (!JOINABLE_QUEST_STATUSES.includes(quest.status)) {
+      throw new Error(`Teams are closed for this quest (${quest.status})`);
+    }
+    const participant = this.repository.getParticipant(questId, inboxId);
+    if (!participant) {
+      throw new Error("Join the quest before picking a team");
+    }
+    if (participant.status === "completed") {
+      throw new Error("You already played your part for your team");
+    }
+
+    const ref = teamRef.trim();
+    const teams = this.repository.listTeams(questId);
+    let team = teams.find(t => t.id === ref) ??
+      (/^\d+$/.test(ref) ? teams[Number(ref) - 1] : undefined) ??
+      teams.find(t => t.name.toLowerCase() === ref.toLowerCase());
+
+    const current = this.getTeamOf(questId, inboxId);
+    if (team && team.id === current?.id) {
+      return team;
+    }
+    if (team && team.members.length >= quest.teams.size) {
+      throw new Error(`${team.name} is full`);
+    }
+    if (!team) {
+      if (/^\d+$/.test(ref)) {
+        throw new Error(`No team ${ref}, this quest has ${teams.length}`);
+      }
+      if (!ref || ref.length > MAX_TEAM_NAME_LENGTH) {
+        throw new Error(`Team names are 1 to ${MAX_TEAM_NAME_LENGTH} characters`);
+      }
+      if (teams.length >= this.maxTeams(quest)) {
+        throw new Error(`All ${teams.length} teams are formed, join one of them`);
+      }
+      team = this.createTeam(quest, ref);
+    }
+
+    if (current) {
+      this.removeMember(quest, inboxId, false);
+    }
+    team.members.push(inboxId);
+    this.repository.saveTeam(team);
+
+    this.emit("teamsChanged", quest, this.getStandings(questId));
+    console.log(`👥 ${inboxId} joined ${team.name} in "${quest.title}"`);
+    return team;
+  }
+
+  /**
+   * Place everyone without a team when the quest starts. Auto formation
+   * deals participants round-robin into as few teams as fit them, so team
+   * sizes differ by at most one.
+   */
+  private formTeams(quest: Quest): void {
+    const size = quest.teams?.size ?? 2;
+    const placed = new Set(this.repository.listTeams(quest.id).flatMap(team => team.members));
+    const unplaced = quest.participants.filter(inboxId => !placed.has(inboxId));
+
+    if (quest.teams?.formation === "auto" && placed.size === 0) {
+      const teams = Array.from({ length: Math.ceil(unplaced.length / size) }, () => this.createTeam(quest));
+      unplaced.forEach((inboxId, index) => teams[index % teams.length].members.push(inboxId));
+      teams.forEach(team => this.repository.saveTeam(team));
+    } else {
+      unplaced.forEach(inboxId => this.placeParticipant(quest, inboxId));
+    }
+
+    this.emit("teamsChanged", quest, this.getStandings(quest.id));
+    console.log(`👥 Formed ${this.repository.listTeams(quest.id).length} team(s) for "${quest.title}"`);
+  }
+
+  /**
+   * Put a participant in the smallest team with room that is still playing,
+   * or in a new team
+   */
+  private placeParticipant(quest: Quest, inboxId: string): QuestTeam {
+    const existing = this.getTeamOf(quest.id, inboxId);
+    if (existing) {
+      return existing;
+    }
+
+    const size = quest.teams?.size ?? 2;
+    const open = this.repository
+      .listTeams(quest.id)
+      .filter(team => !team.completedAt && team.members.length < size)
+      .sort((a, b) => a.members.length - b.members.length);
+    const team = open[0] ?? this.createTeam(quest);
+    team.members.push(inboxId);
+    this.repository.saveTeam(team);
+    return team;
+  }
+
+  /**
+   * Take a member off their team. Empty teams are dropped; a team whose
+   * remaining members have all played is rewarded.
+   */
+  private removeMember(quest: Quest, inboxId: string, announce = true): void {
+    const team = this.getTeamOf(quest.id, inboxId);
+    if (!team) {
+      return;
+    }
+
+    team.members = team.members.filter(member => member !== inboxId);
+    team.contributions = Object.fromEntries(Object.entries(team.contributions).filter(([member]) => member !== inboxId));
+    team.results = Object.fromEntries(Object.entries(team.results).filter(([member]) => member !== inboxId));
+    if (team.members.length === 0) {
+      this.repository.deleteTeam(team.id);
+    } else {
+      this.repository.saveTeam(team);
+      this.store.settleTeam(quest.id, team.id);
+    }
+
+    if (announce) {
+      this.emit("teamsChanged", quest, this.getStandings(quest.id));
+    }
+  }
+
+  private createTeam(quest: Quest, name?: string): QuestTeam {
+    const count = this.repository.listTeams(quest.id).length;
+    const team: QuestTeam = {
+      id: uuidv4(),
+      questId: quest.id,
+      name: name ?? `${TEAM_NAMES[count % TEAM_NAMES.length]} Squad${count >= TEAM_NAMES.length ? ` ${count + 1}` : ""}`,
+      members: [],
+      contributions: {},
+      results: {},
+      createdAt: new Date(),
+    };
+    this.repository.saveTeam(team);
+    return team;
+  }
+
+  /**
+   * Teams needed to seat the quest's participant limit
+   */
+  private maxTeams(quest: Quest): number {
+    return Math.ceil(quest.participantLimits.max / (quest.teams?.size ?? 2));
+  }
+
+  private requireTeamQuest(questId: string): Quest {
+    const quest = this.store.getQuest(questId);
+    if (!quest) {
+      throw new Error("Quest not found");
+    }
+    if (!isTeamQuest(quest)) {
+      throw new Error("This quest is not played in teams");
+    }
+    return quest;
+  }
+}
@@ -0,0 +1,47 @@
+import type { Quest, QuestTeam } from "../types/Quest";
+
+/**
+ * Share of a quest's rewards a member earned with their part, from 0 to 1.
+ * Partial rewards, like a quiz score, count for part of a share.
+ */
+export const contributionShare = (quest: Quest, rewards: Quest["rewards"]): number => {
+  if (quest.rewards.xp <= 0) {
+    return 1;
+  }
+  return Math.min(1, Math.max(0, rewards.xp / quest.rewards.xp));
+};
+
+/**
+ * Progress of a team from 0 to 1: the average share its members earned
+ */
+export const teamProgress = (team: QuestTeam): number => {
+  if (team.members.length === 0) {
+    return 0;
+  }
+  const earned = team.members.reduce((sum, member) => sum + (team.contributions[member] ?? 0), 0);
+  return earned / team.members.length;
+};
+
+/**
+ * Split what a team earned among its members. The pool is every member's
+ * earned share of the quest's rewards; "equal" gives each member the team's
+ * average, so the team carries members who fell short, while "contribution"
+ * gives each member their own share. Badges need a full share: from every
+ * member for an equal split, from the member themselves otherwise.
+ */
+export const splitTeamRewards = (quest: Quest, team: QuestTeam): Map<string, Quest["rewards"]> => {
+  const split = quest.teams?.split ?? "equal";
+  const average = teamProgress(team);
+  const everyoneFinished = team.members.every(member => (team.contributions[member] ?? 0) >= 1);
+
+  return new Map(team.members.map(member => {
+    const own = team.contributions[member] ?? 0;
+    const share = split === "equal" ? average : own;
+    const earnsBadges = split === "equal" ? everyoneFinished : own >= 1;
+    return [member, {
+      xp: Math.round(quest.rewards.xp * share),
+      tokens: quest.rewards.tokens !== undefined ? Math.round(quest.rewards.tokens * share) : undefined,
+      badges: earnsBadges ? quest.rewards.badges : [],
+    }];
+  }));
+};
@@ -0,0 +1,241 @@
+import { EventEmitter } from "events";
+import type { Quest, QuestVote } from "../types/Quest";
+import type { ScheduledJob } from "../types/Job";
+import type { QuestRepository } from "../storage/QuestRepository";
+import { rewardsForRank } from "../agents/ContestJudging";
+import type { JobScheduler } from "./JobScheduler";
+import type { JudgedPlacement, QuestStore } from "./QuestStore";
+import { SUBMITTABLE_QUEST_STATUSES, isVotedQuest, type QuestTransition } from "./QuestLifecycle";
+import { tallyVotes, type VoteCandidate, type VoteTally } from "./VoteTally";
+
+export const VOTE_CLOSE_JOB_TYPE = "vote_close";
+
+// How long members can vote on entries after they close, unless the quest says otherwise
+const DEFAULT_VOTE_MINUTES = 15;
+const MAX_ENTRY_LABEL_LENGTH = 80;
+
+// Whether an inbox is a member of a conversation
+export type GroupMemberLookup = (conversationId: string, inboxId: string) => Promise<boolean>;
+
+export interface VoteResult {
+  vote: QuestVote;
+  // Whether the ballot replaced one the voter cast earlier
+  replaced: boolean;
+  tally: VoteTally;
+}
+
+/**
+ * Runs peer votes. Group members vote once per quest, on its verified entries
+ * or on fixed options, with a single choice or a ranked ballot. Entry votes
+ * stay open for a while after entries close, then rank the entrants and
+ * reward them by place; option votes close with the quest and reward every
+ * participant who voted.
+ *
+ * Emits "voteCast" (vote, quest, tally) and "voteClosed" (quest, tally, placements).
+ */
+export class VoteService extends EventEmitter {
+  private repository: QuestRepository;
+  private store: QuestStore;
+  private scheduler: JobScheduler;
+  private isGroupMember?: GroupMemberLookup;
+
+  constructor(repository: QuestRepository, store: QuestStore, scheduler: JobScheduler, isGroupMember?: GroupMemberLookup) {
+    super();
+    this.repository = repository;
+    this.store = store;
+    this.scheduler = scheduler;
+    this.isGroupMember = isGroupMember;
+
+    this.scheduler.registerHandler(VOTE_CLOSE_JOB_TYPE, (job: ScheduledJob) => {
+      if (job.questId) this.closeVote(job.questId);
+    });
+
+    this.store.on("questTransition", ({ quest, to }: QuestTransition) => {
+      if (to === "judging" && isVotedQuest(quest)) {
+        this.openFinalVoting(quest);
+      }
+    });
+  }
+
+  /**
+   * What members can vote for, in a stable order: the options, or the
+   * verified entries in the order they were submitted
+   */
+  getCandidates(quest: Quest): VoteCandidate[] {
+    if (quest.vote?.subject === "options") {
+      return (quest.vote.options ?? []).map((label, index) => ({ id: String(index + 1), label }));
+    }
+    return this.repository
+      .listSubmissions({ questId: quest.id, status: "verified" })
+      .map(submission => ({
+        id: submission.id,
+        label: (submission.proof.value || `${submission.proof.type} entry`).slice(0, MAX_ENTRY_LABEL_LENGTH),
+        inboxId: submission.participantInboxId,
+      }));
+  }
+
+  /**
+   * Cast a ballot. Candidates are given by number or ID, in order of
+   * preference for ranked-choice votes. Voting again replaces the ballot.
+   */
+  async castVote(questId: string, voterInboxId: string, choiceRefs: string[]): Promise<VoteResult> {
+    const quest = this.requireVotedQuest(questId);
+    if (!this.isVotingOpen(quest)) {
+      throw new Error(`Voting is not open for this quest (${quest.status})`);
+    }
+    if (!(await this.isMember(quest, voterInboxId))) {
+      throw new Error("Only members of the quest's group can vote");
+    }
+
+    const candidates = this.getCandidates(quest);
+    if (candidates.length === 0) {
+      throw new Error("There is nothing to vote for yet");
+    }
+    if (choiceRefs.length === 0) {
+      throw new Error("Pick at least one option");
+    }
+    if (!quest.vote?.rankedChoice && choiceRefs.length > 1) {
+      throw new Error("This vote takes a single choice");
+    }
+
+    const choices = choiceRefs.map(ref => {
+      const candidate = candidates.find(c => c.id === ref) ?? candidates[Number(ref) - 1];
+      if (!candidate) {
+        throw new Error(`No option ${ref}, pick a number from 1 to ${candidates.length}`);
+      }
+      if (candidate.inboxId === voterInboxId) {
+        throw new Error("You cannot vote for your own entry");
+      }
+      return candidate.id;
+    });
+    if (new Set(choices).size !== choices.length) {
+      throw new Error("Each option can only be ranked once");
+    }
+
+    const replaced = this.repository.getVote(questId, voterInboxId) !== undefined;
+    const vote: QuestVote = { questId, voterInboxId, choices, castAt: new Date() };
+    this.repository.saveVote(vote);
+
+    const tally = this.getTally(questId);
+    this.emit("voteCast", vote, quest, tally);
+    console.log(`🗳️ ${voterInboxId} ${replaced ? "changed their vote" : "voted"} on "${quest.title}"`);
+    return { vote, replaced, tally };
+  }
+
+  /**
+   * Whether someone belongs to the group a quest runs in. Participants always
+   * do; anyone else only if membership can be looked up.
+   */
+  async isMember(quest: Quest, inboxId: string): Promise<boolean> {
+    if (quest.participants.includes(inboxId)) {
+      return true;
+    }
+    return this.isGroupMember ? this.isGroupMember(quest.conversationId, inboxId) : false;
+  }
+
+  /**
+   * Live tally of a vote
+   */
+  getTally(questId: string): VoteTally {
+    const quest = this.requireVotedQuest(questId);
+    return tallyVotes(this.getCandidates(quest), this.repository.listVotes(questId), quest.vote?.rankedChoice ?? false);
+  }
+
+  /**
+   * A member's current ballot
+   */
+  getVote(questId: string, voterInboxId: string): QuestVote | undefined {
+    return this.repository.getVote(questId, voterInboxId);
+  }
+
+  isVotingOpen(quest: Quest): boolean {
+    return quest.vote?.subject === "options"
+      ? SUBMITTABLE_QUEST_STATUSES.includes(quest.status)
+      : SUBMITTABLE_QUEST_STATUSES.includes(quest.status) || quest.status === "judging";
+  }
+
+  /**
+   * Count the ballots of a quest in judging, award the results and complete it
+   */
+  closeVote(questId: string): VoteTally | undefined {
+    const quest = this.store.getQuest(questId);
+    if (quest?.status !== "judging" || !isVotedQuest(quest)) {
+      return undefined;
+    }
+
+    const tally = this.getTally(questId);
+    const placements = quest.vote?.subject === "options"
+      ? this.voterPlacements(quest, tally)
+      : this.entrantPlacements(quest, tally);
+
+    this.store.completeJudgedQuest(questId, placements);
+    this.emit("voteClosed", this.store.getQuest(questId) ?? quest, tally, placements);
+    console.log(`🗳️ Vote on "${quest.title}" closed with ${tally.ballots} ballot(s)`);
+    return tally;
+  }
+
+  /**
+   * Entries stay open to votes for a while after the quest closes; option
+   * votes were cast while the quest ran and are counted right away. Closing
+   * is a job either way, so it survives restarts and runs after the judging
+   * transition has reached every listener.
+   */
+  private openFinalVoting(quest: Quest): void {
+    const minutes = quest.vote?.subject === "options" ? 0 : quest.vote?.duration ?? DEFAULT_VOTE_MINUTES;
+    const pending = this.scheduler.listJobs({ questId: quest.id, type: VOTE_CLOSE_JOB_TYPE, status: ["pending", "running"] });
+    if (pending.length === 0) {
+      this.scheduler.schedule(VOTE_CLOSE_JOB_TYPE, new Date(Date.now() + minutes * 60 * 1000), { questId: quest.id });
+    }
+  }
+
+  /**
+   * Entrants ranked by votes, rewarded by place
+   */
+  private entrantPlacements(quest: Quest, tally: VoteTally): JudgedPlacement[] {
+    const candidates = new Map(this.getCandidates(quest).map(c => [c.id, c]));
+    const counts = new Map(tally.counts.map(c => [c.candidateId, c.votes]));
+
+    return tally.ranking.flatMap((candidateId, index) => {
+      const entrant = candidates.get(candidateId)?.inboxId;
+      if (!entrant) return [];
+      const rank = index + 1;
+      return [{
+        inboxId: entrant,
+        rank,
+        rewards: rewardsForRank(quest.rewards, rank),
+        result: {
+          submissionId: candidateId,
+          votes: counts.get(candidateId) ?? 0,
+          ballots: tally.ballots,
+          tieBreak: tally.tieBreaks[candidateId],
+        },
+      }];
+    });
+  }
+
+  /**
+   * Every participant who voted completes the quest with its rewards
+   */
+  private voterPlacements(quest: Quest, tally: VoteTally): JudgedPlacement[] {
+    const winner = tally.counts.find(c => c.candidateId === tally.winner);
+    return this.repository
+      .listVotes(quest.id)
+      .filter(vote => quest.participants.includes(vote.voterInboxId))
+      .map(vote => ({
+        inboxId: vote.voterInboxId,
+        rewards: quest.rewards,
+        result: { choices: vote.choices, winner: winner?.label },
+      }));
+  }
+
+  private requireVotedQuest(questId: string): Quest {
+    const quest = this.store.getQuest(questId);
+    if (!quest) {
+      throw new Error("Quest not found");
+    }
+    if (!isVotedQuest(quest)) {
+      throw new Error("This quest has no vote");
+    }
+    return quest;
+  }
+}
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { QuestVote } from "../types/Quest";
+import { tallyVotes, type VoteCandidate } from "./VoteTally";
+
+const candidates = (...ids: string[]): VoteCandidate[] => ids.map(id => ({ id, label: id.toUpperCase() }));
+
+const ballots = (...choices: string[][]): QuestVote[] =>
+  choices.map((picks, index) => ({
+    questId: "quest-1",
+    voterInboxId: `voter-${index}`,
+    choices: picks,
+    castAt: new Date(Date.UTC(2026, 0, 1, 12, index)),
+  }));
+
+describe("tallyVotes", () => {
+  describe("instant runoff", () => {
+    test("moves the ballots of the eliminated candidate to their next choice", () => {
+      const tally = tallyVotes(candidates("a", "b", "c"), ballots(["a"], ["a"], ["b"], ["b"], ["c", "b"]), true);
+
+      assert.deepEqual(tally.rounds, [{ a: 2, b: 2, c: 1 }, { a: 2, b: 3 }]);
+      assert.equal(tally.winner, "b");
+      assert.deepEqual(tally.ranking, ["b", "a", "c"]);
+      assert.deepEqual(tally.tieBreaks, {});
+      // Counts stay first preferences
+      assert.deepEqual(tally.counts.map(c => [c.candidateId, c.votes]), [["b", 2], ["a", 2], ["c", 1]]);
+    });
+
+    test("stops as soon as a candidate holds a majority", () => {
+      const tally = tallyVotes(candidates("a", "b", "c"), ballots(["a"], ["a"], ["a"], ["b"], ["c"]), true);
+
+      assert.equal(tally.rounds?.length, 1);
+      assert.equal(tally.winner, "a");
+      assert.deepEqual(tally.ranking, ["a", "b", "c"]);
+    });
+
+    test("breaks elimination ties by first choices, then eliminates the later entry", () => {
+      const tally = tallyVotes(
+        candidates("a", "b", "c", "d"),
+        ballots(["a"], ["a"], ["a"], ["b"], ["b"], ["c"], ["d", "c"]),
+        true
+      );
+
+      // c and d tie on one first choice each: the later entry goes first. Then
+      // b and c tie on two votes, and c goes on fewer first choices.
+      assert.deepEqual(tally.rounds, [{ a: 3, b: 2, c: 1, d: 1 }, { a: 3, b: 2, c: 2 }, { a: 3, b: 2 }]);
+      assert.deepEqual(tally.tieBreaks, { d: "Tie broken by earlier entry", c: "Tie broken by first choices" });
+      // The winner, then the rest in reverse order of elimination
+      assert.deepEqual(tally.ranking, ["a", "b", "c", "d"]);
+      assert.equal(tally.winner, "a");
+    });
+
+    test("ignores choices that are not candidates", () => {
+      const tally = tallyVotes(candidates("a", "b"), ballots(["gone", "b"], ["gone"], ["a"], ["b"]), true);
+
+      assert.equal(tally.ballots, 3);
+      assert.deepEqual(tally.rounds, [{ a: 1, b: 2 }]);
+      assert.equal(tally.winner, "b");
+    });
+  });
+
+  describe("plurality", () => {
+    test("ranks by votes, keeping the earlier entry ahead on a tie", () => {
+      const tally = tallyVotes(candidates("a", "b", "c", "d"), ballots(["b"], ["c"], ["d"], ["d"]), false);
+
+      assert.equal(tally.rounds, undefined);
+      assert.deepEqual(tally.ranking, ["d", "b", "c", "a"]);
+      assert.equal(tally.winner, "d");
+      // a has no votes, so its place needs no tie-break
+      assert.deepEqual(tally.tieBreaks, { b: "Tie broken by earlier entry", c: "Tie broken by earlier entry" });
+    });
+
+    test("has no winner without ballots", () => {
+      const tally = tallyVotes(candidates("a", "b"), [], false);
+
+      assert.equal(tally.ballots, 0);
+      assert.equal(tally.winner, undefined);
+      assert.deepEqual(tally.ranking, ["a", "b"]);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import type { QuestVote } from "../types/Quest";
+
+export interface VoteCandidate {
+  id: string;
+  label: string;
+  // Author of the entry, who cannot vote for it; submissions votes only
+  inboxId?: string;
+}
+
+export interface CandidateCount {
+  candidateId: string;
+  label: string;
+  votes: number;
+}
+
+export interface VoteTally {
+  ballots: number;
+  rankedChoice: boolean;
+  // First preferences, sorted by votes
+  counts: CandidateCount[];
+  // Ranked choice only: votes per remaining candidate in each runoff round
+  rounds?: Record<string, number>[];
+  // Candidate IDs from first to last place
+  ranking: string[];
+  winner?: string;
+  // Candidates whose place was decided by a tie-break
+  tieBreaks: Record<string, string>;
+}
+
+const TIE_BROKEN_BY_ORDER = "Tie broken by earlier entry";
+const TIE_BROKEN_BY_FIRST_CHOICES = "Tie broken by first choices";
+
+/**
+ * Count first preferences. Ties keep the candidates' order, so the earlier
+ * entry places higher.
+ */
+const countFirstChoices = (candidates: VoteCandidate[], votes: QuestVote[]): Map<string, number> => {
+  const counts = new Map(candidates.map(c => [c.id, 0]));
+  for (const vote of votes) {
+    const first = vote.choices.find(id => counts.has(id));
+    if (first) counts.set(first, (counts.get(first) ?? 0) + 1);
+  }
+  return counts;
+};
+
+const pluralityRanking = (
+  candidates: VoteCandidate[],
+  firstChoices: Map<string, number>
+): { ranking: string[]; tieBreaks: Record<string, string> } => {
+  const votesFor = (id: string) => firstChoices.get(id) ?? 0;
+  const ranking = candidates.map(c => c.id).sort((a, b) => votesFor(b) - votesFor(a));
+
+  const tieBreaks: Record<string, string> = {};
+  ranking.forEach((id, index) => {
+    const tied = [ranking[index - 1], ranking[index + 1]].some(other => other && votesFor(other) === votesFor(id));
+    if (tied && votesFor(id) > 0) tieBreaks[id] = TIE_BROKEN_BY_ORDER;
+  });
+  return { ranking, tieBreaks };
+};
+
+/**
+ * Instant runoff: the candidate with the fewest votes is eliminated and its
+ * ballots move to their next choice until someone holds a majority. The
+ * ranking is the winner, then the rest in reverse order of elimination.
+ */
+const instantRunoff = (
+  candidates: VoteCandidate[],
+  votes: QuestVote[],
+  firstChoices: Map<string, number>
+): { ranking: string[]; rounds: Record<string, number>[]; tieBreaks: Record<string, string> } => {
+  const order = new Map(candidates.map((c, index) => [c.id, index]));
+  const remaining = candidates.map(c => c.id);
+  const eliminated: string[] = [];
+  const rounds: Record<string, number>[] = [];
+  const tieBreaks: Record<string, string> = {};
+
+  while (remaining.length > 0) {
+    const round = countFirstChoices(candidates.filter(c => remaining.includes(c.id)), votes);
+    rounds.push(Object.fromEntries(round));
+    const active = Array.from(round.values()).reduce((sum, n) => sum + n, 0);
+    const leader = remaining.reduce((top, id) => ((round.get(id) ?? 0) > (round.get(top) ?? 0) ? id : top));
+    if (active === 0 || remaining.length === 1 || (round.get(leader) ?? 0) * 2 > active) {
+      break;
+    }
+
+    // Eliminate the weakest; ties go to first preferences, then the later entry goes first
+    const fewest = Math.min(...remaining.map(id => round.get(id) ?? 0));
+    const weakest = remaining.filter(id => (round.get(id) ?? 0) === fewest);
+    weakest.sort((a, b) =>
+      (firstChoices.get(a) ?? 0) - (firstChoices.get(b) ?? 0) ||
+      (order.get(b) ?? 0) - (order.get(a) ?? 0)
+    );
+    const out = weakest[0];
+    if (weakest.length > 1) {
+      tieBreaks[out] = (firstChoices.get(out) ?? 0) !== (firstChoices.get(weakest[1]) ?? 0)
+        ? TIE_BROKEN_BY_FIRST_CHOICES
+        : TIE_BROKEN_BY_ORDER;
+    }
+    remaining.splice(remaining.indexOf(out), 1);
+    eliminated.push(out);
+  }
+
+  // Candidates still standing are ordered by their last round
+  const last = rounds[rounds.length - 1] ?? {};
+  const standing = [...remaining].sort((a, b) => (last[b] ?? 0) - (last[a] ?? 0));
+  return { ranking: [...standing, ...eliminated.reverse()], rounds, tieBreaks };
+};
+
+/**
+ * Tally the ballots of a vote
+ */
+export const tallyVotes = (candidates: VoteCandidate[], votes: QuestVote[], rankedChoice: boolean): VoteTally => {
+  const firstChoices = countFirstChoices(candidates, votes);
+  const result: { ranking: string[]; rounds?: Record<string, number>[]; tieBreaks: Record<string, string> } =
+    rankedChoice ? instantRunoff(candidates, votes, firstChoices) : pluralityRanking(candidates, firstChoices);
+
+  const labels = new Map(candidates.map(c => [c.id, c.label]));
+  const counts = result.ranking
+    .map(id => ({ candidateId: id, label: labels.get(id) ?? id, votes: firstChoices.get(id) ?? 0 }))
+    .sort((a, b) => b.votes - a.votes);
+  const ballots = votes.filter(v => v.choices.some(id => labels.has(id))).length;
+
+  return {
+    ballots,
+    rankedChoice,
+    counts,
+    rounds: result.rounds,
+    ranking: result.ranking,
+    winner: ballots > 0 ? result.ranking[0] : undefined,
+    tieBreaks: result.tieBreaks,
+  };
+};
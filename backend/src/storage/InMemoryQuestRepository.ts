@@ -0,0 +1,541 @@
+import type {
+  Quest,
+  QuestParticipant,
+  ParticipantStatus,
+  UserProfile,
+  QuestCompletion,
+  QuestSubmission,
+  QuizAnswer,
+  QuestVote,
+  QuestTeam,
+  QuestChain,
+  QuestRejection,
+} from "../types/Quest";
+import type { Badge } from "../types/Badge";
+import type { Season, SeasonScore } from "../types/Season";
+import type { GalleryReaction, GalleryUpload } from "../types/Gallery";
+import type { GameSession } from "../types/Game";
+import type { MiniAppConfig } from "../types/MiniApp";
+import type { ScheduledJob } from "../types/Job";
+import type { TriggerDecision, TriggerPolicyOverrides } from "../types/TriggerPolicy";
+import type {
+  QuestRepository,
+  QuestFilter,
+  ChainFilter,
+  SeasonFilter,
+  CompletionFilter,
+  SubmissionFilter,
+  QuizAnswerFilter,
+  GameSessionFilter,
+  JobFilter,
+} from "./QuestRepository";
+
+/**
+ * Non-durable repository for tests and local experiments. Values are cloned on
+ * the way in and out so it behaves like the SQLite implementation.
+ */
+export class InMemoryQuestRepository implements QuestRepository {
+  private quests: Map<string, Omit<Quest, "participants">> = new Map();
+  private participants: Map<string, QuestParticipant[]> = new Map();
+  private completions: QuestCompletion[] = [];
+  private submissions: Map<string, QuestSubmission> = new Map();
+  private quizAnswers: QuizAnswer[] = [];
+  private votes: QuestVote[] = [];
+  private teams: Map<string, QuestTeam> = new Map();
+  private chains: Map<string, QuestChain> = new Map();
+  private badges: Map<string, Badge> = new Map();
+  private seasons: Map<string, Season> = new Map();
+  private seasonScores: Map<string, SeasonScore> = new Map();
+  private galleryUploads: Map<string, GalleryUpload> = new Map();
+  private galleryReactions: GalleryReaction[] = [];
+  private gameSessions: Map<string, GameSession> = new Map();
+  private userProfiles: Map<string, UserProfile> = new Map();
+  private miniApps: Map<string, MiniAppConfig> = new Map();
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private triggerPolicies: Map<string, TriggerPolicyOverrides> = new Map();
+  private triggerDecisions: TriggerDecision[] = [];
+  private questRejections: QuestRejection[] = [];
+  private questMessages: Map<string, string> = new Map();
+  private settings: Map<string, string> = new Map();
+
+  saveQuest(quest: Quest): void {
+    const { participants, ...data } = structuredClone(quest);
+    this.quests.set(quest.id, data);
+
+    const current = this.getParticipants(quest.id);
+    current
+      .filter(inboxId => !participants.includes(inboxId))
+      .forEach(inboxId => this.removeParticipant(quest.id, inboxId));
+    participants
+      .filter(inboxId => !current.includes(inboxId))
+      .forEach(inboxId => this.addParticipant(quest.id, inboxId));
+  }
+
+  getQuest(questId: string): Quest | undefined {
+    const quest = this.quests.get(questId);
+    return quest ? this.toQuest(quest) : undefined;
+  }
+
+  listQuests(filter: QuestFilter = {}): Quest[] {
+    const statuses = filter.status ? [filter.status].flat() : undefined;
+    return Array.from(this.quests.values())
+      .filter(q => !filter.conversationId || q.conversationId === filter.conversationId)
+      .filter(q => !statuses || statuses.includes(q.status))
+      .map(q => this.toQuest(q));
+  }
+
+  deleteQuest(questId: string): void {
+    this.quests.delete(questId);
+    this.participants.delete(questId);
+    for (const [messageId, linkedQuestId] of this.questMessages) {
+      if (linkedQuestId === questId) this.questMessages.delete(messageId);
+    }
+    for (const [submissionId, submission] of this.submissions) {
+      if (submission.questId === questId) this.submissions.delete(submissionId);
+    }
+    this.quizAnswers = this.quizAnswers.filter(a => a.questId !== questId);
+    this.votes = this.votes.filter(v => v.questId !== questId);
+    for (const [teamId, team] of this.teams) {
+      if (team.questId === questId) this.teams.delete(teamId);
+    }
+    for (const [submissionId, upload] of this.galleryUploads) {
+      if (upload.questId === questId) this.galleryUploads.delete(submissionId);
+    }
+    this.galleryReactions = this.galleryReactions.filter(r => r.questId !== questId);
+    for (const [sessionId, session] of this.gameSessions) {
+      if (session.questId === questId) this.gameSessions.delete(sessionId);
+    }
+  }
+
+  addParticipant(questId: string, inboxId: string): boolean {
+    if (!this.quests.has(questId) || this.getParticipant(questId, inboxId)) {
+      return false;
+    }
+    const now = new Date();
+    const records = this.participants.get(questId) ?? [];
+    records.push({ questId, inboxId, status: "joined", joinedAt: now, updatedAt: now });
+    this.participants.set(questId, records);
+    return true;
+  }
+
+  removeParticipant(questId: string, inboxId: string): boolean {
+    const records = this.participants.get(questId) ?? [];
+    const remaining = records.filter(p => p.inboxId !== inboxId);
+    this.participants.set(questId, remaining);
+    return remaining.length !== records.length;
+  }
+
+  getParticipants(questId: string): string[] {
+    return (this.participants.get(questId) ?? []).map(p => p.inboxId);
+  }
+
+  getParticipant(questId: string, inboxId: string): QuestParticipant | undefined {
+    const record = (this.participants.get(questId) ?? []).find(p => p.inboxId === inboxId);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  listParticipantRecords(questId: string): QuestParticipant[] {
+    return structuredClone(this.participants.get(questId) ?? []);
+  }
+
+  listParticipations(inboxId: string): QuestParticipant[] {
+    return Array.from(this.participants.values())
+      .flat()
+      .filter(p => p.inboxId === inboxId)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime())
+      .map(p => structuredClone(p));
+  }
+
+  setParticipantStatus(questId: string, inboxId: string, status: ParticipantStatus): boolean {
+    const record = (this.participants.get(questId) ?? []).find(p => p.inboxId === inboxId);
+    if (!record) {
+      return false;
+    }
+    record.status = status;
+    record.updatedAt = new Date();
+    return true;
+  }
+
+  saveCompletion(completion: QuestCompletion): void {
+    this.completions.push(structuredClone(completion));
+  }
+
+  listCompletions(filter: CompletionFilter = {}): QuestCompletion[] {
+    return this.completions
+      .filter(c => !filter.questId || c.questId === filter.questId)
+      .filter(c => !filter.participantInboxId || c.participantInboxId === filter.participantInboxId)
+      .filter(c => !filter.completedSince || c.completedAt >= filter.completedSince)
+      .map(c => structuredClone(c));
+  }
+
+  saveSubmission(submission: QuestSubmission): void {
+    this.submissions.set(submission.id, structuredClone(submission));
+  }
+
+  getSubmission(submissionId: string): QuestSubmission | undefined {
+    const submission = this.submissions.get(submissionId);
+    return submission ? structuredClone(submission) : undefined;
+  }
+
+  listSubmissions(filter: SubmissionFilter = {}): QuestSubmission[] {
+    const statuses = filter.status ? [filter.status].flat() : undefined;
+    return Array.from(this.submissions.values())
+      .filter(s => !filter.questId || s.questId === filter.questId)
+      .filter(s => !filter.participantInboxId || s.participantInboxId === filter.participantInboxId)
+      .filter(s => !statuses || statuses.includes(s.status))
+      .filter(s => filter.proofValue === undefined || s.proof.value === filter.proofValue)
+      .sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime())
+      .map(s => structuredClone(s));
+  }
+
+  saveQuizAnswer(answer: QuizAnswer): boolean {
+    const exists = this.quizAnswers.some(a =>
+      a.questId === answer.questId &&
+      a.questionId === answer.questionId &&
+      a.participantInboxId === answer.participantInboxId
+    );
+    if (exists) {
+      return false;
+    }
+    this.quizAnswers.push(structuredClone(answer));
+    return true;
+  }
+
+  listQuizAnswers(filter: QuizAnswerFilter = {}): QuizAnswer[] {
+    return this.quizAnswers
+      .filter(a => !filter.questId || a.questId === filter.questId)
+      .filter(a => !filter.participantInboxId || a.participantInboxId === filter.participantInboxId)
+      .sort((a, b) => a.answeredAt.getTime() - b.answeredAt.getTime())
+      .map(a => structuredClone(a));
+  }
+
+  saveVote(vote: QuestVote): void {
+    this.votes = this.votes.filter(v => v.questId !== vote.questId || v.voterInboxId !== vote.voterInboxId);
+    this.votes.push(structuredClone(vote));
+  }
+
+  getVote(questId: string, voterInboxId: string): QuestVote | undefined {
+    const vote = this.votes.find(v => v.questId === questId && v.voterInboxId === voterInboxId);
+    return vote ? structuredClone(vote) : undefined;
+  }
+
+  listVotes(questId: string): QuestVote[] {
+    return this.votes
+      .filter(v => v.questId === questId)
+      .sort((a, b) => a.castAt.getTime() - b.castAt.getTime())
+      .map(v => structuredClone(v));
+  }
+
+  saveTeam(team: QuestTeam): void {
+    this.teams.set(team.id, structuredClone(team));
+  }
+
+  getTeam(teamId: string): QuestTeam | undefined {
+    const team = this.teams.get(teamId);
+    return team ? structuredClone(team) : undefined;
+  }
+
+  listTeams(questId: string): QuestTeam[] {
+    return Array.from(this.teams.values())
+      .filter(t => t.questId === questId)
+      .map(t => structuredClone(t));
+  }
+
+  deleteTeam(teamId: string): void {
+    this.teams.delete(teamId);
+  }
+
+  saveChain(chain: QuestChain): void {
+    this.chains.set(chain.id, structuredClone(chain));
+  }
+
+  getChain(chainId: string): QuestChain | undefined {
+    const chain = this.chains.get(chainId);
+    return chain ? structuredClone(chain) : undefined;
+  }
+
+  listChains(filter: ChainFilter = {}): QuestChain[] {
+    const statuses = filter.status ? [filter.status].flat() : undefined;
+    return Array.from(this.chains.values())
+      .filter(c => !filter.conversationId || c.conversationId === filter.conversationId)
+      .filter(c => !statuses || statuses.includes(c.status))
+      .map(c => structuredClone(c));
+  }
+
+  saveBadge(badge: Badge): void {
+    this.badges.set(badge.id, structuredClone(badge));
+  }
+
+  getBadge(badgeId: string): Badge | undefined {
+    const badge = this.badges.get(badgeId);
+    return badge ? structuredClone(badge) : undefined;
+  }
+
+  listBadges(): Badge[] {
+    return Array.from(this.badges.values()).map(b => structuredClone(b));
+  }
+
+  saveSeason(season: Season): void {
+    this.seasons.set(season.id, structuredClone(season));
+  }
+
+  getSeason(seasonId: string): Season | undefined {
+    const season = this.seasons.get(seasonId);
+    return season ? structuredClone(season) : undefined;
+  }
+
+  listSeasons(filter: SeasonFilter = {}): Season[] {
+    const statuses = filter.status ? [filter.status].flat() : undefined;
+    return Array.from(this.seasons.values())
+      .filter(s => !statuses || statuses.includes(s.status))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+      .map(s => structuredClone(s));
+  }
+
+  saveSeasonScore(score: SeasonScore): void {
+    this.seasonScores.set(`${score.seasonId}:${score.inboxId}`, structuredClone(score));
+  }
+
+  getSeasonScore(seasonId: string, inboxId: string): SeasonScore | undefined {
+    const score = this.seasonScores.get(`${seasonId}:${inboxId}`);
+    return score ? structuredClone(score) : undefined;
+  }
+
+  listSeasonScores(seasonId: string): SeasonScore[] {
+    return Array.from(this.seasonScores.values())
+      .filter(s => s.seasonId === seasonId)
+      .sort((a, b) =>
+        b.xp - a.xp ||
+        b.questsCompleted - a.questsCompleted ||
+        a.updatedAt.getTime() - b.updatedAt.getTime()
+      )
+      .map(s => structuredClone(s));
+  }
+
+  saveGalleryUpload(upload: GalleryUpload): void {
+    this.galleryUploads.set(upload.submissionId, structuredClone(upload));
+  }
+
+  getGalleryUpload(submissionId: string): GalleryUpload | undefined {
+    const upload = this.galleryUploads.get(submissionId);
+    return upload ? structuredClone(upload) : undefined;
+  }
+
+  listGalleryUploads(questId: string): GalleryUpload[] {
+    return Array.from(this.galleryUploads.values())
+      .filter(u => u.questId === questId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(u => structuredClone(u));
+  }
+
+  addGalleryReaction(reaction: GalleryReaction): boolean {
+    const exists = this.galleryReactions.some(
+      r => r.submissionId === reaction.submissionId && r.inboxId === reaction.inboxId && r.emoji === reaction.emoji
+    );
+    if (exists) {
+      return false;
+    }
+    this.galleryReactions.push(structuredClone(reaction));
+    return true;
+  }
+
+  removeGalleryReaction(submissionId: string, inboxId: string, emoji: string): boolean {
+    const before = this.galleryReactions.length;
+    this.galleryReactions = this.galleryReactions.filter(
+      r => r.submissionId !== submissionId || r.inboxId !== inboxId || r.emoji !== emoji
+    );
+    return this.galleryReactions.length < before;
+  }
+
+  listGalleryReactions(questId: string): GalleryReaction[] {
+    return this.galleryReactions
+      .filter(r => r.questId === questId)
+      .sort((a, b) => a.reactedAt.getTime() - b.reactedAt.getTime())
+      .map(r => structuredClone(r));
+  }
+
+  saveGameSession(session: GameSession): void {
+    this.gameSessions.set(session.id, structuredClone(session));
+  }
+
+  getGameSession(sessionId: string): GameSession | undefined {
+    const session = this.gameSessions.get(sessionId);
+    return session ? structuredClone(session) : undefined;
+  }
+
+  listGameSessions(filter: GameSessionFilter = {}): GameSession[] {
+    return Array.from(this.gameSessions.values())
+      .filter(s => !filter.questId || s.questId === filter.questId)
+      .filter(s => !filter.inboxId || s.inboxId === filter.inboxId)
+      .filter(s => !filter.status || s.status === filter.status)
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+      .map(s => structuredClone(s));
+  }
+
+  getUserProfile(inboxId: string): UserProfile | undefined {
+    const profile = this.userProfiles.get(inboxId);
+    return profile ? structuredClone(profile) : undefined;
+  }
+
+  saveUserProfile(profile: UserProfile): void {
+    this.userProfiles.set(profile.inboxId, structuredClone(profile));
+  }
+
+  listUserProfiles(): UserProfile[] {
+    return Array.from(this.userProfiles.values()).map(p => structuredClone(p));
+  }
+
+  saveMiniApp(miniApp: MiniAppConfig): void {
+    this.miniApps.set(miniApp.questId, structuredClone(miniApp));
+  }
+
+  getMiniApp(questId: string): MiniAppConfig | undefined {
+    const miniApp = this.miniApps.get(questId);
+    return miniApp ? structuredClone(miniApp) : undefined;
+  }
+
+  listMiniApps(): MiniAppConfig[] {
+    return Array.from(this.miniApps.values()).map(m => structuredClone(m));
+  }
+
+  deleteMiniApp(questId: string): void {
+    this.miniApps.delete(questId);
+  }
+
+  saveJob(job: ScheduledJob): void {
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  getJob(jobId: string): ScheduledJob | undefined {
+    const job = this.jobs.get(jobId);
+    return job ? structuredClone(job) : undefined;
+  }
+
+  listJobs(filter: JobFilter = {}): ScheduledJob[] {
+    const statuses = filter.status ? [filter.status].flat() : undefined;
+    const jobs = Array.from(this.jobs.values())
+      .filter(j => !statuses || statuses.includes(j.status))
+      .filter(j => !filter.questId || j.questId === filter.questId)
+      .filter(j => !filter.type || j.type === filter.type)
+      .filter(j => !filter.dueBefore || j.runAt <= filter.dueBefore)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .map(j => structuredClone(j));
+    return filter.limit !== undefined ? jobs.slice(0, filter.limit) : jobs;
+  }
+
+  claimJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== "pending") {
+      return false;
+    }
+    job.status = "running";
+    return true;
+  }
+
+  cancelJobs(questId: string, types?: string[]): number {
+    let cancelled = 0;
+    for (const job of this.jobs.values()) {
+      if (job.questId === questId && job.status === "pending" && (!types || types.includes(job.type))) {
+        job.status = "cancelled";
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+
+  saveQuestMessage(messageId: string, questId: string): void {
+    if (!this.questMessages.has(messageId)) {
+      this.questMessages.set(messageId, questId);
+    }
+  }
+
+  getQuestIdByMessage(messageId: string): string | undefined {
+    return this.questMessages.get(messageId);
+  }
+
+  getTriggerPolicy(conversationId: string): TriggerPolicyOverrides | undefined {
+    const overrides = this.triggerPolicies.get(conversationId);
+    return overrides ? structuredClone(overrides) : undefined;
+  }
+
+  saveTriggerPolicy(conversationId: string, overrides: TriggerPolicyOverrides): void {
+    this.triggerPolicies.set(conversationId, structuredClone(overrides));
+  }
+
+  saveTriggerDecision(decision: TriggerDecision, keep: number): void {
+    this.triggerDecisions.push(structuredClone(decision));
+    const kept = this.newestTriggerDecisions(decision.conversationId).slice(0, keep);
+    this.triggerDecisions = this.triggerDecisions.filter(
+      d => d.conversationId !== decision.conversationId || kept.includes(d)
+    );
+  }
+
+  listTriggerDecisions(conversationId?: string, limit?: number): TriggerDecision[] {
+    return this.newestTriggerDecisions(conversationId)
+      .slice(0, limit)
+      .map(d => structuredClone(d));
+  }
+
+  saveQuestRejection(rejection: QuestRejection, keep: number): void {
+    this.questRejections.push(structuredClone(rejection));
+    this.questRejections = this.newestQuestRejections().slice(0, keep).reverse();
+  }
+
+  listQuestRejections(limit?: number): QuestRejection[] {
+    return this.newestQuestRejections()
+      .slice(0, limit)
+      .map(r => structuredClone(r));
+  }
+
+  private newestQuestRejections(): QuestRejection[] {
+    return this.questRejections
+      .slice()
+      .reverse()
+      .sort((a, b) => b.rejectedAt.getTime() - a.rejectedAt.getTime());
+  }
+
+  // Newest first; of two decisions made at the same time, the later saved
+  private newestTriggerDecisions(conversationId?: string): TriggerDecision[] {
+    return this.triggerDecisions
+      .filter(d => !conversationId || d.conversationId === conversationId)
+      .reverse()
+      .sort((a, b) => b.evaluatedAt.getTime() - a.evaluatedAt.getTime());
+  }
+
+  getSetting(key: string): string | undefined {
+    return this.settings.get(key);
+  }
+
+  saveSetting(key: string, value: string): void {
+    this.settings.set(key, value);
+  }
+
+  close(): void {
+    this.jobs.clear();
+    this.triggerPolicies.clear();
+    this.triggerDecisions = [];
+    this.questRejections = [];
+    this.questMessages.clear();
+    this.settings.clear();
+    this.quests.clear();
+    this.participants.clear();
+    this.completions = [];
+    this.submissions.clear();
+    this.quizAnswers = [];
+    this.votes = [];
+    this.teams.clear();
+    this.chains.clear();
+    this.badges.clear();
+    this.seasons.clear();
+    this.seasonScores.clear();
+    this.galleryUploads.clear();
+    this.galleryReactions = [];
+    this.gameSessions.clear();
+    this.userProfiles.clear();
+    this.miniApps.clear();
+  }
+
+  private toQuest(quest: Omit<Quest, "participants">): Quest {
+    return { ...structuredClone(quest), participants: this.getParticipants(quest.id) };
+  }
+}
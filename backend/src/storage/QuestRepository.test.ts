@@ -0,0 +1,355 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import type { Quest } from "../types/Quest";
+import { StreakSchema } from "../types/Streak";
+import { InMemoryQuestRepository } from "./InMemoryQuestRepository";
+import type { QuestRepository } from "./QuestRepository";
+import { SqliteQuestRepository } from "./SqliteQuestRepository";
+
+const IMPLEMENTATIONS: [string, () => QuestRepository][] = [
+  ["SqliteQuestRepository", () => new SqliteQuestRepository(":memory:")],
+  ["InMemoryQuestRepository", () => new InMemoryQuestRepository()],
+];
+
+// Distinct times, so a field read back from the wrong column shows up
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 12, minute));
+
+const buildQuest = (overrides: Partial<Quest> = {}): Quest => ({
+  id: "quest-1",
+  type: "creative_contest",
+  title: "Caption this",
+  description: "Best caption wins",
+  difficulty: "medium",
+  duration: 60,
+  participantLimits: { min: 1, max: 10 },
+  rewards: { xp: 100 },
+  miniAppConfig: { type: "gallery", config: {} },
+  conversationId: "conversation-1",
+  createdAt: at(0),
+  startsAt: at(1),
+  expiresAt: at(2),
+  pausedAt: at(3),
+  status: "scheduled",
+  participants: [],
+  ...overrides,
+});
+
+for (const [name, createRepository] of IMPLEMENTATIONS) {
+  describe(name, () => {
+    let repository: QuestRepository;
+
+    beforeEach(() => {
+      repository = createRepository();
+      repository.saveQuest(buildQuest());
+    });
+
+    afterEach(() => {
+      repository.close();
+    });
+
+    describe("round-trips dates", () => {
+      test("of quests", () => {
+        const quest = buildQuest();
+        assert.deepEqual(repository.getQuest(quest.id), quest);
+        assert.deepEqual(repository.listQuests(), [quest]);
+      });
+
+      test("of participants", () => {
+        repository.addParticipant("quest-1", "alice");
+        const participant = repository.getParticipant("quest-1", "alice");
+        assert.ok(participant?.joinedAt instanceof Date);
+        assert.ok(participant.updatedAt instanceof Date);
+        assert.deepEqual(repository.listParticipantRecords("quest-1"), [participant]);
+        assert.deepEqual(repository.listParticipations("alice"), [participant]);
+      });
+
+      test("of completions", () => {
+        const completion = {
+          questId: "quest-1",
+          participantInboxId: "alice",
+          completedAt: at(3),
+          result: { caption: "Nice" },
+          rewards: { xp: 100 },
+          newLevel: 2,
+        };
+        repository.saveCompletion(completion);
+        assert.deepEqual(repository.listCompletions({ questId: "quest-1" }), [completion]);
+      });
+
+      test("of submissions", () => {
+        const submission = {
+          id: "submission-1",
+          questId: "quest-1",
+          participantInboxId: "alice",
+          proof: { type: "text" as const, value: "Nice" },
+          status: "verified" as const,
+          confirmations: [],
+          submittedAt: at(3),
+          reviewedAt: at(4),
+        };
+        repository.saveSubmission(submission);
+        assert.deepEqual(repository.getSubmission(submission.id), submission);
+        assert.deepEqual(repository.listSubmissions({ questId: "quest-1" }), [submission]);
+      });
+
+      test("of quiz answers", () => {
+        const answer = {
+          questId: "quest-1",
+          questionId: "q1",
+          participantInboxId: "alice",
+          answer: "Paris",
+          score: 1,
+          answeredAt: at(3),
+        };
+        assert.equal(repository.saveQuizAnswer(answer), true);
+        assert.deepEqual(repository.listQuizAnswers({ questId: "quest-1" }), [answer]);
+      });
+
+      test("of votes", () => {
+        const vote = { questId: "quest-1", voterInboxId: "bob", choices: ["submission-1"], castAt: at(3) };
+        repository.saveVote(vote);
+        assert.deepEqual(repository.getVote("quest-1", "bob"), vote);
+        assert.deepEqual(repository.listVotes("quest-1"), [vote]);
+      });
+
+      test("of teams", () => {
+        const team = {
+          id: "team-1",
+          questId: "quest-1",
+          name: "Red",
+          members: ["alice", "bob"],
+          contributions: { alice: 1 },
+          results: {},
+          createdAt: at(3),
+          completedAt: at(4),
+        };
+        repository.saveTeam(team);
+        assert.deepEqual(repository.getTeam(team.id), team);
+        assert.deepEqual(repository.listTeams("quest-1"), [team]);
+      });
+
+      test("of chains", () => {
+        const chain = {
+          id: "chain-1",
+          title: "Saga",
+          description: "Two steps",
+          conversationId: "conversation-1",
+          questIds: ["quest-1", "quest-2"],
+          bonus: { xp: 50 },
+          stepDelayMinutes: 0,
+          status: "completed" as const,
+          bonusAwardedTo: ["alice"],
+          createdAt: at(3),
+          endedAt: at(4),
+        };
+        repository.saveChain(chain);
+        assert.deepEqual(repository.getChain(chain.id), chain);
+        assert.deepEqual(repository.listChains(), [chain]);
+      });
+
+      test("of badges", () => {
+        const badge = {
+          id: "first-quest",
+          name: "First Quest",
+          description: "Complete a quest",
+          icon: "🎯",
+          rarity: "common" as const,
+          criteria: { kind: "quests_completed" as const, count: 1 },
+          createdAt: at(3),
+        };
+        repository.saveBadge(badge);
+        assert.deepEqual(repository.getBadge(badge.id), badge);
+        assert.deepEqual(repository.listBadges(), [badge]);
+      });
+
+      test("of seasons and season scores", () => {
+        const season = {
+          id: "season-1",
+          number: 1,
+          name: "Season 1",
+          startsAt: at(3),
+          endsAt: at(4),
+          status: "ended" as const,
+          rewards: [],
+          createdAt: at(5),
+          endedAt: at(6),
+        };
+        const score = { seasonId: season.id, inboxId: "alice", xp: 100, questsCompleted: 1, updatedAt: at(7) };
+        repository.saveSeason(season);
+        repository.saveSeasonScore(score);
+        assert.deepEqual(repository.getSeason(season.id), season);
+        assert.deepEqual(repository.listSeasons(), [season]);
+        assert.deepEqual(repository.getSeasonScore(season.id, "alice"), score);
+        assert.deepEqual(repository.listSeasonScores(season.id), [score]);
+      });
+
+      test("of gallery uploads and reactions", () => {
+        const upload = {
+          submissionId: "submission-1",
+          questId: "quest-1",
+          inboxId: "alice",
+          kind: "text" as const,
+          blobKey: "quest-1/submission-1",
+          contentType: "text/plain",
+          size: 4,
+          text: "Nice",
+          createdAt: at(3),
+        };
+        const reaction = { questId: "quest-1", submissionId: "submission-1", inboxId: "bob", emoji: "🔥", reactedAt: at(4) };
+        repository.saveGalleryUpload(upload);
+        assert.equal(repository.addGalleryReaction(reaction), true);
+        assert.deepEqual(repository.getGalleryUpload(upload.submissionId), upload);
+        assert.deepEqual(repository.listGalleryUploads("quest-1"), [upload]);
+        assert.deepEqual(repository.listGalleryReactions("quest-1"), [reaction]);
+      });
+
+      test("of game sessions", () => {
+        const session = {
+          id: "session-1",
+          questId: "quest-1",
+          inboxId: "alice",
+          game: "word_chain" as const,
+          status: "finished" as const,
+          state: { words: ["quest"] },
+          score: 5,
+          turns: 1,
+          startedAt: at(3),
+          finishedAt: at(4),
+        };
+        repository.saveGameSession(session);
+        assert.deepEqual(repository.getGameSession(session.id), session);
+        assert.deepEqual(repository.listGameSessions({ questId: "quest-1" }), [session]);
+      });
+
+      test("of user profiles", () => {
+        const profile = {
+          inboxId: "alice",
+          level: 2,
+          xp: 150,
+          preferences: [],
+          completedQuests: ["quest-1"],
+          socialScore: 0,
+          badges: [{ badgeId: "first-quest", name: "First Quest", earnedAt: at(3) }],
+          streak: StreakSchema.parse({}),
+          lastActive: at(4),
+        };
+        repository.saveUserProfile(profile);
+        assert.deepEqual(repository.getUserProfile("alice"), profile);
+        assert.deepEqual(repository.listUserProfiles(), [profile]);
+      });
+
+      test("of mini apps", () => {
+        const miniApp = {
+          questId: "quest-1",
+          conversationId: "conversation-1",
+          type: "gallery",
+          config: {},
+          launchedAt: at(3),
+          status: "open" as const,
+          participants: [],
+        };
+        repository.saveMiniApp(miniApp);
+        assert.deepEqual(repository.getMiniApp("quest-1"), miniApp);
+        assert.deepEqual(repository.listMiniApps(), [miniApp]);
+      });
+
+      test("of jobs", () => {
+        const job = {
+          id: "job-1",
+          type: "quest_start",
+          questId: "quest-1",
+          runAt: at(3),
+          status: "done" as const,
+          attempts: 1,
+          createdAt: at(4),
+          completedAt: at(5),
+        };
+        repository.saveJob(job);
+        assert.deepEqual(repository.getJob(job.id), job);
+        assert.deepEqual(repository.listJobs({ questId: "quest-1", status: "done" }), [job]);
+      });
+    });
+
+    describe("saveQuest", () => {
+      test("adds and removes participants to match the quest", () => {
+        repository.saveQuest(buildQuest({ participants: ["alice", "bob"] }));
+        assert.deepEqual(repository.getParticipants("quest-1"), ["alice", "bob"]);
+
+        repository.saveQuest(buildQuest({ participants: ["bob", "carol"] }));
+        assert.deepEqual(repository.getParticipants("quest-1"), ["bob", "carol"]);
+        assert.equal(repository.getParticipant("quest-1", "alice"), undefined);
+        assert.deepEqual(repository.listParticipations("alice"), []);
+      });
+
+      test("keeps the records of participants who stay", () => {
+        repository.saveQuest(buildQuest({ participants: ["alice"] }));
+        repository.setParticipantStatus("quest-1", "alice", "completed");
+        const before = repository.getParticipant("quest-1", "alice");
+
+        repository.saveQuest(buildQuest({ participants: ["alice", "bob"] }));
+        assert.deepEqual(repository.getParticipant("quest-1", "alice"), before);
+        assert.equal(repository.getParticipant("quest-1", "bob")?.status, "joined");
+      });
+
+      test("updates the quest in place", () => {
+        repository.saveQuest(buildQuest({ status: "open", startsAt: undefined, pausedAt: undefined }));
+        const quest = repository.getQuest("quest-1");
+        assert.equal(quest?.status, "open");
+        assert.equal(quest.startsAt, undefined);
+        assert.equal(repository.listQuests().length, 1);
+      });
+    });
+
+    test("keeps only the newest trigger decisions of a conversation", () => {
+      const decision = (conversationId: string, minute: number) => ({
+        conversationId,
+        trigger: false,
+        reasons: [`Checked at ${minute}`],
+        evaluatedAt: at(minute),
+        metrics: { activityLevel: "low" as const, engagement: 10, activeSenders: 1, activeQuests: 0 },
+      });
+      for (const minute of [1, 2, 3]) {
+        repository.saveTriggerDecision(decision("conversation-1", minute), 2);
+      }
+      repository.saveTriggerDecision(decision("conversation-2", 4), 2);
+
+      assert.deepEqual(repository.listTriggerDecisions("conversation-1"), [
+        decision("conversation-1", 3),
+        decision("conversation-1", 2),
+      ]);
+      assert.deepEqual(repository.listTriggerDecisions(undefined, 2).map(d => d.evaluatedAt), [at(4), at(3)]);
+    });
+
+    test("keeps only the newest quest rejections", () => {
+      const rejection = (minute: number) => ({
+        questMaster: "The Mentor",
+        conversationId: "conversation-1",
+        rejectedAt: at(minute),
+        attempts: 3,
+        errors: [`title: too long at ${minute}`],
+      });
+      for (const minute of [1, 3, 2]) {
+        repository.saveQuestRejection(rejection(minute), 2);
+      }
+
+      assert.deepEqual(repository.listQuestRejections(), [rejection(3), rejection(2)]);
+      assert.deepEqual(repository.listQuestRejections(1), [rejection(3)]);
+    });
+
+    test("listSubmissions filters by proof value", () => {
+      const submission = (id: string, value: string) => ({
+        id,
+        questId: "quest-1",
+        participantInboxId: "alice",
+        proof: { type: "tx_hash" as const, value },
+        status: "pending" as const,
+        confirmations: [],
+        submittedAt: at(3),
+      });
+      repository.saveSubmission(submission("submission-1", "0xaa"));
+      repository.saveSubmission(submission("submission-2", "0xbb"));
+      assert.deepEqual(repository.listSubmissions({ proofValue: "0xbb" }).map(s => s.id), ["submission-2"]);
+      assert.deepEqual(repository.listSubmissions({ proofValue: "0xcc" }), []);
+    });
+  });
+}
@@ -0,0 +1,210 @@
+import type {
+  Quest,
+  QuestStatus,
+  QuestParticipant,
+  ParticipantStatus,
+  UserProfile,
+  QuestCompletion,
+  QuestSubmission,
+  QuizAnswer,
+  QuestVote,
+  QuestTeam,
+  QuestChain,
+  QuestChainStatus,
+  SubmissionStatus,
+  QuestRejection,
+} from "../types/Quest";
+import type { Badge } from "../types/Badge";
+import type { Season, SeasonScore, SeasonStatus } from "../types/Season";
+import type { GalleryReaction, GalleryUpload } from "../types/Gallery";
+import type { GameSession, GameSessionStatus } from "../types/Game";
+import { StreakSchema } from "../types/Streak";
+import type { MiniAppConfig } from "../types/MiniApp";
+import type { ScheduledJob, JobStatus } from "../types/Job";
+import type { TriggerDecision, TriggerPolicyOverrides } from "../types/TriggerPolicy";
+
+export interface QuestFilter {
+  conversationId?: string;
+  status?: QuestStatus | QuestStatus[];
+}
+
+export interface ChainFilter {
+  conversationId?: string;
+  status?: QuestChainStatus | QuestChainStatus[];
+}
+
+export interface SeasonFilter {
+  status?: SeasonStatus | SeasonStatus[];
+}
+
+export interface CompletionFilter {
+  questId?: string;
+  participantInboxId?: string;
+  completedSince?: Date;
+}
+
+export interface SubmissionFilter {
+  questId?: string;
+  participantInboxId?: string;
+  status?: SubmissionStatus | SubmissionStatus[];
+  proofValue?: string;
+}
+
+export interface QuizAnswerFilter {
+  questId?: string;
+  participantInboxId?: string;
+}
+
+export interface GameSessionFilter {
+  questId?: string;
+  inboxId?: string;
+  status?: GameSessionStatus;
+}
+
+export interface JobFilter {
+  status?: JobStatus | JobStatus[];
+  questId?: string;
+  type?: string;
+  dueBefore?: Date;
+  limit?: number;
+}
+
+/**
+ * Persistence boundary for everything the quest system needs to survive a
+ * restart. Implementations return copies, so callers must save after mutating.
+ */
+export interface QuestRepository {
+  // Quests
+  saveQuest(quest: Quest): void;
+  getQuest(questId: string): Quest | undefined;
+  listQuests(filter?: QuestFilter): Quest[];
+  deleteQuest(questId: string): void;
+
+  // Participants
+  addParticipant(questId: string, inboxId: string): boolean;
+  removeParticipant(questId: string, inboxId: string): boolean;
+  getParticipants(questId: string): string[];
+  getParticipant(questId: string, inboxId: string): QuestParticipant | undefined;
+  listParticipantRecords(questId: string): QuestParticipant[];
+  setParticipantStatus(questId: string, inboxId: string, status: ParticipantStatus): boolean;
+  /** Quests a user is in, in the order they joined */
+  listParticipations(inboxId: string): QuestParticipant[];
+
+  // Completions
+  saveCompletion(completion: QuestCompletion): void;
+  listCompletions(filter?: CompletionFilter): QuestCompletion[];
+
+  // Proof submissions
+  saveSubmission(submission: QuestSubmission): void;
+  getSubmission(submissionId: string): QuestSubmission | undefined;
+  listSubmissions(filter?: SubmissionFilter): QuestSubmission[];
+
+  // Knowledge quest answers, one per participant and question
+  saveQuizAnswer(answer: QuizAnswer): boolean;
+  listQuizAnswers(filter?: QuizAnswerFilter): QuizAnswer[];
+
+  // Peer vote ballots, one per voter and quest; saving again replaces the ballot
+  saveVote(vote: QuestVote): void;
+  getVote(questId: string, voterInboxId: string): QuestVote | undefined;
+  listVotes(questId: string): QuestVote[];
+
+  // Teams of team quests, in the order they were formed
+  saveTeam(team: QuestTeam): void;
+  getTeam(teamId: string): QuestTeam | undefined;
+  listTeams(questId: string): QuestTeam[];
+  deleteTeam(teamId: string): void;
+
+  // Quest chains, oldest first
+  saveChain(chain: QuestChain): void;
+  getChain(chainId: string): QuestChain | undefined;
+  listChains(filter?: ChainFilter): QuestChain[];
+
+  // Badge registry
+  saveBadge(badge: Badge): void;
+  getBadge(badgeId: string): Badge | undefined;
+  listBadges(): Badge[];
+
+  // Seasons, in the order they start
+  saveSeason(season: Season): void;
+  getSeason(seasonId: string): Season | undefined;
+  listSeasons(filter?: SeasonFilter): Season[];
+
+  // Season tallies, highest XP first; ties go to more quests, then to whoever got there first
+  saveSeasonScore(score: SeasonScore): void;
+  getSeasonScore(seasonId: string, inboxId: string): SeasonScore | undefined;
+  listSeasonScores(seasonId: string): SeasonScore[];
+
+  // Files uploaded through the gallery, one per submission, oldest first
+  saveGalleryUpload(upload: GalleryUpload): void;
+  getGalleryUpload(submissionId: string): GalleryUpload | undefined;
+  listGalleryUploads(questId: string): GalleryUpload[];
+
+  // Emoji reactions on gallery entries, one per member, entry and emoji
+  /** Returns false if the member already reacted with that emoji */
+  addGalleryReaction(reaction: GalleryReaction): boolean;
+  removeGalleryReaction(submissionId: string, inboxId: string, emoji: string): boolean;
+  listGalleryReactions(questId: string): GalleryReaction[];
+
+  // Plays of game mini apps, oldest first
+  saveGameSession(session: GameSession): void;
+  getGameSession(sessionId: string): GameSession | undefined;
+  listGameSessions(filter?: GameSessionFilter): GameSession[];
+
+  // User profiles
+  getUserProfile(inboxId: string): UserProfile | undefined;
+  saveUserProfile(profile: UserProfile): void;
+  listUserProfiles(): UserProfile[];
+
+  // Mini apps
+  saveMiniApp(miniApp: MiniAppConfig): void;
+  getMiniApp(questId: string): MiniAppConfig | undefined;
+  listMiniApps(): MiniAppConfig[];
+  deleteMiniApp(questId: string): void;
+
+  // Scheduled jobs
+  saveJob(job: ScheduledJob): void;
+  getJob(jobId: string): ScheduledJob | undefined;
+  listJobs(filter?: JobFilter): ScheduledJob[];
+  /** Atomically move a pending job to running. Returns false if another run claimed it. */
+  claimJob(jobId: string): boolean;
+  cancelJobs(questId: string, types?: string[]): number;
+
+  // Chat messages that announce a quest, for routing reactions and replies
+  saveQuestMessage(messageId: string, questId: string): void;
+  getQuestIdByMessage(messageId: string): string | undefined;
+
+  // Per-conversation quest trigger settings
+  getTriggerPolicy(conversationId: string): TriggerPolicyOverrides | undefined;
+  saveTriggerPolicy(conversationId: string, overrides: TriggerPolicyOverrides): void;
+  /** Store a trigger decision, keeping only the conversation's `keep` newest */
+  saveTriggerDecision(decision: TriggerDecision, keep: number): void;
+  /** Trigger decisions, newest first */
+  listTriggerDecisions(conversationId?: string, limit?: number): TriggerDecision[];
+
+  // Generated quests that failed validation
+  /** Store a rejection, keeping only the `keep` newest */
+  saveQuestRejection(rejection: QuestRejection, keep: number): void;
+  /** Rejections, newest first */
+  listQuestRejections(limit?: number): QuestRejection[];
+
+  // Server-wide values that must survive restarts, such as the level curve in use
+  getSetting(key: string): string | undefined;
+  saveSetting(key: string, value: string): void;
+
+  close(): void;
+}
+
+/**
+ * Default profile for an inbox that has never completed a quest
+ */
+export const createDefaultUserProfile = (inboxId: string): UserProfile => ({
+  inboxId,
+  level: 1,
+  xp: 0,
+  preferences: [],
+  completedQuests: [],
+  socialScore: 0,
+  badges: [],
+  streak: StreakSchema.parse({}),
+  lastActive: new Date(),
+});
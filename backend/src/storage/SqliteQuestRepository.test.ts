@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { Quest } from "../types/Quest";
+import { SqliteQuestRepository } from "./SqliteQuestRepository";
+
+const scheduledQuest = (): Quest => ({
+  id: "quest-1",
+  type: "social_challenge",
+  title: "Morning check-in",
+  description: "Say good morning to the group",
+  difficulty: "easy",
+  duration: 60,
+  participantLimits: { min: 1, max: 10 },
+  rewards: { xp: 50 },
+  miniAppConfig: { type: "dashboard", config: {} },
+  conversationId: "conversation-1",
+  createdAt: new Date("2026-01-01T08:00:00.000Z"),
+  startsAt: new Date("2026-01-02T08:00:00.000Z"),
+  expiresAt: new Date("2026-01-02T09:00:00.000Z"),
+  status: "scheduled",
+  participants: [],
+});
+
+test("a scheduled quest keeps its start time as a Date", () => {
+  const repository = new SqliteQuestRepository(":memory:");
+  repository.saveQuest(scheduledQuest());
+
+  const loaded = repository.getQuest("quest-1");
+  assert.ok(loaded?.startsAt instanceof Date);
+  assert.equal(loaded.startsAt.toISOString(), "2026-01-02T08:00:00.000Z");
+  assert.ok(repository.listQuests({ status: "scheduled" })[0]?.startsAt instanceof Date);
+  repository.close();
+});
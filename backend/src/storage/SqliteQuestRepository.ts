@@ -0,0 +1,837 @@
+import { DatabaseSync } from "node:sqlite";
+import type {
+  Quest,
+  QuestParticipant,
+  ParticipantStatus,
+  UserProfile,
+  QuestCompletion,
+  QuestSubmission,
+  QuizAnswer,
+  QuestVote,
+  QuestTeam,
+  QuestChain,
+  QuestRejection,
+} from "../types/Quest";
+import type { Badge, EarnedBadge } from "../types/Badge";
+import type { Season, SeasonScore } from "../types/Season";
+import type { GalleryReaction, GalleryUpload } from "../types/Gallery";
+import type { GameSession } from "../types/Game";
+import { StreakSchema, type Streak } from "../types/Streak";
+import type { MiniAppConfig } from "../types/MiniApp";
+import type { TriggerDecision, TriggerPolicyOverrides } from "../types/TriggerPolicy";
+import type { ScheduledJob } from "../types/Job";
+import { runMigrations } from "./migrations";
+import type {
+  QuestRepository,
+  QuestFilter,
+  ChainFilter,
+  SeasonFilter,
+  CompletionFilter,
+  SubmissionFilter,
+  QuizAnswerFilter,
+  GameSessionFilter,
+  JobFilter,
+} from "./QuestRepository";
+
+interface DataRow {
+  data: string;
+}
+
+interface ParticipantRow {
+  quest_id: string;
+  inbox_id: string;
+  status: ParticipantStatus;
+  joined_at: string;
+  updated_at: string;
+}
+
+const toParticipant = (row: ParticipantRow): QuestParticipant => ({
+  questId: row.quest_id,
+  inboxId: row.inbox_id,
+  status: row.status,
+  joinedAt: new Date(row.joined_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+/**
+ * Parse a JSON column and turn the named ISO string fields back into Dates
+ */
+const parseRow = <T>(row: DataRow, dateFields: string[]): T => {
+  const value = JSON.parse(row.data) as Record<string, unknown>;
+  for (const field of dateFields) {
+    if (typeof value[field] === "string") {
+      value[field] = new Date(value[field] as string);
+    }
+  }
+  return value as T;
+};
+
+const SEASON_DATE_FIELDS = ["startsAt", "endsAt", "createdAt", "endedAt"];
+
+const toUserProfile = (row: DataRow): UserProfile => {
+  const profile = parseRow<UserProfile>(row, ["lastActive"]);
+  // Profiles saved before badges were stored have none
+  const badges = (profile.badges as EarnedBadge[] | undefined) ?? [];
+  profile.badges = badges.map(badge => ({ ...badge, earnedAt: new Date(badge.earnedAt) }));
+  // and no streak
+  profile.streak = StreakSchema.parse((profile.streak as Streak | undefined) ?? {});
+  return profile;
+};
+
+/**
+ * SQLite-backed repository, stored next to the XMTP database
+ */
+export class SqliteQuestRepository implements QuestRepository {
+  private db: DatabaseSync;
+
+  constructor(dbPath: string) {
+    this.db = new DatabaseSync(dbPath);
+    this.db.exec("PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;");
+    runMigrations(this.db);
+    console.log("🗄️ Quest repository opened at:", dbPath);
+  }
+
+  saveQuest(quest: Quest): void {
+    const { participants, ...data } = quest;
+    this.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO quests (id, conversation_id, status, created_at, expires_at, data)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE SET
+             conversation_id = excluded.conversation_id,
+             status = excluded.status,
+             expires_at = excluded.expires_at,
+             data = excluded.data`,
+        )
+        .run(
+          quest.id,
+          quest.conversationId,
+          quest.status,
+          quest.createdAt.toISOString(),
+          quest.expiresAt.toISOString(),
+          JSON.stringify(data),
+        );
+
+      const current = this.getParticipants(quest.id);
+      current
+        .filter(inboxId => !participants.includes(inboxId))
+        .forEach(inboxId => this.removeParticipant(quest.id, inboxId));
+      participants
+        .filter(inboxId => !current.includes(inboxId))
+        .forEach(inboxId => this.addParticipant(quest.id, inboxId));
+    });
+  }
+
+  getQuest(questId: string): Quest | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM quests WHERE id = ?")
+      .get(questId) as DataRow | undefined;
+    return row ? this.toQuest(questId, row) : undefined;
+  }
+
+  listQuests(filter: QuestFilter = {}): Quest[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, data FROM quests
+         WHERE (:conversationId IS NULL OR conversation_id = :conversationId)
+           AND (:statuses IS NULL OR status IN (SELECT value FROM json_each(:statuses)))
+         ORDER BY created_at`,
+      )
+      .all({
+        conversationId: filter.conversationId ?? null,
+        statuses: filter.status ? JSON.stringify([filter.status].flat()) : null,
+      }) as unknown as (DataRow & { id: string })[];
+    return rows.map(row => this.toQuest(row.id, row));
+  }
+
+  deleteQuest(questId: string): void {
+    this.db.prepare("DELETE FROM quests WHERE id = ?").run(questId);
+  }
+
+  addParticipant(questId: string, inboxId: string): boolean {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO quest_participants (quest_id, inbox_id, status, joined_at, updated_at)
+         SELECT id, :inboxId, 'joined', :now, :now FROM quests WHERE id = :questId`,
+      )
+      .run({ inboxId, questId, now: new Date().toISOString() });
+    return Number(result.changes) > 0;
+  }
+
+  removeParticipant(questId: string, inboxId: string): boolean {
+    const result = this.db
+      .prepare("DELETE FROM quest_participants WHERE quest_id = ? AND inbox_id = ?")
+      .run(questId, inboxId);
+    return Number(result.changes) > 0;
+  }
+
+  getParticipants(questId: string): string[] {
+    const rows = this.db
+      .prepare(
+        "SELECT inbox_id FROM quest_participants WHERE quest_id = ? ORDER BY joined_at, rowid",
+      )
+      .all(questId) as { inbox_id: string }[];
+    return rows.map(row => row.inbox_id);
+  }
+
+  getParticipant(questId: string, inboxId: string): QuestParticipant | undefined {
+    const row = this.db
+      .prepare("SELECT * FROM quest_participants WHERE quest_id = ? AND inbox_id = ?")
+      .get(questId, inboxId) as ParticipantRow | undefined;
+    return row ? toParticipant(row) : undefined;
+  }
+
+  listParticipantRecords(questId: string): QuestParticipant[] {
+    const rows = this.db
+      .prepare("SELECT * FROM quest_participants WHERE quest_id = ? ORDER BY joined_at, rowid")
+      .all(questId) as unknown as ParticipantRow[];
+    return rows.map(toParticipant);
+  }
+
+  listParticipations(inboxId: string): QuestParticipant[] {
+    const rows = this.db
+      .prepare("SELECT * FROM quest_participants WHERE inbox_id = ? ORDER BY joined_at, rowid")
+      .all(inboxId) as unknown as ParticipantRow[];
+    return rows.map(toParticipant);
+  }
+
+  setParticipantStatus(questId: string, inboxId: string, status: ParticipantStatus): boolean {
+    const result = this.db
+      .prepare(
+        "UPDATE quest_participants SET status = ?, updated_at = ? WHERE quest_id = ? AND inbox_id = ?",
+      )
+      .run(status, new Date().toISOString(), questId, inboxId);
+    return Number(result.changes) > 0;
+  }
+
+  saveCompletion(completion: QuestCompletion): void {
+    this.db
+      .prepare(
+        `INSERT INTO quest_completions (quest_id, participant_inbox_id, completed_at, data)
+         VALUES (?, ?, ?, ?)`,
+      )
+      .run(
+        completion.questId,
+        completion.participantInboxId,
+        completion.completedAt.toISOString(),
+        JSON.stringify(completion),
+      );
+  }
+
+  listCompletions(filter: CompletionFilter = {}): QuestCompletion[] {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM quest_completions
+         WHERE (:questId IS NULL OR quest_id = :questId)
+           AND (:participantInboxId IS NULL OR participant_inbox_id = :participantInboxId)
+           AND (:completedSince IS NULL OR completed_at >= :completedSince)
+         ORDER BY id`,
+      )
+      .all({
+        questId: filter.questId ?? null,
+        participantInboxId: filter.participantInboxId ?? null,
+        completedSince: filter.completedSince?.toISOString() ?? null,
+      }) as unknown as DataRow[];
+    return rows.map(row => parseRow<QuestCompletion>(row, ["completedAt"]));
+  }
+
+  saveSubmission(submission: QuestSubmission): void {
+    this.db
+      .prepare(
+        `INSERT INTO quest_submissions (id, quest_id, participant_inbox_id, status, submitted_at, data)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET status = excluded.status, data = excluded.data`,
+      )
+      .run(
+        submission.id,
+        submission.questId,
+        submission.participantInboxId,
+        submission.status,
+        submission.submittedAt.toISOString(),
+        JSON.stringify(submission),
+      );
+  }
+
+  getSubmission(submissionId: string): QuestSubmission | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM quest_submissions WHERE id = ?")
+      .get(submissionId) as DataRow | undefined;
+    return row ? parseRow<QuestSubmission>(row, ["submittedAt", "reviewedAt"]) : undefined;
+  }
+
+  listSubmissions(filter: SubmissionFilter = {}): QuestSubmission[] {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM quest_submissions
+         WHERE (:questId IS NULL OR quest_id = :questId)
+           AND (:participantInboxId IS NULL OR participant_inbox_id = :participantInboxId)
+           AND (:statuses IS NULL OR status IN (SELECT value FROM json_each(:statuses)))
+           AND (:proofValue IS NULL OR json_extract(data, '$.proof.value') = :proofValue)
+         ORDER BY submitted_at`,
+      )
+      .all({
+        questId: filter.questId ?? null,
+        participantInboxId: filter.participantInboxId ?? null,
+        statuses: filter.status ? JSON.stringify([filter.status].flat()) : null,
+        proofValue: filter.proofValue ?? null,
+      }) as unknown as DataRow[];
+    return rows.map(row => parseRow<QuestSubmission>(row, ["submittedAt", "reviewedAt"]));
+  }
+
+  saveQuizAnswer(answer: QuizAnswer): boolean {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO quiz_answers (quest_id, question_id, participant_inbox_id, answered_at, data)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(
+        answer.questId,
+        answer.questionId,
+        answer.participantInboxId,
+        answer.answeredAt.toISOString(),
+        JSON.stringify(answer),
+      );
+    return result.changes > 0;
+  }
+
+  listQuizAnswers(filter: QuizAnswerFilter = {}): QuizAnswer[] {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM quiz_answers
+         WHERE (:questId IS NULL OR quest_id = :questId)
+           AND (:participantInboxId IS NULL OR participant_inbox_id = :participantInboxId)
+         ORDER BY answered_at`,
+      )
+      .all({
+        questId: filter.questId ?? null,
+        participantInboxId: filter.participantInboxId ?? null,
+      }) as unknown as DataRow[];
+    return rows.map(row => parseRow<QuizAnswer>(row, ["answeredAt"]));
+  }
+
+  saveVote(vote: QuestVote): void {
+    this.db
+      .prepare(
+        `INSERT INTO quest_votes (quest_id, voter_inbox_id, cast_at, data)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (quest_id, voter_inbox_id) DO UPDATE SET cast_at = excluded.cast_at, data = excluded.data`,
+      )
+      .run(vote.questId, vote.voterInboxId, vote.castAt.toISOString(), JSON.stringify(vote));
+  }
+
+  getVote(questId: string, voterInboxId: string): QuestVote | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM quest_votes WHERE quest_id = ? AND voter_inbox_id = ?")
+      .get(questId, voterInboxId) as DataRow | undefined;
+    return row ? parseRow<QuestVote>(row, ["castAt"]) : undefined;
+  }
+
+  listVotes(questId: string): QuestVote[] {
+    const rows = this.db
+      .prepare("SELECT data FROM quest_votes WHERE quest_id = ? ORDER BY cast_at")
+      .all(questId) as unknown as DataRow[];
+    return rows.map(row => parseRow<QuestVote>(row, ["castAt"]));
+  }
+
+  saveTeam(team: QuestTeam): void {
+    this.db
+      .prepare(
+        `INSERT INTO quest_teams (id, quest_id, created_at, data)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`,
+      )
+      .run(team.id, team.questId, team.createdAt.toISOString(), JSON.stringify(team));
+  }
+
+  getTeam(teamId: string): QuestTeam | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM quest_teams WHERE id = ?")
+      .get(teamId) as DataRow | undefined;
+    return row ? parseRow<QuestTeam>(row, ["createdAt", "completedAt"]) : undefined;
+  }
+
+  listTeams(questId: string): QuestTeam[] {
+    const rows = this.db
+      .prepare("SELECT data FROM quest_teams WHERE quest_id = ? ORDER BY created_at, rowid")
+      .all(questId) as unknown as DataRow[];
+    return rows.map(row => parseRow<QuestTeam>(row, ["createdAt", "completedAt"]));
+  }
+
+  deleteTeam(teamId: string): void {
+    this.db.prepare("DELETE FROM quest_teams WHERE id = ?").run(teamId);
+  }
+
+  saveChain(chain: QuestChain): void {
+    this.db
+      .prepare(
+        `INSERT INTO quest_chains (id, conversation_id, status, created_at, data)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET status = excluded.status, data = excluded.data`,
+      )
+      .run(chain.id, chain.conversationId, chain.status, chain.createdAt.toISOString(), JSON.stringify(chain));
+  }
+
+  getChain(chainId: string): QuestChain | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM quest_chains WHERE id = ?")
+      .get(chainId) as DataRow | undefined;
+    return row ? parseRow<QuestChain>(row, ["createdAt", "endedAt"]) : undefined;
+  }
+
+  listChains(filter: ChainFilter = {}): QuestChain[] {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM quest_chains
+         WHERE (:conversationId IS NULL OR conversation_id = :conversationId)
+           AND (:statuses IS NULL OR status IN (SELECT value FROM json_each(:statuses)))
+         ORDER BY created_at`,
+      )
+      .all({
+        conversationId: filter.conversationId ?? null,
+        statuses: filter.status ? JSON.stringify([filter.status].flat()) : null,
+      }) as unknown as DataRow[];
+    return rows.map(row => parseRow<QuestChain>(row, ["createdAt", "endedAt"]));
+  }
+
+  saveBadge(badge: Badge): void {
+    this.db
+      .prepare(
+        `INSERT INTO badges (id, created_at, data) VALUES (?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET data = excluded.data`,
+      )
+      .run(badge.id, badge.createdAt.toISOString(), JSON.stringify(badge));
+  }
+
+  getBadge(badgeId: string): Badge | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM badges WHERE id = ?")
+      .get(badgeId) as DataRow | undefined;
+    return row ? parseRow<Badge>(row, ["createdAt"]) : undefined;
+  }
+
+  listBadges(): Badge[] {
+    const rows = this.db
+      .prepare("SELECT data FROM badges ORDER BY created_at, rowid")
+      .all() as unknown as DataRow[];
+    return rows.map(row => parseRow<Badge>(row, ["createdAt"]));
+  }
+
+  saveSeason(season: Season): void {
+    this.db
+      .prepare(
+        `INSERT INTO seasons (id, status, starts_at, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           status = excluded.status, starts_at = excluded.starts_at, data = excluded.data`,
+      )
+      .run(season.id, season.status, season.startsAt.toISOString(), JSON.stringify(season));
+  }
+
+  getSeason(seasonId: string): Season | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM seasons WHERE id = ?")
+      .get(seasonId) as DataRow | undefined;
+    return row ? parseRow<Season>(row, SEASON_DATE_FIELDS) : undefined;
+  }
+
+  listSeasons(filter: SeasonFilter = {}): Season[] {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM seasons
+         WHERE (:statuses IS NULL OR status IN (SELECT value FROM json_each(:statuses)))
+         ORDER BY starts_at`,
+      )
+      .all({ statuses: filter.status ? JSON.stringify([filter.status].flat()) : null }) as unknown as DataRow[];
+    return rows.map(row => parseRow<Season>(row, SEASON_DATE_FIELDS));
+  }
+
+  saveSeasonScore(score: SeasonScore): void {
+    this.db
+      .prepare(
+        `INSERT INTO season_scores (season_id, inbox_id, xp, quests_completed, updated_at, data)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (season_id, inbox_id) DO UPDATE SET
+           xp = excluded.xp, quests_completed = excluded.quests_completed,
+           updated_at = excluded.updated_at, data = excluded.data`,
+      )
+      .run(
+        score.seasonId,
+        score.inboxId,
+        score.xp,
+        score.questsCompleted,
+        score.updatedAt.toISOString(),
+        JSON.stringify(score),
+      );
+  }
+
+  getSeasonScore(seasonId: string, inboxId: string): SeasonScore | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM season_scores WHERE season_id = ? AND inbox_id = ?")
+      .get(seasonId, inboxId) as DataRow | undefined;
+    return row ? parseRow<SeasonScore>(row, ["updatedAt"]) : undefined;
+  }
+
+  listSeasonScores(seasonId: string): SeasonScore[] {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM season_scores WHERE season_id = ?
+         ORDER BY xp DESC, quests_completed DESC, updated_at, rowid`,
+      )
+      .all(seasonId) as unknown as DataRow[];
+    return rows.map(row => parseRow<SeasonScore>(row, ["updatedAt"]));
+  }
+
+  saveGalleryUpload(upload: GalleryUpload): void {
+    this.db
+      .prepare(
+        `INSERT INTO gallery_uploads (submission_id, quest_id, created_at, data)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (submission_id) DO UPDATE SET data = excluded.data`,
+      )
+      .run(upload.submissionId, upload.questId, upload.createdAt.toISOString(), JSON.stringify(upload));
+  }
+
+  getGalleryUpload(submissionId: string): GalleryUpload | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM gallery_uploads WHERE submission_id = ?")
+      .get(submissionId) as DataRow | undefined;
+    return row ? parseRow<GalleryUpload>(row, ["createdAt"]) : undefined;
+  }
+
+  listGalleryUploads(questId: string): GalleryUpload[] {
+    const rows = this.db
+      .prepare("SELECT data FROM gallery_uploads WHERE quest_id = ? ORDER BY created_at, rowid")
+      .all(questId) as unknown as DataRow[];
+    return rows.map(row => parseRow<GalleryUpload>(row, ["createdAt"]));
+  }
+
+  addGalleryReaction(reaction: GalleryReaction): boolean {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO gallery_reactions (submission_id, inbox_id, emoji, quest_id, reacted_at, data)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        reaction.submissionId,
+        reaction.inboxId,
+        reaction.emoji,
+        reaction.questId,
+        reaction.reactedAt.toISOString(),
+        JSON.stringify(reaction),
+      );
+    return Number(result.changes) > 0;
+  }
+
+  removeGalleryReaction(submissionId: string, inboxId: string, emoji: string): boolean {
+    const result = this.db
+      .prepare("DELETE FROM gallery_reactions WHERE submission_id = ? AND inbox_id = ? AND emoji = ?")
+      .run(submissionId, inboxId, emoji);
+    return Number(result.changes) > 0;
+  }
+
+  listGalleryReactions(questId: string): GalleryReaction[] {
+    const rows = this.db
+      .prepare("SELECT data FROM gallery_reactions WHERE quest_id = ? ORDER BY reacted_at, rowid")
+      .all(questId) as unknown as DataRow[];
+    return rows.map(row => parseRow<GalleryReaction>(row, ["reactedAt"]));
+  }
+
+  saveGameSession(session: GameSession): void {
+    this.db
+      .prepare(
+        `INSERT INTO game_sessions (id, quest_id, inbox_id, status, started_at, data)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET status = excluded.status, data = excluded.data`,
+      )
+      .run(
+        session.id,
+        session.questId,
+        session.inboxId,
+        session.status,
+        session.startedAt.toISOString(),
+        JSON.stringify(session),
+      );
+  }
+
+  getGameSession(sessionId: string): GameSession | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM game_sessions WHERE id = ?")
+      .get(sessionId) as DataRow | undefined;
+    return row ? parseRow<GameSession>(row, ["startedAt", "finishedAt"]) : undefined;
+  }
+
+  listGameSessions(filter: GameSessionFilter = {}): GameSession[] {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM game_sessions
+         WHERE (:questId IS NULL OR quest_id = :questId)
+           AND (:inboxId IS NULL OR inbox_id = :inboxId)
+           AND (:status IS NULL OR status = :status)
+         ORDER BY started_at, rowid`,
+      )
+      .all({
+        questId: filter.questId ?? null,
+        inboxId: filter.inboxId ?? null,
+        status: filter.status ?? null,
+      }) as unknown as DataRow[];
+    return rows.map(row => parseRow<GameSession>(row, ["startedAt", "finishedAt"]));
+  }
+
+  getUserProfile(inboxId: string): UserProfile | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM user_profiles WHERE inbox_id = ?")
+      .get(inboxId) as DataRow | undefined;
+    return row ? toUserProfile(row) : undefined;
+  }
+
+  saveUserProfile(profile: UserProfile): void {
+    this.db
+      .prepare(
+        `INSERT INTO user_profiles (inbox_id, xp, level, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT (inbox_id) DO UPDATE SET
+           xp = excluded.xp, level = excluded.level, data = excluded.data`,
+      )
+      .run(profile.inboxId, profile.xp, profile.level, JSON.stringify(profile));
+  }
+
+  listUserProfiles(): UserProfile[] {
+    const rows = this.db
+      .prepare("SELECT data FROM user_profiles ORDER BY xp DESC")
+      .all() as unknown as DataRow[];
+    return rows.map(toUserProfile);
+  }
+
+  saveMiniApp(miniApp: MiniAppConfig): void {
+    this.db
+      .prepare(
+        `INSERT INTO mini_apps (quest_id, status, data) VALUES (?, ?, ?)
+         ON CONFLICT (quest_id) DO UPDATE SET
+           status = excluded.status, data = excluded.data`,
+      )
+      .run(miniApp.questId, miniApp.status, JSON.stringify(miniApp));
+  }
+
+  getMiniApp(questId: string): MiniAppConfig | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM mini_apps WHERE quest_id = ?")
+      .get(questId) as DataRow | undefined;
+    return row ? parseRow<MiniAppConfig>(row, ["launchedAt"]) : undefined;
+  }
+
+  listMiniApps(): MiniAppConfig[] {
+    const rows = this.db
+      .prepare("SELECT data FROM mini_apps ORDER BY rowid")
+      .all() as unknown as DataRow[];
+    return rows.map(row => parseRow<MiniAppConfig>(row, ["launchedAt"]));
+  }
+
+  deleteMiniApp(questId: string): void {
+    this.db.prepare("DELETE FROM mini_apps WHERE quest_id = ?").run(questId);
+  }
+
+  saveJob(job: ScheduledJob): void {
+    this.db
+      .prepare(
+        `INSERT INTO scheduled_jobs (id, type, quest_id, run_at, status, data) VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           run_at = excluded.run_at, status = excluded.status, data = excluded.data`,
+      )
+      .run(
+        job.id,
+        job.type,
+        job.questId ?? null,
+        job.runAt.toISOString(),
+        job.status,
+        JSON.stringify(job),
+      );
+  }
+
+  getJob(jobId: string): ScheduledJob | undefined {
+    const row = this.db
+      .prepare("SELECT status, data FROM scheduled_jobs WHERE id = ?")
+      .get(jobId) as (DataRow & { status: ScheduledJob["status"] }) | undefined;
+    return row ? this.toJob(row) : undefined;
+  }
+
+  listJobs(filter: JobFilter = {}): ScheduledJob[] {
+    const rows = this.db
+      .prepare(
+        `SELECT status, data FROM scheduled_jobs
+         WHERE (:statuses IS NULL OR status IN (SELECT value FROM json_each(:statuses)))
+           AND (:questId IS NULL OR quest_id = :questId)
+           AND (:type IS NULL OR type = :type)
+           AND (:dueBefore IS NULL OR run_at <= :dueBefore)
+         ORDER BY run_at
+         LIMIT :limit`,
+      )
+      .all({
+        statuses: filter.status ? JSON.stringify([filter.status].flat()) : null,
+        questId: filter.questId ?? null,
+        type: filter.type ?? null,
+        dueBefore: filter.dueBefore?.toISOString() ?? null,
+        limit: filter.limit ?? -1,
+      }) as unknown as (DataRow & { status: ScheduledJob["status"] })[];
+    return rows.map(row => this.toJob(row));
+  }
+
+  claimJob(jobId: string): boolean {
+    const result = this.db
+      .prepare(
+        `UPDATE scheduled_jobs SET status = 'running', data = json_set(data, '$.status', 'running')
+         WHERE id = ? AND status = 'pending'`,
+      )
+      .run(jobId);
+    return Number(result.changes) > 0;
+  }
+
+  cancelJobs(questId: string, types?: string[]): number {
+    const result = this.db
+      .prepare(
+        `UPDATE scheduled_jobs SET status = 'cancelled', data = json_set(data, '$.status', 'cancelled')
+         WHERE quest_id = :questId AND status = 'pending'
+           AND (:types IS NULL OR type IN (SELECT value FROM json_each(:types)))`,
+      )
+      .run({ questId, types: types ? JSON.stringify(types) : null });
+    return Number(result.changes);
+  }
+
+  saveQuestMessage(messageId: string, questId: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO quest_messages (message_id, quest_id, created_at) VALUES (?, ?, ?)
+         ON CONFLICT (message_id) DO NOTHING`,
+      )
+      .run(messageId, questId, new Date().toISOString());
+  }
+
+  getQuestIdByMessage(messageId: string): string | undefined {
+    const row = this.db
+      .prepare("SELECT quest_id FROM quest_messages WHERE message_id = ?")
+      .get(messageId) as { quest_id: string } | undefined;
+    return row?.quest_id;
+  }
+
+  getTriggerPolicy(conversationId: string): TriggerPolicyOverrides | undefined {
+    const row = this.db
+      .prepare("SELECT data FROM trigger_policies WHERE conversation_id = ?")
+      .get(conversationId) as DataRow | undefined;
+    return row ? parseRow<TriggerPolicyOverrides>(row, []) : undefined;
+  }
+
+  saveTriggerPolicy(conversationId: string, overrides: TriggerPolicyOverrides): void {
+    this.db
+      .prepare(
+        `INSERT INTO trigger_policies (conversation_id, data) VALUES (?, ?)
+         ON CONFLICT (conversation_id) DO UPDATE SET data = excluded.data`,
+      )
+      .run(conversationId, JSON.stringify(overrides));
+  }
+
+  saveTriggerDecision(decision: TriggerDecision, keep: number): void {
+    this.db.exec("BEGIN");
+    try {
+      this.db
+        .prepare("INSERT INTO trigger_decisions (conversation_id, evaluated_at, data) VALUES (?, ?, ?)")
+        .run(decision.conversationId, decision.evaluatedAt.toISOString(), JSON.stringify(decision));
+      this.db
+        .prepare(
+          `DELETE FROM trigger_decisions
+           WHERE conversation_id = :conversationId
+             AND id NOT IN (
+               SELECT id FROM trigger_decisions
+               WHERE conversation_id = :conversationId
+               ORDER BY evaluated_at DESC, id DESC
+               LIMIT :keep
+             )`,
+        )
+        .run({ conversationId: decision.conversationId, keep });
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  listTriggerDecisions(conversationId?: string, limit = -1): TriggerDecision[] {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM trigger_decisions
+         WHERE (:conversationId IS NULL OR conversation_id = :conversationId)
+         ORDER BY evaluated_at DESC, id DESC
+         LIMIT :limit`,
+      )
+      .all({ conversationId: conversationId ?? null, limit }) as unknown as DataRow[];
+    return rows.map(row => parseRow<TriggerDecision>(row, ["evaluatedAt"]));
+  }
+
+  saveQuestRejection(rejection: QuestRejection, keep: number): void {
+    this.db.exec("BEGIN");
+    try {
+      this.db
+        .prepare("INSERT INTO quest_rejections (conversation_id, rejected_at, data) VALUES (?, ?, ?)")
+        .run(rejection.conversationId, rejection.rejectedAt.toISOString(), JSON.stringify(rejection));
+      this.db
+        .prepare(
+          `DELETE FROM quest_rejections
+           WHERE id NOT IN (SELECT id FROM quest_rejections ORDER BY rejected_at DESC, id DESC LIMIT ?)`,
+        )
+        .run(keep);
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  listQuestRejections(limit = -1): QuestRejection[] {
+    const rows = this.db
+      .prepare("SELECT data FROM quest_rejections ORDER BY rejected_at DESC, id DESC LIMIT ?")
+      .all(limit) as unknown as DataRow[];
+    return rows.map(row => parseRow<QuestRejection>(row, ["rejectedAt"]));
+  }
+
+  getSetting(key: string): string | undefined {
+    const row = this.db
+      .prepare("SELECT value FROM settings WHERE key = ?")
+      .get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  saveSetting(key: string, value: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+      )
+      .run(key, value, new Date().toISOString());
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private toJob(row: DataRow & { status: ScheduledJob["status"] }): ScheduledJob {
+    return {
+      ...parseRow<ScheduledJob>(row, ["runAt", "createdAt", "completedAt"]),
+      status: row.status,
+    };
+  }
+
+  private toQuest(questId: string, row: DataRow): Quest {
+    return {
+      ...parseRow<Omit<Quest, "participants">>(row, ["createdAt", "startsAt", "expiresAt", "pausedAt"]),
+      participants: this.getParticipants(questId),
+    };
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec("BEGIN");
+    try {
+      fn();
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { DatabaseSync } from "node:sqlite";
+import { test } from "node:test";
+import { MIGRATIONS, runMigrations, type Migration } from "./migrations";
+
+const appliedVersions = (db: DatabaseSync) =>
+  (db.prepare("SELECT version FROM schema_migrations ORDER BY version").all() as { version: number }[])
+    .map(row => row.version);
+
+test("applies every migration to a new database, in order", () => {
+  const db = new DatabaseSync(":memory:");
+  assert.equal(runMigrations(db), MIGRATIONS.length);
+  assert.deepEqual(appliedVersions(db), MIGRATIONS.map(m => m.version).sort((a, b) => a - b));
+  db.close();
+});
+
+test("skips migrations that were already applied", () => {
+  const db = new DatabaseSync(":memory:");
+  runMigrations(db);
+  assert.equal(runMigrations(db), 0);
+
+  const next: Migration = {
+    version: Math.max(...MIGRATIONS.map(m => m.version)) + 1,
+    name: "add_notes",
+    up: "CREATE TABLE notes (id TEXT PRIMARY KEY);",
+  };
+  assert.equal(runMigrations(db, [...MIGRATIONS, next]), 1);
+  assert.equal(appliedVersions(db).at(-1), next.version);
+  db.close();
+});
+
+test("rolls back a migration that fails", () => {
+  const db = new DatabaseSync(":memory:");
+  const migrations: Migration[] = [
+    { version: 1, name: "create_notes", up: "CREATE TABLE notes (id TEXT PRIMARY KEY);" },
+    { version: 2, name: "broken", up: "CREATE TABLE tags (id TEXT PRIMARY KEY); INSERT INTO missing VALUES (1);" },
+  ];
+
+  assert.throws(() => runMigrations(db, migrations), /Migration 2 \(broken\) failed/);
+  assert.deepEqual(appliedVersions(db), [1]);
+  const tags = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'tags'").get();
+  assert.equal(tags, undefined);
+  db.close();
+});
@@ -0,0 +1,341 @@
+import type { DatabaseSync } from "node:sqlite";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+/**
+ * Ordered schema migrations. Never edit an applied migration; append a new one.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: `
+      CREATE TABLE quests (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_quests_conversation ON quests (conversation_id, status);
+
+      CREATE TABLE quest_participants (
+        quest_id TEXT NOT NULL REFERENCES quests (id) ON DELETE CASCADE,
+        inbox_id TEXT NOT NULL,
+        joined_at TEXT NOT NULL,
+        PRIMARY KEY (quest_id, inbox_id)
+      );
+
+      CREATE TABLE quest_completions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        quest_id TEXT NOT NULL,
+        participant_inbox_id TEXT NOT NULL,
+        completed_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_completions_quest ON quest_completions (quest_id);
+      CREATE INDEX idx_completions_participant ON quest_completions (participant_inbox_id);
+
+      CREATE TABLE user_profiles (
+        inbox_id TEXT PRIMARY KEY,
+        xp INTEGER NOT NULL,
+        level INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE mini_apps (
+        quest_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: "quest_lifecycle",
+    up: `
+      ALTER TABLE quest_participants ADD COLUMN status TEXT NOT NULL DEFAULT 'joined';
+      ALTER TABLE quest_participants ADD COLUMN updated_at TEXT;
+      UPDATE quest_participants SET updated_at = joined_at;
+
+      UPDATE quests SET status = 'open', data = json_set(data, '$.status', 'open')
+        WHERE status = 'active';
+      UPDATE mini_apps SET status = 'open', data = json_set(data, '$.status', 'open')
+        WHERE status = 'active';
+    `,
+  },
+  {
+    version: 3,
+    name: "scheduled_jobs",
+    up: `
+      CREATE TABLE scheduled_jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        quest_id TEXT,
+        run_at TEXT NOT NULL,
+        status TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_jobs_due ON scheduled_jobs (status, run_at);
+      CREATE INDEX idx_jobs_quest ON scheduled_jobs (quest_id);
+    `,
+  },
+  {
+    version: 4,
+    name: "trigger_policies",
+    up: `
+      CREATE TABLE trigger_policies (
+        conversation_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: "quest_messages",
+    up: `
+      CREATE TABLE quest_messages (
+        message_id TEXT PRIMARY KEY,
+        quest_id TEXT NOT NULL REFERENCES quests (id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_quest_messages_quest ON quest_messages (quest_id);
+    `,
+  },
+  {
+    version: 6,
+    name: "quest_submissions",
+    up: `
+      CREATE TABLE quest_submissions (
+        id TEXT PRIMARY KEY,
+        quest_id TEXT NOT NULL REFERENCES quests (id) ON DELETE CASCADE,
+        participant_inbox_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        submitted_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_submissions_quest ON quest_submissions (quest_id, status);
+      CREATE INDEX idx_submissions_participant ON quest_submissions (participant_inbox_id);
+    `,
+  },
+  {
+    version: 7,
+    name: "quiz_answers",
+    up: `
+      CREATE TABLE quiz_answers (
+        quest_id TEXT NOT NULL REFERENCES quests (id) ON DELETE CASCADE,
+        question_id TEXT NOT NULL,
+        participant_inbox_id TEXT NOT NULL,
+        answered_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (quest_id, question_id, participant_inbox_id)
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: "quest_votes",
+    up: `
+      CREATE TABLE quest_votes (
+        quest_id TEXT NOT NULL REFERENCES quests (id) ON DELETE CASCADE,
+        voter_inbox_id TEXT NOT NULL,
+        cast_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (quest_id, voter_inbox_id)
+      );
+    `,
+  },
+  {
+    version: 9,
+    name: "quest_teams",
+    up: `
+      CREATE TABLE quest_teams (
+        id TEXT PRIMARY KEY,
+        quest_id TEXT NOT NULL REFERENCES quests (id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_quest_teams_quest ON quest_teams (quest_id);
+    `,
+  },
+  {
+    version: 10,
+    name: "quest_chains",
+    up: `
+      CREATE TABLE quest_chains (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_quest_chains_conversation ON quest_chains (conversation_id, status);
+    `,
+  },
+  {
+    version: 11,
+    name: "badges",
+    up: `
+      CREATE TABLE badges (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_quest_participants_inbox ON quest_participants (inbox_id, joined_at);
+    `,
+  },
+  {
+    version: 12,
+    name: "settings",
+    up: `
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 13,
+    name: "seasons",
+    up: `
+      CREATE TABLE seasons (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        starts_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_seasons_status ON seasons (status, starts_at);
+      CREATE TABLE season_scores (
+        season_id TEXT NOT NULL REFERENCES seasons (id) ON DELETE CASCADE,
+        inbox_id TEXT NOT NULL,
+        xp REAL NOT NULL,
+        quests_completed INTEGER NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (season_id, inbox_id)
+      );
+      CREATE INDEX idx_season_scores_rank ON season_scores (season_id, xp DESC, quests_completed DESC, updated_at);
+    `,
+  },
+  {
+    version: 14,
+    name: "completion_time",
+    up: `
+      CREATE INDEX idx_completions_completed_at ON quest_completions (completed_at);
+    `,
+  },
+  {
+    version: 15,
+    name: "gallery",
+    up: `
+      CREATE TABLE gallery_uploads (
+        submission_id TEXT PRIMARY KEY,
+        quest_id TEXT NOT NULL REFERENCES quests (id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_gallery_uploads_quest ON gallery_uploads (quest_id, created_at);
+
+      CREATE TABLE gallery_reactions (
+        submission_id TEXT NOT NULL,
+        inbox_id TEXT NOT NULL,
+        emoji TEXT NOT NULL,
+        quest_id TEXT NOT NULL REFERENCES quests (id) ON DELETE CASCADE,
+        reacted_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (submission_id, inbox_id, emoji)
+      );
+      CREATE INDEX idx_gallery_reactions_quest ON gallery_reactions (quest_id);
+    `,
+  },
+  {
+    version: 16,
+    name: "game_sessions",
+    up: `
+      CREATE TABLE game_sessions (
+        id TEXT PRIMARY KEY,
+        quest_id TEXT NOT NULL REFERENCES quests (id) ON DELETE CASCADE,
+        inbox_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_game_sessions_quest ON game_sessions (quest_id, inbox_id);
+    `,
+  },
+  {
+    version: 17,
+    name: "trigger_decisions",
+    up: `
+      CREATE TABLE trigger_decisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        evaluated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_trigger_decisions_conversation ON trigger_decisions (conversation_id, evaluated_at);
+      CREATE INDEX idx_trigger_decisions_evaluated_at ON trigger_decisions (evaluated_at);
+    `,
+  },
+  {
+    version: 18,
+    name: "quest_rejections",
+    up: `
+      CREATE TABLE quest_rejections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        rejected_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_quest_rejections_rejected_at ON quest_rejections (rejected_at);
+    `,
+  },
+];
+
+/**
+ * Apply every migration newer than the recorded schema version
+ */
+export const runMigrations = (
+  db: DatabaseSync,
+  migrations: Migration[] = MIGRATIONS,
+): number => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  const row = db
+    .prepare("SELECT MAX(version) AS version FROM schema_migrations")
+    .get() as { version: number | null } | undefined;
+  const currentVersion = row?.version ?? 0;
+
+  const pending = migrations
+    .filter(m => m.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    db.exec("BEGIN");
+    try {
+      db.exec(migration.up);
+      db.prepare(
+        "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+      ).run(migration.version, migration.name, new Date().toISOString());
+      db.exec("COMMIT");
+      console.log(`🗄️ Applied migration ${migration.version}: ${migration.name}`);
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${String(error)}`);
+    }
+  }
+
+  return pending.length;
+};
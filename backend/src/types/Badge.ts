@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+export const BadgeRaritySchema = z.enum(["common", "uncommon", "rare", "epic", "legendary"]);
+
+// How a badge is earned
+export const BadgeCriteriaSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("quest") }), // listed in the rewards of a quest or chain
+  z.object({ kind: z.literal("quests_completed"), count: z.number().int().min(1) }),
+  z.object({ kind: z.literal("quest_streak"), count: z.number().int().min(2) }), // quests completed in a row
+  z.object({ kind: z.literal("all_quest_types") }), // at least one quest of every type
+]);
+
+export const BadgeSchema = z.object({
+  id: z.string(), // slug, e.g. "first-quest"
+  name: z.string(),
+  description: z.string(),
+  icon: z.string(), // emoji
+  rarity: BadgeRaritySchema,
+  criteria: BadgeCriteriaSchema,
+  createdAt: z.date().default(() => new Date()),
+});
+
+// A badge on a user's profile
+export const EarnedBadgeSchema = z.object({
+  badgeId: z.string(),
+  name: z.string(), // kept so requirements like "badge:<name>" match without the registry
+  earnedAt: z.date().default(() => new Date()),
+  questId: z.string().optional(), // the quest that awarded it, if any
+});
+
+export type Badge = z.infer<typeof BadgeSchema>;
+export type BadgeRarity = z.infer<typeof BadgeRaritySchema>;
+export type BadgeCriteria = z.infer<typeof BadgeCriteriaSchema>;
+export type EarnedBadge = z.infer<typeof EarnedBadgeSchema>;
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import type { QuestStatus, SubmissionStatus } from "./Quest";
+
+export const GalleryEntryKindSchema = z.enum(["image", "text", "link"]);
+
+// File uploaded through the gallery for a submission; entries proved another way have none
+export const GalleryUploadSchema = z.object({
+  submissionId: z.string(),
+  questId: z.string(),
+  inboxId: z.string(),
+  kind: GalleryEntryKindSchema.exclude(["link"]),
+  blobKey: z.string(),
+  contentType: z.string(),
+  size: z.number().int().min(0), // bytes
+  text: z.string().optional(), // text entries, kept here too so browsing needs no blob reads
+  caption: z.string().optional(),
+  createdAt: z.date().default(() => new Date()),
+});
+
+// One emoji reaction of a member on an entry
+export const GalleryReactionSchema = z.object({
+  questId: z.string(),
+  submissionId: z.string(),
+  inboxId: z.string(),
+  emoji: z.string(),
+  reactedAt: z.date().default(() => new Date()),
+});
+
+export const GALLERY_REACTIONS = ["❤️", "🔥", "😂", "🤯", "👏"];
+
+export const GalleryConfigSchema = z.object({
+  maxImageBytes: z.number().int().min(1).default(5 * 1024 * 1024),
+  maxTextLength: z.number().int().min(1).default(2000),
+  maxCaptionLength: z.number().int().min(0).default(200),
+  winners: z.number().int().min(1).default(3), // entries shown as winners once a quest closes
+});
+
+export type GalleryEntryKind = z.infer<typeof GalleryEntryKindSchema>;
+export type GalleryUpload = z.infer<typeof GalleryUploadSchema>;
+export type GalleryReaction = z.infer<typeof GalleryReactionSchema>;
+export type GalleryConfig = z.infer<typeof GalleryConfigSchema>;
+
+export interface GalleryEntry {
+  id: string; // submission ID, also the vote candidate ID
+  inboxId: string;
+  kind: GalleryEntryKind;
+  url?: string; // images and links
+  text?: string;
+  caption?: string;
+  status: SubmissionStatus;
+  reason?: string; // why the viewer's own entry is pending or rejected
+  submittedAt: Date;
+  reactions: Record<string, number>; // count per emoji
+  reacted: string[]; // emojis the viewer reacted with
+  votes?: number; // first-choice votes, on quests voted by the group
+  rank?: number; // final placement once the quest closes
+}
+
+export interface GalleryView {
+  questId: string;
+  status: QuestStatus;
+  accepts: Exclude<GalleryEntryKind, "link">[]; // what participants can upload, none when the quest takes other proof
+  open: boolean; // whether entries are accepted
+  reactions: string[];
+  entries: GalleryEntry[];
+  winners: GalleryEntry[]; // set once the quest closes
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import type { QuestCompletion, QuestSubmission } from "./Quest";
+
+export const GameKindSchema = z.enum(["trivia_race", "word_chain", "emoji_riddle"]);
+
+export const GameSessionStatusSchema = z.enum(["playing", "finished"]);
+
+// One play-through of a game mini app; the state, answers included, never leaves the server
+export const GameSessionSchema = z.object({
+  id: z.string(),
+  questId: z.string(),
+  inboxId: z.string(),
+  game: GameKindSchema,
+  status: GameSessionStatusSchema,
+  state: z.unknown(), // owned by the game module, times in epoch milliseconds
+  score: z.number().min(0),
+  turns: z.number().int().min(0),
+  startedAt: z.date().default(() => new Date()),
+  finishedAt: z.date().optional(),
+  submissionId: z.string().optional(), // proof submitted with the final score
+});
+
+export type GameKind = z.infer<typeof GameKindSchema>;
+export type GameSessionStatus = z.infer<typeof GameSessionStatusSchema>;
+export type GameSession = z.infer<typeof GameSessionSchema>;
+
+// What players see of a trivia race: the current question, until its deadline
+export interface TriviaRaceView {
+  game: "trivia_race";
+  question?: { number: number; prompt: string; choices: string[]; deadline: number };
+  total: number;
+  correct: number;
+}
+
+// What players see of a word chain: the words so far and the letter to continue with
+export interface WordChainView {
+  game: "word_chain";
+  words: string[];
+  nextLetter: string;
+  strikes: number;
+  maxStrikes: number;
+  deadline: number;
+}
+
+// What players see of an emoji riddle: the emojis to decode and the category of the answer
+export interface EmojiRiddleView {
+  game: "emoji_riddle";
+  riddle?: { number: number; emojis: string; category: string; triesLeft: number };
+  total: number;
+  solved: number;
+}
+
+export type GameStateView = TriviaRaceView | WordChainView | EmojiRiddleView;
+
+// Result of one move, graded by the server
+export interface GameTurnResult {
+  correct: boolean;
+  points: number;
+  feedback: string;
+}
+
+export interface GameView {
+  sessionId: string;
+  questId: string;
+  game: GameKind;
+  title: string;
+  rules: string;
+  status: GameSessionStatus;
+  score: number;
+  maxScore?: number; // omitted for open-ended games
+  passingScore: number; // score needed for the result to complete the quest
+  turns: number;
+  state: GameStateView;
+  submission?: QuestSubmission;
+}
+
+export interface GameTurnOutcome {
+  game: GameView;
+  turn: GameTurnResult;
+  // Set once the game is over and its result completed the quest
+  completion?: QuestCompletion;
+}
+
+// A quest's game: its rules, the viewer's latest play and the best scores so far
+export interface GameOverview {
+  questId: string;
+  game: GameKind;
+  title: string;
+  rules: string;
+  maxScore?: number;
+  passingScore: number;
+  session?: GameView;
+  scoreboard: GameScore[];
+}
+
+export interface GameScore {
+  inboxId: string;
+  score: number; // best finished game
+  games: number;
+  passed: boolean;
+}
@@ -0,0 +1,14 @@
+export type JobStatus = "pending" | "running" | "done" | "failed" | "cancelled";
+
+export interface ScheduledJob {
+  id: string;
+  type: string;
+  questId?: string;
+  runAt: Date;
+  status: JobStatus;
+  attempts: number;
+  lastError?: string;
+  payload?: Record<string, unknown>;
+  createdAt: Date;
+  completedAt?: Date;
+}
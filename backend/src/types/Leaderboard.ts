@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { QuestSchema } from "./Quest";
+
+export const LeaderboardScopeSchema = z.enum(["global", "conversation", "quest_type", "quest_master"]);
+export const LeaderboardWindowSchema = z.enum(["day", "week", "season", "all"]); // days and weeks are UTC, weeks start Monday
+export const LeaderboardMetricSchema = z.enum(["xp", "social", "completions"]);
+
+// Query string of GET /api/leaderboard
+export const LeaderboardQuerySchema = z
+  .object({
+    scope: LeaderboardScopeSchema.default("global"),
+    conversationId: z.string().min(1).optional(), // conversation scope
+    questType: QuestSchema.shape.type.optional(), // quest_type scope
+    questMaster: z.string().min(1).optional(), // quest_master scope, by personality name
+    window: LeaderboardWindowSchema.default("all"),
+    metric: LeaderboardMetricSchema.default("xp"),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z.string().optional(), // nextCursor of the previous page
+    inboxId: z.string().optional(), // whose own rank to include
+  })
+  .superRefine((query, ctx) => {
+    const required = { conversation: "conversationId", quest_type: "questType", quest_master: "questMaster" } as const;
+    const key = query.scope === "global" ? undefined : required[query.scope];
+    if (key && !query[key]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Required for the ${query.scope} scope` });
+    }
+  });
+
+export type LeaderboardScope = z.infer<typeof LeaderboardScopeSchema>;
+export type LeaderboardWindow = z.infer<typeof LeaderboardWindowSchema>;
+export type LeaderboardMetric = z.infer<typeof LeaderboardMetricSchema>;
+export type LeaderboardQuery = z.infer<typeof LeaderboardQuerySchema>;
+
+export interface LeaderboardEntry {
+  rank: number; // players with the same score share a rank
+  inboxId: string;
+  score: number; // the ranked metric
+  xp: number;
+  socialScore: number;
+  completions: number;
+  level: number;
+}
+
+export interface LeaderboardPage {
+  scope: LeaderboardScope;
+  window: LeaderboardWindow;
+  metric: LeaderboardMetric;
+  since?: Date; // start of the window
+  season?: { id: string; name: string; endsAt: Date };
+  total: number; // ranked players
+  entries: LeaderboardEntry[];
+  nextCursor?: string;
+  me?: LeaderboardEntry; // the requesting player, even when outside the page
+}
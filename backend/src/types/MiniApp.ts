@@ -0,0 +1,12 @@
+import type { QuestStatus } from "./Quest";
+
+export interface MiniAppConfig {
+  questId: string;
+  conversationId: string;
+  type: string;
+  config: any;
+  launchedAt: Date;
+  url?: string;
+  status: QuestStatus;
+  participants: string[];
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+// Total XP needed for each level
+export const LevelCurveSchema = z.discriminatedUnion("kind", [
+  // Every level costs the same
+  z.object({ kind: z.literal("linear"), xpPerLevel: z.number().positive() }),
+  // Level 2 costs baseXp, each level after costs `growth` times the one before
+  z.object({ kind: z.literal("exponential"), baseXp: z.number().positive(), growth: z.number().min(1) }),
+  // Total XP to reach level 2, 3, ...; the last entry is the top level
+  z.object({
+    kind: z.literal("table"),
+    thresholds: z
+      .array(z.number().positive())
+      .min(1)
+      .refine(t => t.every((xp, i) => i === 0 || xp > t[i - 1]), "thresholds must increase"),
+  }),
+]);
+
+const levelSchema = z.number().int().min(1);
+
+export const ProgressionConfigSchema = z.object({
+  curve: LevelCurveSchema.default({ kind: "exponential", baseXp: 100, growth: 1.5 }),
+  maxLevel: z.number().int().min(2).default(100),
+  // Level a player needs to join quests of each difficulty
+  difficultyLevels: z
+    .object({
+      easy: levelSchema.default(1),
+      medium: levelSchema.default(1),
+      hard: levelSchema.default(3),
+      expert: levelSchema.default(5),
+    })
+    .default({}),
+});
+
+export type LevelCurve = z.infer<typeof LevelCurveSchema>;
+export type ProgressionConfig = z.infer<typeof ProgressionConfigSchema>;
+
+export interface LevelProgress {
+  level: number;
+  xp: number;
+  levelXp: number; // total XP the current level started at
+  nextLevelXp?: number; // total XP for the next level, unset at the top level
+  progress: number; // 0 to 1 through the current level
+}
@@ -1,4 +1,81 @@
 import { z } from "zod";
+import { EarnedBadgeSchema } from "./Badge";
+import { StreakSchema } from "./Streak";
+
+// Quest lifecycle, see services/QuestLifecycle.ts for allowed transitions
+export const QuestStatusSchema = z.enum([
+  "draft",
+  "scheduled",
+  "open",
+  "in_progress",
+  "paused",
+  "judging",
+  "completed",
+  "expired",
+  "cancelled",
+]);
+
+// Progress of a single participant, independent of the quest status
+export const ParticipantStatusSchema = z.enum(["joined", "completed"]);
+
+// How a participant proves they completed a quest
+export const ProofTypeSchema = z.enum([
+  "text", // written answer, optionally checked against expectedAnswer
+  "image", // image URL or attachment
+  "link", // URL, optionally restricted to a domain
+  "group_message", // a message posted in the quest's group chat
+  "peer_confirmation", // another participant vouches for it
+  "tx_hash", // on-chain transaction that must have succeeded
+  "game_result", // a finished game of the quest's game mini app, scored by the server
+]);
+
+export const ProofRequirementSchema = z.object({
+  type: ProofTypeSchema,
+  instructions: z.string().optional(),
+  expectedAnswer: z.string().optional(), // text proofs only
+  domain: z.string().optional(), // link proofs only, e.g. "github.com"
+  confirmations: z.number().int().min(1).optional(), // peer confirmations needed, default 1
+});
+
+// One scoring criterion for judged quests; scores are weighted by importance
+export const RubricCriterionSchema = z.object({
+  criterion: z.string(),
+  description: z.string().optional(),
+  weight: z.number().min(1).max(5).default(1),
+});
+
+// Knowledge quest question; answers are graded automatically
+export const QuizQuestionSchema = z.object({
+  id: z.string(),
+  prompt: z.string(),
+  kind: z.enum(["multiple_choice", "short_answer"]),
+  choices: z.array(z.string()).optional(), // multiple choice only
+  answer: z.string(), // canonical answer; for multiple choice, the correct choice
+  acceptedAnswers: z.array(z.string()).optional(), // other spellings accepted for short answers
+});
+
+// Peer vote among group members, on the quest's entries or on fixed options
+export const VoteConfigSchema = z.object({
+  subject: z.enum(["submissions", "options"]),
+  options: z.array(z.string()).optional(), // options votes only
+  rankedChoice: z.boolean().default(false), // ballots rank candidates, counted by instant runoff
+  duration: z.number().optional(), // minutes voting stays open once entries close, submissions votes only
+});
+
+// Team play: participants are grouped into squads that share their rewards
+export const TeamConfigSchema = z.object({
+  size: z.number().int().min(2), // members per team
+  formation: z.enum(["auto", "self"]).default("auto"), // balanced by the bot, or picked by participants
+  split: z.enum(["equal", "contribution"]).default("equal"), // how a team's XP is shared among its members
+});
+
+// Position of a quest in a quest chain
+export const QuestChainLinkSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  step: z.number().int().min(1),
+  steps: z.number().int().min(2),
+});
 
 // Quest Types Schema
 export const QuestSchema = z.object({
@@ -23,18 +100,51 @@ export const QuestSchema = z.object({
     tokens: z.number().optional(),
     badges: z.array(z.string()).optional(),
   }),
-  requirements: z.array(z.string()).optional(),
+  requirements: z.array(z.string()).optional(), // free text, or rules such as "level:3" checked on join
+  proof: ProofRequirementSchema.optional(), // defaults by quest type when missing
+  rubric: z.array(RubricCriterionSchema).optional(), // judged quests only
+  questions: z.array(QuizQuestionSchema).optional(), // knowledge quests only
+  vote: VoteConfigSchema.optional(), // decided by a peer vote
+  teams: TeamConfigSchema.optional(), // played in teams
+  chain: QuestChainLinkSchema.optional(), // step of a quest chain
   miniAppConfig: z.object({
     type: z.enum(["dashboard", "game", "poll", "leaderboard", "gallery"]),
     config: z.record(z.any()),
   }),
   conversationId: z.string(),
+  questMaster: z.string().optional(), // name of the personality that created it
   createdAt: z.date().default(() => new Date()),
+  startsAt: z.date().optional(), // registration opens at this time when scheduled
   expiresAt: z.date(),
-  status: z.enum(["active", "completed", "expired"]).default("active"),
+  status: QuestStatusSchema.default("open"),
+  pausedFrom: QuestStatusSchema.optional(), // status to resume to while paused
+  pausedAt: z.date().optional(), // the clock stops while paused; resuming pushes expiresAt back
   participants: z.array(z.string()).default([]),
 });
 
+export const QuestChainStatusSchema = z.enum(["active", "completed", "failed"]);
+
+// Storyline of quests played in order; each step unlocks once the one before completes
+export const QuestChainSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  conversationId: z.string(),
+  questMaster: z.string().optional(),
+  questIds: z.array(z.string()).min(2), // steps in order
+  bonus: z.object({
+    xp: z.number(),
+    tokens: z.number().optional(),
+    badges: z.array(z.string()).optional(),
+  }), // awarded to everyone who completes every step
+  stepDelayMinutes: z.number().int().min(0).default(0), // wait between a step completing and the next opening
+  status: QuestChainStatusSchema.default("active"),
+  bonusAwardedTo: z.array(z.string()).default([]),
+  createdAt: z.date().default(() => new Date()),
+  endedAt: z.date().optional(),
+  endedReason: z.string().optional(),
+});
+
 export const UserProfileSchema = z.object({
   inboxId: z.string(),
   level: z.number().default(1),
@@ -42,6 +152,8 @@ export const UserProfileSchema = z.object({
   preferences: z.array(z.string()).default([]),
   completedQuests: z.array(z.string()).default([]),
   socialScore: z.number().default(0),
+  badges: z.array(EarnedBadgeSchema).default([]),
+  streak: StreakSchema.default({}),
   lastActive: z.date().default(() => new Date()),
 });
 
@@ -56,9 +168,86 @@ export const QuestCompletionSchema = z.object({
     badges: z.array(z.string()).optional(),
   }),
   newLevel: z.number(),
+  streakMultiplier: z.number().optional(), // XP multiplier from the participant's daily streak, when above 1
+  rank: z.number().int().min(1).optional(), // placement in a judged quest
+  teamId: z.string().optional(), // team the rewards were shared with
+});
+
+export const SubmissionStatusSchema = z.enum(["pending", "verified", "rejected"]);
+
+export const ProofSubmissionSchema = z.object({
+  type: ProofTypeSchema,
+  value: z.string().default(""),
+  messageId: z.string().optional(), // chat message the proof was sent in
+});
+
+export const QuestSubmissionSchema = z.object({
+  id: z.string(),
+  questId: z.string(),
+  participantInboxId: z.string(),
+  proof: ProofSubmissionSchema,
+  status: SubmissionStatusSchema.default("pending"),
+  reason: z.string().optional(), // why it was rejected or is still pending
+  confirmations: z.array(z.string()).default([]), // inbox IDs of confirming peers
+  submittedAt: z.date().default(() => new Date()),
+  reviewedAt: z.date().optional(),
+});
+
+export const QuizAnswerSchema = z.object({
+  questId: z.string(),
+  questionId: z.string(),
+  participantInboxId: z.string(),
+  answer: z.string(),
+  score: z.number().min(0).max(1), // 1 correct, 0.5 close, 0 wrong
+  answeredAt: z.date().default(() => new Date()),
+});
+
+// A member's ballot, candidate IDs in order of preference
+export const QuestVoteSchema = z.object({
+  questId: z.string(),
+  voterInboxId: z.string(),
+  choices: z.array(z.string()).min(1),
+  castAt: z.date().default(() => new Date()),
+});
+
+export const QuestTeamSchema = z.object({
+  id: z.string(),
+  questId: z.string(),
+  name: z.string(),
+  members: z.array(z.string()).default([]),
+  // Share of the quest's rewards each member earned with their part, 0-1
+  contributions: z.record(z.number()).default({}),
+  results: z.record(z.any()).default({}), // each member's own completion result
+  createdAt: z.date().default(() => new Date()),
+  completedAt: z.date().optional(), // set once the team's rewards are shared
+});
+
+export const QuestParticipantSchema = z.object({
+  questId: z.string(),
+  inboxId: z.string(),
+  status: ParticipantStatusSchema.default("joined"),
+  joinedAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
 });
 
 export type Quest = z.infer<typeof QuestSchema>;
+export type QuestStatus = z.infer<typeof QuestStatusSchema>;
+export type QuestChain = z.infer<typeof QuestChainSchema>;
+export type QuestChainStatus = z.infer<typeof QuestChainStatusSchema>;
+export type ParticipantStatus = z.infer<typeof ParticipantStatusSchema>;
+export type QuestParticipant = z.infer<typeof QuestParticipantSchema>;
+export type QuizQuestion = z.infer<typeof QuizQuestionSchema>;
+export type QuizAnswer = z.infer<typeof QuizAnswerSchema>;
+export type TeamConfig = z.infer<typeof TeamConfigSchema>;
+export type QuestTeam = z.infer<typeof QuestTeamSchema>;
+export type VoteConfig = z.infer<typeof VoteConfigSchema>;
+export type QuestVote = z.infer<typeof QuestVoteSchema>;
+export type RubricCriterion = z.infer<typeof RubricCriterionSchema>;
+export type ProofType = z.infer<typeof ProofTypeSchema>;
+export type ProofRequirement = z.infer<typeof ProofRequirementSchema>;
+export type ProofSubmission = z.infer<typeof ProofSubmissionSchema>;
+export type SubmissionStatus = z.infer<typeof SubmissionStatusSchema>;
+export type QuestSubmission = z.infer<typeof QuestSubmissionSchema>;
 export type UserProfile = z.infer<typeof UserProfileSchema>;
 export type QuestCompletion = z.infer<typeof QuestCompletionSchema>;
 
@@ -68,4 +257,14 @@ export interface QuestMasterPersonality {
   questTypes: Quest["type"][];
   style: "encouraging" | "competitive" | "creative" | "analytical" | "adventurous";
   systemPrompt: string;
+}
+
+// Generated quest that never passed validation
+export interface QuestRejection {
+  questMaster: string;
+  conversationId: string;
+  rejectedAt: Date;
+  attempts: number;
+  errors: string[];
+  lastResponse?: string;
 } 
\ No newline at end of file
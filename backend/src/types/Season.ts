@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+// Rewards for finishing a season at or above a rank
+export const SeasonRewardSchema = z.object({
+  upToRank: z.number().int().min(1),
+  xp: z.number().min(0),
+  badges: z.array(z.string()).default([]),
+});
+
+export const SeasonStatusSchema = z.enum(["scheduled", "active", "ended"]);
+
+export const SeasonSchema = z.object({
+  id: z.string(),
+  number: z.number().int().min(1),
+  name: z.string(),
+  startsAt: z.date(),
+  endsAt: z.date(),
+  status: SeasonStatusSchema,
+  rewards: z.array(SeasonRewardSchema), // best tier first
+  createdAt: z.date().default(() => new Date()),
+  endedAt: z.date().optional(),
+});
+
+// A player's tally for one season; rank and rewards are set once it ends
+export const SeasonScoreSchema = z.object({
+  seasonId: z.string(),
+  inboxId: z.string(),
+  xp: z.number().default(0),
+  questsCompleted: z.number().int().default(0),
+  updatedAt: z.date().default(() => new Date()),
+  rank: z.number().int().min(1).optional(),
+  rewards: SeasonRewardSchema.omit({ upToRank: true }).optional(),
+});
+
+export const DEFAULT_SEASON_REWARDS: z.infer<typeof SeasonRewardSchema>[] = [
+  { upToRank: 1, xp: 500, badges: ["Season Champion"] },
+  { upToRank: 3, xp: 250, badges: ["Season Podium"] },
+  { upToRank: 10, xp: 100, badges: ["Season Top 10"] },
+];
+
+export const SeasonConfigSchema = z.object({
+  lengthDays: z.number().int().min(1).default(30),
+  // When the first automatic season starts; later ones follow back to back
+  firstStartsAt: z.coerce.date().optional(),
+  rewards: z.array(SeasonRewardSchema).default(DEFAULT_SEASON_REWARDS),
+});
+
+export type SeasonReward = z.infer<typeof SeasonRewardSchema>;
+export type SeasonStatus = z.infer<typeof SeasonStatusSchema>;
+export type Season = z.infer<typeof SeasonSchema>;
+export type SeasonScore = z.infer<typeof SeasonScoreSchema>;
+export type SeasonConfig = z.infer<typeof SeasonConfigSchema>;
+
+export interface SeasonStanding {
+  rank: number;
+  inboxId: string;
+  xp: number;
+  questsCompleted: number;
+  rewards?: SeasonScore["rewards"];
+}
@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+// UTC calendar day, e.g. "2025-06-30"
+const daySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// A player's run of active days and weeks; a day counts once they complete a quest
+export const StreakSchema = z.object({
+  days: z.number().int().min(0).default(0), // consecutive active days; days covered by a freeze keep it without adding to it
+  bestDays: z.number().int().min(0).default(0),
+  weeks: z.number().int().min(0).default(0), // consecutive weeks with an active day
+  bestWeeks: z.number().int().min(0).default(0),
+  lastActiveDay: daySchema.optional(),
+  lastActiveWeek: daySchema.optional(), // Monday of the week
+  freezeTokens: z.number().int().min(0).default(0), // each covers one missed day
+  remindedOn: daySchema.optional(), // day of the last at-risk reminder
+});
+
+export const StreakConfigSchema = z.object({
+  multiplierPerDay: z.number().min(0).default(0.1), // extra XP per streak day after the first
+  maxMultiplier: z.number().min(1).default(2),
+  maxFreezeTokens: z.number().int().min(0).default(3),
+  // Completing a quest of these difficulties earns a freeze token
+  freezeDifficulties: z.array(z.enum(["easy", "medium", "hard", "expert"])).default(["hard", "expert"]),
+  reminderHourUtc: z.number().int().min(0).max(23).default(18), // when players with a streak at risk are reminded
+});
+
+export type Streak = z.infer<typeof StreakSchema>;
+export type StreakConfig = z.infer<typeof StreakConfigSchema>;
+
+export interface StreakStatus {
+  days: number;
+  bestDays: number;
+  weeks: number;
+  bestWeeks: number;
+  freezeTokens: number;
+  multiplier: number; // applied to XP from the next quest completed today
+  activeToday: boolean;
+  atRisk: boolean; // ends at midnight UTC unless the player completes a quest or has a freeze
+  lastActiveDay?: string;
+}
+
+export interface StreakUpdate {
+  inboxId: string;
+  status: StreakStatus;
+  extended: boolean; // today counted for the first time
+  frozenDays: number; // missed days covered by freeze tokens
+  lost: number; // length of a streak that just broke, 0 if none
+  freezeEarned: boolean;
+  questId?: string;
+}
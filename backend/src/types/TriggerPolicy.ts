@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+const hourSchema = z.number().int().min(0).max(23);
+
+// When the quest engine may start a quest in a conversation on its own
+export const TriggerPolicySchema = z.object({
+  enabled: z.boolean().default(true),
+  cooldownMinutes: z.number().min(0).default(30), // since the last quest in the conversation
+  maxConcurrentQuests: z.number().int().min(0).default(1),
+  quietHours: z
+    .object({ start: hourSchema, end: hourSchema }) // server local time, may wrap midnight
+    .nullable()
+    .default({ start: 23, end: 7 }),
+  minActiveSenders: z.number().int().min(1).default(2), // distinct senders within the window
+  activityWindowMinutes: z.number().min(1).default(60),
+  lullMinutes: z.number().min(1).default(15), // silence before a message that counts as a lull
+  maxEngagement: z.number().min(0).max(100).default(60), // busier chats don't need a nudge
+});
+
+export const TriggerPolicyOverridesSchema = TriggerPolicySchema.partial();
+
+export type TriggerPolicy = z.infer<typeof TriggerPolicySchema>;
+export type TriggerPolicyOverrides = z.infer<typeof TriggerPolicyOverridesSchema>;
+
+export interface TriggerDecision {
+  conversationId: string;
+  trigger: boolean;
+  reasons: string[];
+  evaluatedAt: Date;
+  metrics: {
+    activityLevel: "low" | "medium" | "high";
+    engagement: number;
+    activeSenders: number;
+    activeQuests: number;
+    minutesSinceLastQuest?: number;
+    minutesSincePreviousMessage?: number;
+  };
+}
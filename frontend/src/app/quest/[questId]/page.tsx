@@ -3,6 +3,9 @@
 import { useEffect, useState } from "react";
 import { useParams, useSearchParams } from "next/navigation";
 import { Button } from "@/components/Button";
+import { GalleryMiniApp } from "@/components/GalleryMiniApp";
+import { GameMiniApp } from "@/components/GameMiniApp";
+import { LeaderboardMiniApp, type LeaderboardMetric, type LeaderboardWindow } from "@/components/LeaderboardMiniApp";
 import { SafeAreaContainer } from "@/components/SafeAreaContainer";
 import { useXMTP } from "@/context/xmtp-context";
 
@@ -25,13 +28,146 @@ interface QuestDetails {
       max: number;
     };
     requirements?: string[];
+    proof?: ProofRequirement;
+    questions?: QuizQuestion[];
+    vote?: VoteConfig;
+    teams?: TeamConfig;
+    chain?: ChainLink;
+    leaderboard?: LeaderboardConfig;
   };
   launchedAt: string;
   url: string;
-  status: 'active' | 'completed' | 'expired';
+  status:
+    | 'draft'
+    | 'scheduled'
+    | 'open'
+    | 'in_progress'
+    | 'paused'
+    | 'judging'
+    | 'completed'
+    | 'expired'
+    | 'cancelled';
   participants: string[];
 }
 
+type ProofType = 'text' | 'image' | 'link' | 'group_message' | 'peer_confirmation' | 'tx_hash' | 'game_result';
+
+interface ProofRequirement {
+  type: ProofType;
+  instructions?: string;
+  domain?: string;
+  confirmations?: number;
+}
+
+// What leaderboard mini apps rank and over which timeframe they open
+interface LeaderboardConfig {
+  metric?: LeaderboardMetric;
+  timeframe?: LeaderboardWindow;
+}
+
+interface QuestSubmission {
+  id: string;
+  status: 'pending' | 'verified' | 'rejected';
+  reason?: string;
+}
+
+// Knowledge quest question, served without its answer
+interface QuizQuestion {
+  id: string;
+  prompt: string;
+  kind: 'multiple_choice' | 'short_answer';
+  choices?: string[];
+}
+
+interface QuizAnswerResult {
+  score: number;
+  feedback: string;
+}
+
+interface QuizScore {
+  inboxId: string;
+  points: number;
+  answered: number;
+  total: number;
+  finished: boolean;
+}
+
+const CHOICE_LETTERS = 'ABCDEFGHIJ';
+
+// Peer vote on the quest's entries or on fixed options
+interface VoteConfig {
+  subject: 'submissions' | 'options';
+  options?: string[];
+  rankedChoice: boolean;
+  duration?: number;
+}
+
+interface VoteCandidate {
+  id: string;
+  label: string;
+  inboxId?: string;
+}
+
+interface VoteTally {
+  ballots: number;
+  rankedChoice: boolean;
+  counts: { candidateId: string; label: string; votes: number }[];
+  rounds?: Record<string, number>[];
+  winner?: string;
+}
+
+interface VoteState {
+  open: boolean;
+  candidates: VoteCandidate[];
+  tally: VoteTally;
+  ballot?: { choices: string[] };
+}
+
+// Position of a quest in a quest chain
+interface ChainLink {
+  id: string;
+  title: string;
+  step: number;
+  steps: number;
+}
+
+// Team play: squads that share their rewards
+interface TeamConfig {
+  size: number;
+  formation: 'auto' | 'self';
+  split: 'equal' | 'contribution';
+}
+
+interface QuestTeam {
+  id: string;
+  name: string;
+  members: string[];
+  contributions: Record<string, number>;
+}
+
+interface TeamStanding {
+  team: QuestTeam;
+  size: number;
+  contributed: number;
+  progress: number;
+  completed: boolean;
+}
+
+interface TeamsState {
+  standings: TeamStanding[];
+  team?: QuestTeam;
+}
+
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3001';
+
+// Placeholder for proofs the participant types or pastes; other types need no input
+const PROOF_PLACEHOLDERS: Partial<Record<ProofType, string>> = {
+  text: 'Your answer',
+  image: 'https://... link to your image',
+  link: 'https://...',
+  tx_hash: '0x... transaction hash',
+};
+
 interface QuestResponse {
   quest: QuestDetails;
   participants: string[];
@@ -54,6 +190,15 @@ export default function QuestPage() {
   const [error, setError] = useState<string | null>(null);
   const [isParticipant, setIsParticipant] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
+  const [proofValue, setProofValue] = useState('');
+  const [submission, setSubmission] = useState<QuestSubmission | null>(null);
+  const [quizAnswers, setQuizAnswers] = useState<Record<string, QuizAnswerResult>>({});
+  const [quizDrafts, setQuizDrafts] = useState<Record<string, string>>({});
+  const [scoreboard, setScoreboard] = useState<QuizScore[]>([]);
+  const [voteState, setVoteState] = useState<VoteState | null>(null);
+  const [ranking, setRanking] = useState<string[]>([]);
+  const [teamsState, setTeamsState] = useState<TeamsState | null>(null);
+  const [teamDraft, setTeamDraft] = useState('');
 
   // Fetch quest details
   useEffect(() => {
@@ -89,6 +234,224 @@ export default function QuestPage() {
     }
   }, [questId, client?.inboxId]);
 
+  // Fetch the participant's answers and the scoreboard of knowledge quests
+  const hasQuestions = (questDetails?.quest.config.questions?.length ?? 0) > 0;
+  // Game quests are completed by playing, the finished game being the proof
+  const hasGame = questDetails?.quest.config.proof?.type === 'game_result';
+
+  const fetchScoreboard = async () => {
+    const response = await fetch(`/api/quests/${questId}/scoreboard`, {
+      headers: {
+        'x-api-secret': process.env.NEXT_PUBLIC_API_SECRET || 'xmtp-social-quest-arena-secret-key-2024',
+      },
+    });
+    if (response.ok) {
+      const data: { scoreboard: QuizScore[] } = await response.json();
+      setScoreboard(data.scoreboard);
+    }
+  };
+
+  useEffect(() => {
+    const fetchQuizState = async () => {
+      try {
+        const response = await fetch(`/api/quests/${questId}/questions?inboxId=${client?.inboxId ?? ''}`, {
+          headers: {
+            'x-api-secret': process.env.NEXT_PUBLIC_API_SECRET || 'xmtp-social-quest-arena-secret-key-2024',
+          },
+        });
+        if (response.ok) {
+          const data: { answered: { questionId: string; score: number }[] } = await response.json();
+          setQuizAnswers(Object.fromEntries(data.answered.map(answer => [
+            answer.questionId,
+            {
+              score: answer.score,
+              feedback: answer.score === 1 ? 'Correct!' : answer.score > 0 ? 'Close, half credit' : 'Not quite',
+            },
+          ])));
+        }
+        await fetchScoreboard();
+      } catch (err) {
+        console.error('Failed to fetch quiz state:', err);
+      }
+    };
+
+    if (questId && hasQuestions) {
+      fetchQuizState();
+    }
+  }, [questId, hasQuestions, client?.inboxId]);
+
+  // Answer one question
+  const handleAnswerQuestion = async (questionId: string, answer: string) => {
+    if (!client?.inboxId || !answer.trim()) return;
+
+    try {
+      setActionLoading(true);
+      const response = await fetch(`/api/quests/${questId}/answers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-secret': process.env.NEXT_PUBLIC_API_SECRET || 'xmtp-social-quest-arena-secret-key-2024',
+        },
+        body: JSON.stringify({ inboxId: client.inboxId, questionId, answer }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setQuizAnswers(previous => ({ ...previous, [questionId]: { score: data.score, feedback: data.feedback } }));
+        await fetchScoreboard();
+      } else {
+        setError(data.error || 'Failed to answer question');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to answer question');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // Fetch the vote and keep its tally live
+  const hasVote = Boolean(questDetails?.quest.config.vote);
+
+  const fetchVote = async () => {
+    const response = await fetch(`/api/quests/${questId}/vote?inboxId=${client?.inboxId ?? ''}`, {
+      headers: {
+        'x-api-secret': process.env.NEXT_PUBLIC_API_SECRET || 'xmtp-social-quest-arena-secret-key-2024',
+      },
+    });
+    if (response.ok) {
+      const data: VoteState = await response.json();
+      setVoteState(data);
+      setRanking(data.ballot?.choices ?? []);
+    }
+  };
+
+  useEffect(() => {
+    if (!questId || !hasVote) return;
+    fetchVote().catch(err => console.error('Failed to fetch vote:', err));
+
+    const websocket = new WebSocket(WS_URL);
+    websocket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.data?.questId !== questId) return;
+        if (message.type === 'voteTally') {
+          setVoteState(previous => previous && { ...previous, tally: message.data.tally });
+        } else if (message.type === 'voteClosed' || message.type === 'questStatusChanged') {
+          // Entries and the open state change with the quest status
+          fetchVote().catch(err => console.error('Failed to refresh vote:', err));
+        }
+      } catch (err) {
+        console.error('Error parsing WebSocket message:', err);
+      }
+    };
+    return () => websocket.close();
+  }, [questId, hasVote, client?.inboxId]);
+
+  // Pick a candidate; ranked votes collect picks in order until submitted
+  const handlePickCandidate = (candidateId: string) => {
+    if (!questDetails?.quest.config.vote?.rankedChoice) {
+      void handleCastVote([candidateId]);
+      return;
+    }
+    setRanking(previous =>
+      previous.includes(candidateId)
+        ? previous.filter(id => id !== candidateId)
+        : [...previous, candidateId]
+    );
+  };
+
+  const handleCastVote = async (choices: string[]) => {
+    if (!client?.inboxId || choices.length === 0) return;
+
+    try {
+      setActionLoading(true);
+      const response = await fetch(`/api/quests/${questId}/votes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-secret': process.env.NEXT_PUBLIC_API_SECRET || 'xmtp-social-quest-arena-secret-key-2024',
+        },
+        body: JSON.stringify({ inboxId: client.inboxId, choices }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setVoteState(previous => previous && { ...previous, tally: data.tally, ballot: data.vote });
+        setRanking(data.vote.choices);
+      } else {
+        setError(data.error || 'Failed to cast vote');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cast vote');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // Fetch the team roster and keep it live
+  const hasTeams = Boolean(questDetails?.quest.config.teams);
+
+  const fetchTeams = async () => {
+    const response = await fetch(`/api/quests/${questId}/teams?inboxId=${client?.inboxId ?? ''}`, {
+      headers: {
+        'x-api-secret': process.env.NEXT_PUBLIC_API_SECRET || 'xmtp-social-quest-arena-secret-key-2024',
+      },
+    });
+    if (response.ok) {
+      const data: TeamsState = await response.json();
+      setTeamsState(data);
+    }
+  };
+
+  useEffect(() => {
+    if (!questId || !hasTeams) return;
+    fetchTeams().catch(err => console.error('Failed to fetch teams:', err));
+
+    const websocket = new WebSocket(WS_URL);
+    websocket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.data?.questId !== questId) return;
+        if (message.type === 'teamsUpdated' || message.type === 'teamCompleted') {
+          // Refetch so the participant's own team stays current
+          fetchTeams().catch(err => console.error('Failed to refresh teams:', err));
+        }
+      } catch (err) {
+        console.error('Error parsing WebSocket message:', err);
+      }
+    };
+    return () => websocket.close();
+  }, [questId, hasTeams, client?.inboxId]);
+
+  // Join a team by number or name; a new name starts a team
+  const handleJoinTeam = async (team: string) => {
+    if (!client?.inboxId || !team.trim()) return;
+
+    try {
+      setActionLoading(true);
+      const response = await fetch(`/api/quests/${questId}/teams`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-secret': process.env.NEXT_PUBLIC_API_SECRET || 'xmtp-social-quest-arena-secret-key-2024',
+        },
+        body: JSON.stringify({ inboxId: client.inboxId, team }),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setTeamDraft('');
+        await fetchTeams();
+      } else {
+        setError(data.error || 'Failed to join team');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join team');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   // Join quest
   const handleJoinQuest = async () => {
     if (!client?.inboxId || !questDetails) return;
@@ -179,10 +542,16 @@ export default function QuestPage() {
         },
         body: JSON.stringify({ 
           inboxId: client.inboxId,
-          result: { completed: true, timestamp: new Date().toISOString() }
+          proof: { value: proofValue },
         }),
       });
 
+      const data = await response.json();
+      // Rejected proofs (422) come back with the reason instead of failing the page
+      if (data.submission) {
+        setSubmission(data.submission);
+      }
+
       if (response.ok) {
         // Refresh quest details
         const updatedResponse = await fetch(`/api/quests/${questId}`, {
@@ -194,9 +563,8 @@ export default function QuestPage() {
           const updatedData: QuestResponse = await updatedResponse.json();
           setQuestDetails(updatedData);
         }
-      } else {
-        const errorData = await response.json();
-        setError(errorData.error || 'Failed to complete quest');
+      } else if (!data.submission) {
+        setError(data.error || 'Failed to complete quest');
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to complete quest');
@@ -232,9 +600,14 @@ export default function QuestPage() {
   // Get status color
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'active': return 'text-green-400';
+      case 'open': return 'text-green-400';
+      case 'in_progress': return 'text-green-400';
+      case 'scheduled': return 'text-yellow-400';
+      case 'paused': return 'text-yellow-400';
+      case 'judging': return 'text-purple-400';
       case 'completed': return 'text-blue-400';
       case 'expired': return 'text-red-400';
+      case 'cancelled': return 'text-red-400';
       default: return 'text-gray-400';
     }
   };
@@ -290,7 +663,7 @@ export default function QuestPage() {
             ← Back
           </Button>
           <div className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(quest.status)}`}>
-            {quest.status.toUpperCase()}
+            {quest.status.replace('_', ' ').toUpperCase()}
           </div>
         </div>
 
@@ -301,6 +674,11 @@ export default function QuestPage() {
             <div className="text-center">
               <div className="text-6xl mb-2">{getQuestEmoji(quest.type)}</div>
               <h1 className="text-2xl font-bold text-white mb-2">{quest.config.title}</h1>
+              {quest.config.chain && (
+                <p className="text-sm text-purple-400 mb-2">
+                  📜 Step {quest.config.chain.step} of {quest.config.chain.steps} in {quest.config.chain.title}
+                </p>
+              )}
               <div className="flex items-center justify-center gap-2 mb-4">
                 <span className="text-yellow-400">{getDifficultyStars(quest.config.difficulty)}</span>
                 <span className="text-gray-400">•</span>
@@ -346,10 +724,127 @@ export default function QuestPage() {
               </div>
             </div>
 
+            {/* Leaderboard */}
+            {quest.type === 'leaderboard' && (
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-2">🏆 Leaderboard</h3>
+                <LeaderboardMiniApp
+                  conversationId={quest.conversationId}
+                  inboxId={client?.inboxId}
+                  metric={quest.config.leaderboard?.metric}
+                  timeframe={quest.config.leaderboard?.timeframe}
+                />
+              </div>
+            )}
+
+            {/* Gallery */}
+            {quest.type === 'gallery' && (
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-2">🖼️ Gallery</h3>
+                <GalleryMiniApp
+                  questId={questId}
+                  inboxId={client?.inboxId}
+                  canEnter={isParticipant}
+                  vote={hasVote && voteState && quest.config.vote?.subject === 'submissions' ? {
+                    open: voteState.open,
+                    rankedChoice: quest.config.vote.rankedChoice,
+                    picks: ranking,
+                  } : undefined}
+                  onVote={handlePickCandidate}
+                />
+              </div>
+            )}
+
+            {/* Game */}
+            {hasGame && (
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-2">🎮 Game</h3>
+                <GameMiniApp
+                  questId={questId}
+                  inboxId={client?.inboxId}
+                  canPlay={isParticipant && quest.status === 'in_progress'}
+                  onSubmission={setSubmission}
+                />
+              </div>
+            )}
+
+            {/* Teams */}
+            {quest.config.teams && (
+              <div className="bg-gray-900 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-gray-400 mb-2">
+                  👥 Teams of {quest.config.teams.size} — XP split {quest.config.teams.split === 'equal' ? 'equally' : 'by contribution'}
+                </h4>
+                {!teamsState || teamsState.standings.length === 0 ? (
+                  <p className="text-gray-400 text-sm">
+                    {quest.config.teams.formation === 'self'
+                      ? 'No teams yet. Start one below.'
+                      : 'Teams are balanced automatically when the quest starts.'}
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {teamsState.standings.map((standing, index) => {
+                      const isMine = standing.team.id === teamsState.team?.id;
+                      const canJoin = quest.config.teams?.formation === 'self' && isParticipant && !isMine &&
+                        standing.team.members.length < standing.size;
+                      return (
+                        <li
+                          key={standing.team.id}
+                          className={`rounded-lg p-2 border ${isMine ? 'border-purple-500' : 'border-gray-700'}`}
+                        >
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-white">
+                              {standing.completed ? '🏁 ' : ''}{standing.team.name}{isMine ? ' (your team)' : ''}
+                            </span>
+                            <span className="text-gray-300">
+                              {standing.team.members.length}/{standing.size} · {standing.contributed} played
+                            </span>
+                          </div>
+                          <div className="bg-gray-800 rounded-full h-1 mt-1">
+                            <div
+                              className="bg-purple-500 h-1 rounded-full transition-all duration-300"
+                              style={{ width: `${Math.round(standing.progress * 100)}%` }}
+                            ></div>
+                          </div>
+                          {canJoin && (
+                            <button
+                              onClick={() => handleJoinTeam(String(index + 1))}
+                              disabled={actionLoading}
+                              className="text-xs text-purple-400 mt-1 disabled:opacity-60"
+                            >
+                              Join this team
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                {quest.config.teams.formation === 'self' && isParticipant && (
+                  <div className="flex gap-2 mt-3">
+                    <input
+                      type="text"
+                      value={teamDraft}
+                      onChange={(e) => setTeamDraft(e.target.value)}
+                      placeholder="New team name"
+                      maxLength={30}
+                      className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500"
+                    />
+                    <Button
+                      onClick={() => handleJoinTeam(teamDraft)}
+                      disabled={actionLoading || !teamDraft.trim()}
+                      className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600"
+                    >
+                      Start
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Requirements */}
             {quest.config.requirements && quest.config.requirements.length > 0 && (
               <div className="bg-gray-900 rounded-lg p-4">
-                <h4 className="text-sm font-semibold text-gray-400 mb-2">Requirements</h4>
+                <h4 className="text-sm font-semibold text-gray-400 mb-2">To join</h4>
                 <ul className="space-y-1">
                   {quest.config.requirements.map((req, index) => (
                     <li key={index} className="text-gray-300 text-sm flex items-center gap-2">
@@ -361,6 +856,147 @@ export default function QuestPage() {
               </div>
             )}
 
+            {/* Questions */}
+            {hasQuestions && (
+              <div className="bg-gray-900 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-gray-400 mb-2">
+                  Questions ({Object.keys(quizAnswers).length}/{quest.config.questions?.length} answered)
+                </h4>
+                <div className="space-y-4">
+                  {quest.config.questions?.map((question, index) => {
+                    const result = quizAnswers[question.id];
+                    const canAnswer = isParticipant && !result && quest.status === 'in_progress';
+                    return (
+                      <div key={question.id} className="space-y-2">
+                        <p className="text-white text-sm">{index + 1}. {question.prompt}</p>
+                        {question.kind === 'multiple_choice' && question.choices ? (
+                          <div className="grid grid-cols-1 gap-2">
+                            {question.choices.map((choice, choiceIndex) => (
+                              <Button
+                                key={choiceIndex}
+                                onClick={() => handleAnswerQuestion(question.id, CHOICE_LETTERS[choiceIndex])}
+                                disabled={actionLoading || !canAnswer}
+                                className="w-full text-left bg-gray-800 hover:bg-gray-700 text-sm"
+                              >
+                                {CHOICE_LETTERS[choiceIndex]}) {choice}
+                              </Button>
+                            ))}
+                          </div>
+                        ) : canAnswer && (
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              value={quizDrafts[question.id] || ''}
+                              onChange={(e) => setQuizDrafts(previous => ({ ...previous, [question.id]: e.target.value }))}
+                              placeholder="Your answer"
+                              className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500"
+                            />
+                            <Button
+                              onClick={() => handleAnswerQuestion(question.id, quizDrafts[question.id] || '')}
+                              disabled={actionLoading || !quizDrafts[question.id]?.trim()}
+                              className="bg-purple-600 hover:bg-purple-700 text-sm"
+                            >
+                              Answer
+                            </Button>
+                          </div>
+                        )}
+                        {result && (
+                          <p className={`text-sm ${
+                            result.score === 1 ? 'text-green-400' : result.score > 0 ? 'text-yellow-400' : 'text-red-400'
+                          }`}>
+                            {result.score === 1 ? '✅' : result.score > 0 ? '🟡' : '❌'} {result.feedback}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Scoreboard */}
+            {hasQuestions && scoreboard.length > 0 && (
+              <div className="bg-gray-900 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-gray-400 mb-2">Scoreboard</h4>
+                <ul className="space-y-1">
+                  {scoreboard.map((score, index) => (
+                    <li key={score.inboxId} className="text-sm flex items-center justify-between">
+                      <span className={score.inboxId === client?.inboxId ? 'text-purple-400' : 'text-gray-300'}>
+                        {index + 1}. {score.inboxId.slice(0, 8)}...{score.finished ? ' 🏁' : ''}
+                      </span>
+                      <span className="text-yellow-400 font-bold">{score.points}/{score.total}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Vote */}
+            {hasVote && voteState && (
+              <div className="bg-gray-900 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-gray-400 mb-2">
+                  🗳️ {quest.config.vote?.subject === 'options' ? 'Vote' : 'Vote for the best entry'}
+                  {quest.config.vote?.rankedChoice && ' (ranked choice)'} — {voteState.tally.ballots} vote(s)
+                </h4>
+                {voteState.candidates.length === 0 ? (
+                  <p className="text-gray-400 text-sm">Nothing to vote for yet.</p>
+                ) : quest.type === 'gallery' ? (
+                  // Gallery entries are voted on from their cards
+                  <p className="text-gray-400 text-sm">Vote from the entries in the gallery.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {voteState.candidates.map((candidate, index) => {
+                      const votes = voteState.tally.counts.find(c => c.candidateId === candidate.id)?.votes ?? 0;
+                      const share = voteState.tally.ballots > 0 ? (votes / voteState.tally.ballots) * 100 : 0;
+                      const place = ranking.indexOf(candidate.id);
+                      const isOwn = candidate.inboxId === client?.inboxId;
+                      return (
+                        <button
+                          key={candidate.id}
+                          onClick={() => handlePickCandidate(candidate.id)}
+                          disabled={actionLoading || !client || !voteState.open || isOwn}
+                          className={`w-full text-left rounded-lg p-2 border ${
+                            place >= 0 ? 'border-purple-500' : 'border-gray-700'
+                          } disabled:opacity-60`}
+                        >
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-white truncate">
+                              {place >= 0 && quest.config.vote?.rankedChoice ? `#${place + 1} ` : `${index + 1}. `}
+                              {candidate.label}{isOwn ? ' (yours)' : ''}
+                            </span>
+                            <span className="text-gray-300 ml-2">
+                              {candidate.id === voteState.tally.winner ? '👑 ' : ''}{votes}
+                            </span>
+                          </div>
+                          <div className="bg-gray-800 rounded-full h-1 mt-1">
+                            <div className="bg-purple-500 h-1 rounded-full transition-all duration-300" style={{ width: `${share}%` }}></div>
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+                {quest.config.vote?.rankedChoice && voteState.open && client && (
+                  <Button
+                    onClick={() => handleCastVote(ranking)}
+                    disabled={actionLoading || ranking.length === 0}
+                    className="w-full mt-3 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600"
+                  >
+                    {voteState.ballot ? 'Update Ranking 🗳️' : 'Submit Ranking 🗳️'}
+                  </Button>
+                )}
+                <p className="text-xs text-gray-500 mt-2">
+                  {!voteState.open
+                    ? 'Voting is closed.'
+                    : voteState.ballot
+                      ? 'Your vote is in. Voting again replaces it.'
+                      : quest.config.vote?.rankedChoice
+                        ? 'Tap options in order of preference, then submit.'
+                        : 'Tap an option to vote.'}
+                </p>
+              </div>
+            )}
+
             {/* Rewards */}
             <div className="bg-gray-900 rounded-lg p-4">
               <h4 className="text-sm font-semibold text-gray-400 mb-2">Rewards</h4>
@@ -393,7 +1029,7 @@ export default function QuestPage() {
         </div>
 
         {/* Action Buttons */}
-        {client && quest.status === 'active' && (
+        {client && (quest.status === 'open' || quest.status === 'in_progress') && (
           <div className="p-4 border-t border-gray-800">
             <div className="space-y-3">
               {!isParticipant ? (
@@ -406,13 +1042,41 @@ export default function QuestPage() {
                 </Button>
               ) : (
                 <div className="space-y-2">
-                  <Button
-                    onClick={handleCompleteQuest}
-                    disabled={actionLoading}
-                    className="w-full bg-green-600 hover:bg-green-700"
-                  >
-                    {actionLoading ? 'Completing...' : 'Complete Quest 🏆'}
-                  </Button>
+                  {quest.config.proof && !hasQuestions && !hasGame && quest.config.vote?.subject !== 'options' && quest.type !== 'gallery' && (
+                    <div className="text-sm text-gray-300">
+                      📎 {quest.config.proof.instructions || 'Submit your proof to complete this quest'}
+                    </div>
+                  )}
+                  {quest.config.proof && !hasQuestions && !hasGame && quest.config.vote?.subject !== 'options' && quest.type !== 'gallery' && PROOF_PLACEHOLDERS[quest.config.proof.type] && (
+                    <input
+                      type="text"
+                      value={proofValue}
+                      onChange={(e) => setProofValue(e.target.value)}
+                      placeholder={PROOF_PLACEHOLDERS[quest.config.proof.type]}
+                      className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500"
+                    />
+                  )}
+                  {submission && (
+                    <div className={`text-sm ${
+                      submission.status === 'verified' ? 'text-green-400'
+                        : submission.status === 'pending' ? 'text-yellow-400'
+                        : 'text-red-400'
+                    }`}>
+                      {submission.status === 'verified' && '✅ Proof accepted'}
+                      {submission.status === 'pending' && `⏳ ${submission.reason || 'Waiting for verification'}`}
+                      {submission.status === 'rejected' && `❌ ${submission.reason || 'Proof rejected'}`}
+                    </div>
+                  )}
+                  {/* Knowledge quests complete by answering their questions, polls by voting, galleries by uploading, games by playing */}
+                  {!hasQuestions && !hasGame && quest.config.vote?.subject !== 'options' && quest.type !== 'gallery' && (
+                    <Button
+                      onClick={handleCompleteQuest}
+                      disabled={actionLoading || quest.status !== 'in_progress' || submission?.status === 'pending'}
+                      className="w-full bg-green-600 hover:bg-green-700"
+                    >
+                      {actionLoading ? 'Submitting...' : 'Submit Completion 🏆'}
+                    </Button>
+                  )}
                   <Button
                     onClick={handleLeaveQuest}
                     disabled={actionLoading}
@@ -441,6 +1105,24 @@ export default function QuestPage() {
             </div>
           </div>
         )}
+
+        {quest.status === 'cancelled' && (
+          <div className="p-4 border-t border-gray-800">
+            <div className="text-center text-red-400 font-semibold">
+              🚫 Quest Cancelled
+            </div>
+          </div>
+        )}
+
+        {(quest.status === 'paused' || quest.status === 'judging' || quest.status === 'scheduled') && (
+          <div className="p-4 border-t border-gray-800">
+            <div className="text-center text-yellow-400 font-semibold">
+              {quest.status === 'paused' && '⏸️ Quest Paused'}
+              {quest.status === 'judging' && (quest.config.vote ? '🗳️ Voting in Progress' : '⚖️ Judging in Progress')}
+              {quest.status === 'scheduled' && '🗓️ Registration Opens Soon'}
+            </div>
+          </div>
+        )}
       </div>
     </SafeAreaContainer>
   );
@@ -0,0 +1,367 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type GalleryEntryKind = "image" | "text" | "link";
+type UploadKind = Exclude<GalleryEntryKind, "link">;
+
+interface GalleryEntry {
+  id: string;
+  inboxId: string;
+  kind: GalleryEntryKind;
+  url?: string;
+  text?: string;
+  caption?: string;
+  status: "pending" | "verified" | "rejected";
+  reason?: string;
+  submittedAt: string;
+  reactions: Record<string, number>;
+  reacted: string[];
+  votes?: number;
+  rank?: number;
+}
+
+interface GalleryView {
+  questId: string;
+  status: string;
+  accepts: UploadKind[];
+  open: boolean;
+  reactions: string[];
+  entries: GalleryEntry[];
+  winners: GalleryEntry[];
+}
+
+interface ReactionChange {
+  questId: string;
+  submissionId: string;
+  inboxId: string;
+  emoji: string;
+  reacted: boolean;
+  reactions: Record<string, number>;
+}
+
+// The quest page's vote on the entries, when the group decides the winners
+export interface GalleryVote {
+  open: boolean;
+  rankedChoice: boolean;
+  picks: string[]; // entry IDs the viewer voted for, in order of preference
+}
+
+interface GalleryMiniAppProps {
+  questId: string;
+  inboxId?: string;
+  canEnter: boolean; // whether the viewer joined the quest
+  vote?: GalleryVote;
+  onVote?: (entryId: string) => void;
+}
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL || "ws://localhost:3001";
+const API_SECRET = process.env.NEXT_PUBLIC_API_SECRET || "xmtp-social-quest-arena-secret-key-2024";
+
+const IMAGE_TYPES = "image/png,image/jpeg,image/gif,image/webp";
+const MEDALS = ["🥇", "🥈", "🥉"];
+
+// Events after which the whole gallery is fetched again
+const REFRESH_EVENTS = ["galleryUpdated", "questStatusChanged", "questJudged", "voteClosed", "voteTally"];
+
+const shortInboxId = (inboxId: string) => `${inboxId.slice(0, 6)}...${inboxId.slice(-4)}`;
+
+/**
+ * Gallery mini app for creative quests: participants upload an image or a
+ * piece of writing as their entry, everyone browses and reacts to the
+ * entries, and the winners are shown on top once the quest closes.
+ */
+export function GalleryMiniApp({ questId, inboxId, canEnter, vote, onVote }: GalleryMiniAppProps) {
+  const [gallery, setGallery] = useState<GalleryView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [uploadKind, setUploadKind] = useState<UploadKind>("image");
+  const [file, setFile] = useState<File | null>(null);
+  const [caption, setCaption] = useState("");
+  const [text, setText] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const [uploadMessage, setUploadMessage] = useState<string | null>(null);
+
+  const fetchGallery = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/quests/${questId}/gallery?inboxId=${inboxId ?? ""}`, {
+        headers: { "x-api-secret": API_SECRET },
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to load gallery: ${response.status}`);
+      }
+      const data: GalleryView = await response.json();
+      setGallery(data);
+      setUploadKind(previous => (data.accepts.includes(previous) ? previous : data.accepts[0] ?? previous));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [questId, inboxId]);
+
+  useEffect(() => {
+    void fetchGallery();
+  }, [fetchGallery]);
+
+  // Reactions are patched in place; anything else reloads the gallery
+  useEffect(() => {
+    const websocket = new WebSocket(WS_URL);
+    websocket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.data?.questId !== questId) return;
+        if (message.type === "galleryReaction") {
+          const change: ReactionChange = message.data;
+          setGallery(previous => previous && {
+            ...previous,
+            entries: previous.entries.map(entry =>
+              entry.id !== change.submissionId ? entry : {
+                ...entry,
+                reactions: change.reactions,
+                reacted: change.inboxId !== inboxId
+                  ? entry.reacted
+                  : change.reacted
+                    ? [...entry.reacted.filter(emoji => emoji !== change.emoji), change.emoji]
+                    : entry.reacted.filter(emoji => emoji !== change.emoji),
+              }
+            ),
+          });
+        } else if (REFRESH_EVENTS.includes(message.type)) {
+          void fetchGallery();
+        }
+      } catch (err) {
+        console.error("Error parsing WebSocket message:", err);
+      }
+    };
+    return () => websocket.close();
+  }, [questId, inboxId, fetchGallery]);
+
+  const handleUpload = async () => {
+    if (!inboxId) return;
+    const body = uploadKind === "image" ? file : text.trim();
+    if (!body) return;
+
+    setUploading(true);
+    setUploadMessage(null);
+    try {
+      const params = new URLSearchParams({ inboxId });
+      if (uploadKind === "image" && caption.trim()) params.set("caption", caption.trim());
+
+      const response = await fetch(`${API_BASE_URL}/api/quests/${questId}/gallery?${params.toString()}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": uploadKind === "image" && file ? file.type : "text/plain",
+          "x-api-secret": API_SECRET,
+        },
+        body,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setUploadMessage(data.error || "Upload failed");
+        return;
+      }
+      setUploadMessage(data.status === "verified" ? "Your entry is in the gallery! 🎉" : data.message);
+      setFile(null);
+      setCaption("");
+      setText("");
+      await fetchGallery();
+    } catch (err) {
+      setUploadMessage(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleReact = async (entryId: string, emoji: string) => {
+    if (!inboxId) return;
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/gallery/${entryId}/reactions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-secret": API_SECRET,
+        },
+        body: JSON.stringify({ inboxId, emoji }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || "Failed to react");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to react");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+
+  if (!gallery) {
+    return <div className="bg-gray-900 rounded-lg p-4 text-center text-red-400 text-sm">{error}</div>;
+  }
+
+  const ownEntries = gallery.entries.filter(entry => entry.inboxId === inboxId);
+  const hasEntered = ownEntries.some(entry => entry.status !== "rejected");
+  const canUpload = Boolean(inboxId) && canEnter && gallery.open && gallery.accepts.length > 0 && !hasEntered;
+
+  const renderContent = (entry: GalleryEntry) => {
+    switch (entry.kind) {
+      case "image":
+        return (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={entry.url} alt={entry.caption || "Gallery entry"} className="w-full rounded-md object-cover max-h-80 bg-gray-800" />
+        );
+      case "text":
+        return <p className="text-gray-200 text-sm whitespace-pre-wrap break-words">{entry.text}</p>;
+      case "link":
+        return (
+          <a href={entry.url} target="_blank" rel="noopener noreferrer" className="text-purple-400 text-sm break-all underline">
+            {entry.url}
+          </a>
+        );
+    }
+  };
+
+  const renderEntry = (entry: GalleryEntry) => {
+    const isOwn = entry.inboxId === inboxId;
+    const place = vote ? vote.picks.indexOf(entry.id) : -1;
+    return (
+      <div
+        key={entry.id}
+        className={`rounded-lg p-3 space-y-2 border ${isOwn ? "bg-purple-900/30 border-purple-500" : "bg-gray-800 border-gray-700"}`}
+      >
+        {renderContent(entry)}
+        {entry.caption && <p className="text-gray-300 text-sm">{entry.caption}</p>}
+        <div className="flex items-center justify-between text-xs text-gray-400">
+          <span>
+            {entry.rank !== undefined && `${MEDALS[entry.rank - 1] ?? `#${entry.rank}`} `}
+            {isOwn ? "You" : shortInboxId(entry.inboxId)}
+          </span>
+          {entry.votes !== undefined && <span>🗳️ {entry.votes}</span>}
+        </div>
+
+        {entry.status !== "verified" ? (
+          <p className={`text-xs ${entry.status === "rejected" ? "text-red-400" : "text-yellow-400"}`}>
+            {entry.status === "rejected" ? "❌ Rejected" : "⏳ Waiting for review"}{entry.reason ? `: ${entry.reason}` : ""}
+          </p>
+        ) : (
+          <div className="flex flex-wrap items-center gap-1">
+            {gallery.reactions.map(emoji => {
+              const count = entry.reactions[emoji] ?? 0;
+              const mine = entry.reacted.includes(emoji);
+              return (
+                <button
+                  key={emoji}
+                  onClick={() => void handleReact(entry.id, emoji)}
+                  disabled={!inboxId}
+                  className={`rounded-full px-2 py-0.5 text-xs border ${
+                    mine ? "border-purple-500 bg-purple-900/60 text-white" : "border-gray-700 text-gray-300"
+                  } disabled:opacity-60`}
+                >
+                  {emoji}{count > 0 ? ` ${count}` : ""}
+                </button>
+              );
+            })}
+            {vote?.open && onVote && !isOwn && (
+              <button
+                onClick={() => onVote(entry.id)}
+                className={`ml-auto rounded-md px-2 py-0.5 text-xs font-medium ${
+                  place >= 0 ? "bg-purple-600 text-white" : "bg-gray-700 text-gray-200"
+                }`}
+              >
+                {place >= 0 ? (vote.rankedChoice ? `#${place + 1}` : "Voted ✓") : "Vote"}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {/* Winners */}
+      {gallery.winners.length > 0 && (
+        <div className="bg-gray-900 rounded-lg p-4 space-y-3">
+          <h4 className="text-sm font-semibold text-yellow-400">🏆 Winning entries</h4>
+          {gallery.winners.map(renderEntry)}
+        </div>
+      )}
+
+      {/* Upload */}
+      {canUpload && (
+        <div className="bg-gray-900 rounded-lg p-4 space-y-2">
+          <h4 className="text-sm font-semibold text-gray-400">Add your entry</h4>
+          {gallery.accepts.length > 1 && (
+            <div className="grid grid-cols-2 gap-1">
+              {gallery.accepts.map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setUploadKind(kind)}
+                  className={`rounded-md py-1 text-xs font-medium ${
+                    uploadKind === kind ? "bg-purple-600 text-white" : "text-gray-400 hover:bg-gray-800"
+                  }`}
+                >
+                  {kind === "image" ? "🖼️ Image" : "✍️ Writing"}
+                </button>
+              ))}
+            </div>
+          )}
+          {uploadKind === "image" ? (
+            <>
+              <input
+                type="file"
+                accept={IMAGE_TYPES}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="w-full text-sm text-gray-300 file:mr-3 file:rounded-md file:border-0 file:bg-gray-700 file:px-3 file:py-1 file:text-white"
+              />
+              <input
+                type="text"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                placeholder="Caption (optional)"
+                className="w-full rounded-lg bg-gray-800 border border-gray-700 p-2 text-white text-sm"
+              />
+            </>
+          ) : (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Write your entry"
+              rows={4}
+              className="w-full rounded-lg bg-gray-800 border border-gray-700 p-2 text-white text-sm"
+            />
+          )}
+          <button
+            onClick={() => void handleUpload()}
+            disabled={uploading || (uploadKind === "image" ? !file : !text.trim())}
+            className="w-full rounded-md py-2 text-sm font-medium bg-purple-600 hover:bg-purple-700 text-white disabled:bg-gray-600"
+          >
+            {uploading ? "Uploading..." : "Submit Entry 🎨"}
+          </button>
+        </div>
+      )}
+      {uploadMessage && <p className="text-sm text-gray-300">{uploadMessage}</p>}
+
+      {/* Entries */}
+      {gallery.entries.length === 0 ? (
+        <div className="bg-gray-900 rounded-lg p-4 text-center text-gray-400 text-sm">
+          {gallery.open ? "No entries yet. Be the first!" : "This gallery has no entries."}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {gallery.entries.map(renderEntry)}
+        </div>
+      )}
+    </div>
+  );
+}
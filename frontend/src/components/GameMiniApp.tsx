@@ -0,0 +1,212 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  GAME_MODULES,
+  getGameBoard,
+  type GameOverview,
+  type GameSubmission,
+  type GameTurnResult,
+  type GameView,
+} from "@/components/games";
+
+interface GameMiniAppProps {
+  questId: string;
+  inboxId?: string;
+  canPlay: boolean; // whether the viewer joined the quest while it is running
+  onSubmission?: (submission: GameSubmission) => void;
+}
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL || "ws://localhost:3001";
+const API_SECRET = process.env.NEXT_PUBLIC_API_SECRET || "xmtp-social-quest-arena-secret-key-2024";
+
+const MEDALS = ["🥇", "🥈", "🥉"];
+
+const shortInboxId = (inboxId: string) => `${inboxId.slice(0, 6)}...${inboxId.slice(-4)}`;
+
+/**
+ * Game mini app: deals the quest's game, hands each move to the server and
+ * renders the board of the game being played from the game registry. A
+ * finished game is the participant's proof; the server tells whether its
+ * score completes the quest.
+ */
+export function GameMiniApp({ questId, inboxId, canPlay, onSubmission }: GameMiniAppProps) {
+  const [overview, setOverview] = useState<GameOverview | null>(null);
+  const [session, setSession] = useState<GameView | null>(null);
+  const [lastTurn, setLastTurn] = useState<GameTurnResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGame = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/quests/${questId}/game?inboxId=${inboxId ?? ""}`, {
+        headers: { "x-api-secret": API_SECRET },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to load game: ${response.status}`);
+      }
+      setOverview(data);
+      setSession(data.session ?? null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [questId, inboxId]);
+
+  useEffect(() => {
+    void fetchGame();
+  }, [fetchGame]);
+
+  // Keep the scoreboard live as other players finish
+  useEffect(() => {
+    const websocket = new WebSocket(WS_URL);
+    websocket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === "gameScoreboard" && message.data?.questId === questId) {
+          setOverview(previous => previous && { ...previous, scoreboard: message.data.scoreboard });
+        }
+      } catch (err) {
+        console.error("Error parsing WebSocket message:", err);
+      }
+    };
+    return () => websocket.close();
+  }, [questId]);
+
+  // Send a request for the current game and take the server's view of it
+  const play = useCallback(async (path: string, body: Record<string, unknown>) => {
+    if (!inboxId) return;
+    setBusy(true);
+    try {
+      const response = await fetch(`${API_BASE_URL}${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-secret": API_SECRET,
+        },
+        body: JSON.stringify({ inboxId, ...body }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setLastTurn({ correct: false, points: 0, feedback: data.error || "Move not accepted" });
+        return;
+      }
+      const game: GameView = data.game;
+      setSession(game);
+      setLastTurn(data.turn ?? null);
+      if (game.submission) {
+        onSubmission?.(game.submission);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  }, [inboxId, onSubmission]);
+
+  const handleStart = () => {
+    setLastTurn(null);
+    void play(`/api/quests/${questId}/game`, {});
+  };
+
+  const handleTurn = useCallback((move: string) => {
+    if (!session) return;
+    void play(`/api/games/${session.sessionId}/turns`, { move });
+  }, [play, session]);
+
+  const handleFinish = useCallback(() => {
+    if (!session) return;
+    void play(`/api/games/${session.sessionId}/finish`, {});
+  }, [play, session]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+      </div>
+    );
+  }
+  if (error || !overview) {
+    return <div className="bg-gray-900 rounded-lg p-4 text-center text-red-400 text-sm">{error}</div>;
+  }
+
+  const playing = session?.status === "playing" ? session : null;
+  const finished = session?.status === "finished" ? session : null;
+  const completed = finished?.submission?.status === "verified";
+  const Board = playing ? getGameBoard(playing.state) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-900 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-white font-semibold">{GAME_MODULES[overview.game].icon} {overview.title}</h4>
+          {playing && (
+            <span className="text-yellow-400 font-bold text-sm">
+              {playing.score}{playing.maxScore !== undefined ? `/${playing.maxScore}` : ""} pts
+            </span>
+          )}
+        </div>
+
+        {playing && Board ? (
+          <>
+            <Board view={playing.state} busy={busy} lastTurn={lastTurn} onTurn={handleTurn} onFinish={handleFinish} />
+            <button
+              onClick={handleFinish}
+              disabled={busy}
+              className="w-full text-xs text-gray-500 hover:text-gray-300 disabled:opacity-50"
+            >
+              End game and submit {playing.score} pts
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-300">{overview.rules}</p>
+            <p className="text-xs text-gray-400">Score {overview.passingScore} or more to complete the quest.</p>
+            {finished && (
+              <div className={`text-sm ${completed ? "text-green-400" : "text-red-400"}`}>
+                {completed
+                  ? `🎉 ${finished.score} pts, quest complete!`
+                  : `${finished.score} pts, ${overview.passingScore} needed. Try again!`}
+              </div>
+            )}
+            {canPlay && inboxId && !completed && (
+              <button
+                onClick={handleStart}
+                disabled={busy}
+                className="w-full rounded-lg py-2 font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+              >
+                {busy ? "Dealing..." : finished ? "Play again" : "Start game"}
+              </button>
+            )}
+            {lastTurn && !lastTurn.correct && !playing && (
+              <p className="text-sm text-red-400">{lastTurn.feedback}</p>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Scoreboard */}
+      {overview.scoreboard.length > 0 && (
+        <div className="bg-gray-900 rounded-lg p-4">
+          <h4 className="text-sm font-semibold text-gray-400 mb-2">Best scores</h4>
+          <ul className="space-y-1">
+            {overview.scoreboard.map((score, index) => (
+              <li key={score.inboxId} className="flex items-center justify-between text-sm">
+                <span className={score.inboxId === inboxId ? "text-purple-300 font-semibold" : "text-gray-200"}>
+                  {MEDALS[index] ?? `#${index + 1}`} {score.inboxId === inboxId ? "You" : shortInboxId(score.inboxId)}
+                  {score.passed && <span className="ml-1">✅</span>}
+                </span>
+                <span className="text-yellow-400 font-bold">{score.score} pts</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
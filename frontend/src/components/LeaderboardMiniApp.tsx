@@ -0,0 +1,329 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+type LeaderboardScope = "conversation" | "global";
+export type LeaderboardWindow = "day" | "week" | "season" | "all";
+export type LeaderboardMetric = "xp" | "social" | "completions";
+
+interface LeaderboardEntry {
+  rank: number;
+  inboxId: string;
+  score: number;
+  xp: number;
+  socialScore: number;
+  completions: number;
+  level: number;
+}
+
+interface LeaderboardPage {
+  scope: LeaderboardScope;
+  window: LeaderboardWindow;
+  metric: LeaderboardMetric;
+  since?: string;
+  season?: { id: string; name: string; endsAt: string };
+  total: number;
+  entries: LeaderboardEntry[];
+  nextCursor?: string;
+  me?: LeaderboardEntry;
+}
+
+interface LeaderboardMiniAppProps {
+  conversationId: string;
+  inboxId?: string;
+  metric?: LeaderboardMetric;
+  timeframe?: LeaderboardWindow;
+}
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL || "ws://localhost:3001";
+const API_SECRET = process.env.NEXT_PUBLIC_API_SECRET || "xmtp-social-quest-arena-secret-key-2024";
+
+const PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100; // most entries the API returns at once
+const MOVE_HIGHLIGHT_MS = 4000;
+
+const WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: "day", label: "Today" },
+  { value: "week", label: "Week" },
+  { value: "season", label: "Season" },
+  { value: "all", label: "All time" },
+];
+
+const METRIC_UNITS: Record<LeaderboardMetric, string> = {
+  xp: "XP",
+  social: "social",
+  completions: "quests",
+};
+
+const MEDALS = ["🥇", "🥈", "🥉"];
+
+const shortInboxId = (inboxId: string) => `${inboxId.slice(0, 6)}...${inboxId.slice(-4)}`;
+
+/**
+ * Leaderboard mini app: a podium for the top three, ranked rows below it and
+ * the viewer's own row highlighted, or pinned at the bottom when it is not
+ * loaded. Refreshes whenever the server reports a score change, marking
+ * players who moved up or down.
+ */
+export function LeaderboardMiniApp({
+  conversationId,
+  inboxId,
+  metric = "xp",
+  timeframe: initialTimeframe = "week",
+}: LeaderboardMiniAppProps) {
+  const [scope, setScope] = useState<LeaderboardScope>("conversation");
+  const [timeframe, setTimeframe] = useState<LeaderboardWindow>(initialTimeframe);
+  const [board, setBoard] = useState<LeaderboardPage | null>(null);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  // Places gained (positive) or lost since the last refresh; "new" for players who just made the board
+  const [moves, setMoves] = useState<Record<string, number | "new">>({});
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ranks from the previous refresh, to tell who moved
+  const previousRanks = useRef<Map<string, number>>(new Map());
+  const loadedCount = useRef(PAGE_SIZE);
+
+  const fetchPage = useCallback(async (limit: number, cursor?: string): Promise<LeaderboardPage> => {
+    const params = new URLSearchParams({ scope, window: timeframe, metric, limit: String(limit) });
+    if (scope === "conversation") params.set("conversationId", conversationId);
+    if (inboxId) params.set("inboxId", inboxId);
+    if (cursor) params.set("cursor", cursor);
+
+    const response = await fetch(`${API_BASE_URL}/api/leaderboard?${params.toString()}`, {
+      headers: { "x-api-secret": API_SECRET },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to load leaderboard: ${response.status}`);
+    }
+    return response.json();
+  }, [scope, timeframe, metric, conversationId, inboxId]);
+
+  // Reload every loaded row and work out who moved since the last load
+  const refresh = useCallback(async (trackMoves: boolean) => {
+    try {
+      const page = await fetchPage(Math.min(MAX_PAGE_SIZE, Math.max(PAGE_SIZE, loadedCount.current)));
+      const ranks = new Map(page.entries.map(entry => [entry.inboxId, entry.rank]));
+
+      if (trackMoves) {
+        const changed: Record<string, number | "new"> = {};
+        for (const entry of page.entries) {
+          const before = previousRanks.current.get(entry.inboxId);
+          if (before === undefined) {
+            changed[entry.inboxId] = "new";
+          } else if (before !== entry.rank) {
+            changed[entry.inboxId] = before - entry.rank;
+          }
+        }
+        setMoves(changed);
+      }
+
+      previousRanks.current = ranks;
+      loadedCount.current = page.entries.length;
+      setBoard(page);
+      setEntries(page.entries);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchPage]);
+
+  // Start over whenever the filters change
+  useEffect(() => {
+    setLoading(true);
+    setMoves({});
+    previousRanks.current = new Map();
+    loadedCount.current = PAGE_SIZE;
+    void refresh(false);
+  }, [refresh]);
+
+  // Fade the movement arrows out a while after a refresh
+  useEffect(() => {
+    if (Object.keys(moves).length === 0) return;
+    const timeout = setTimeout(() => setMoves({}), MOVE_HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [moves]);
+
+  // Refresh when a score that counts for this board changes
+  useEffect(() => {
+    const websocket = new WebSocket(WS_URL);
+    websocket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === "leaderboardUpdated") {
+          // Conversation boards only count quests completed in their conversation
+          if (scope === "conversation" && message.data?.conversationId !== conversationId) return;
+          void refresh(true);
+        } else if (message.type === "seasonStarted" || message.type === "seasonEnded") {
+          void refresh(false);
+        }
+      } catch (err) {
+        console.error("Error parsing WebSocket message:", err);
+      }
+    };
+    return () => websocket.close();
+  }, [refresh, scope, conversationId]);
+
+  const loadMore = async () => {
+    if (!board?.nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(PAGE_SIZE, board.nextCursor);
+      setEntries(previous => [...previous, ...page.entries]);
+      setBoard(page);
+      for (const entry of page.entries) {
+        previousRanks.current.set(entry.inboxId, entry.rank);
+      }
+      loadedCount.current += page.entries.length;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const unit = METRIC_UNITS[metric];
+  const podium = entries.filter(entry => entry.rank <= 3).slice(0, 3);
+  // Second place on the left, first in the middle, third on the right
+  const podiumOrder = [podium[1], podium[0], podium[2]].filter((entry): entry is LeaderboardEntry => Boolean(entry));
+  const rows = entries.slice(podium.length);
+  const me = board?.me;
+  const meLoaded = me ? entries.some(entry => entry.inboxId === me.inboxId) : false;
+
+  const renderMove = (entry: LeaderboardEntry) => {
+    const move = moves[entry.inboxId];
+    if (move === undefined) return null;
+    if (move === "new") return <span className="text-xs text-green-400 ml-1">▲ new</span>;
+    return move > 0
+      ? <span className="text-xs text-green-400 ml-1">▲{move}</span>
+      : <span className="text-xs text-red-400 ml-1">▼{-move}</span>;
+  };
+
+  const renderRow = (entry: LeaderboardEntry, pinned = false) => {
+    const isMe = entry.inboxId === inboxId;
+    return (
+      <li
+        key={pinned ? `me-${entry.inboxId}` : entry.inboxId}
+        className={`flex items-center justify-between rounded-md px-3 py-2 text-sm transition-colors duration-500 ${
+          isMe ? "bg-purple-900/60 border border-purple-500" : "bg-gray-800"
+        }`}
+      >
+        <span className="flex items-center gap-2">
+          <span className="w-8 text-gray-400 font-mono">#{entry.rank}</span>
+          <span className={isMe ? "text-purple-300 font-semibold" : "text-gray-200"}>
+            {isMe ? "You" : shortInboxId(entry.inboxId)}
+          </span>
+          <span className="text-xs text-gray-500">Lv {entry.level}</span>
+          {renderMove(entry)}
+        </span>
+        <span className="text-yellow-400 font-bold">{entry.score} {unit}</span>
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="bg-gray-900 rounded-lg p-2 space-y-2">
+        <div className="grid grid-cols-4 gap-1">
+          {WINDOWS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setTimeframe(option.value)}
+              className={`rounded-md py-1 text-xs font-medium ${
+                timeframe === option.value ? "bg-purple-600 text-white" : "text-gray-400 hover:bg-gray-800"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          {(["conversation", "global"] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setScope(option)}
+              className={`rounded-md py-1 text-xs font-medium ${
+                scope === option ? "bg-gray-700 text-white" : "text-gray-400 hover:bg-gray-800"
+              }`}
+            >
+              {option === "conversation" ? "This group" : "Everyone"}
+            </button>
+          ))}
+        </div>
+        {board?.season && timeframe === "season" && (
+          <p className="text-center text-xs text-gray-400">
+            {board.season.name} ends {new Date(board.season.endsAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-gray-900 rounded-lg p-4 text-center text-red-400 text-sm">{error}</div>
+      ) : entries.length === 0 ? (
+        <div className="bg-gray-900 rounded-lg p-4 text-center text-gray-400 text-sm">
+          {timeframe === "season" && !board?.season ? "No season is running right now." : "Nobody has scored yet. Be the first!"}
+        </div>
+      ) : (
+        <>
+          {/* Podium */}
+          <div className="flex items-end justify-center gap-2">
+            {podiumOrder.map(entry => {
+              const isMe = entry.inboxId === inboxId;
+              const height = entry.rank === 1 ? "h-28" : entry.rank === 2 ? "h-20" : "h-14";
+              return (
+                <div key={entry.inboxId} className="flex-1 flex flex-col items-center">
+                  <div className="text-3xl">{MEDALS[entry.rank - 1]}</div>
+                  <p className={`text-xs truncate max-w-full ${isMe ? "text-purple-300 font-semibold" : "text-gray-200"}`}>
+                    {isMe ? "You" : shortInboxId(entry.inboxId)}
+                    {renderMove(entry)}
+                  </p>
+                  <p className="text-xs text-yellow-400 font-bold mb-1">{entry.score} {unit}</p>
+                  <div
+                    className={`w-full ${height} rounded-t-md flex items-start justify-center pt-1 text-lg font-bold text-white ${
+                      isMe ? "bg-purple-600" : "bg-gray-700"
+                    }`}
+                  >
+                    {entry.rank}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Rankings */}
+          {rows.length > 0 && (
+            <ul className="space-y-1">
+              {rows.map(entry => renderRow(entry))}
+            </ul>
+          )}
+
+          {board?.nextCursor && (
+            <button
+              onClick={() => void loadMore()}
+              disabled={loadingMore}
+              className="w-full rounded-md py-2 text-sm text-gray-300 bg-gray-900 hover:bg-gray-800 disabled:opacity-50"
+            >
+              {loadingMore ? "Loading..." : `Show more (${board.total - entries.length} left)`}
+            </button>
+          )}
+
+          {/* The viewer's own rank when it is further down */}
+          {me && !meLoaded && (
+            <ul className="pt-2 border-t border-gray-800">
+              {renderRow(me, true)}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -28,20 +28,103 @@ interface Quest {
     };
   };
   conversationId: string;
-  status: "active" | "completed" | "expired";
+  status:
+    | "draft"
+    | "scheduled"
+    | "open"
+    | "in_progress"
+    | "paused"
+    | "judging"
+    | "completed"
+    | "expired"
+    | "cancelled";
   participants: string[];
   createdAt: string;
   expiresAt: string;
 }
 
+interface Badge {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  rarity: "common" | "uncommon" | "rare" | "epic" | "legendary";
+}
+
+interface EarnedBadge extends Badge {
+  earnedAt: string;
+  questId?: string;
+}
+
+interface AchievementProgress {
+  badge: Badge;
+  earned?: { earnedAt: string };
+  progress: number;
+  target: number;
+}
+
+interface LevelProgress {
+  level: number;
+  xp: number;
+  levelXp: number;
+  nextLevelXp?: number;
+  progress: number;
+}
+
+interface StreakStatus {
+  days: number;
+  bestDays: number;
+  weeks: number;
+  bestWeeks: number;
+  freezeTokens: number;
+  multiplier: number;
+  activeToday: boolean;
+  atRisk: boolean;
+}
+
+interface SeasonPlacement {
+  season: {
+    id: string;
+    name: string;
+    startsAt: string;
+    endsAt: string;
+  };
+  xp: number;
+  questsCompleted: number;
+  rank?: number;
+}
+
 interface UserStats {
   level: number;
   xp: number;
   questsCompleted: number;
   socialScore: number;
   lastActive: string;
+  levelProgress?: LevelProgress;
+  streak?: StreakStatus;
+  season?: SeasonPlacement;
+  badges?: EarnedBadge[];
+  achievements?: AchievementProgress[];
 }
 
+// Time left until a date, e.g. "3d 04h 12m 09s"
+const formatCountdown = (until: string, now: number): string => {
+  const total = Math.max(0, Math.floor((new Date(until).getTime() - now) / 1000));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  return `${days}d ${pad(hours)}h ${pad(minutes)}m ${pad(total % 60)}s`;
+};
+
+const RARITY_COLORS: Record<Badge["rarity"], string> = {
+  common: "border-gray-500 text-gray-300",
+  uncommon: "border-green-500 text-green-300",
+  rare: "border-blue-500 text-blue-300",
+  epic: "border-purple-500 text-purple-300",
+  legendary: "border-yellow-500 text-yellow-300",
+};
+
 interface QuestMaster {
   name: string;
   description: string;
@@ -89,6 +172,7 @@ export default function QuestDashboard() {
       style: "adventurous"
     }
   ]);
+  const [now, setNow] = useState(() => Date.now());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [ws, setWs] = useState<WebSocket | null>(null);
@@ -155,11 +239,47 @@ export default function QuestDashboard() {
               });
               console.log("🎯 New quest available!");
               break;
-            case "questCompleted":
-              setActiveQuests(prev => 
-                prev.filter(quest => quest.id !== message.data.questId)
+            case "participantCompleted":
+              // Refresh user stats after completing a quest
+              if (message.data.inboxId === client.inboxId) {
+                void fetchUserStats();
+              }
+              break;
+            case "questStatusChanged":
+              setActiveQuests(prev =>
+                ["completed", "expired", "cancelled"].includes(message.data.to)
+                  ? prev.filter(quest => quest.id !== message.data.questId)
+                  : prev.map(quest =>
+                      quest.id === message.data.questId
+                        ? { ...quest, status: message.data.to }
+                        : quest
+                    )
               );
-              // Refresh user stats after quest completion
+              break;
+            case "badgeEarned":
+              if (message.data.inboxId === client.inboxId) {
+                void fetchUserStats();
+              }
+              break;
+            case "levelUp":
+              if (message.data.inboxId === client.inboxId) {
+                setUserStats(prev => prev && {
+                  ...prev,
+                  level: message.data.to,
+                  xp: message.data.profile.xp,
+                  levelProgress: message.data.levelProgress,
+                });
+                console.log(`⭐ Reached level ${message.data.to}!`);
+              }
+              break;
+            case "streakUpdated":
+            case "streakAtRisk":
+              if (message.data.inboxId === client.inboxId) {
+                setUserStats(prev => prev && { ...prev, streak: message.data.status });
+              }
+              break;
+            case "seasonStarted":
+            case "seasonEnded":
               void fetchUserStats();
               break;
             case "userStats":
@@ -237,6 +357,13 @@ export default function QuestDashboard() {
     }
   }, [apiCall]);
 
+  // Tick the season countdown
+  useEffect(() => {
+    if (!userStats?.season) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [userStats?.season]);
+
   // Initial data fetch
   useEffect(() => {
     if (!client) return;
@@ -409,6 +536,28 @@ export default function QuestDashboard() {
         </p>
       </div>
 
+      {/* Season countdown */}
+      {userStats?.season && (
+        <div className="bg-gray-900 rounded-lg p-4 border border-yellow-600">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-bold text-white">🗓️ {userStats.season.season.name}</h3>
+              <p className="text-gray-400 text-xs">Ends in</p>
+              <p className="text-yellow-400 font-mono font-bold text-xl">
+                {formatCountdown(userStats.season.season.endsAt, now)}
+              </p>
+            </div>
+            <div className="text-right text-sm">
+              <div className="text-gray-300">Season XP</div>
+              <div className="text-yellow-400 font-bold text-lg">{userStats.season.xp}</div>
+              <div className="text-gray-400 text-xs">
+                {userStats.season.rank ? `Rank #${userStats.season.rank}` : "Unranked — complete a quest"}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* User Stats */}
       {userStats && (
         <div className="bg-gradient-to-r from-purple-900 to-blue-900 rounded-lg p-4 border border-purple-500">
@@ -439,6 +588,95 @@ export default function QuestDashboard() {
               <div className="text-pink-400 font-bold text-lg">{userStats.socialScore}</div>
             </div>
           </div>
+
+          {/* Progress to the next level */}
+          {userStats.levelProgress && (
+            <div className="mt-4 text-xs">
+              <div className="flex justify-between text-gray-300 mb-1">
+                <span>⭐ Level {userStats.levelProgress.level}</span>
+                <span>
+                  {userStats.levelProgress.nextLevelXp === undefined
+                    ? "Max level"
+                    : `${userStats.levelProgress.nextLevelXp - userStats.levelProgress.xp} XP to level ${userStats.levelProgress.level + 1}`}
+                </span>
+              </div>
+              <div className="w-full bg-gray-700 rounded-full h-2">
+                <div
+                  className="bg-yellow-400 h-2 rounded-full"
+                  style={{ width: `${Math.round(userStats.levelProgress.progress * 100)}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Streak */}
+          {userStats.streak && (
+            <div
+              className={`mt-4 rounded p-2 text-xs border ${
+                userStats.streak.atRisk ? "border-red-500 bg-red-900/20" : "border-orange-500/40 bg-orange-900/20"
+              }`}
+            >
+              <div className="flex justify-between text-gray-200">
+                <span className="font-semibold">
+                  🔥 {userStats.streak.days}-day streak · {userStats.streak.weeks} week(s)
+                </span>
+                <span className="text-orange-300">×{userStats.streak.multiplier} XP</span>
+              </div>
+              <div className="flex justify-between text-gray-400 mt-1">
+                <span>
+                  {userStats.streak.activeToday
+                    ? "✅ Today counted"
+                    : userStats.streak.atRisk
+                      ? "⚠️ Complete a quest today to keep it"
+                      : "Complete a quest to grow it"}
+                </span>
+                <span>🧊 {userStats.streak.freezeTokens} freeze(s) · best {userStats.streak.bestDays}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Badges */}
+          <div className="mt-4">
+            <h4 className="text-sm font-semibold text-gray-300 mb-2">🏅 Badges</h4>
+            {!userStats.badges || userStats.badges.length === 0 ? (
+              <p className="text-gray-400 text-xs">No badges yet. Complete a quest to earn your first!</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {userStats.badges.map((badge) => (
+                  <span
+                    key={badge.id}
+                    title={`${badge.description} (${badge.rarity})`}
+                    className={`text-xs px-2 py-1 rounded border bg-gray-900/40 ${RARITY_COLORS[badge.rarity]}`}
+                  >
+                    {badge.icon} {badge.name}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Achievements still to unlock */}
+          {userStats.achievements && userStats.achievements.some(a => !a.earned) && (
+            <div className="mt-4 space-y-2">
+              <h4 className="text-sm font-semibold text-gray-300">🔓 Achievements</h4>
+              {userStats.achievements
+                .filter(achievement => !achievement.earned)
+                .map(({ badge, progress, target }) => (
+                  <div key={badge.id} className="text-xs">
+                    <div className="flex justify-between text-gray-300 mb-1">
+                      <span>{badge.icon} {badge.name} — {badge.description}</span>
+                      <span>{progress}/{target}</span>
+                    </div>
+                    <div className="w-full bg-gray-700 rounded-full h-1.5">
+                      <div
+                        className="bg-purple-500 h-1.5 rounded-full"
+                        style={{ width: `${Math.round((progress / target) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -569,7 +807,7 @@ export default function QuestDashboard() {
                       {quest.participants.length} joined
                       {isParticipant && " • You're participating!"}
                     </span>
-                    {!isParticipant && timeRemaining > 0 && (
+                    {!isParticipant && timeRemaining > 0 && ["open", "in_progress"].includes(quest.status) && (
                       <button
                         onClick={() => joinQuest(quest)}
                         className="px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white text-xs rounded-full transition-colors"
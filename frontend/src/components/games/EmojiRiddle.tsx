@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import type { EmojiRiddleView, GameBoardProps } from "./types";
+
+/**
+ * Emoji riddle board: the emojis to decode, the kind of answer and the
+ * tries left on this riddle
+ */
+export function EmojiRiddleBoard({ view, busy, lastTurn, onTurn }: GameBoardProps<EmojiRiddleView>) {
+  const [guess, setGuess] = useState("");
+  const { riddle } = view;
+
+  if (!riddle) {
+    return <p className="text-center text-gray-400 text-sm">{view.solved}/{view.total} solved</p>;
+  }
+
+  const handleGuess = () => {
+    if (!guess.trim()) return;
+    onTurn(guess.trim());
+    setGuess("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>Riddle {riddle.number} of {view.total}</span>
+        <span>{riddle.triesLeft} {riddle.triesLeft === 1 ? "try" : "tries"} left</span>
+      </div>
+      <div className="text-center">
+        <p className="text-5xl">{riddle.emojis}</p>
+        <p className="text-xs text-gray-400 mt-2">{riddle.category}</p>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={guess}
+          onChange={(e) => setGuess(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleGuess()}
+          placeholder="Your guess"
+          disabled={busy}
+          className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500"
+        />
+        <button
+          onClick={handleGuess}
+          disabled={busy || !guess.trim()}
+          className="rounded-lg px-4 text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+        >
+          Guess
+        </button>
+      </div>
+      <button
+        onClick={() => onTurn("skip")}
+        disabled={busy}
+        className="w-full text-xs text-gray-400 hover:text-gray-200 disabled:opacity-50"
+      >
+        Skip this one
+      </button>
+      {lastTurn && (
+        <p className={`text-sm ${lastTurn.correct ? "text-green-400" : "text-red-400"}`}>{lastTurn.feedback}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { GameBoardProps, TriviaRaceView } from "./types";
+import { useCountdown } from "./useCountdown";
+
+const CHOICE_LETTERS = "ABCDEFGHIJ";
+
+/**
+ * Trivia race board: the current question with its clock. Running out of
+ * time passes the question, so the race keeps moving.
+ */
+export function TriviaRaceBoard({ view, busy, lastTurn, onTurn }: GameBoardProps<TriviaRaceView>) {
+  const { question } = view;
+  const secondsLeft = useCountdown(question?.deadline);
+  const timedOut = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!question || secondsLeft > 0 || busy || timedOut.current === question.number) return;
+    timedOut.current = question.number;
+    onTurn("");
+  }, [question, secondsLeft, busy, onTurn]);
+
+  if (!question) {
+    return <p className="text-center text-gray-400 text-sm">{view.correct}/{view.total} correct</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>Question {question.number} of {view.total}</span>
+        <span className={secondsLeft <= 5 ? "text-red-400 font-bold" : ""}>⏱️ {secondsLeft}s</span>
+      </div>
+      <p className="text-white font-medium">{question.prompt}</p>
+      <div className="grid grid-cols-1 gap-2">
+        {question.choices.map((choice, index) => (
+          <button
+            key={choice}
+            onClick={() => onTurn(CHOICE_LETTERS[index])}
+            disabled={busy || secondsLeft === 0}
+            className="text-left rounded-md px-3 py-2 text-sm bg-gray-800 text-gray-200 hover:bg-purple-700 disabled:opacity-50"
+          >
+            <span className="font-mono text-purple-300 mr-2">{CHOICE_LETTERS[index]}</span>
+            {choice}
+          </button>
+        ))}
+      </div>
+      {lastTurn && (
+        <p className={`text-sm ${lastTurn.correct ? "text-green-400" : "text-red-400"}`}>{lastTurn.feedback}</p>
+      )}
+    </div>
+  );
+}
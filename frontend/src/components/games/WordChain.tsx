@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { GameBoardProps, WordChainView } from "./types";
+import { useCountdown } from "./useCountdown";
+
+/**
+ * Word chain board: the chain so far, the letter to continue with and the
+ * clock. The game is submitted when the clock runs out.
+ */
+export function WordChainBoard({ view, busy, lastTurn, onTurn, onFinish }: GameBoardProps<WordChainView>) {
+  const [word, setWord] = useState("");
+  const secondsLeft = useCountdown(view.deadline);
+  const timedOut = useRef(false);
+
+  useEffect(() => {
+    if (secondsLeft > 0 || busy || timedOut.current) return;
+    timedOut.current = true;
+    onFinish();
+  }, [secondsLeft, busy, onFinish]);
+
+  const handleSubmit = () => {
+    if (!word.trim()) return;
+    onTurn(word.trim());
+    setWord("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>
+          Strikes {"❌".repeat(view.strikes)}{"⬜".repeat(Math.max(0, view.maxStrikes - view.strikes))}
+        </span>
+        <span className={secondsLeft <= 10 ? "text-red-400 font-bold" : ""}>⏱️ {secondsLeft}s</span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {view.words.map((chained, index) => (
+          <span
+            key={chained}
+            className={`rounded-md px-2 py-1 text-xs ${index === 0 ? "bg-gray-700 text-gray-300" : "bg-purple-900/60 text-purple-200"}`}
+          >
+            {chained}
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={word}
+          onChange={(e) => setWord(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+          placeholder={`A word starting with ${view.nextLetter.toUpperCase()}`}
+          disabled={busy || secondsLeft === 0}
+          autoFocus
+          className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={busy || secondsLeft === 0 || !word.trim()}
+          className="rounded-lg px-4 text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+        >
+          Chain
+        </button>
+      </div>
+      {lastTurn && (
+        <p className={`text-sm ${lastTurn.correct ? "text-green-400" : "text-red-400"}`}>{lastTurn.feedback}</p>
+      )}
+    </div>
+  );
+}
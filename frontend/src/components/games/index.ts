@@ -0,0 +1,21 @@
+import type { ComponentType } from "react";
+import { EmojiRiddleBoard } from "./EmojiRiddle";
+import { TriviaRaceBoard } from "./TriviaRace";
+import { WordChainBoard } from "./WordChain";
+import type { GameBoardProps, GameKind, GameModule, GameStateView } from "./types";
+
+export * from "./types";
+
+// Board of each game the server can deal, matching the backend's game registry
+export const GAME_MODULES: { [K in GameKind]: GameModule<Extract<GameStateView, { game: K }>> } = {
+  trivia_race: { icon: "⚡", Board: TriviaRaceBoard },
+  word_chain: { icon: "🔗", Board: WordChainBoard },
+  emoji_riddle: { icon: "🧩", Board: EmojiRiddleBoard },
+};
+
+/**
+ * Board for a game view. Views carry their game, so the board always matches
+ * the view it is given.
+ */
+export const getGameBoard = (view: GameStateView) =>
+  GAME_MODULES[view.game].Board as ComponentType<GameBoardProps<GameStateView>>;
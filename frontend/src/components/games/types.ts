@@ -0,0 +1,91 @@
+import type { ComponentType } from "react";
+
+export type GameKind = "trivia_race" | "word_chain" | "emoji_riddle";
+
+export interface TriviaRaceView {
+  game: "trivia_race";
+  question?: { number: number; prompt: string; choices: string[]; deadline: number };
+  total: number;
+  correct: number;
+}
+
+export interface WordChainView {
+  game: "word_chain";
+  words: string[];
+  nextLetter: string;
+  strikes: number;
+  maxStrikes: number;
+  deadline: number;
+}
+
+export interface EmojiRiddleView {
+  game: "emoji_riddle";
+  riddle?: { number: number; emojis: string; category: string; triesLeft: number };
+  total: number;
+  solved: number;
+}
+
+export type GameStateView = TriviaRaceView | WordChainView | EmojiRiddleView;
+
+export interface GameTurnResult {
+  correct: boolean;
+  points: number;
+  feedback: string;
+}
+
+export interface GameSubmission {
+  id: string;
+  status: "pending" | "verified" | "rejected";
+  reason?: string;
+}
+
+// A game as its player sees it; answers and scoring stay on the server
+export interface GameView {
+  sessionId: string;
+  questId: string;
+  game: GameKind;
+  title: string;
+  rules: string;
+  status: "playing" | "finished";
+  score: number;
+  maxScore?: number;
+  passingScore: number;
+  turns: number;
+  state: GameStateView;
+  submission?: GameSubmission;
+}
+
+export interface GameScore {
+  inboxId: string;
+  score: number;
+  games: number;
+  passed: boolean;
+}
+
+export interface GameOverview {
+  questId: string;
+  game: GameKind;
+  title: string;
+  rules: string;
+  maxScore?: number;
+  passingScore: number;
+  session?: GameView;
+  scoreboard: GameScore[];
+}
+
+/**
+ * What the game mini app hands each game board. Boards only render the
+ * server's view and report moves; the server grades them.
+ */
+export interface GameBoardProps<View extends GameStateView> {
+  view: View;
+  busy: boolean;
+  lastTurn: GameTurnResult | null;
+  onTurn: (move: string) => void;
+  onFinish: () => void; // end early, or when the clock runs out
+}
+
+export interface GameModule<View extends GameStateView> {
+  icon: string;
+  Board: ComponentType<GameBoardProps<View>>;
+}
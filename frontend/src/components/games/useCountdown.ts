@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+
+const TICK_MS = 250;
+
+/**
+ * Seconds left until a deadline (epoch milliseconds), updated a few times a
+ * second. The server enforces the deadline; this only drives the display.
+ */
+export function useCountdown(deadline: number | undefined): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (deadline === undefined) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return deadline === undefined ? 0 : Math.max(0, Math.ceil((deadline - now) / 1000));
+}